@@ -0,0 +1,172 @@
+import assert from "assert";
+
+import {
+    getAddress, zeroPadValue,
+    BaseContract, Contract, Indexed, Interface
+} from "../index.js";
+
+import type {
+    AbiEventSignature, AbiFunctionArgs, AbiFunctionName, AbiFunctionResult,
+    AbiFunctionSignature, Addressable, BigNumberish, ContractTransactionResponse,
+    IsTypedAbi, Result, Typed
+} from "../index.js";
+
+
+// Compile-time checks; fails to compile unless A and B are identical
+type Equals<A, B> = (<T>() => T extends A ? 1: 2) extends (<T>() => T extends B ? 1: 2) ? true: false;
+function expectType<T extends true>(): void { }
+
+const abi = [
+    "function balanceOf(address owner) view returns (uint256)",
+    "function transfer(address to, uint amount) returns (bool)",
+    "function getPair(uint id) view returns (tuple(address token, uint112 reserve)[] pairs, bytes32 hash)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Log(string indexed topic, string message)"
+] as const;
+
+const jsonAbi = [ {
+    type: "function", name: "balanceOf", stateMutability: "view",
+    inputs: [ { name: "owner", type: "address" } ],
+    outputs: [ { name: "", type: "uint256" } ]
+}, {
+    type: "event", name: "Transfer", anonymous: false,
+    inputs: [
+        { name: "from", type: "address", indexed: true },
+        { name: "to", type: "address", indexed: true },
+        { name: "value", type: "uint256", indexed: false }
+    ]
+} ] as const;
+
+const addr0 = getAddress("0x8617e340b3d01fa5f11f306f4090fd50e238070d");
+const addr1 = getAddress("0x5555763613a12d8f3e73be831dff8598089d3dca");
+
+describe("Test Typed ABI", function() {
+
+    it("infers types from a human-readable ABI", function() {
+        type Abi = typeof abi;
+
+        expectType<IsTypedAbi<Abi>>();
+        expectType<Equals<AbiFunctionName<Abi>, "balanceOf" | "transfer" | "getPair">>();
+        expectType<Equals<AbiFunctionArgs<Abi, "transfer">, [ string | Addressable, BigNumberish ]>>();
+        expectType<Equals<AbiFunctionResult<Abi, "balanceOf">, bigint>>();
+
+        expectType<Equals<AbiFunctionSignature<Abi>, "balanceOf(address)" | "transfer(address,uint256)" | "getPair(uint256)">>();
+        expectType<Equals<AbiFunctionArgs<Abi, "transfer(address,uint256)">, [ string | Addressable, BigNumberish ]>>();
+        expectType<Equals<AbiEventSignature<Abi>, "Transfer(address,address,uint256)" | "Log(string,string)">>();
+    });
+
+    it("infers types from a JSON ABI", function() {
+        type Abi = typeof jsonAbi;
+
+        expectType<IsTypedAbi<Abi>>();
+        expectType<Equals<AbiFunctionName<Abi>, "balanceOf">>();
+        expectType<Equals<AbiFunctionSignature<Abi>, "balanceOf(address)">>();
+        expectType<Equals<AbiFunctionArgs<Abi, "balanceOf">, [ string | Addressable ]>>();
+        expectType<Equals<AbiFunctionResult<Abi, "balanceOf">, bigint>>();
+    });
+
+    it("falls back to untyped ABIs", function() {
+        type Abi = Array<string>;
+
+        expectType<Equals<IsTypedAbi<Abi>, false>>();
+        expectType<Equals<AbiFunctionName<Abi>, string>>();
+
+        const iface = new Interface(<Array<string>>[ "function foo()" ]);
+        const result = iface.decodeFunctionResult("foo", "0x");
+        expectType<Equals<typeof result, Result>>();
+    });
+
+    it("encodes and decodes with a typed Interface", function() {
+        const iface = new Interface(abi);
+
+        const data = iface.encodeFunctionData("transfer", [ addr0, 5 ]);
+        assert.equal(data, new Interface([ "function transfer(address, uint)" ]).encodeFunctionData("transfer", [ addr0, 5 ]));
+
+        // @ts-expect-error: the amount is missing
+        assert.throws(() => iface.encodeFunctionData("transfer", [ addr0 ]));
+
+        const result = iface.decodeFunctionResult("getPair", iface.encodeFunctionResult("getPair", [
+            [ [ addr0, 7 ], [ addr1, 8 ] ], zeroPadValue("0x1234", 32)
+        ]));
+
+        const token: `0x${ string }` = result.pairs[1].token;
+        const reserve: bigint = result[0][0].reserve;
+        const hash: `0x${ string }` = result.hash;
+        assert.equal(token, addr1, "token");
+        assert.equal(reserve, BigInt(7), "reserve");
+        assert.equal(hash, zeroPadValue("0x1234", 32), "hash");
+    });
+
+    it("decodes events with a typed Interface", function() {
+        const iface = new Interface(jsonAbi);
+
+        const log = iface.encodeEventLog("Transfer", [ addr0, addr1, 42 ]);
+        const result = iface.decodeEventLog("Transfer", log.data, log.topics);
+
+        const from: `0x${ string }` = result.from;
+        const value: bigint = result[2];
+        assert.equal(from, addr0, "from");
+        assert.equal(value, BigInt(42), "value");
+
+        // Indexed dynamic values are only available as their hash
+        const iface2 = new Interface(abi);
+        const log2 = iface2.encodeEventLog("Log", [ "topic", "message" ]);
+        const result2 = iface2.decodeEventLog("Log", log2.data, log2.topics);
+
+        const topic: Indexed = result2.topic;
+        const message: string = result2.message;
+        assert.ok(Indexed.isIndexed(topic), "topic");
+        assert.equal(message, "message", "message");
+    });
+
+    it("types Contract methods and filters", async function() {
+        const contract = new Contract(addr0, abi);
+
+        expectType<Equals<ReturnType<typeof contract.balanceOf>, Promise<bigint>>>();
+        expectType<Equals<ReturnType<typeof contract.transfer>, Promise<ContractTransactionResponse>>>();
+        expectType<Equals<ReturnType<typeof contract.transfer.staticCall>, Promise<boolean>>>();
+
+        const tx = await contract.transfer.populateTransaction(addr1, 5, { gasLimit: 50000 });
+        assert.equal(tx.data, contract.interface.encodeFunctionData("transfer", [ addr1, 5 ]), "data");
+
+        const filter = await contract.filters.Transfer(null, addr1).getTopicFilter();
+        assert.equal(filter[2], zeroPadValue(addr1, 32).toLowerCase(), "topic");
+
+        // Contracts for an untyped ABI are unchanged
+        const untyped = new Contract(addr0, <Array<string>>[ "function foo()" ]);
+        expectType<Equals<ReturnType<typeof untyped.foo>, Promise<any>>>();
+    });
+
+    it("types Contract methods and filters by signature", async function() {
+        const contract = new Contract(addr0, [
+            "function set(uint value)",
+            "function set(address account, (uint id, bool[] flags)[2] items) view returns (bool)",
+            "event Transfer(address indexed from, address indexed to, uint256 value)"
+        ] as const);
+
+        // Each overload is available by its signature
+        const setValue = contract["set(uint256)"];
+        expectType<Equals<Parameters<typeof setValue.populateTransaction>[0], BigNumberish | Typed>>();
+        expectType<Equals<ReturnType<typeof setValue>, Promise<ContractTransactionResponse>>>();
+
+        const setItems = contract["set(address,(uint256,bool[])[2])"];
+        expectType<Equals<ReturnType<typeof setItems>, Promise<boolean>>>();
+
+        const tx = await setValue.populateTransaction(5);
+        assert.equal(tx.data, contract.interface.encodeFunctionData("set(uint256)", [ 5 ]), "data");
+
+        const filter = await contract.filters["Transfer(address,address,uint256)"](addr0).getTopicFilter();
+        assert.equal(filter[1], zeroPadValue(addr0, 32).toLowerCase(), "topic");
+    });
+
+    it("allows typed Contracts where a Contract is expected", function() {
+        const contract = new Contract(addr0, abi);
+
+        const untyped: Contract = contract;
+        const base: BaseContract = contract;
+        assert.equal(untyped.target, base.target);
+
+        // The typed methods remain typed
+        expectType<Equals<ReturnType<typeof contract.balanceOf>, Promise<bigint>>>();
+    });
+});
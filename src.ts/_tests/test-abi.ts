@@ -1,11 +1,14 @@
 import assert from "assert";
 import { loadTests } from "./utils.js";
 
-import type { TestCaseAbi, TestCaseAbiVerbose } from "./types.js";
+import type {
+    TestCaseAbi, TestCaseAbiVerbose, TestCaseSolidityHash
+} from "./types.js";
 
 import {
-    AbiCoder, Interface,
-    decodeBytes32String, encodeBytes32String
+    AbiCoder, Interface, LazyResult,
+    concat, decodeBytes32String, encodeBytes32String, getAddress, isError, keccak256,
+    solidityPacked, toBeHex, zeroPadBytes, zeroPadValue
 } from "../index.js";
 
 function equal(actual: any, expected: TestCaseAbiVerbose): void {
@@ -43,6 +46,206 @@ describe("Tests ABI Coder", function() {
             equal(decoded, test.verbose);
         });
     }
+
+    it("tests ABI coding of external functions", function() {
+        const coder = AbiCoder.defaultAbiCoder();
+
+        // An external function is its address and selector, as a bytes24
+        const func = "0x8ba1f109551bd432803012645ac136ddd64dba72a9059cbb";
+        const encoded = coder.encode([ "function" ], [ func ]);
+        assert.equal(encoded, coder.encode([ "bytes24" ], [ func ]), "encoded");
+        assert.equal(coder.decode([ "function" ], encoded)[0], func, "decoded");
+
+        assert.equal(coder.encodePacked([ "function", "uint8" ], [ func, 1 ]), func + "01", "packed");
+        assert.equal(coder.decodePacked([ "function", "uint8" ], func + "01")[0], func, "unpacked");
+
+        const iface = new Interface([ "function setCallback(function callback) returns (function)" ]);
+        assert.equal(iface.getFunction("setCallback")!.format(), "setCallback(function)", "signature");
+    });
+});
+
+describe("Tests ABI Packed Coder", function() {
+    const coder = AbiCoder.defaultAbiCoder();
+    const addr = getAddress("0x8ba1f109551bd432803012645ac136ddd64dba72");
+
+    const tests = loadTests<TestCaseSolidityHash>("solidity-hashes");
+    for (const test of tests) {
+        it(`tests packed encoding: ${ test.name }`, function() {
+            assert.equal(keccak256(coder.encodePacked(test.types, test.values)), test.keccak256);
+        });
+    }
+
+    it("tests packed encoding of tuples and dynamic arrays", function() {
+        const encoded = coder.encodePacked([ "(uint8 a, string b)", "bytes[]", "int16" ], [
+            { a: 1, b: "hi" }, [ "0x1234", "0x" ], -2
+        ]);
+        assert.equal(encoded, concat([
+            "0x01", "0x6869",
+            zeroPadBytes("0x1234", 32),
+            "0xfffe"
+        ]));
+    });
+
+    it("tests packed decoding", function() {
+        const types = [ "address", "uint16", "bool", "bytes2", "uint8[]", "int8" ];
+        const values = [ addr, 258, true, "0xabcd", [ 1, 2, 3 ], -1 ];
+
+        const encoded = coder.encodePacked(types, values);
+        assert.equal(encoded, solidityPacked(types, values));
+
+        const decoded = coder.decodePacked(types, encoded);
+        assert.equal(decoded[0], addr);
+        assert.equal(decoded[1], BigInt(258));
+        assert.equal(decoded[2], true);
+        assert.equal(decoded[3], "0xabcd");
+        assert.deepEqual(decoded[4].toArray(), [ BigInt(1), BigInt(2), BigInt(3) ]);
+        assert.equal(decoded[5], BigInt(-1));
+
+        const [ a, b, c ] = coder.decodePacked([ "(uint8 a, uint16[2] b)", "string" ],
+            coder.encodePacked([ "(uint8 a, uint16[2] b)", "string" ], [ [ 5, [ 6, 7 ] ], "hello" ]));
+        assert.equal(a.a, BigInt(5));
+        assert.deepEqual(a.b.toArray(), [ BigInt(6), BigInt(7) ]);
+        assert.equal(b, "hello");
+        assert.equal(c, undefined);
+    });
+
+    it("fails to decode ambiguous packed data", function() {
+        for (const types of [ [ "string", "bytes" ], [ "uint8[]", "string" ], [ "string[2]" ], [ "uint8[][2]" ] ]) {
+            assert.throws(() => coder.decodePacked(types, "0x1234"), (error: any) => {
+                return isError(error, "INVALID_ARGUMENT");
+            }, types.join(","));
+        }
+    });
+
+    it("fails to decode invalid packed data", function() {
+        const tests = [
+            { types: [ "uint16" ], data: "0x010203" },
+            { types: [ "bool" ], data: "0x02" },
+            { types: [ "uint8[]" ], data: "0x0102" },
+            { types: [ "uint8[]" ], data: toBeHex(256, 32) }
+        ];
+        for (const { types, data } of tests) {
+            assert.throws(() => coder.decodePacked(types, data), (error: any) => {
+                return isError(error, "BAD_DATA");
+            }, data);
+        }
+    });
+});
+
+describe("Tests ABI Strict Decoding", function() {
+    const coder = AbiCoder.defaultAbiCoder();
+
+    const word = (v: number) => toBeHex(v, 32);
+
+    it("decodes canonical data", function() {
+        const types = [ "uint8", "bytes", "string[]", "bool" ];
+        const data = coder.encode(types, [ 5, "0x1234", [ "a", "b" ], true ]);
+        const result = coder.decode(types, data, "strict");
+        assert.equal(result[0], BigInt(5));
+        assert.equal(result[1], "0x1234");
+        assert.deepEqual(result[2].toArray(), [ "a", "b" ]);
+        assert.equal(result[3], true);
+    });
+
+    for (const test of loadTests<TestCaseAbi>("abi")) {
+        it(`tests strict ABI decoding: (${ test.name })`, function() {
+            const decoded = coder.decode([ test.type ], test.encoded, "strict")[0];
+            equal(decoded, test.verbose);
+        });
+    }
+
+    const tests = [
+        // Dirty high bits
+        { name: "uint8", types: [ "uint8" ], data: word(0x0105) },
+        { name: "int8", types: [ "int8" ], data: word(0x80) },
+        { name: "bool", types: [ "bool" ], data: word(2) },
+        { name: "address", types: [ "address" ], data: concat([ "0x01", zeroPadValue("0x1234", 31) ]) },
+
+        // Dirty low bits
+        { name: "bytes1", types: [ "bytes1" ], data: concat([ "0x1234", zeroPadValue("0x", 30) ]) },
+        { name: "bytes padding", types: [ "bytes" ], data: concat([ word(32), word(1), word(0x1234) ]) },
+
+        // The offset skips an (unused) word
+        { name: "offset", types: [ "bytes" ], data: concat([ word(64), word(0), word(1), zeroPadBytes("0x12", 32) ]) },
+
+        // Trailing data
+        { name: "trailing", types: [ "uint256" ], data: concat([ word(1), word(2) ]) }
+    ];
+
+    for (const { name, types, data } of tests) {
+        it(`rejects non-canonical data: ${ name }`, function() {
+            coder.decode(types, data);
+
+            assert.throws(() => coder.decode(types, data, "strict"), (error: any) => {
+                return isError(error, "BAD_DATA");
+            });
+        });
+    }
+});
+
+describe("Tests ABI Lazy Decoding", function() {
+    const coder = AbiCoder.defaultAbiCoder();
+
+    function materialize(value: any): any {
+        if (value instanceof LazyResult) {
+            return Array.from(value).map(materialize);
+        }
+        return value;
+    }
+
+    for (const test of loadTests<TestCaseAbi>("abi")) {
+        it(`tests lazy ABI decoding: (${ test.name })`, function() {
+            const decoded = coder.decodeLazy([ test.type ], test.encoded);
+            assert.equal(decoded.length, 1);
+            equal(materialize(decoded.get(0)), test.verbose);
+        });
+    }
+
+    it("only decodes the values accessed", function() {
+        const types = [ "uint256 count", "bytes[] items", "(address owner, string name)[] records" ];
+        const data = coder.encode(types, [ 3, [ "0x01", "0x0203", "0x040506" ], [
+            [ "0x8ba1f109551bD432803012645Ac136ddd64DBA72", "alice" ]
+        ] ]);
+
+        const lazy = coder.decodeLazy(types, data);
+        assert.equal(lazy.length, 3);
+        assert.equal(lazy.getValue("count"), BigInt(3));
+
+        const items = lazy.getValue("items");
+        assert.ok(items instanceof LazyResult, "items");
+        assert.equal(items.type, "bytes[]");
+        assert.equal(items.length, 3);
+        assert.equal(items.get(2), "0x040506");
+        assert.deepEqual(Array.from(items), [ "0x01", "0x0203", "0x040506" ]);
+
+        assert.equal(lazy.get(2).get(0).getValue("name"), "alice");
+
+        assert.deepEqual(lazy.toResult().toArray(true), coder.decode(types, data).toArray(true));
+
+        // Corrupt the offset of the second item; only it fails to decode
+        const corrupt = data.substring(0, 2 + (5 * 64)) + toBeHex(4096, 32).substring(2) + data.substring(2 + (6 * 64));
+        const corruptItems = coder.decodeLazy(types, corrupt).get(1);
+        assert.equal(corruptItems.get(0), "0x01");
+        assert.equal(corruptItems.get(2), "0x040506");
+        assert.throws(() => corruptItems.get(1), (error: any) => {
+            return isError(error, "BUFFER_OVERRUN");
+        });
+    });
+
+    it("decodes the same value repeatedly", function() {
+        const types = [ "uint256", "string[]" ];
+        const data = coder.encode(types, [ 42, [ "hello" ] ]);
+
+        // Each access is limited separately by the inflation ratio
+        const lazy = coder.decodeLazy(types, data);
+        for (let i = 0; i < 2000; i++) {
+            assert.equal(lazy.get(0), BigInt(42));
+            assert.equal(lazy.get(1).get(0), "hello");
+        }
+        for (let i = 0; i < 200; i++) {
+            assert.equal(lazy.toResult()[0], BigInt(42));
+        }
+    });
 });
 
 describe("Test Bytes32 strings", function() {
@@ -172,6 +375,210 @@ describe("Test Interface", function() {
 });
 
 
+describe("Tests Solidity Source ABI", function() {
+    const source = `
+        // SPDX-License-Identifier: MIT
+        pragma solidity ^0.8.20;
+
+        interface IERC20 {
+            function balanceOf(address owner) external view returns (uint);
+        }
+
+        type Price is uint128;
+
+        error Unauthorized(address caller);
+
+        /**
+         *  @title A pool of token pairs
+         */
+        interface IPool {
+            enum Status { Active, Paused }
+
+            struct Pair {
+                IERC20 token;
+                uint112 reserve;
+                Status status;
+            }
+
+            struct Book {
+                Pair[] pairs;
+                Price price;
+            }
+
+            /// @notice Emitted when a pair is added
+            event PairAdded(uint indexed id, Pair pair) anonymous;
+
+            error InvalidPair(uint id);
+
+            /// @param id The pair id
+            function getPair(uint id) external view returns (Pair memory pair);
+            function getBook() external view returns (Book memory);
+            function addPairs(Pair[2] calldata pairs, address payable refund) external payable;
+        }
+
+        contract Pool is IPool {
+            mapping(uint => Pair) internal _pairs;
+
+            modifier onlyOwner() { _; }
+
+            constructor(address owner, string memory name) { }
+
+            function getPair(uint id) external view override returns (Pair memory pair) {
+                return _pairs[id];
+            }
+
+            function _check(uint id) internal view returns (bool) {
+                return (bytes("}").length > id);
+            }
+
+            receive() external payable { }
+        }
+    `;
+
+    it("parses an interface", function() {
+        const iface = Interface.fromSolidity(source, "IPool");
+
+        assert.deepEqual(iface.fragments.map((f) => f.format("sighash")), [
+            "PairAdded(uint256,(address,uint112,uint8))",
+            "InvalidPair(uint256)",
+            "getPair(uint256)",
+            "getBook()",
+            "addPairs((address,uint112,uint8)[2],address)",
+            "Unauthorized(address)"
+        ]);
+
+        const getPair = iface.getFunction("getPair")!;
+        assert.equal(getPair.format("full"), "function getPair(uint256 id) view returns ((address token, uint112 reserve, uint8 status) pair)");
+        assert.equal(getPair.stateMutability, "view");
+
+        const pair = getPair.outputs[0];
+        assert.equal(pair.internalType, "struct IPool.Pair");
+        assert.equal(pair.components![0].internalType, "contract IERC20");
+        assert.equal(pair.components![2].internalType, "enum IPool.Status");
+
+        const book = iface.getFunction("getBook")!.outputs[0];
+        assert.equal(book.format(), "((address,uint112,uint8)[],uint128)");
+        assert.equal(book.components![0].internalType, "struct IPool.Pair[]");
+        assert.equal(book.components![0].arrayChildren!.internalType, "struct IPool.Pair");
+        assert.equal(book.components![1].internalType, "Price");
+
+        const addPairs = iface.getFunction("addPairs")!;
+        assert.equal(addPairs.payable, true);
+        assert.equal(addPairs.inputs[1].internalType, "address payable");
+
+        const event = iface.getEvent("PairAdded")!;
+        assert.equal(event.anonymous, true);
+        assert.equal(event.inputs[0].indexed, true);
+    });
+
+    it("preserves internal types in JSON", function() {
+        const iface = Interface.fromSolidity(source, "IPool");
+        const json = JSON.parse(<string>iface.formatJson());
+
+        const getBook = json.find((f: any) => (f.name === "getBook"));
+        assert.deepEqual(getBook.outputs[0], {
+            type: "tuple", name: "", internalType: "struct IPool.Book",
+            components: [ {
+                type: "tuple[]", name: "pairs", internalType: "struct IPool.Pair[]",
+                components: [
+                    { type: "address", name: "token", internalType: "contract IERC20" },
+                    { type: "uint112", name: "reserve", internalType: "uint112" },
+                    { type: "uint8", name: "status", internalType: "enum IPool.Status" }
+                ]
+            }, {
+                type: "uint128", name: "price", internalType: "Price"
+            } ]
+        });
+
+        // Round-trips through the JSON ABI
+        assert.equal(Interface.from(json).formatJson(), iface.formatJson());
+    });
+
+    it("parses a contract with its bases", function() {
+        const iface = Interface.fromSolidity(source, "Pool");
+
+        // The constructor and receive fragments have no signature
+        assert.deepEqual(iface.fragments.map((f) => (("name" in f) ? f.format("sighash"): f.type)), [
+            "constructor",
+            "getPair(uint256)",
+            "fallback",
+            "PairAdded(uint256,(address,uint112,uint8))",
+            "InvalidPair(uint256)",
+            "getBook()",
+            "addPairs((address,uint112,uint8)[2],address)",
+            "Unauthorized(address)"
+        ]);
+
+        assert.equal(iface.getFunction("_check"), null);
+        assert.ok(iface.receive);
+        assert.equal(iface.deploy.format("full"), "constructor(address owner, string name)");
+
+        // Requires a name when ambiguous
+        assert.throws(() => {
+            Interface.fromSolidity(source);
+        }, (error: any) => (isError(error, "INVALID_ARGUMENT") && error.argument === "source"));
+    });
+
+    it("includes getters for public state variables", function() {
+        const iface = Interface.fromSolidity(`
+            contract Token {
+                struct Pair { address token; uint112 reserve; uint[] history; mapping(uint => bool) seen; }
+                enum Status { Active, Paused }
+
+                uint256 public totalSupply;
+                uint256 public constant DECIMALS = 18;
+                address public immutable owner;
+                mapping(address => uint256) public balanceOf;
+                mapping(address owner => mapping(address spender => uint256 amount)) public allowance;
+                Pair[] public pairs;
+                uint[2][] public grid;
+                Status public status;
+                string internal _name;
+                bytes32 private _secret = keccak256("secret");
+                function(uint) external internal _callback;
+            }
+        `);
+
+        assert.deepEqual(iface.fragments.map((f) => (<any>f).format("full")), [
+            "function totalSupply() view returns (uint256)",
+            "function DECIMALS() view returns (uint256)",
+            "function owner() view returns (address)",
+            "function balanceOf(address) view returns (uint256)",
+            "function allowance(address owner, address spender) view returns (uint256 amount)",
+            "function pairs(uint256) view returns (address token, uint112 reserve)",
+            "function grid(uint256, uint256) view returns (uint256)",
+            "function status() view returns (uint8)",
+        ]);
+
+        // Structs with a mapping cannot be used as a parameter
+        assert.throws(() => {
+            Interface.fromSolidity(`
+                contract Token {
+                    struct Pair { address token; mapping(uint => bool) seen; }
+                    function getPair(uint id) external view returns (Pair memory) { }
+                }
+            `);
+        }, (error: any) => (isError(error, "INVALID_ARGUMENT") && error.message.startsWith("unsupported type")));
+    });
+
+    it("fails on invalid source", function() {
+        const tests = [
+            { name: "unknown type", source: "interface A { function foo(Missing m) external; }", message: "unknown type" },
+            { name: "recursive struct", source: "interface A { struct B { B[] b; } function foo(B memory b) external; }", message: "recursive struct" },
+            { name: "unterminated", source: "interface A { function foo() external;", message: "unexpected end of source" },
+            { name: "mapping", source: "interface A { function foo(mapping(uint => uint) storage m) external; }", message: "unsupported type" },
+        ];
+
+        for (const { name, source, message } of tests) {
+            assert.throws(() => {
+                Interface.fromSolidity(source);
+            }, (error: any) => {
+                return (isError(error, "INVALID_ARGUMENT") && error.message.startsWith(message));
+            }, name);
+        }
+    });
+});
+
 describe("Tests Legacy ABI formats", function() {
 
     // See: #3932
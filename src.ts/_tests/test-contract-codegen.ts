@@ -0,0 +1,141 @@
+import assert from "assert";
+import path from "path";
+import ts from "typescript";
+
+import { generateContractTypes, Interface } from "../index.js";
+
+
+const abi = [
+    "constructor(string name, uint8 decimals)",
+    "struct Pair(address token, uint112 reserve)",
+    "function balanceOf(address owner) view returns (uint256)",
+    "function transfer(address to, uint amount) returns (bool)",
+    "function transfer(address to, uint amount, bytes data) returns (bool)",
+    "function getPair(uint id) view returns ((address token, uint112 reserve) pair)",
+    "function connect()",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Log(string indexed topic, string message)",
+    "error InsufficientBalance(uint256 balance, uint256 needed)"
+];
+
+// Type-checks the generated %%source%% against the built library,
+// returning any diagnostic messages
+function compile(source: string): Array<string> {
+    const filename = path.resolve("generated-types.ts");
+
+    const options: ts.CompilerOptions = {
+        strict: true, noEmit: true, skipLibCheck: true, types: [ ],
+        target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.ES2020,
+        moduleResolution: ts.ModuleResolutionKind.NodeJs
+    };
+
+    const host = ts.createCompilerHost(options);
+    const { fileExists, getSourceFile, readFile } = host;
+    host.fileExists = (name) => ((name === filename) || fileExists.call(host, name));
+    host.readFile = (name) => ((name === filename) ? source: readFile.call(host, name));
+    host.getSourceFile = (name, version, ...args) => {
+        if (name === filename) { return ts.createSourceFile(name, source, version); }
+        return getSourceFile.call(host, name, version, ...args);
+    };
+
+    const program = ts.createProgram([ filename ], options, host);
+    return ts.getPreEmitDiagnostics(program).map((d) => {
+        return ts.flattenDiagnosticMessageText(d.messageText, "\n");
+    });
+}
+
+describe("Test Contract Type Bindings", function() {
+    const source = generateContractTypes("Token", abi);
+    const lines = source.split("\n").map((l) => l.trim());
+
+    function has(line: string): void {
+        assert.ok(lines.indexOf(line) >= 0, line);
+    }
+
+    it("imports only the types used", function() {
+        has("AbiResult, AddressLike, BaseContract, BigNumberish, BytesLike, ConstantContractMethod, ContractEvent, ContractFactory, ContractMethod, ContractTransactionResponse, ErrorDescription, Indexed");
+        has(`} from "ethers";`);
+
+        const custom = generateContractTypes("Token", abi, { importPath: "../ethers.js", factory: false });
+        assert.ok(custom.indexOf(`} from "../ethers.js";`) >= 0, "importPath");
+        assert.ok(custom.indexOf("ContractFactory") === -1, "factory");
+    });
+
+    it("generates methods", function() {
+        has("balanceOf: ConstantContractMethod<[ owner: AddressLike ], bigint>;");
+        has("getPair: ConstantContractMethod<[ id: BigNumberish ], PairStructOutput>;");
+
+        // Overloads are keyed by signature
+        has(`"transfer(address,uint256)": ContractMethod<[ to: AddressLike, amount: BigNumberish ], boolean, ContractTransactionResponse>;`);
+        has(`"transfer(address,uint256,bytes)": ContractMethod<[ to: AddressLike, amount: BigNumberish, data: BytesLike ], boolean, ContractTransactionResponse>;`);
+
+        // Shadowed by BaseContract
+        assert.ok(source.indexOf("connect:") === -1, "connect");
+    });
+
+    it("generates structs", function() {
+        has("export type PairStruct = { token: AddressLike; reserve: BigNumberish };");
+        has("export type PairStructOutput = AbiResult<[ token: string, reserve: bigint ] & { token: string; reserve: bigint }>;");
+    });
+
+    it("generates events", function() {
+        has("export type TransferEventArgs = [ from: AddressLike, to: AddressLike, value: BigNumberish ];");
+        has("export type LogEventOutput = AbiResult<[ topic: Indexed, message: string ] & { topic: Indexed; message: string }>;");
+        has("Transfer: ContractEvent<TransferEventArgs>;");
+    });
+
+    it("generates errors and the factory", function() {
+        has(`{ name: "InsufficientBalance"; signature: "InsufficientBalance(uint256,uint256)"; args: AbiResult<[ balance: bigint, needed: bigint ] & { balance: bigint; needed: bigint }> }`);
+        has("export type TokenFactory = ContractFactory<[ name: string, decimals: BigNumberish ], Token>;");
+    });
+
+    it("accepts JSON ABIs", function() {
+        const json = new Interface(abi.filter((f) => !f.startsWith("struct"))).formatJson();
+        const result = generateContractTypes("Token", json);
+        assert.ok(result.indexOf("balanceOf: ConstantContractMethod<[ owner: AddressLike ], bigint>;") >= 0);
+    });
+
+    it("matches structs by their component names", function() {
+        this.timeout(60000);
+
+        const source = generateContractTypes("Token", [
+            ...abi,
+            "function other() view returns ((address a, uint112 b) x)",
+            {
+                type: "function", name: "callback", stateMutability: "nonpayable",
+                inputs: [ { name: "target", type: "function" } ],
+                outputs: [ { name: "", type: "function" } ]
+            }
+        ], { importPath: path.resolve("lib.esm/index.js") });
+
+        // The same types as Pair, but not a Pair
+        assert.ok(source.indexOf("other: ConstantContractMethod<[ ], AbiResult<[ a: string, b: bigint ] & { a: string; b: bigint }>>;") >= 0, "other");
+        assert.ok(source.indexOf("getPair: ConstantContractMethod<[ id: BigNumberish ], PairStructOutput>;") >= 0, "getPair");
+
+        // External functions are a bytes24
+        assert.ok(source.indexOf("callback: ContractMethod<[ target: BytesLike ], string, ContractTransactionResponse>;") >= 0, "callback");
+
+        assert.deepEqual(compile(source), [ ]);
+    });
+
+    it("compiles", function() {
+        this.timeout(60000);
+
+        const importPath = path.resolve("lib.esm/index.js");
+
+        const reserved = generateContractTypes("Token", abi.concat([
+            "function set(uint new, address default)",
+            "event Moved(address indexed class, uint256 value)"
+        ]), { importPath });
+
+        // Reserved words are not used as labels
+        assert.ok(reserved.indexOf("set: ContractMethod<[ BigNumberish, AddressLike ], Result, ContractTransactionResponse>;") >= 0, "set");
+        assert.ok(reserved.indexOf("export type MovedEventArgs = [ AddressLike, BigNumberish ];") >= 0, "Moved");
+
+        assert.deepEqual(compile(reserved), [ ]);
+
+        assert.throws(() => {
+            generateContractTypes("class", abi);
+        }, /invalid contract name/);
+    });
+});
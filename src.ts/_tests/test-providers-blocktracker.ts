@@ -0,0 +1,262 @@
+import assert from "assert";
+
+import {
+    id, toQuantity,
+    AbstractProvider, BlockTracker, Network
+} from "../index.js";
+
+import type {
+    Log, PerformActionRequest, ReorgEvent
+} from "../index.js";
+
+
+const network = Network.from("mainnet");
+
+const address = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const topic = id("Deposit(address,uint256)");
+
+type MockBlock = { hash: string, parentHash: string, number: number, logs: number };
+
+class ChainProvider extends AbstractProvider {
+    // The canonical chain, indexed by block number
+    chain: Array<MockBlock>;
+
+    // Every block ever produced, including orphaned blocks
+    readonly blocks: Map<string, MockBlock>;
+
+    constructor() {
+        super(network, { cacheTimeout: -1, pollingInterval: 10 });
+        this.blocks = new Map();
+        this.chain = [ ];
+        this.extend("a", 5);
+    }
+
+    // Adds %%count%% blocks to the canonical chain on branch %%branch%%,
+    // optionally with a log in the first new block
+    extend(branch: string, count: number, logs?: number): void {
+        for (let i = 0; i < count; i++) {
+            const number = this.chain.length;
+            const parentHash = (number === 0) ? id("genesis"): this.chain[number - 1].hash;
+            const block = {
+                hash: id(`${ branch }${ number }`), parentHash, number,
+                logs: (i === 0 && logs) ? logs: 0
+            };
+            this.blocks.set(block.hash, block);
+            this.chain.push(block);
+        }
+    }
+
+    // Replaces every block after %%number%% with blocks on %%branch%%
+    fork(number: number, branch: string, count: number, logs?: number): void {
+        this.chain = this.chain.slice(0, number + 1);
+        this.extend(branch, count, logs);
+    }
+
+    async _detectNetwork(): Promise<Network> { return network; }
+
+    async _perform(req: PerformActionRequest): Promise<any> {
+        switch (req.method) {
+            case "getBlockNumber":
+                return this.chain.length - 1;
+
+            case "getBlock": {
+                let block: undefined | MockBlock;
+                if ("blockHash" in req) {
+                    block = this.blocks.get(req.blockHash);
+                } else if (req.blockTag === "latest") {
+                    block = this.chain[this.chain.length - 1];
+                } else {
+                    block = this.chain[parseInt(String(req.blockTag))];
+                }
+                if (block == null) { return null; }
+
+                return {
+                    hash: block.hash, parentHash: block.parentHash,
+                    number: block.number, timestamp: block.number,
+                    nonce: "0x0000000000000000", difficulty: 0,
+                    gasLimit: 30000000, gasUsed: 0, miner: address,
+                    extraData: "0x", baseFeePerGas: 7, transactions: [ ]
+                };
+            }
+
+            case "getLogs": {
+                const { fromBlock, toBlock } = <any>req.filter;
+                const logs: Array<any> = [ ];
+                for (const block of this.chain) {
+                    if (block.number < parseInt(fromBlock) || block.number > parseInt(toBlock)) {
+                        continue;
+                    }
+                    for (let i = 0; i < block.logs; i++) {
+                        logs.push({
+                            address, blockHash: block.hash,
+                            blockNumber: toQuantity(block.number),
+                            data: "0x", index: i, removed: false, topics: [ topic ],
+                            transactionHash: id(`tx${ i }`), transactionIndex: i
+                        });
+                    }
+                }
+                return logs;
+            }
+        }
+
+        throw new Error(`unhandled method: ${ req.method }`);
+    }
+}
+
+function waitFor(check: () => boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const start = Date.now();
+        const poll = () => {
+            if (check()) { return resolve(); }
+            if (Date.now() - start > 5000) { return reject(new Error("timeout")); }
+            setTimeout(poll, 10);
+        };
+        poll();
+    });
+}
+
+describe("Test Block Tracker", function() {
+
+    it("follows the chain without reporting a re-org", async function() {
+        const provider = new ChainProvider();
+        const tracker = new BlockTracker(provider, 4);
+
+        assert.equal(await tracker.update(), null, "initial");
+        assert.equal(tracker.head?.number, 4, "head");
+
+        // A gap is filled in by walking back parent hashes
+        provider.extend("a", 3);
+        assert.equal(await tracker.update(), null, "extended");
+        assert.deepEqual(tracker.headers.map((h) => h.number), [ 4, 5, 6, 7 ], "window");
+        assert.equal(tracker.head?.hash, provider.chain[7].hash, "head hash");
+    });
+
+    it("detects a re-org and finds the common ancestor", async function() {
+        const provider = new ChainProvider();
+        const tracker = new BlockTracker(provider);
+        await tracker.update();
+        provider.extend("a", 2);
+        await tracker.update();
+
+        provider.fork(4, "b", 3);
+        const event = await tracker.update();
+        assert.ok(event != null, "event");
+
+        assert.equal(event.commonAncestor.hash, id("a4"), "commonAncestor");
+        assert.deepEqual(event.removed.map((h) => h.hash), [ id("a5"), id("a6") ], "removed");
+        assert.deepEqual(event.added.map((h) => h.hash), [ id("b5"), id("b6"), id("b7") ], "added");
+
+        assert.ok(!tracker.isCanonical(id("a5")), "a5 orphaned");
+        assert.ok(tracker.isCanonical(id("b7")), "b7 canonical");
+        assert.equal(tracker.getHeader(5)?.hash, id("b5"), "getHeader(5)");
+    });
+
+    it("detects a re-org to a shorter chain replacing the oldest block", async function() {
+        const provider = new ChainProvider();
+        const tracker = new BlockTracker(provider);
+        await tracker.update();
+        provider.extend("a", 2);
+        await tracker.update();
+
+        provider.fork(3, "b", 2);
+        const event = await tracker.update();
+        assert.ok(event != null, "event");
+        assert.equal(event.commonAncestor.hash, id("a3"), "commonAncestor");
+        assert.deepEqual(event.removed.map((h) => h.number), [ 4, 5, 6 ], "removed");
+        assert.deepEqual(event.added.map((h) => h.hash), [ id("b4"), id("b5") ], "added");
+        assert.deepEqual(tracker.headers.map((h) => h.number), [ 3, 4, 5 ], "headers");
+    });
+
+    it("starts over for re-orgs deeper than the window", async function() {
+        const provider = new ChainProvider();
+        const tracker = new BlockTracker(provider, 2);
+        await tracker.update();
+
+        provider.fork(0, "b", 6);
+        assert.equal(await tracker.update(), null, "event");
+        assert.deepEqual(tracker.headers.map((h) => h.hash), [ id("b5"), id("b6") ], "headers");
+    });
+
+    it("emits reorg, orphan and removed log events", async function() {
+        this.timeout(10000);
+
+        const provider = new ChainProvider();
+
+        const logs: Array<Log> = [ ];
+        await provider.on({ address, topics: [ topic ] }, (log: Log) => {
+            logs.push(log);
+        });
+
+        const reorgs: Array<ReorgEvent> = [ ];
+        await provider.on("reorg", (event: ReorgEvent) => { reorgs.push(event); });
+
+        // Allow the subscribers to determine the initial block
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        provider.extend("a", 1, 1);
+        await waitFor(() => (logs.length === 1));
+        assert.equal(logs[0].blockHash, id("a5"), "log blockHash");
+
+        const removed: Array<Log> = [ ];
+        await provider.on(logs[0].removedEvent(), (log: Log) => { removed.push(log); });
+
+        const orphaned: Array<ReorgEvent> = [ ];
+        const block = await provider.getBlock(5);
+        assert.ok(block != null, "block");
+        await provider.on(block.orphanedEvent(), (event: ReorgEvent) => {
+            orphaned.push(event);
+        });
+
+        // Replace the block with the log; the log is mined again later
+        provider.fork(4, "b", 2);
+        provider.extend("b", 1, 1);
+
+        await waitFor(() => (removed.length === 1 && logs.length === 2 && orphaned.length === 1));
+
+        provider.destroy();
+
+        assert.equal(reorgs.length, 1, "reorgs");
+        assert.deepEqual(reorgs[0].removed.map((h) => h.hash), [ id("a5") ], "reorg.removed");
+
+        assert.equal(removed[0].removed, true, "removed log");
+        assert.equal(removed[0].blockHash, id("a5"), "removed log blockHash");
+
+        assert.equal(logs[1].removed, false, "replacement log");
+        assert.equal(logs[1].blockHash, id("b7"), "replacement log blockHash");
+
+        assert.equal(orphaned[0].commonAncestor.hash, id("a4"), "orphaned");
+    });
+
+    it("tracks re-orgs for events without adding reorg listeners", async function() {
+        this.timeout(10000);
+
+        const provider = new ChainProvider();
+
+        const logs: Array<Log> = [ ];
+        await provider.on({ address, topics: [ topic ] }, (log: Log) => {
+            logs.push(log);
+        });
+
+        assert.equal(await provider.listenerCount("reorg"), 0, "listenerCount");
+        assert.deepEqual(await provider.listeners("reorg"), [ ], "listeners");
+
+        // Removing all the reorg listeners does not affect the events
+        await provider.on("reorg", () => { });
+        await provider.removeAllListeners("reorg");
+
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        provider.extend("a", 1, 1);
+        await waitFor(() => (logs.length === 1));
+
+        const removed: Array<Log> = [ ];
+        await provider.on(logs[0].removedEvent(), (log: Log) => { removed.push(log); });
+
+        provider.fork(4, "b", 2);
+        await waitFor(() => (removed.length === 1));
+
+        provider.destroy();
+
+        assert.equal(removed[0].removed, true, "removed log");
+        assert.equal(removed[0].blockHash, id("a5"), "removed log blockHash");
+    });
+});
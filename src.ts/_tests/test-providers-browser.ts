@@ -0,0 +1,454 @@
+import assert from "assert";
+
+import {
+    id, isError,
+    BrowserProvider, Contract, JsonRpcSigner
+} from "../index.js";
+
+import type {
+    Eip1193Provider, Eip6963EventTarget, Eip6963ProviderInfo
+} from "../index.js";
+
+
+function stall(duration: number): Promise<void> {
+    return new Promise((resolve) => { setTimeout(resolve, duration); });
+}
+
+class FakeEvent {
+    readonly type: string;
+    readonly detail: any;
+
+    constructor(type: string, detail?: any) {
+        this.type = type;
+        this.detail = detail;
+    }
+}
+
+// A fake browser window, which wallets announce themselves on
+class FakeWindow implements Eip6963EventTarget {
+    readonly Event: typeof FakeEvent;
+
+    readonly listeners: Map<string, Array<(event: any) => void>>;
+
+    constructor() {
+        this.Event = FakeEvent;
+        this.listeners = new Map();
+    }
+
+    addEventListener(type: string, listener: (event: any) => void): void {
+        const listeners = this.listeners.get(type) || [ ];
+        listeners.push(listener);
+        this.listeners.set(type, listeners);
+    }
+
+    removeEventListener(type: string, listener: (event: any) => void): void {
+        const listeners = this.listeners.get(type) || [ ];
+        this.listeners.set(type, listeners.filter((l) => (l !== listener)));
+    }
+
+    dispatchEvent(event: FakeEvent): boolean {
+        for (const listener of (this.listeners.get(event.type) || [ ])) {
+            listener(event);
+        }
+        return true;
+    }
+
+    listenerCount(type: string): number {
+        return (this.listeners.get(type) || [ ]).length;
+    }
+}
+
+// A fake wallet, which announces itself when requested
+class FakeWallet implements Eip1193Provider {
+    readonly info: Eip6963ProviderInfo;
+    readonly listeners: Map<string, Array<(...args: Array<any>) => void>>;
+
+    readonly requests: Array<{ method: string, params?: any }>;
+    readonly handlers: Record<string, (params: any) => any>;
+
+    constructor(window: FakeWindow, name: string, delay: number) {
+        this.info = {
+            uuid: `uuid-${ name }`, name, icon: "data:image/svg+xml,<svg/>",
+            rdns: `com.${ name.toLowerCase() }`
+        };
+        this.listeners = new Map();
+        this.requests = [ ];
+        this.handlers = { };
+
+        const announce = () => {
+            window.dispatchEvent(new FakeEvent("eip6963:announceProvider", {
+                info: this.info, provider: this
+            }));
+        };
+
+        window.addEventListener("eip6963:requestProvider", () => {
+            setTimeout(announce, delay);
+        });
+
+        // Announce on load too, which is missed by later discovery
+        announce();
+    }
+
+    async request(request: { method: string, params?: Array<any> | Record<string, any> }): Promise<any> {
+        this.requests.push(request);
+
+        const handler = this.handlers[request.method];
+        if (handler) { return handler(request.params); }
+
+        switch (request.method) {
+            case "eth_chainId": return "0x1";
+        }
+        throw new Error(`unsupported method: ${ request.method }`);
+    }
+
+    on(event: string, listener: (...args: Array<any>) => void): void {
+        const listeners = this.listeners.get(event) || [ ];
+        listeners.push(listener);
+        this.listeners.set(event, listeners);
+    }
+
+    removeListener(event: string, listener: (...args: Array<any>) => void): void {
+        const listeners = this.listeners.get(event) || [ ];
+        this.listeners.set(event, listeners.filter((l) => (l !== listener)));
+    }
+
+    trigger(event: string, ...args: Array<any>): void {
+        for (const listener of (this.listeners.get(event) || [ ])) {
+            listener(...args);
+        }
+    }
+}
+
+describe("Test BrowserProvider EIP-6963 discovery", function() {
+    it("discovers announced wallets", async function() {
+        const window = new FakeWindow();
+        new FakeWallet(window, "Alpha", 0);
+        new FakeWallet(window, "Beta", 10);
+
+        const found = await BrowserProvider.discoverProviders({ window, timeout: 50 });
+        assert.deepEqual(found.map((f) => f.info.name), [ "Alpha", "Beta" ], "names");
+        assert.deepEqual(found[1].info, {
+            uuid: "uuid-Beta", name: "Beta", icon: "data:image/svg+xml,<svg/>",
+            rdns: "com.beta"
+        }, "info");
+        assert.ok(found[1].provider instanceof FakeWallet, "provider");
+
+        assert.equal(window.listenerCount("eip6963:announceProvider"), 0, "removed listener");
+    });
+
+    it("creates a BrowserProvider for the selected wallet", async function() {
+        const window = new FakeWindow();
+        new FakeWallet(window, "Alpha", 0);
+        const beta = new FakeWallet(window, "Beta", 0);
+
+        const provider = await BrowserProvider.discover({
+            window, timeout: 20,
+            filter: (found) => found.find((info) => (info.rdns === "com.beta"))
+        });
+        assert.ok(provider, "provider");
+        assert.deepEqual(provider.providerInfo, beta.info, "providerInfo");
+        assert.equal((await provider.getNetwork()).chainId, BigInt(1), "chainId");
+        provider.destroy();
+
+        // The first wallet by default
+        const first = await BrowserProvider.discover({ window, timeout: 20 });
+        assert.equal(first && first.providerInfo && first.providerInfo.name, "Alpha", "default");
+        if (first) { first.destroy(); }
+
+        assert.equal(await BrowserProvider.discover({ window, timeout: 20, filter: () => null }), null, "none selected");
+
+        await assert.rejects(BrowserProvider.discover({
+            window, timeout: 20, filter: (found) => Object.assign({ }, found[0], { uuid: "unknown" })
+        }), (error: any) => {
+            return isError(error, "UNSUPPORTED_OPERATION") && error.operation === "discover";
+        });
+    });
+
+    it("resolves to null without wallets", async function() {
+        const window = new FakeWindow();
+        assert.equal(await BrowserProvider.discover({ window, timeout: 10 }), null);
+    });
+});
+
+describe("Test BrowserProvider EIP-1193 events", function() {
+    it("forwards wallet events", async function() {
+        const window = new FakeWindow();
+        const wallet = new FakeWallet(window, "Alpha", 0);
+        const provider = new BrowserProvider(wallet);
+
+        const events: Array<{ event: string, value: any }> = [ ];
+        for (const event of [ "accountsChanged", "chainChanged", "disconnect" ]) {
+            await provider.on(event, (value: any) => { events.push({ event, value }); });
+        }
+
+        const error = { code: 4900, message: "disconnected" };
+        wallet.trigger("accountsChanged", [ "0x8ba1f109551bd432803012645ac136ddd64dba72" ]);
+        wallet.trigger("chainChanged", "0x89");
+        wallet.trigger("disconnect", error);
+        await stall(10);
+
+        assert.deepEqual(events, [
+            { event: "accountsChanged", value: [ "0x8ba1f109551bD432803012645Ac136ddd64DBA72" ] },
+            { event: "chainChanged", value: BigInt(137) },
+            { event: "disconnect", value: error }
+        ]);
+        assert.equal(provider.providerInfo, null, "providerInfo");
+
+        provider.destroy();
+        assert.equal((wallet.listeners.get("accountsChanged") || [ ]).length, 0, "removed listener");
+    });
+
+    it("emits an error for malformed wallet events", async function() {
+        const window = new FakeWindow();
+        const wallet = new FakeWallet(window, "Alpha", 0);
+        const provider = new BrowserProvider(wallet);
+
+        const accounts: Array<any> = [ ];
+        const errors: Array<any> = [ ];
+        await provider.on("accountsChanged", (value: any) => { accounts.push(value); });
+        await provider.on("error", (error: any) => { errors.push(error); });
+
+        assert.doesNotThrow(() => {
+            wallet.trigger("accountsChanged", [ "0xbad" ]);
+        }, "trigger");
+        await stall(10);
+
+        assert.equal(accounts.length, 0, "accountsChanged");
+        assert.equal(errors.length, 1, "errors");
+        assert.ok(isError(errors[0], "BAD_DATA"), "BAD_DATA");
+        assert.deepEqual(errors[0].value, [ "0xbad" ], "value");
+
+        provider.destroy();
+    });
+});
+
+// An EIP-1193 error
+function rpcError(code: number, message: string): Error {
+    const error = new Error(message);
+    (<any>error).code = code;
+    return error;
+}
+
+describe("Test BrowserProvider wallet RPCs", function() {
+    const token = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+
+    it("switches and adds chains", async function() {
+        const window = new FakeWindow();
+        const wallet = new FakeWallet(window, "Alpha", 0);
+        const provider = new BrowserProvider(wallet, "any");
+
+        const chains = new Set([ "0x1" ]);
+        wallet.handlers.wallet_switchEthereumChain = ([ { chainId } ]: any) => {
+            if (!chains.has(chainId)) { throw rpcError(4902, "Unrecognized chain ID"); }
+            return null;
+        };
+        wallet.handlers.wallet_addEthereumChain = ([ { chainId } ]: any) => {
+            chains.add(chainId);
+            return null;
+        };
+
+        await provider.switchChain("mainnet");
+        assert.deepEqual(wallet.requests.pop(), {
+            method: "wallet_switchEthereumChain", params: [ { chainId: "0x1" } ]
+        }, "switch");
+
+        await assert.rejects(provider.switchChain("matic"), (error: any) => {
+            return isError(error, "UNSUPPORTED_OPERATION") && error.operation === "switchChain";
+        }, "unrecognized");
+
+        // Adds the chain if it is unrecognized
+        await provider.switchChain("matic", { rpcUrls: [ "https:/\/polygon-rpc.com" ] });
+        assert.deepEqual(wallet.requests.pop(), {
+            method: "wallet_addEthereumChain", params: [ {
+                chainId: "0x89", chainName: "matic",
+                nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+                rpcUrls: [ "https:/\/polygon-rpc.com" ]
+            } ]
+        }, "add");
+
+        await provider.switchChain("matic");
+
+        // User rejection
+        wallet.handlers.wallet_switchEthereumChain = () => {
+            throw rpcError(4001, "User rejected the request.");
+        };
+        const signer = new JsonRpcSigner(provider, "0x8ba1f109551bD432803012645Ac136ddd64DBA72");
+        await assert.rejects(signer.switchChain("mainnet"), (error: any) => {
+            return isError(error, "ACTION_REJECTED") && error.action === "switchChain";
+        }, "rejected");
+
+        provider.destroy();
+    });
+
+    it("watches assets and manages permissions", async function() {
+        const window = new FakeWindow();
+        const wallet = new FakeWallet(window, "Alpha", 0);
+        const provider = new BrowserProvider(wallet);
+
+        wallet.handlers.wallet_watchAsset = () => true;
+        const permission = {
+            parentCapability: "eth_accounts", invoker: "https:/\/example.com",
+            caveats: [ { type: "restrictReturnedAccounts", value: [ ] } ]
+        };
+        wallet.handlers.wallet_requestPermissions = () => [ permission ];
+        wallet.handlers.wallet_getPermissions = () => [ permission ];
+
+        assert.equal(await provider.watchAsset({
+            address: token.toLowerCase(), symbol: "DAI", decimals: 18
+        }), true, "watchAsset");
+        assert.deepEqual(wallet.requests.pop(), {
+            method: "wallet_watchAsset", params: {
+                type: "ERC20", options: { address: token, symbol: "DAI", decimals: 18 }
+            }
+        }, "watchAsset request");
+
+        assert.deepEqual(await provider.requestPermissions(), [ permission ], "requestPermissions");
+        assert.deepEqual(wallet.requests.pop(), {
+            method: "wallet_requestPermissions", params: [ { eth_accounts: { } } ]
+        }, "requestPermissions request");
+
+        assert.deepEqual(await provider.getPermissions(), [ permission ], "getPermissions");
+
+        wallet.handlers.wallet_requestPermissions = () => {
+            throw rpcError(4001, "User rejected the request.");
+        };
+        await assert.rejects(provider.requestPermissions(), (error: any) => {
+            return isError(error, "ACTION_REJECTED") && error.action === "requestAccess";
+        }, "rejected");
+
+        provider.destroy();
+    });
+});
+
+describe("Test JsonRpcSigner EIP-5792 calls", function() {
+    const account = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+    const token = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+    const router = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+
+    function getReceipt(hash: string): any {
+        return {
+            to: account.toLowerCase(), from: account.toLowerCase(), contractAddress: null,
+            transactionHash: hash, transactionIndex: "0x0",
+            blockHash: id("block"), blockNumber: "0x64",
+            logsBloom: "0x" + "00".repeat(256), logs: [ ],
+            gasUsed: "0x5208", cumulativeGasUsed: "0x5208",
+            effectiveGasPrice: "0x1", type: "0x2", status: "0x1"
+        };
+    }
+
+    it("sends batched calls and waits for them", async function() {
+        const window = new FakeWindow();
+        const wallet = new FakeWallet(window, "Alpha", 0);
+        const provider = new BrowserProvider(wallet, undefined, { pollingInterval: 10 });
+        const signer = new JsonRpcSigner(provider, account);
+
+        wallet.handlers.wallet_getCapabilities = () => ({ "0x1": { atomic: { status: "supported" } } });
+
+        let sent: any = null;
+        wallet.handlers.wallet_sendCalls = ([ params ]: any) => {
+            sent = params;
+            return { id: "0x1234" };
+        };
+
+        let polls = 0;
+        wallet.handlers.wallet_getCallsStatus = ([ callsId ]: any) => {
+            polls++;
+            if (polls < 3) { return { version: "2.0.0", id: callsId, chainId: "0x1", status: 100, atomic: true }; }
+            return {
+                version: "2.0.0", id: callsId, chainId: "0x1", status: 200, atomic: true,
+                receipts: [ {
+                    logs: [ ], status: "0x1", blockHash: id("block"), blockNumber: "0x64",
+                    gasUsed: "0x5208", transactionHash: id("tx")
+                } ]
+            };
+        };
+        // The provider is behind the wallet, so the receipt is not
+        // available until a later poll
+        let receiptPolls = 0;
+        wallet.handlers.eth_getTransactionReceipt = ([ hash ]: any) => {
+            receiptPolls++;
+            return (receiptPolls < 2) ? null: getReceipt(hash);
+        };
+
+        assert.deepEqual(await signer.getCapabilities([ 1 ]), { "0x1": { atomic: { status: "supported" } } }, "capabilities");
+        assert.deepEqual(wallet.requests.pop(), {
+            method: "wallet_getCapabilities", params: [ account, [ "0x1" ] ]
+        }, "getCapabilities request");
+
+        // Calls from contract populateTransaction
+        const erc20 = new Contract(token, [ "function approve(address spender, uint amount)" ]);
+        const approve = await erc20.approve.populateTransaction(router, 1000);
+
+        const callsId = await signer.sendCalls([
+            approve, { to: router, data: "0x1234", value: 5 }
+        ], { paymasterService: { url: "https:/\/paymaster.example" } }, { atomicRequired: true });
+
+        assert.equal(callsId, "0x1234", "id");
+        assert.deepEqual(sent, {
+            version: "2.0.0", from: account, chainId: "0x1", atomicRequired: true,
+            calls: [
+                { to: token, data: approve.data },
+                { to: router, data: "0x1234", value: "0x5" }
+            ],
+            capabilities: { paymasterService: { url: "https:/\/paymaster.example" } }
+        }, "params");
+
+        const pending = await signer.getCallsStatus(callsId);
+        assert.equal(pending.status, 100, "pending");
+        assert.deepEqual(pending.receipts, [ ], "no receipts");
+        assert.deepEqual(pending.missingReceipts, [ ], "no missing receipts");
+
+        const status = await signer.waitForCalls(callsId);
+        assert.equal(status.status, 200, "status");
+        assert.equal(status.chainId, BigInt(1), "chainId");
+        assert.equal(status.atomic, true, "atomic");
+        assert.equal(status.receipts.length, 1, "receipts");
+        assert.equal(status.receipts[0].hash, id("tx"), "hash");
+        assert.equal(status.receipts[0].blockNumber, 100, "blockNumber");
+        assert.deepEqual(status.missingReceipts, [ ], "missingReceipts");
+        assert.equal(receiptPolls, 2, "receiptPolls");
+
+        provider.destroy();
+    });
+
+    it("supports earlier versions and rejections", async function() {
+        const window = new FakeWindow();
+        const wallet = new FakeWallet(window, "Alpha", 0);
+        const provider = new BrowserProvider(wallet, undefined, { pollingInterval: 10 });
+        const signer = new JsonRpcSigner(provider, account);
+
+        wallet.handlers.wallet_sendCalls = () => "0xabcd";
+        wallet.handlers.wallet_getCallsStatus = () => ({ status: "PENDING" });
+
+        const callsId = await signer.sendCalls([ { to: router } ]);
+        assert.equal(callsId, "0xabcd", "id");
+
+        const status = await signer.getCallsStatus(callsId);
+        assert.equal(status.id, "0xabcd", "status.id");
+        assert.equal(status.status, 100, "status");
+
+        await assert.rejects(signer.waitForCalls(callsId, 30), (error: any) => {
+            return isError(error, "TIMEOUT");
+        }, "timeout");
+
+        // Unknown statuses are rejected, rather than polled forever
+        wallet.handlers.wallet_getCallsStatus = () => ({ status: "FAILED" });
+        await assert.rejects(signer.waitForCalls(callsId), (error: any) => {
+            return (isError(error, "BAD_DATA") && error.value === "FAILED");
+        }, "unknown status");
+
+        wallet.handlers.wallet_getCallsStatus = () => ({ status: "CONFIRMED" });
+        assert.equal((await signer.getCallsStatus(callsId)).status, 200, "confirmed");
+
+        await assert.rejects(signer.sendCalls([ { to: router, from: token } ]), (error: any) => {
+            return isError(error, "INVALID_ARGUMENT");
+        }, "from mismatch");
+
+        wallet.handlers.wallet_sendCalls = () => { throw rpcError(4001, "User rejected the request."); };
+        await assert.rejects(signer.sendCalls([ { to: router } ]), (error: any) => {
+            return isError(error, "ACTION_REJECTED") && error.action === "sendTransaction";
+        }, "rejected");
+
+        provider.destroy();
+    });
+});
@@ -0,0 +1,321 @@
+import assert from "assert";
+
+import {
+    concat, getAddress, getBytes, id, keccak256, toBeHex, zeroPadValue,
+    verifyMessage,
+    BundlerProvider, Contract, Interface, Network, SmartAccountSigner,
+    Transaction, Wallet,
+    EntryPointV06, EntryPointV07,
+    getUserOperationHash, packUserOperation, userOperationFrom
+} from "../index.js";
+
+import type { JsonRpcPayload, JsonRpcResult } from "../index.js";
+
+
+const sender = getAddress("0x8617e340b3d01fa5f11f306f4090fd50e238070d");
+const factory = getAddress("0x9406cc6185a346906296840746125a0e44976454");
+const paymaster = getAddress("0x1db1f1e8a5b6f4a5f1c1cd6daf3cb1e8c7f1b2a3");
+
+const op = {
+    sender,
+    nonce: 7,
+    factory,
+    factoryData: "0x1234",
+    callData: "0xb61d27f6",
+    callGasLimit: 100000,
+    verificationGasLimit: 200000,
+    preVerificationGas: 50000,
+    maxFeePerGas: 3000000000,
+    maxPriorityFeePerGas: 1000000000,
+    paymaster,
+    paymasterVerificationGasLimit: 60000,
+    paymasterPostOpGasLimit: 40000,
+    paymasterData: "0xabcd",
+    signature: "0x"
+};
+
+function word(value: number | string): string {
+    if (typeof(value) === "number") { return toBeHex(value, 32); }
+    return zeroPadValue(value, 32);
+}
+
+describe("Test UserOperation", function() {
+    it("packs v0.7 operations", function() {
+        const packed = packUserOperation(op);
+
+        assert.equal(packed.initCode, concat([ factory, "0x1234" ]).toLowerCase(), "initCode");
+        assert.equal(packed.accountGasLimits, concat([ toBeHex(200000, 16), toBeHex(100000, 16) ]), "accountGasLimits");
+        assert.equal(packed.gasFees, concat([ toBeHex(1000000000, 16), toBeHex(3000000000, 16) ]), "gasFees");
+        assert.equal(packed.paymasterAndData, concat([
+            paymaster, toBeHex(60000, 16), toBeHex(40000, 16), "0xabcd"
+        ]).toLowerCase(), "paymasterAndData");
+    });
+
+    it("normalizes v0.6 fields", function() {
+        const uop = userOperationFrom({
+            sender,
+            initCode: concat([ factory, "0x1234" ]),
+            paymasterAndData: concat([ paymaster, "0xabcd" ])
+        });
+        assert.equal(uop.factory, factory, "factory");
+        assert.equal(uop.factoryData, "0x1234", "factoryData");
+        assert.equal(uop.paymaster, paymaster, "paymaster");
+        assert.equal(uop.paymasterData, "0xabcd", "paymasterData");
+        assert.equal(uop.nonce, BigInt(0), "nonce");
+    });
+
+    it("hashes v0.7 operations", function() {
+        const packed = packUserOperation(op);
+        const inner = keccak256(concat([
+            word(sender), word(7),
+            keccak256(packed.initCode), keccak256(op.callData),
+            packed.accountGasLimits, word(50000), packed.gasFees,
+            keccak256(packed.paymasterAndData)
+        ]));
+        const expected = keccak256(concat([ inner, word(EntryPointV07), word(11155111) ]));
+
+        assert.equal(getUserOperationHash(op, EntryPointV07, 11155111), expected);
+
+        // As returned by getUserOpHash of the v0.7 EntryPoint on Sepolia
+        assert.equal(getUserOperationHash(op, EntryPointV07, 11155111), "0xa3fed1584e967bb6cc045428d399beac1f2e58531fffb8c24e3e22f1ca7eb4f3");
+    });
+
+    it("hashes v0.6 operations", function() {
+        const inner = keccak256(concat([
+            word(sender), word(7),
+            keccak256(concat([ factory, "0x1234" ])), keccak256(op.callData),
+            word(100000), word(200000), word(50000), word(3000000000), word(1000000000),
+            keccak256(concat([ paymaster, "0xabcd" ]))
+        ]));
+        const expected = keccak256(concat([ inner, word(EntryPointV06), word(1) ]));
+
+        // The version is inferred from the EntryPoint address
+        assert.equal(getUserOperationHash(op, EntryPointV06, 1), expected);
+
+        // As returned by getUserOpHash of the v0.6 EntryPoint on mainnet
+        assert.equal(getUserOperationHash(op, EntryPointV06, 1), "0xb2682428099a9049d7502e7bbda750f42d3ef673359b1b3bd1eff7ef057f67c5");
+    });
+});
+
+// A fake bundler, which also answers the node requests; each
+// UserOperation is mined in bundleTx, sent by bundlerWallet
+const bundlerWallet = new Wallet(id("bundler"));
+const owner = new Wallet(id("owner"));
+
+const blockHash = id("block");
+const target = getAddress("0x5555763613a12d8f3e73be831dff8598089d3dca");
+const targetIface = new Interface([ "function set(uint256 value)", "event Set(uint256 value)" ]);
+
+class MockBundlerProvider extends BundlerProvider {
+    readonly requests: Array<JsonRpcPayload>;
+    readonly userOps: Array<any>;
+
+    code: string;
+    bundleTx: Transaction;
+    mined: boolean;
+
+    constructor(bundleTx: Transaction) {
+        super("http:/\/localhost:3000", Network.from("sepolia"), { staticNetwork: true, batchMaxCount: 1 });
+        this.requests = [ ];
+        this.userOps = [ ];
+        this.code = "0x";
+        this.bundleTx = bundleTx;
+        this.mined = false;
+        this.pollingInterval = 10;
+    }
+
+    #getLog(): any {
+        return {
+            address: target, blockHash, blockNumber: "0x10",
+            transactionHash: this.bundleTx.hash, transactionIndex: "0x0",
+            logIndex: "0x0", removed: false,
+            topics: [ targetIface.getEvent("Set")!.topicHash ],
+            data: toBeHex(5, 32)
+        };
+    }
+
+    #getReceipt(): any {
+        return {
+            to: EntryPointV07, from: bundlerWallet.address, contractAddress: null,
+            transactionIndex: "0x0", gasUsed: "0x5678", logsBloom: "0x" + "00".repeat(256),
+            blockHash, transactionHash: this.bundleTx.hash, logs: [ this.#getLog() ],
+            blockNumber: "0x10", cumulativeGasUsed: "0x5678",
+            effectiveGasPrice: "0x3b9aca00", status: "0x1", type: "0x2"
+        };
+    }
+
+    #handle(method: string, params: Array<any>): any {
+        switch (method) {
+            case "eth_chainId":
+                return "0xaa36a7";
+
+            case "eth_getCode":
+                return this.code;
+
+            case "eth_call":
+                assert.equal(params[0].to.toLowerCase(), EntryPointV07.toLowerCase(), "getNonce");
+                return toBeHex(5, 32);
+
+            case "eth_estimateUserOperationGas":
+                return {
+                    preVerificationGas: "0xc350",
+                    verificationGasLimit: "0x30d40",
+                    callGasLimit: "0x186a0"
+                };
+
+            case "eth_sendUserOperation":
+                this.userOps.push(params[0]);
+                return id("userOp");
+
+            case "eth_getUserOperationReceipt": {
+                // Pending for the first poll
+                if (!this.mined) {
+                    this.mined = true;
+                    return null;
+                }
+
+                return {
+                    userOpHash: params[0], entryPoint: EntryPointV07, sender,
+                    nonce: "0x5", paymaster: null, actualGasCost: "0x1234",
+                    actualGasUsed: "0x5678", success: true, reason: "",
+                    logs: [ this.#getLog() ], receipt: this.#getReceipt()
+                };
+            }
+
+            case "eth_blockNumber":
+                return "0x10";
+
+            case "eth_getTransactionReceipt":
+                assert.equal(params[0], this.bundleTx.hash, "bundle hash");
+                return this.#getReceipt();
+
+            case "eth_getTransactionByHash": {
+                const tx = this.bundleTx;
+                assert.equal(params[0], tx.hash, "bundle hash");
+                return Object.assign({ }, tx.toJSON(), tx.signature!.toJSON(), {
+                    hash: tx.hash, from: bundlerWallet.address,
+                    blockHash, blockNumber: "0x10"
+                });
+            }
+        }
+
+        throw new Error(`unhandled method: ${ method }`);
+    }
+
+    async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+        const payloads = Array.isArray(payload) ? payload: [ payload ];
+        return payloads.map((p) => {
+            this.requests.push(p);
+            return { id: p.id, result: this.#handle(p.method, <Array<any>>(p.params)) };
+        });
+    }
+}
+
+describe("Test SmartAccountSigner", function() {
+    let bundleTx: Transaction;
+    before(async function() {
+        bundleTx = Transaction.from(await bundlerWallet.signTransaction({
+            chainId: 11155111, nonce: 0, gasLimit: 1000000,
+            maxFeePerGas: 3000000000, maxPriorityFeePerGas: 1000000000,
+            to: EntryPointV07, data: "0x765e827f"
+        }));
+    });
+
+    it("sends a contract transaction as a UserOperation", async function() {
+        const bundler = new MockBundlerProvider(bundleTx);
+        const signer = new SmartAccountSigner(owner, {
+            address: sender, bundler, factory, factoryData: "0x1234"
+        });
+
+        const contract = new Contract(target, targetIface, signer);
+        const tx = await contract.set(5, {
+            maxFeePerGas: 3000000000, maxPriorityFeePerGas: 1000000000
+        });
+
+        // The response is for the bundle transaction
+        assert.equal(tx.hash, bundleTx.hash, "hash");
+        assert.equal(tx.from, bundlerWallet.address, "from");
+
+        const receipt = await tx.wait();
+        assert.equal(receipt!.status, 1, "status");
+
+        const estimate = bundler.requests.find((r) => r.method === "eth_estimateUserOperationGas")!;
+        assert.equal((<any>estimate.params)[1], EntryPointV07, "entryPoint");
+
+        assert.equal(bundler.userOps.length, 1, "userOps");
+        const userOp = bundler.userOps[0];
+        assert.equal(userOp.sender, sender, "sender");
+        assert.equal(userOp.nonce, "0x5", "nonce");
+        assert.equal(userOp.factory, factory, "factory");
+        assert.equal(userOp.factoryData, "0x1234", "factoryData");
+        assert.equal(userOp.callGasLimit, "0x186a0", "callGasLimit");
+        assert.equal(userOp.paymaster, undefined, "paymaster");
+
+        const call = (new Interface([ "function execute(address, uint256, bytes)" ])).decodeFunctionData("execute", userOp.callData);
+        assert.equal(call[0], target, "call.to");
+        assert.equal(call[1], BigInt(0), "call.value");
+        assert.equal(call[2], targetIface.encodeFunctionData("set", [ 5 ]), "call.data");
+
+        // The owner signed the hash of the operation
+        const hash = getUserOperationHash(userOp, EntryPointV07, 11155111);
+        assert.equal(verifyMessage(getBytes(hash), userOp.signature), owner.address, "signature");
+    });
+
+    it("omits the factory once deployed", async function() {
+        const bundler = new MockBundlerProvider(bundleTx);
+        bundler.code = "0x6080";
+
+        const signer = new SmartAccountSigner(owner, {
+            address: sender, bundler, factory, factoryData: "0x1234"
+        });
+
+        const op = await signer.buildUserOperation({
+            to: target, value: 1, maxFeePerGas: 2, maxPriorityFeePerGas: 1
+        });
+        assert.equal(op.factory, null, "factory");
+        assert.equal(op.verificationGasLimit, BigInt(200000), "verificationGasLimit");
+        assert.equal(op.signature, "0x", "signature");
+    });
+
+    it("sends v0.6 operations", async function() {
+        const bundler = new MockBundlerProvider(bundleTx);
+
+        await bundler.sendUserOperation(Object.assign({ }, op, { signature: "0x99" }), EntryPointV06);
+
+        const userOp = bundler.userOps[0];
+        assert.equal(userOp.initCode, concat([ factory, "0x1234" ]).toLowerCase(), "initCode");
+        assert.equal(userOp.paymasterAndData, concat([ paymaster, "0xabcd" ]).toLowerCase(), "paymasterAndData");
+        assert.equal(userOp.factory, undefined, "factory");
+        assert.equal(userOp.signature, "0x99", "signature");
+    });
+
+    it("signs messages with the owner unless adapted", async function() {
+        const bundler = new MockBundlerProvider(bundleTx);
+
+        const signer = new SmartAccountSigner(owner, { address: sender, bundler });
+        assert.equal(verifyMessage("hello", await signer.signMessage("hello")), owner.address, "owner");
+
+        // e.g. an account which expects its signatures to be tagged
+        const tagged = new SmartAccountSigner(owner, {
+            address: sender, bundler,
+            signMessage: async (message, owner) => concat([ "0x01", await owner.signMessage(message) ]),
+            signTypedData: async (domain, types, value, owner) => concat([ "0x02", await owner.signTypedData(domain, types, value) ])
+        });
+
+        const signature = await tagged.signMessage("hello");
+        assert.equal(signature.substring(0, 4), "0x01", "tag");
+        assert.equal(verifyMessage("hello", "0x" + signature.substring(4)), owner.address, "tagged");
+
+        const typed = await tagged.signTypedData({ name: "Test" }, { Mail: [ { name: "body", type: "string" } ] }, { body: "hello" });
+        assert.equal(typed.substring(0, 4), "0x02", "typed tag");
+    });
+
+    it("rejects signing transactions", async function() {
+        const bundler = new MockBundlerProvider(bundleTx);
+        const signer = new SmartAccountSigner(owner, { address: sender, bundler });
+
+        await assert.rejects(signer.signTransaction({ to: target }), (error: any) => {
+            return error.code === "UNSUPPORTED_OPERATION" && error.operation === "signTransaction";
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import {
+    AbstractProvider, FileProviderCache, MemoryProviderCache, Network
+} from "../index.js";
+
+import type {
+    PerformActionRequest, ProviderCache
+} from "../index.js";
+
+
+const network = Network.from("mainnet");
+
+const blockHash = "0x4b6f3e1d1b3c1e0a2f0b8d7a6c5e4d3c2b1a09f8e7d6c5b4a39281706f5e4d3c";
+const txHash = "0x33017397ef7c7943dee3b422aec52b0a210de58d73d49c1b3ce455970f01c83a";
+const address = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+
+class CountingProvider extends AbstractProvider {
+    readonly counts: Record<string, number>;
+    head: number;
+    txBlock: null | number;
+
+    constructor(cache: ProviderCache) {
+        super(network, { cacheTimeout: -1, cache, cacheConfirmations: 5 });
+        this.counts = { };
+        this.head = 100;
+        this.txBlock = 90;
+    }
+
+    async _detectNetwork(): Promise<Network> { return network; }
+
+    async _perform(req: PerformActionRequest): Promise<any> {
+        this.counts[req.method] = (this.counts[req.method] || 0) + 1;
+
+        switch (req.method) {
+            case "getBlockNumber":
+                return this.head;
+            case "getCode":
+                return "0x1234";
+            case "call":
+                return "0x5678";
+            case "getTransactionReceipt":
+                if (this.txBlock == null) { return null; }
+                return {
+                    to: address, from: address, contractAddress: null,
+                    hash: req.hash, index: 0, blockHash, blockNumber: this.txBlock,
+                    logsBloom: "0x", logs: [ ], gasUsed: "0x5208",
+                    cumulativeGasUsed: "0x5208", effectiveGasPrice: "0x01",
+                    status: 1, type: 2
+                };
+        }
+
+        throw new Error(`unhandled method: ${ req.method }`);
+    }
+}
+
+describe("Test Provider Cache", function() {
+
+    it("evicts the least-recently used entries", async function() {
+        const cache = new MemoryProviderCache(2);
+        await cache.set("a", 1);
+        await cache.set("b", 2);
+        assert.equal(await cache.get("a"), 1, "get(a)");
+
+        // "b" is now the least-recently used
+        await cache.set("c", 3);
+        assert.equal(cache.size, 2, "size");
+        assert.equal(await cache.get("b"), undefined, "get(b)");
+        assert.equal(await cache.get("a"), 1, "get(a)");
+        assert.equal(await cache.get("c"), 3, "get(c)");
+    });
+
+    it("caches getCode and call at deep block numbers", async function() {
+        const provider = new CountingProvider(new MemoryProviderCache());
+
+        for (let i = 0; i < 3; i++) {
+            assert.equal(await provider.getCode(address, 50), "0x1234", "getCode");
+            assert.equal(await provider.call({ to: address, data: "0x", blockTag: 50 }), "0x5678", "call");
+        }
+
+        assert.equal(provider.counts.getCode, 1, "getCode count");
+        assert.equal(provider.counts.call, 1, "call count");
+    });
+
+    it("does not cache recent or symbolic block tags", async function() {
+        const provider = new CountingProvider(new MemoryProviderCache());
+
+        for (let i = 0; i < 2; i++) {
+            await provider.getCode(address, 99);
+            await provider.getCode(address, "latest");
+        }
+
+        assert.equal(provider.counts.getCode, 4, "getCode count");
+    });
+
+    it("caches receipts only once confirmed", async function() {
+        const provider = new CountingProvider(new MemoryProviderCache());
+
+        provider.txBlock = null;
+        assert.equal(await provider.getTransactionReceipt(txHash), null, "pending");
+
+        provider.txBlock = 98;
+        await provider.getTransactionReceipt(txHash);
+        await provider.getTransactionReceipt(txHash);
+        assert.equal(provider.counts.getTransactionReceipt, 3, "unconfirmed count");
+
+        provider.head = 110;
+        await provider.getTransactionReceipt(txHash);
+        await provider.getTransactionReceipt(txHash);
+        assert.equal(provider.counts.getTransactionReceipt, 4, "confirmed count");
+    });
+
+    it("persists entries in a FileProviderCache", async function() {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ethers-cache-"));
+        try {
+            const cache = new FileProviderCache(path.join(dir, "cache"));
+            await cache.set("some-key", { hash: blockHash });
+
+            const reloaded = new FileProviderCache(path.join(dir, "cache"));
+            assert.deepStrictEqual(await reloaded.get("some-key"), { hash: blockHash }, "get(some-key)");
+            assert.equal(await reloaded.get("missing-key"), undefined, "get(missing-key)");
+
+            // The persisted entry is used by a fresh provider
+            const provider = new CountingProvider(reloaded);
+            await provider.getCode(address, 10);
+            await (new CountingProvider(reloaded)).getCode(address, 10);
+            assert.equal(provider.counts.getCode, 1, "getCode count");
+
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,339 @@
+import assert from "assert";
+
+import {
+    getNumber, id, isError, toQuantity, zeroPadValue,
+    EtherscanProvider, Log, RequestScheduler, TransactionResponse
+} from "../index.js";
+
+
+const account = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const token = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+const other = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+
+const TransferTopic = id("Transfer(address,address,uint256)");
+const ApprovalTopic = id("Approval(address,address,uint256)");
+
+// An EtherscanProvider which answers from a set of handlers rather
+// than making network requests
+class MockEtherscanProvider extends EtherscanProvider {
+    readonly requests: Array<{ module: string, params: Record<string, any> }>;
+    readonly handlers: Record<string, (params: Record<string, any>) => any>;
+
+    constructor() {
+        super("mainnet");
+        this.requests = [ ];
+        this.handlers = { };
+    }
+
+    async fetch(module: string, params: Record<string, any>, post?: boolean): Promise<any> {
+        this.requests.push({ module, params });
+
+        const handler = this.handlers[params.action];
+        if (handler == null) { throw new Error(`unhandled action: ${ params.action }`); }
+        return handler(params);
+    }
+
+    get logRequests(): Array<Record<string, any>> {
+        return this.requests.filter((r) => (r.params.action === "getLogs")).map((r) => r.params);
+    }
+}
+
+function getBlock(number: number): any {
+    return {
+        hash: id(`block-${ number }`), parentHash: id(`block-${ number - 1 }`),
+        number: "0x" + number.toString(16), timestamp: "0x1000",
+        nonce: "0x0000000000000000", difficulty: "0x0",
+        gasLimit: "0x1c9c380", gasUsed: "0x0", miner: account,
+        extraData: "0x", baseFeePerGas: "0x7", transactions: [ ]
+    };
+}
+
+function getLog(blockNumber: number, logIndex: string, topics: Array<string>): any {
+    return {
+        address: token.toLowerCase(), topics, data: "0x",
+        blockNumber: "0x" + blockNumber.toString(16),
+        timeStamp: "0x1000", gasPrice: "0x1", gasUsed: "0x1",
+        logIndex, transactionHash: id(`tx-${ blockNumber }`),
+        transactionIndex: "0x"
+    };
+}
+
+describe("Test EtherscanProvider getLogs", function() {
+    it("expands topic alternatives and merges the results", async function() {
+        const provider = new MockEtherscanProvider();
+
+        const from = zeroPadValue(account, 32);
+        provider.handlers.getLogs = (params) => {
+            if (params.topic0 === TransferTopic) {
+                return [ getLog(12, "0x1", [ TransferTopic, from ]), getLog(10, "0x", [ TransferTopic, from ]) ];
+            }
+            return [ getLog(11, "0x2", [ ApprovalTopic, from ]), getLog(12, "0x1", [ TransferTopic, from ]) ];
+        };
+        provider.handlers.eth_getBlockByNumber = (params) => getBlock(parseInt(params.tag));
+
+        const logs = await provider.getLogs({
+            address: token, fromBlock: 10, toBlock: "latest",
+            topics: [ [ TransferTopic, ApprovalTopic ], from ]
+        });
+
+        const requests = provider.logRequests;
+        assert.equal(requests.length, 2, "requests");
+        for (const request of requests) {
+            assert.equal(request.address, token, "address");
+            assert.equal(request.fromBlock, "10", "fromBlock");
+            assert.equal(request.toBlock, "latest", "toBlock");
+            assert.equal(request.topic1, from, "topic1");
+            assert.equal(request.topic0_1_opr, "and", "topic0_1_opr");
+        }
+        assert.deepEqual(requests.map((r) => r.topic0).sort(), [ TransferTopic, ApprovalTopic ].sort(), "topic0");
+
+        // Duplicates are removed and the logs are sorted
+        assert.equal(logs.length, 3, "logs");
+        for (const log of logs) { assert.ok(log instanceof Log, "instanceof Log"); }
+        assert.deepEqual(logs.map((l) => l.blockNumber), [ 10, 11, 12 ], "blockNumber");
+        assert.deepEqual(logs.map((l) => l.index), [ 0, 2, 1 ], "index");
+        assert.deepEqual(logs.map((l) => l.blockHash), [ 10, 11, 12 ].map((n) => id(`block-${ n }`)), "blockHash");
+        assert.equal(logs[0].transactionIndex, 0, "transactionIndex");
+    });
+
+    it("restarts queries with more results than can be paged through", async function() {
+        this.timeout(10000);
+
+        const provider = new MockEtherscanProvider();
+
+        // Ten logs in each block, sorted as the API does
+        const results: Array<any> = [ ];
+        for (let i = 0; i < 10500; i++) {
+            const log = getLog(100 + Math.floor(i / 10), toQuantity(i % 10), [ TransferTopic ]);
+            log.blockHash = id(`block-${ getNumber(log.blockNumber) }`);
+            results.push(log);
+        }
+
+        provider.handlers.getLogs = (params) => {
+            if (params.page * params.offset > 10000) {
+                throw new Error("Result window is too large, PageNo x Offset size must be less than or equal to 10000");
+            }
+            const fromBlock = parseInt(params.fromBlock);
+            const matching = results.filter((log) => (getNumber(log.blockNumber) >= fromBlock));
+            return matching.slice((params.page - 1) * params.offset, params.page * params.offset);
+        };
+
+        const logs = await provider.getLogs({ address: token, fromBlock: 100, toBlock: "latest" });
+        assert.equal(logs.length, 10500, "logs");
+        assert.equal(logs[logs.length - 1].blockNumber, 1149, "last blockNumber");
+
+        const requests = provider.logRequests;
+        assert.equal(requests.length, 11, "requests");
+        assert.equal(requests[10].page, 1, "restart.page");
+        assert.equal(requests[10].fromBlock, "1099", "restart.fromBlock");
+    });
+
+    it("does not support filtering by block hash", async function() {
+        const provider = new MockEtherscanProvider();
+
+        await assert.rejects(provider.getLogs({ blockHash: id("block") }), (error: any) => {
+            return isError(error, "UNSUPPORTED_OPERATION") && error.operation === "getLogs(blockHash)";
+        });
+    });
+});
+
+describe("Test EtherscanProvider getHistory", function() {
+    it("paginates transactions", async function() {
+        const provider = new MockEtherscanProvider();
+
+        const txs = [ 1, 2, 3 ].map((i) => ({
+            blockNumber: String(100 + i), blockHash: id(`block-${ 100 + i }`),
+            timeStamp: "1000", hash: id(`tx-${ i }`), nonce: String(i),
+            transactionIndex: "4", from: account.toLowerCase(),
+            to: (i === 3) ? "": other.toLowerCase(), value: "1000", gas: "21000",
+            gasPrice: "20000000000", isError: "0", input: "0x",
+            contractAddress: (i === 3) ? token.toLowerCase(): "",
+            gasUsed: "21000", confirmations: "10"
+        }));
+
+        provider.handlers.txlist = (params) => {
+            const offset = (params.page - 1) * params.offset;
+            return txs.slice(offset, offset + params.offset);
+        };
+
+        const page1 = await provider.getHistory(account, { pageSize: 2 });
+        assert.equal(page1.length, 2, "page1");
+        assert.equal(page1.done, false, "page1.done");
+
+        const tx = page1[0];
+        assert.ok(tx instanceof TransactionResponse, "instanceof TransactionResponse");
+        assert.equal(tx.hash, id("tx-1"), "hash");
+        assert.equal(tx.blockNumber, 101, "blockNumber");
+        assert.equal(tx.from, account, "from");
+        assert.equal(tx.to, other, "to");
+        assert.equal(tx.nonce, 1, "nonce");
+        assert.equal(tx.value, BigInt(1000), "value");
+        assert.equal(tx.gasPrice, BigInt(20000000000), "gasPrice");
+        assert.equal(tx.chainId, BigInt(1), "chainId");
+
+        const page2 = await page1.next();
+        assert.equal(page2.length, 1, "page2");
+        assert.equal(page2.done, true, "page2.done");
+        assert.equal(page2[0].to, null, "to (deploy)");
+
+        const request = provider.requests[0];
+        assert.equal(request.module, "account", "module");
+        assert.equal(request.params.address, account, "address");
+        assert.equal(request.params.sort, "asc", "sort");
+        assert.equal(request.params.startblock, 0, "startblock");
+        assert.ok(!("endblock" in request.params), "endblock");
+
+        await provider.getHistory(account, { startBlock: 5, endBlock: 200000000 });
+        const ranged = provider.requests[provider.requests.length - 1];
+        assert.equal(ranged.params.startblock, 5, "ranged.startblock");
+        assert.equal(ranged.params.endblock, 200000000, "ranged.endblock");
+
+        // Iterating fetches each page
+        const hashes: Array<string> = [ ];
+        for await (const tx of await provider.getHistory(account, { pageSize: 2 })) {
+            hashes.push(tx.hash);
+        }
+        assert.deepEqual(hashes, [ 1, 2, 3 ].map((i) => id(`tx-${ i }`)), "iterate");
+    });
+
+    it("returns internal transactions and token transfers", async function() {
+        const provider = new MockEtherscanProvider();
+
+        provider.handlers.txlistinternal = (params) => [ {
+            blockNumber: "101", timeStamp: "1000", hash: id("tx-1"),
+            from: other.toLowerCase(), to: account.toLowerCase(), value: "5000",
+            contractAddress: "", input: "", type: "call", gas: "2300",
+            gasUsed: "0", traceId: "0_1", isError: "0", errCode: ""
+        } ];
+
+        provider.handlers.tokentx = (params) => [ {
+            blockNumber: "102", timeStamp: "1000", hash: id("tx-2"), nonce: "1",
+            blockHash: id("block-102"), from: account.toLowerCase(),
+            contractAddress: token.toLowerCase(), to: other.toLowerCase(),
+            value: "42", tokenName: "Dai Stablecoin", tokenSymbol: "DAI",
+            tokenDecimal: "18", transactionIndex: "3", gas: "50000",
+            gasPrice: "1", gasUsed: "40000", input: "deprecated"
+        } ];
+
+        const internal = await provider.getHistory(account, { type: "internal" });
+        assert.deepEqual(internal[0], {
+            hash: id("tx-1"), blockNumber: 101, timestamp: 1000, type: "call",
+            from: other, to: account, contractAddress: null,
+            value: BigInt(5000), gasLimit: BigInt(2300), gasUsed: BigInt(0),
+            data: "0x", traceId: "0_1", failed: false
+        }, "internal");
+
+        const transfers = await provider.getHistory(account, { type: "erc20", token });
+        assert.equal(provider.requests[1].params.contractaddress, token, "contractaddress");
+
+        const log = transfers[0];
+        assert.ok(log instanceof Log, "instanceof Log");
+        assert.equal(log.address, token, "address");
+        assert.equal(log.transactionHash, id("tx-2"), "transactionHash");
+        assert.equal(log.blockHash, id("block-102"), "blockHash");
+        assert.equal(log.index, -1, "index");
+        assert.deepEqual(log.topics, [
+            TransferTopic, zeroPadValue(account, 32).toLowerCase(), zeroPadValue(other, 32).toLowerCase()
+        ], "topics");
+        assert.equal(BigInt(log.data), BigInt(42), "data");
+    });
+});
+
+describe("Test EtherscanProvider getContractSource", function() {
+    const abi = JSON.stringify([ {
+        type: "function", name: "foo", stateMutability: "view",
+        inputs: [ ], outputs: [ { type: "uint256", name: "" } ]
+    } ]);
+
+    function getSource(values: Record<string, any>): any {
+        return [ Object.assign({
+            ABI: abi, ContractName: "Foo", CompilerVersion: "v0.8.24+commit.e11b9ed9",
+            OptimizationUsed: "1", Runs: "200", ConstructorArguments: "",
+            EVMVersion: "paris", Library: "", LicenseType: "MIT", Proxy: "0",
+            Implementation: "", SwarmSource: ""
+        }, values) ];
+    }
+
+    it("parses single-file sources", async function() {
+        const provider = new MockEtherscanProvider();
+        provider.handlers.getsourcecode = () => getSource({
+            SourceCode: "contract Foo { }", ConstructorArguments: "1234",
+            Proxy: "1", Implementation: other.toLowerCase()
+        });
+
+        const source = await provider.getContractSource(token);
+        assert.ok(source, "source");
+        assert.equal(source.address, token, "address");
+        assert.equal(source.name, "Foo", "name");
+        assert.ok(source.abi.getFunction("foo"), "abi");
+        assert.deepEqual(source.sources, { "Foo.sol": "contract Foo { }" }, "sources");
+        assert.equal(source.settings, null, "settings");
+        assert.equal(source.compilerVersion, "v0.8.24+commit.e11b9ed9", "compilerVersion");
+        assert.equal(source.optimizationUsed, true, "optimizationUsed");
+        assert.equal(source.runs, 200, "runs");
+        assert.equal(source.evmVersion, "paris", "evmVersion");
+        assert.equal(source.constructorArguments, "0x1234", "constructorArguments");
+        assert.equal(source.license, "MIT", "license");
+        assert.equal(source.implementation, other, "implementation");
+    });
+
+    it("parses standard JSON input sources", async function() {
+        const provider = new MockEtherscanProvider();
+
+        const input = {
+            language: "Solidity",
+            sources: {
+                "contracts/Foo.sol": { content: "import \"./Bar.sol\";" },
+                "contracts/Bar.sol": { content: "contract Bar { }" }
+            },
+            settings: { optimizer: { enabled: false, runs: 200 } }
+        };
+        provider.handlers.getsourcecode = () => getSource({
+            SourceCode: `{${ JSON.stringify(input) }}`, OptimizationUsed: "0"
+        });
+
+        const source = await provider.getContractSource(token);
+        assert.ok(source, "source");
+        assert.deepEqual(source.sources, {
+            "contracts/Foo.sol": "import \"./Bar.sol\";",
+            "contracts/Bar.sol": "contract Bar { }"
+        }, "sources");
+        assert.deepEqual(source.settings, input.settings, "settings");
+        assert.equal(source.optimizationUsed, false, "optimizationUsed");
+        assert.equal(source.implementation, null, "implementation");
+    });
+
+    it("parses Blockscout additional sources", async function() {
+        const provider = new MockEtherscanProvider();
+        provider.handlers.getsourcecode = () => getSource({
+            SourceCode: "import \"./Bar.sol\";", FileName: "contracts/Foo.sol",
+            AdditionalSources: [ { Filename: "contracts/Bar.sol", SourceCode: "contract Bar { }" } ]
+        });
+
+        const source = await provider.getContractSource(token);
+        assert.ok(source, "source");
+        assert.deepEqual(source.sources, {
+            "contracts/Foo.sol": "import \"./Bar.sol\";",
+            "contracts/Bar.sol": "contract Bar { }"
+        }, "sources");
+    });
+
+    it("returns null for unverified contracts", async function() {
+        const provider = new MockEtherscanProvider();
+        provider.handlers.getsourcecode = () => getSource({
+            SourceCode: "", ABI: "Contract source code not verified"
+        });
+
+        assert.equal(await provider.getContractSource(token), null);
+    });
+});
+
+describe("Test EtherscanProvider options", function() {
+    it("accepts a scheduler", function() {
+        const scheduler = new RequestScheduler({ requestsPerSecond: 5 });
+        const provider = new EtherscanProvider("mainnet", undefined, { scheduler });
+        assert.equal(provider.scheduler, scheduler, "scheduler");
+
+        assert.equal(new EtherscanProvider("mainnet").scheduler, null, "default");
+    });
+});
@@ -159,3 +159,256 @@ describe("Test Inflight Quorum", function() {
     // @TODO: add lots more tests, checking on priority, weight and stall
     //        configurations
 });
+
+describe("Test Fallback Health", function() {
+    it("circuit-breaks failing providers and recovers them", async function() {
+        this.timeout(5000);
+
+        let failing = false;
+        let failedCalls = 0;
+
+        const fail = () => {
+            failedCalls++;
+            throw makeError("connection refused", "NETWORK_ERROR", { event: "test" });
+        };
+
+        const healthy = new MockProvider(async (r) => {
+            if (r.method === "getBlockNumber") { return 1; }
+            if (r.method === "getBalance") { return 0; }
+            throw new Error(`unhandled method: ${ r.method }`);
+        });
+
+        const flaky = new MockProvider(async (r) => {
+            if (r.method === "getBlockNumber" || r.method === "getBalance") {
+                if (failing) { fail(); }
+                return (r.method === "getBlockNumber") ? 1: 0;
+            }
+            throw new Error(`unhandled method: ${ r.method }`);
+        });
+
+        // Every request checks the network, which must also fail
+        flaky._detectNetwork = async () => {
+            if (failing) { fail(); }
+            return network;
+        };
+
+        const provider = new FallbackProvider([ healthy, flaky ], network, {
+            cacheTimeout: -1, quorum: 1,
+            circuitBreakerThreshold: 2, circuitBreakerCooldown: 100
+        });
+
+        await provider.getBalance(ZeroAddress);
+        failing = true;
+
+        // Send requests until the flaky provider has failed twice
+        for (let i = 0; i < 100; i++) {
+            if (provider.getProviderStats()[1].circuit === "open") { break; }
+            try { await provider.getBalance(ZeroAddress); } catch (error) { }
+        }
+
+        let stats = provider.getProviderStats();
+        assert.equal(stats[0].circuit, "closed", "healthy.circuit");
+        assert.equal(stats[1].circuit, "open", "flaky.circuit");
+        assert.ok(stats[1].consecutiveErrors >= 2, "consecutiveErrors");
+        assert.equal(stats[1].health, 0, "health");
+        assert.ok(stats[1].errorRate > 0, "errorRate");
+
+        // The open provider is skipped
+        const count = failedCalls;
+        for (let i = 0; i < 10; i++) { await provider.getBalance(ZeroAddress); }
+        assert.equal(failedCalls, count, "skipped");
+
+        // Once the cooldown has elapsed, a failed probe re-opens it
+        await stall(150);
+        await provider.getBalance(ZeroAddress);
+        await stall(10);
+        assert.equal(failedCalls, count + 1, "probed");
+        assert.equal(provider.getProviderStats()[1].circuit, "open", "probe failed");
+
+        // A successful probe closes it
+        failing = false;
+        await stall(150);
+        await provider.getBalance(ZeroAddress);
+        await stall(10);
+
+        stats = provider.getProviderStats();
+        assert.equal(stats[1].circuit, "closed", "recovered");
+        assert.equal(stats[1].consecutiveErrors, 0, "recovered.consecutiveErrors");
+        assert.ok(stats[1].health > 0, "recovered.health");
+    });
+
+    it("does not penalize valid error responses", async function() {
+        const provider = new FallbackProvider([
+            new MockProvider(async (r) => {
+                if (r.method === "getBlockNumber") { return 1; }
+                if (r.method === "call") {
+                    throw makeError("execution reverted", "CALL_EXCEPTION", {
+                        action: "call", data: "0x", reason: null,
+                        transaction: { to: ZeroAddress, data: "0x" },
+                        invocation: null, revert: null
+                    });
+                }
+                throw new Error(`unhandled method: ${ r.method }`);
+            })
+        ], network, { cacheTimeout: -1, circuitBreakerThreshold: 1 });
+
+        for (let i = 0; i < 3; i++) {
+            await assert.rejects(provider.call({ to: ZeroAddress }), (error: any) => {
+                return isError(error, "CALL_EXCEPTION");
+            });
+        }
+
+        const stats = provider.getProviderStats()[0];
+        assert.equal(stats.errorResponses, 3, "errorResponses");
+        assert.equal(stats.errorRate, 0, "errorRate");
+        assert.equal(stats.circuit, "closed", "circuit");
+    });
+
+    it("demotes slow providers", async function() {
+        this.timeout(10000);
+
+        const create = (delay: number) => new MockProvider(async (r) => {
+            if (r.method === "getBlockNumber") { return 1; }
+            if (r.method === "getBalance") {
+                await stall(delay);
+                return 0;
+            }
+            throw new Error(`unhandled method: ${ r.method }`);
+        });
+
+        const provider = new FallbackProvider([
+            { provider: create(0), stallTimeout: 2000 },
+            { provider: create(400), stallTimeout: 2000 }
+        ], network, { cacheTimeout: -1, quorum: 1 });
+
+        // Until each provider has been used a few times
+        for (let i = 0; i < 100; i++) {
+            await provider.getBalance(ZeroAddress);
+            if (provider.getProviderStats().every((s) => s.requests >= 3)) { break; }
+        }
+
+        const [ fast, slow ] = provider.getProviderStats();
+        assert.ok(fast.requests >= 3 && slow.requests >= 3, "requests");
+        assert.equal(fast.health, 1, "fast.health");
+        assert.ok(slow.health < 0.5, "slow.health");
+    });
+});
+
+describe("Test Fallback Quorum Policies", function() {
+    const txHash = "0x33017397ef7c7943dee3b422aec52b0a210de58d73d49c1b3ce455970f01c83a";
+    const blockHash = "0x8ea2d1e5e3ba8ac8fd0c4d0b4dcf3e8b1e4a8ab0d1cbec36bbd7ecd7e1fa4d21";
+
+    function getLog(index: number): any {
+        return {
+            transactionHash: txHash, blockHash, blockNumber: 1, removed: false,
+            address: ZeroAddress, data: "0x", topics: [ ], index, transactionIndex: 0
+        };
+    }
+
+    function create(balance: number, logs: Array<any>): MockProvider {
+        return new MockProvider(async (r) => {
+            if (r.method === "getBlockNumber") { return 1; }
+            if (r.method === "getBalance") { return balance; }
+            if (r.method === "getLogs") { return logs; }
+            throw new Error(`unhandled method: ${ r.method }`);
+        });
+    }
+
+    it("reports backends which disagree", async function() {
+        const provider = new FallbackProvider([
+            create(100, [ ]), create(101, [ ]), create(100, [ ])
+        ], network, { cacheTimeout: -1, quorum: 3 });
+
+        await assert.rejects(provider.getBalance(ZeroAddress), (error: any) => {
+            if (!isError(error, "QUORUM_MISMATCH")) { return false; }
+            assert.equal(error.operation, "getBalance", "operation");
+            assert.equal(error.quorum, 3, "quorum");
+
+            const responses = error.responses.map(({ value, weight, backends }) => ({
+                value, weight, backends: backends.slice().sort()
+            }));
+            responses.sort((a, b) => (b.weight - a.weight));
+            assert.deepEqual(responses, [
+                { value: BigInt(100), weight: 2, backends: [ 0, 2 ] },
+                { value: BigInt(101), weight: 1, backends: [ 1 ] }
+            ], "responses");
+            return true;
+        });
+    });
+
+    it("applies per-method policies and comparators", async function() {
+        const provider = new FallbackProvider([
+            create(100, [ ]), create(101, [ ]), create(100, [ ])
+        ], network, {
+            cacheTimeout: -1, quorum: 3,
+            policies: {
+                getBalance: {
+                    compare: (a: bigint, b: bigint) => ((a > b) ? (a - b): (b - a)) <= BigInt(1)
+                },
+                getLogs: { quorum: 1 }
+            }
+        });
+
+        assert.ok([ BigInt(100), BigInt(101) ].indexOf(await provider.getBalance(ZeroAddress)) >= 0, "getBalance");
+
+        assert.throws(() => {
+            new FallbackProvider([ create(100, [ ]) ], network, {
+                policies: { getBalance: { quorum: 2 } }
+            });
+        }, (error: any) => (isError(error, "INVALID_ARGUMENT")));
+    });
+
+    it("compares logs as a set", async function() {
+        const provider = new FallbackProvider([
+            create(0, [ getLog(0), getLog(1) ]),
+            create(0, [ getLog(1), getLog(0) ]),
+        ], network, { cacheTimeout: -1, quorum: 2 });
+
+        const logs = await provider.getLogs({ });
+        assert.equal(logs.length, 2, "logs");
+
+        const mismatch = new FallbackProvider([
+            create(0, [ getLog(0), getLog(1) ]),
+            create(0, [ getLog(1) ]),
+        ], network, { cacheTimeout: -1, quorum: 2 });
+
+        await assert.rejects(mismatch.getLogs({ }), (error: any) => {
+            return isError(error, "QUORUM_MISMATCH");
+        });
+
+        // Backends which agree on the set are tallied together
+        const tallied = new FallbackProvider([
+            create(0, [ getLog(0), getLog(1) ]),
+            create(0, [ getLog(1), getLog(0) ]),
+            create(0, [ getLog(1) ]),
+        ], network, { cacheTimeout: -1, quorum: 3 });
+
+        await assert.rejects(tallied.getLogs({ }), (error: any) => {
+            if (!isError(error, "QUORUM_MISMATCH")) { return false; }
+
+            const responses = error.responses.map(({ weight, backends }) => ({
+                weight, backends: backends.slice().sort()
+            }));
+            responses.sort((a, b) => (b.weight - a.weight));
+            assert.deepEqual(responses, [
+                { weight: 2, backends: [ 0, 1 ] },
+                { weight: 1, backends: [ 2 ] }
+            ], "responses");
+            return true;
+        });
+    });
+
+    it("takes the median block number", async function() {
+        const provider = new FallbackProvider([ 10, 12, 30 ].map((blockNumber) => {
+            return new MockProvider(async (r) => {
+                if (r.method === "getBlockNumber") { return blockNumber; }
+                throw new Error(`unhandled method: ${ r.method }`);
+            });
+        }), network, {
+            cacheTimeout: -1, quorum: 2,
+            policies: { getBlockNumber: { broadcast: true, quorum: 3 } }
+        });
+
+        assert.equal(await provider.getBlockNumber(), 12);
+    });
+});
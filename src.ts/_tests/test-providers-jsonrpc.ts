@@ -2,10 +2,12 @@ import assert from "assert";
 
 import {
     id, isError, makeError, toUtf8Bytes, toUtf8String,
-    FetchRequest,
-    JsonRpcProvider, Transaction, Wallet
+    Contract, ErrorRegistry, FetchRequest, Interface,
+    JsonRpcApiProvider, JsonRpcProvider, Transaction, Wallet
 } from "../index.js";
 
+import type { JsonRpcError, JsonRpcPayload, JsonRpcResult } from "../index.js";
+
 const StatusMessages: Record<number, string> = {
   200: "OK",
   400: "BAD REQUEST",
@@ -205,3 +207,364 @@ describe("Ensure Catchable Errors", function() {
     });
 });
 
+
+describe("Test State Overrides and Simulation", function() {
+    const target = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+
+    it("passes overrides to eth_call and eth_estimateGas", async function() {
+        const requests: Record<string, Array<any>> = { };
+        const provider = createProvider((method, params) => {
+            switch (method) {
+                case "eth_call":
+                    requests[method] = params;
+                    return "0x1234";
+                case "eth_estimateGas":
+                    requests[method] = params;
+                    return "0x5208";
+            }
+            return undefined;
+        });
+
+        const stateOverride = {
+            [target.toLowerCase()]: { balance: 1000, nonce: 5, stateDiff: { "0x01": "0x02" } }
+        };
+        const blockOverrides = { timestamp: 1700000000, baseFeePerGas: 7 };
+
+        assert.equal(await provider.call({ to: target, stateOverride, blockOverrides }), "0x1234", "call");
+
+        const [ tx, blockTag, rpcStateOverride, rpcBlockOverrides ] = requests.eth_call;
+        assert.equal(tx.to, target.toLowerCase(), "to");
+        assert.equal(blockTag, "latest", "blockTag");
+        assert.deepEqual(rpcStateOverride, {
+            [target]: {
+                balance: "0x3e8", nonce: "0x5",
+                stateDiff: { [ "0x" + "00".repeat(31) + "01" ]: "0x" + "00".repeat(31) + "02" }
+            }
+        }, "stateOverride");
+        assert.deepEqual(rpcBlockOverrides, { time: "0x6553f100", baseFeePerGas: "0x7" }, "blockOverrides");
+
+        assert.equal(await provider.estimateGas({ to: target, stateOverride }), BigInt(21000), "estimateGas");
+        assert.equal(requests.eth_estimateGas.length, 3, "estimateGas params");
+        assert.equal(requests.eth_estimateGas[1], "latest", "estimateGas blockTag");
+
+        // Without overrides, the params are unchanged
+        await provider.call({ to: target });
+        assert.equal(requests.eth_call.length, 2, "call params");
+
+        provider.destroy();
+    });
+
+    it("rejects overriding both state and stateDiff", async function() {
+        const provider = createProvider(() => undefined);
+        await assert.rejects(provider.call({
+            to: target, stateOverride: { [target]: { state: { }, stateDiff: { } } }
+        }), (error: any) => isError(error, "INVALID_ARGUMENT"));
+        provider.destroy();
+    });
+
+    it("simulates bundles with eth_simulateV1", async function() {
+        const topic = id("Deposit(uint256)");
+        const revertData = "0x08c379a0" +
+            "0000000000000000000000000000000000000000000000000000000000000020" +
+            "0000000000000000000000000000000000000000000000000000000000000004" +
+            "6e6f706500000000000000000000000000000000000000000000000000000000";
+
+        let request: any = null;
+        const provider = createProvider((method, params) => {
+            if (method !== "eth_simulateV1") { return undefined; }
+            request = params;
+            return [ {
+                number: "0x10", hash: id("block"), timestamp: "0x6553f100",
+                gasLimit: "0x1c9c380", gasUsed: "0xa410", baseFeePerGas: "0x7",
+                calls: [ {
+                    status: "0x1", returnData: "0x", gasUsed: "0x5208",
+                    logs: [ {
+                        address: target.toLowerCase(), topics: [ topic ], data: "0x",
+                        blockNumber: "0x10", blockHash: id("block"), transactionHash: id("tx0"),
+                        transactionIndex: "0x0", logIndex: "0x0", removed: false
+                    } ]
+                }, {
+                    status: "0x0", returnData: revertData, gasUsed: "0x5208", logs: [ ],
+                    error: { code: 3, message: "execution reverted", data: revertData }
+                } ]
+            } ];
+        });
+
+        const results = await provider.simulate([ {
+            calls: [ { from: wallet.address, to: target, value: 1 }, { to: target, data: "0x1234" } ],
+            stateOverride: { [wallet.address]: { balance: 10 } },
+            blockOverrides: { number: 16 }
+        } ], { validation: true });
+
+        const [ params, blockTag ] = request;
+        assert.equal(blockTag, "latest", "blockTag");
+        assert.equal(params.validation, true, "validation");
+        assert.equal(params.traceTransfers, false, "traceTransfers");
+        assert.equal(params.blockStateCalls.length, 1, "blockStateCalls");
+        assert.equal(params.blockStateCalls[0].calls.length, 2, "calls");
+        assert.deepEqual(params.blockStateCalls[0].stateOverrides, { [wallet.address]: { balance: "0xa" } }, "stateOverrides");
+        assert.deepEqual(params.blockStateCalls[0].blockOverrides, { number: "0x10" }, "blockOverrides");
+
+        assert.equal(results.length, 1, "results");
+        const [ block ] = results;
+        assert.equal(block.number, 16, "number");
+        assert.equal(block.gasUsed, BigInt(42000), "gasUsed");
+
+        const [ success, failure ] = block.calls;
+        assert.equal(success.status, 1, "success.status");
+        assert.equal(success.error, null, "success.error");
+        assert.equal(success.logs.length, 1, "success.logs");
+        assert.equal(success.logs[0].topics[0], topic, "log.topics");
+        assert.equal(success.logs[0].address, target, "log.address");
+
+        assert.equal(failure.status, 0, "failure.status");
+        assert.ok(isError(failure.error, "CALL_EXCEPTION"), "failure.error");
+        assert.equal(failure.error.reason, "nope", "failure.error.reason");
+
+        provider.destroy();
+    });
+});
+
+
+describe("Test Tracing", function() {
+    const token = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+    const iface = new Interface([
+        "function transfer(address to, uint256 amount) returns (bool)",
+        "event Transfer(address indexed from, address indexed to, uint256 amount)",
+        "error InsufficientBalance(uint256 available)"
+    ]);
+
+    it("decodes callTracer frames", async function() {
+        const hash = id("tx");
+
+        const transferData = iface.encodeFunctionData("transfer", [ wallet.address, 5 ]);
+        const revertData = iface.encodeErrorResult("InsufficientBalance", [ 3 ]);
+        const log = iface.encodeEventLog("Transfer", [ wallet.address, token, 5 ]);
+
+        let config: any = null;
+        const provider = createProvider((method, params) => {
+            if (method !== "debug_traceTransaction") { return undefined; }
+            assert.equal(params[0], hash, "hash");
+            config = params[1];
+            return {
+                type: "CALL", from: wallet.address.toLowerCase(), to: token.toLowerCase(),
+                value: "0x0", gas: "0x7530", gasUsed: "0x5208",
+                input: transferData, output: iface.encodeFunctionResult("transfer", [ true ]),
+                logs: [ { address: token.toLowerCase(), topics: log.topics, data: log.data } ],
+                calls: [ {
+                    type: "STATICCALL", from: token.toLowerCase(), to: token.toLowerCase(),
+                    gas: "0x100", gasUsed: "0x100", input: transferData, output: revertData,
+                    error: "execution reverted"
+                } ]
+            };
+        });
+
+        const frame = await provider.traceTransaction(hash, {
+            tracer: "callTracer", withLog: true, interfaces: { [token]: iface }
+        });
+
+        assert.deepEqual(config, { tracer: "callTracer", tracerConfig: { onlyTopCall: false, withLog: true } }, "config");
+
+        assert.equal(frame.type, "CALL", "type");
+        assert.equal(frame.to, token, "to");
+        assert.equal(frame.value, BigInt(0), "value");
+        assert.equal(frame.gasUsed, BigInt(21000), "gasUsed");
+        assert.equal(frame.method?.name, "transfer", "method");
+        assert.equal(frame.method?.args.amount, BigInt(5), "method.args");
+        assert.deepEqual(frame.result?.toArray(), [ true ], "result");
+        assert.equal(frame.logs[0].event?.name, "Transfer", "event");
+
+        const [ call ] = frame.calls;
+        assert.equal(call.error, "execution reverted", "call.error");
+        assert.equal(call.value, BigInt(0), "call.value");
+        assert.equal(call.result, null, "call.result");
+        assert.equal(call.revert?.name, "InsufficientBalance", "call.revert");
+        assert.equal(call.revert?.args.available, BigInt(3), "call.revert.args");
+        assert.deepEqual(call.calls, [ ], "call.calls");
+
+        provider.destroy();
+    });
+
+    it("traces calls with the prestateTracer and overrides", async function() {
+        let request: any = null;
+        const provider = createProvider((method, params) => {
+            if (method !== "debug_traceCall") { return undefined; }
+            request = params;
+            return {
+                pre: { [token.toLowerCase()]: { balance: "0x10", nonce: 1, storage: { [id("slot")]: id("a") } } },
+                post: { [token.toLowerCase()]: { balance: "0x11" } }
+            };
+        });
+
+        const diff = await provider.traceCall({
+            to: token, value: 1, blockTag: 5,
+            stateOverride: { [token]: { balance: 16 } },
+            blockOverrides: { timestamp: 1000 }
+        }, { tracer: "prestateTracer", diffMode: true });
+
+        const [ tx, blockTag, config ] = request;
+        assert.equal(tx.to, token.toLowerCase(), "tx.to");
+        assert.equal(tx.value, "0x1", "tx.value");
+        assert.equal(blockTag, "0x5", "blockTag");
+        assert.deepEqual(config, {
+            tracer: "prestateTracer", tracerConfig: { diffMode: true },
+            stateOverrides: { [token]: { balance: "0x10" } },
+            blockOverrides: { time: "0x3e8" }
+        }, "config");
+
+        assert.deepEqual(diff.pre[token], {
+            balance: BigInt(16), nonce: 1, code: null, storage: { [id("slot")]: id("a") }
+        }, "pre");
+        assert.deepEqual(diff.post[token], {
+            balance: BigInt(17), nonce: null, code: null, storage: { }
+        }, "post");
+
+        provider.destroy();
+    });
+
+    it("formats struct logs", async function() {
+        const provider = createProvider((method, params) => {
+            if (method !== "debug_traceTransaction") { return undefined; }
+            assert.deepEqual(params[1], { disableStorage: true }, "config");
+            return {
+                gas: 21000, failed: false, returnValue: "",
+                structLogs: [ { pc: 0, op: "PUSH1", gas: 100, gasCost: 3, depth: 1, stack: [ ] } ]
+            };
+        });
+
+        const trace = await provider.traceTransaction(id("tx"), { disableStorage: true });
+        assert.equal(trace.gas, BigInt(21000), "gas");
+        assert.equal(trace.failed, false, "failed");
+        assert.deepEqual(trace.structLogs, [ {
+            pc: 0, op: "PUSH1", gas: BigInt(100), gasCost: BigInt(3), depth: 1,
+            stack: [ ], memory: null, storage: null, returnData: null, error: null
+        } ], "structLogs");
+
+        provider.destroy();
+    });
+
+    it("decodes Parity-style traces", async function() {
+        const transferData = iface.encodeFunctionData("transfer", [ wallet.address, 5 ]);
+
+        const provider = createProvider((method, params) => {
+            if (method !== "trace_block") { return undefined; }
+            assert.deepEqual(params, [ "0x10" ], "params");
+            return [ {
+                type: "call", subtraces: 0, traceAddress: [ ],
+                action: { callType: "call", from: wallet.address.toLowerCase(), to: token.toLowerCase(), value: "0x0", gas: "0x7530", input: transferData },
+                result: { gasUsed: "0x5208", output: iface.encodeFunctionResult("transfer", [ true ]) },
+                blockHash: id("block"), blockNumber: 16,
+                transactionHash: id("tx"), transactionPosition: 0
+            }, {
+                type: "reward", subtraces: 0, traceAddress: [ ],
+                action: { author: wallet.address.toLowerCase(), rewardType: "block", value: "0x2" },
+                result: null, blockHash: id("block"), blockNumber: 16
+            } ];
+        });
+
+        const [ call, reward ] = await provider.getBlockTraces(16, [ iface ]);
+
+        assert.equal(call.callType, "call", "callType");
+        assert.equal(call.to, token, "to");
+        assert.equal(call.gasUsed, BigInt(21000), "gasUsed");
+        assert.equal(call.method?.name, "transfer", "method");
+        assert.deepEqual(call.result?.toArray(), [ true ], "result");
+        assert.equal(call.transactionPosition, 0, "transactionPosition");
+
+        assert.equal(reward.type, "reward", "reward.type");
+        assert.equal(reward.to, wallet.address, "reward.to");
+        assert.equal(reward.value, BigInt(2), "reward.value");
+        assert.equal(reward.output, null, "reward.output");
+        assert.equal(reward.method, null, "reward.method");
+        assert.equal(reward.transactionHash, null, "reward.transactionHash");
+
+        provider.destroy();
+    });
+});
+
+
+describe("Test Error Registry", function() {
+    const target = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+
+    // An error from a downstream contract, unknown to the contract called
+    const downstream = new Interface([ "error Expired(uint256 deadline, address owner)" ]);
+    const revertData = downstream.encodeErrorResult("Expired", [ 42, target ]);
+
+    // Responds to every eth_call with a revert of %%data%%
+    class RevertProvider extends JsonRpcApiProvider {
+        readonly revertData: string;
+
+        constructor(revertData: string, errorRegistry?: ErrorRegistry) {
+            super(1337, { cacheTimeout: -1, staticNetwork: true, errorRegistry });
+            this.revertData = revertData;
+        }
+
+        async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult | JsonRpcError>> {
+            const payloads = Array.isArray(payload) ? payload: [ payload ];
+            return payloads.map(({ id, method }) => {
+                if (method === "eth_chainId") { return { id, result: "0x539" }; }
+                assert.equal(method, "eth_call", "method");
+                return {
+                    id, error: { code: 3, message: "execution reverted", data: this.revertData }
+                };
+            });
+        }
+    }
+
+    it("decodes registered errors", function() {
+        const registry = new ErrorRegistry([ downstream ]);
+
+        const desc = registry.parseError(revertData);
+        assert.ok(desc != null, "desc");
+        assert.equal(desc.name, "Expired", "name");
+        assert.equal(desc.args.deadline, BigInt(42), "args");
+
+        assert.equal(registry.getError(desc.selector)?.name, "Expired", "getError");
+        assert.equal(registry.parseError("0x12345678"), null, "unknown");
+
+        // Duplicates are ignored
+        registry.add([ "error Expired(uint256 deadline, address owner)" ]);
+        assert.equal(registry.errors.length, 1, "errors");
+    });
+
+    it("decodes well-known errors by default", async function() {
+        const iface = new Interface([ "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)" ]);
+        const data = iface.encodeErrorResult("ERC20InsufficientBalance", [ target, 1, 2 ]);
+
+        const provider = new RevertProvider(data);
+        await assert.rejects(provider.call({ to: target, data: "0x12345678" }), (error: any) => {
+            assert.ok(isError(error, "CALL_EXCEPTION"), "CALL_EXCEPTION");
+            assert.equal(error.revert?.name, "ERC20InsufficientBalance", "revert.name");
+            assert.equal(error.reason, "ERC20InsufficientBalance(address,uint256,uint256)", "reason");
+            assert.equal(error.data, data, "data");
+            return true;
+        });
+        provider.destroy();
+    });
+
+    it("decodes nested errors for contracts using the provider registry", async function() {
+        const provider = new RevertProvider(revertData, new ErrorRegistry([ downstream ]));
+        const contract = new Contract(target, [
+            "function swap(uint256 amount) view returns (uint256)",
+            "error Slippage()"
+        ], provider);
+
+        await assert.rejects(contract.swap(1), (error: any) => {
+            assert.ok(isError(error, "CALL_EXCEPTION"), "CALL_EXCEPTION");
+            assert.equal(error.revert?.name, "Expired", "revert.name");
+            assert.equal(error.revert?.args[0], BigInt(42), "revert.args");
+            assert.equal(error.invocation?.method, "swap", "invocation");
+            return true;
+        });
+
+        // Without the registry, the error is unknown
+        const other = new RevertProvider(revertData);
+        await assert.rejects(other.call({ to: target, data: "0x12345678" }), (error: any) => {
+            assert.equal(error.revert, null, "revert");
+            return true;
+        });
+
+        provider.destroy();
+        other.destroy();
+    });
+});
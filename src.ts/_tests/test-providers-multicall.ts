@@ -0,0 +1,159 @@
+import assert from "assert";
+
+import {
+    isError, AbiCoder, AbstractProvider, Interface, Network
+} from "../index.js";
+
+import type {
+    AbstractProviderOptions, PerformActionRequest
+} from "../index.js";
+
+
+const network = Network.from("mainnet");
+
+const multicall = new Interface([
+    "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)"
+]);
+
+const Multicall3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+const Good = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const Bad = "0xaB7C8803962c0f2F5BBBe3FA8bf41cd82AA1923C";
+
+const coder = AbiCoder.defaultAbiCoder();
+
+// Error(string) revert data
+const revertData = "0x08c379a0" + coder.encode([ "string" ], [ "nope" ]).substring(2);
+
+// Good targets return their calldata as a uint256; bad targets revert
+function execute(target: string, data: string): { success: boolean, returnData: string } {
+    if (target.toLowerCase() === Bad.toLowerCase()) {
+        return { success: false, returnData: revertData };
+    }
+    return { success: true, returnData: coder.encode([ "uint256" ], [ data ]) };
+}
+
+class MulticallProvider extends AbstractProvider {
+    readonly requests: Array<PerformActionRequest>;
+    readonly deployed: boolean;
+
+    constructor(deployed: boolean, options?: AbstractProviderOptions) {
+        super(network, Object.assign({ cacheTimeout: -1, multicall: true }, options));
+        this.requests = [ ];
+        this.deployed = deployed;
+    }
+
+    async _detectNetwork(): Promise<Network> { return network; }
+
+    async _perform(req: PerformActionRequest): Promise<any> {
+        this.requests.push(req);
+
+        if (req.method !== "call") {
+            throw new Error(`unhandled method: ${ req.method }`);
+        }
+
+        const { to, data } = req.transaction;
+        if (to === Multicall3) {
+            if (!this.deployed) { return "0x"; }
+            const calls = multicall.decodeFunctionData("aggregate3", data || "0x")[0];
+            return multicall.encodeFunctionResult("aggregate3", [
+                calls.map((c: any) => {
+                    const { success, returnData } = execute(c.target, c.callData);
+                    return [ success, returnData ];
+                })
+            ]);
+        }
+
+        const { success, returnData } = execute(to || "", data || "0x");
+        if (!success) {
+            throw AbiCoder.getBuiltinCallException("call", req.transaction, returnData);
+        }
+        return returnData;
+    }
+}
+
+function callData(value: number): string {
+    return "0x" + value.toString(16).padStart(8, "0");
+}
+
+describe("Test Multicall3 call merging", function() {
+
+    it("merges concurrent calls into one Multicall3 call", async function() {
+        const provider = new MulticallProvider(true);
+
+        const results = await Promise.all([ 1, 2, 3 ].map((v) => {
+            return provider.call({ to: Good, data: callData(v) });
+        }));
+
+        assert.equal(provider.requests.length, 1, "requests.length");
+        results.forEach((result, index) => {
+            assert.equal(result, coder.encode([ "uint256" ], [ callData(index + 1) ]), `results[${ index }]`);
+        });
+    });
+
+    it("rejects only the reverting calls", async function() {
+        const provider = new MulticallProvider(true);
+
+        const [ good, bad ] = await Promise.allSettled([
+            provider.call({ to: Good, data: callData(1) }),
+            provider.call({ to: Bad, data: callData(2) }),
+        ]);
+
+        assert.equal(provider.requests.length, 1, "requests.length");
+        assert.equal(good.status, "fulfilled", "good.status");
+        assert.equal(bad.status, "rejected", "bad.status");
+
+        const error = (<PromiseRejectedResult>bad).reason;
+        assert.ok(isError(error, "CALL_EXCEPTION"), "CALL_EXCEPTION");
+        assert.equal(error.reason, "nope", "error.reason");
+        assert.equal(error.data, revertData, "error.data");
+    });
+
+    it("keeps calls for different block tags apart", async function() {
+        const provider = new MulticallProvider(true);
+
+        await Promise.all([
+            provider.call({ to: Good, data: callData(1), blockTag: 10 }),
+            provider.call({ to: Good, data: callData(2), blockTag: 10 }),
+            provider.call({ to: Good, data: callData(3), blockTag: 11 }),
+            provider.call({ to: Good, data: callData(4), blockTag: 11 }),
+        ]);
+
+        assert.equal(provider.requests.length, 2, "requests.length");
+    });
+
+    it("does not merge calls with a from address", async function() {
+        const provider = new MulticallProvider(true);
+
+        await Promise.all([
+            provider.call({ to: Good, data: callData(1), from: Bad }),
+            provider.call({ to: Good, data: callData(2), from: Bad }),
+        ]);
+
+        assert.equal(provider.requests.length, 2, "requests.length");
+        for (const req of provider.requests) {
+            assert.ok(req.method === "call" && req.transaction.to === Good, "not merged");
+        }
+    });
+
+    it("splits batches at the maximum count", async function() {
+        const provider = new MulticallProvider(true, { multicallMaxCount: 2 });
+
+        await Promise.all([ 1, 2, 3, 4, 5 ].map((v) => {
+            return provider.call({ to: Good, data: callData(v) });
+        }));
+
+        assert.equal(provider.requests.length, 3, "requests.length");
+    });
+
+    it("falls back onto individual calls without Multicall3", async function() {
+        const provider = new MulticallProvider(false);
+
+        const results = await Promise.all([ 1, 2 ].map((v) => {
+            return provider.call({ to: Good, data: callData(v) });
+        }));
+
+        // One failed Multicall3 call, then one call each
+        assert.equal(provider.requests.length, 3, "requests.length");
+        assert.equal(results[1], coder.encode([ "uint256" ], [ callData(2) ]), "results[1]");
+    });
+});
@@ -0,0 +1,235 @@
+import assert from "assert";
+
+import {
+    id, isError, makeError,
+    AbstractProvider, Network, NonceManager, Transaction, Wallet
+} from "../index.js";
+
+import type {
+    PerformActionRequest
+} from "../index.js";
+
+
+const network = Network.from("mainnet");
+
+const target = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+
+// A provider with a mempool, which can be configured to fail broadcasts
+class MempoolProvider extends AbstractProvider {
+    // The transactions known to the network, by nonce
+    readonly mempool: Map<number, Transaction>;
+
+    // The first nonce not yet mined
+    mined: number;
+
+    countRequests: number;
+
+    failBroadcast: null | ((tx: Transaction) => null | Error);
+
+    constructor(mined: number) {
+        super(network, { cacheTimeout: -1 });
+        this.mempool = new Map();
+        this.mined = mined;
+        this.countRequests = 0;
+        this.failBroadcast = null;
+    }
+
+    async _detectNetwork(): Promise<Network> { return network; }
+
+    async _perform(req: PerformActionRequest): Promise<any> {
+        switch (req.method) {
+            case "chainId":
+                return network.chainId;
+
+            case "getBlockNumber":
+                return 100;
+
+            case "getGasPrice":
+                return 10;
+
+            case "getPriorityFee":
+                return 1;
+
+            case "getBlock":
+                return {
+                    hash: id("block"), parentHash: id("parent"),
+                    number: 100, timestamp: 1000,
+                    nonce: "0x0000000000000000", difficulty: 0,
+                    gasLimit: 30000000, gasUsed: 0, miner: target,
+                    extraData: "0x", baseFeePerGas: 7, transactions: [ ]
+                };
+
+            case "getTransactionCount": {
+                this.countRequests++;
+                let nonce = this.mined;
+                while (this.mempool.has(nonce)) { nonce++; }
+                return nonce;
+            }
+
+            case "estimateGas":
+                if (req.transaction.data === "0xdead") {
+                    throw makeError("execution reverted", "CALL_EXCEPTION", {
+                        action: "estimateGas", data: "0x", reason: null,
+                        transaction: { to: target, data: "0xdead" },
+                        invocation: null, revert: null
+                    });
+                }
+                return 21000;
+
+            case "getTransaction":
+                for (const tx of this.mempool.values()) {
+                    if (tx.hash !== req.hash) { continue; }
+                    return Object.assign({ }, tx.toJSON(), tx.signature!.toJSON(), {
+                        hash: tx.hash, from: tx.from
+                    });
+                }
+                return null;
+
+            case "broadcastTransaction": {
+                const tx = Transaction.from(req.signedTransaction);
+                const error = this.failBroadcast ? this.failBroadcast(tx): null;
+                if (error) { throw error; }
+                this.mempool.set(tx.nonce, tx);
+                return tx.hash;
+            }
+        }
+
+        throw new Error(`unhandled method: ${ req.method }`);
+    }
+}
+
+describe("Test NonceManager", function() {
+    const wallet = new Wallet(id("test"));
+
+    const txOptions = {
+        to: target, gasLimit: 21000,
+        maxFeePerGas: 20, maxPriorityFeePerGas: 1
+    };
+
+    it("assigns sequential nonces to concurrent transactions", async function() {
+        const provider = new MempoolProvider(7);
+        const signer = new NonceManager(wallet.connect(provider));
+
+        const sends = [ ];
+        for (let i = 0; i < 5; i++) {
+            sends.push(signer.sendTransaction(Object.assign({ value: i }, txOptions)));
+        }
+
+        const responses = await Promise.all(sends);
+        assert.deepEqual(responses.map((r) => r.nonce), [ 7, 8, 9, 10, 11 ], "nonces");
+        assert.deepEqual(responses.map((r) => r.value), [ 0, 1, 2, 3, 4 ].map(BigInt), "order");
+        assert.equal(provider.countRequests, 1, "countRequests");
+        assert.equal(await signer.getNonce("pending"), 12, "getNonce");
+        assert.deepEqual(signer.pendingNonces, [ 7, 8, 9, 10, 11 ], "pendingNonces");
+    });
+
+    it("discards in-flight nonces once the network has them", async function() {
+        this.timeout(10000);
+
+        const provider = new MempoolProvider(0);
+        const signer = new NonceManager(wallet.connect(provider));
+
+        for (let i = 0; i < 200; i++) {
+            const tx = await signer.sendTransaction(txOptions);
+            assert.equal(tx.nonce, i, "nonce");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        const pending = signer.pendingNonces;
+        assert.ok(pending.length < 128, "pendingNonces");
+        assert.ok(pending.every((n) => (n >= 128)), "pruned");
+        assert.equal(await signer.getNonce("pending"), 200, "getNonce");
+    });
+
+    it("releases the nonce of transactions which failed to send", async function() {
+        const provider = new MempoolProvider(0);
+        const signer = new NonceManager(wallet.connect(provider));
+
+        provider.failBroadcast = (tx) => {
+            if (tx.value !== BigInt(2)) { return null; }
+            return makeError("insufficient funds", "INSUFFICIENT_FUNDS", { transaction: { } });
+        };
+
+        const results = await Promise.allSettled([
+            signer.sendTransaction(Object.assign({ value: 1 }, txOptions)),
+
+            // Fails to populate
+            signer.sendTransaction({ to: target, data: "0xdead" }),
+
+            // Fails to broadcast
+            signer.sendTransaction(Object.assign({ value: 2 }, txOptions)),
+
+            signer.sendTransaction(Object.assign({ value: 3 }, txOptions)),
+        ]);
+
+        assert.deepEqual(results.map((r) => r.status), [ "fulfilled", "rejected", "rejected", "fulfilled" ], "status");
+        assert.ok(isError((<any>results[1]).reason, "CALL_EXCEPTION"), "CALL_EXCEPTION");
+
+        // Released nonces are re-used
+        const tx1 = await signer.sendTransaction(Object.assign({ value: 4 }, txOptions));
+        const tx2 = await signer.sendTransaction(Object.assign({ value: 5 }, txOptions));
+        const tx3 = await signer.sendTransaction(Object.assign({ value: 6 }, txOptions));
+        assert.deepEqual([ tx1.nonce, tx2.nonce, tx3.nonce ], [ 1, 2, 4 ], "re-used");
+
+        assert.deepEqual(await signer.findGaps(), [ ], "gaps");
+    });
+
+    it("finds and fills gaps", async function() {
+        const provider = new MempoolProvider(3);
+        const signer = new NonceManager(wallet.connect(provider));
+
+        // The outcome of this send is unknown
+        provider.failBroadcast = (tx) => {
+            if (tx.nonce !== 4) { return null; }
+            return makeError("connection reset", "NETWORK_ERROR", { event: "test" });
+        };
+
+        const results = await Promise.allSettled([ 0, 1, 2, 3 ].map((value) => {
+            return signer.sendTransaction(Object.assign({ value }, txOptions));
+        }));
+        assert.deepEqual(results.map((r) => r.status), [ "fulfilled", "rejected", "fulfilled", "fulfilled" ], "status");
+
+        // The nonce is not re-used, since it may have been broadcast
+        provider.failBroadcast = null;
+        const tx = await signer.sendTransaction(txOptions);
+        assert.equal(tx.nonce, 7, "nonce");
+
+        // A transaction dropped from the mempool
+        provider.mempool.delete(6);
+
+        assert.deepEqual(await signer.findGaps(), [ 4, 6 ], "gaps");
+        assert.deepEqual(signer.pendingNonces, [ 5, 6, 7 ], "pendingNonces");
+
+        const fills = await signer.fillGaps();
+        assert.deepEqual(fills.map((r) => r.nonce), [ 4, 6 ], "fills");
+        for (const fill of fills) {
+            assert.equal(fill.to, wallet.address, "to");
+            assert.equal(fill.value, BigInt(0), "value");
+        }
+
+        assert.deepEqual(await signer.findGaps(), [ ], "no gaps");
+        assert.equal(await signer.getNonce("pending"), 8, "getNonce");
+    });
+
+    it("reloads the nonce once expired", async function() {
+        const provider = new MempoolProvider(0);
+        const signer = new NonceManager(wallet.connect(provider));
+
+        const tx = await signer.sendTransaction(txOptions);
+        assert.equal(tx.nonce, 0, "nonce");
+
+        // Another client used the account
+        provider.mined = 10;
+        provider.failBroadcast = (tx) => {
+            if (tx.nonce >= 10) { return null; }
+            return makeError("nonce has already been used", "NONCE_EXPIRED", { transaction: tx });
+        };
+
+        await assert.rejects(signer.sendTransaction(txOptions), (error: any) => {
+            return isError(error, "NONCE_EXPIRED");
+        });
+
+        const tx2 = await signer.sendTransaction(txOptions);
+        assert.equal(tx2.nonce, 10, "reloaded");
+    });
+});
@@ -0,0 +1,127 @@
+import assert from "assert";
+
+import {
+    id, toBeHex, toQuantity,
+    AbstractProvider, Contract, EventLog, Network
+} from "../index.js";
+
+import type {
+    Log, PerformActionRequest
+} from "../index.js";
+
+
+const network = Network.from("mainnet");
+
+const address = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+const abi = [ "event Deposit(uint256 amount)" ];
+const topic = id("Deposit(uint256)");
+
+// A provider with one log per block, which rejects any getLogs
+// request spanning more than maxRange blocks
+class LogsProvider extends AbstractProvider {
+    readonly requests: Array<[ number, number ]>;
+    readonly maxRange: number;
+
+    constructor(maxRange: number, logsBlockRange?: number) {
+        super(network, { cacheTimeout: -1, logsBlockRange });
+        this.requests = [ ];
+        this.maxRange = maxRange;
+    }
+
+    async _detectNetwork(): Promise<Network> { return network; }
+
+    async _perform(req: PerformActionRequest): Promise<any> {
+        switch (req.method) {
+            case "getBlockNumber":
+                return 99;
+
+            case "getLogs": {
+                const filter = <any>req.filter;
+                const fromBlock = parseInt(filter.fromBlock);
+                const toBlock = parseInt(filter.toBlock);
+                this.requests.push([ fromBlock, toBlock ]);
+
+                if (toBlock - fromBlock + 1 > this.maxRange) {
+                    throw new Error("query returned more than 10000 results");
+                }
+
+                const logs: Array<any> = [ ];
+                for (let b = fromBlock; b <= toBlock; b++) {
+                    logs.push({
+                        address, blockHash: id(`block${ b }`),
+                        blockNumber: toQuantity(b),
+                        data: toBeHex(b, 32), index: 0,
+                        removed: false, topics: [ topic ],
+                        transactionHash: id(`tx${ b }`), transactionIndex: 0
+                    });
+                }
+                return logs;
+            }
+        }
+
+        throw new Error(`unhandled method: ${ req.method }`);
+    }
+}
+
+describe("Test getLogs Pagination", function() {
+
+    it("pages through a range, halving rejected ranges", async function() {
+        const provider = new LogsProvider(25);
+
+        let page = await provider.getLogsPaginated({ address, fromBlock: 10, toBlock: 100 }, 40);
+        const pages = [ page.map((l) => l.blockNumber) ];
+        while (!page.done) {
+            page = await page.next();
+            pages.push(page.map((l) => l.blockNumber));
+        }
+
+        // The first range of 40 is halved to 20, which subsequent pages use
+        assert.deepEqual(provider.requests.slice(0, 3), [ [ 10, 49 ], [ 10, 29 ], [ 30, 49 ] ], "requests");
+        assert.deepEqual(pages.map((p) => p.length), [ 20, 20, 20, 20, 11 ], "pages");
+        assert.deepEqual(pages.flat(), Array.from({ length: 91 }, (_, i) => i + 10), "blocks");
+    });
+
+    it("iterates logs with for-await", async function() {
+        const provider = new LogsProvider(1000);
+
+        const blocks: Array<number> = [ ];
+        const page = await provider.getLogsPaginated({ address, fromBlock: 90 }, 3);
+        for await (const log of page) { blocks.push(log.blockNumber); }
+
+        assert.deepEqual(blocks, [ 90, 91, 92, 93, 94, 95, 96, 97, 98, 99 ], "blocks");
+        assert.equal(provider.requests.length, 4, "requests");
+    });
+
+    it("chunks getLogs with the logsBlockRange option", async function() {
+        const provider = new LogsProvider(8, 16);
+
+        const logs: Array<Log> = await provider.getLogs({ address, fromBlock: 0, toBlock: 49 });
+        assert.deepEqual(logs.map((l) => l.blockNumber), Array.from({ length: 50 }, (_, i) => i), "blocks");
+        assert.deepEqual(provider.requests.slice(0, 2), [ [ 0, 15 ], [ 0, 7 ] ], "requests");
+    });
+
+    it("does not retry other errors", async function() {
+        const provider = new LogsProvider(1000);
+        provider._perform = async function(req: PerformActionRequest) {
+            throw new Error("connection refused");
+        };
+
+        await assert.rejects(provider.getLogsPaginated({ address, fromBlock: 0, toBlock: 10 }), (error: any) => {
+            return (error.message === "connection refused");
+        });
+    });
+
+    it("pages through contract events", async function() {
+        const provider = new LogsProvider(5);
+        const contract = new Contract(address, abi, provider);
+
+        const amounts: Array<bigint> = [ ];
+        const page = await contract.queryFilterPaginated("Deposit", 20, 31, 10);
+        for await (const log of page) {
+            assert.ok(log instanceof EventLog, "EventLog");
+            amounts.push(log.args.amount);
+        }
+
+        assert.deepEqual(amounts, Array.from({ length: 12 }, (_, i) => BigInt(i + 20)), "amounts");
+    });
+});
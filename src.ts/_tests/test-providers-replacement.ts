@@ -0,0 +1,169 @@
+import assert from "assert";
+
+import {
+    id, isError, parseUnits,
+    AbstractProvider, Network, Transaction, Wallet
+} from "../index.js";
+
+import type {
+    PerformActionRequest, TransactionResponse
+} from "../index.js";
+
+
+const network = Network.from("mainnet");
+
+const target = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+
+const gwei = (value: string) => parseUnits(value, "gwei");
+
+// A provider which accepts every broadcast transaction, with a base fee
+// of 5 gwei, a priority fee of 1 gwei and a legacy gas price of 30 gwei
+class ReplacementProvider extends AbstractProvider {
+    readonly sent: Array<Transaction>;
+    readonly mined: Set<string>;
+
+    constructor() {
+        super(network, { cacheTimeout: -1 });
+        this.sent = [ ];
+        this.mined = new Set();
+    }
+
+    async _detectNetwork(): Promise<Network> { return network; }
+
+    async _perform(req: PerformActionRequest): Promise<any> {
+        switch (req.method) {
+            case "chainId":
+                return network.chainId;
+
+            case "getBlockNumber":
+                return 100;
+
+            case "getGasPrice":
+                return gwei("30");
+
+            case "getPriorityFee":
+                return gwei("1");
+
+            case "getBlock":
+                return {
+                    hash: id("block"), parentHash: id("parent"),
+                    number: 100, timestamp: 1000,
+                    nonce: "0x0000000000000000", difficulty: 0,
+                    gasLimit: 30000000, gasUsed: 0, miner: target,
+                    extraData: "0x", baseFeePerGas: gwei("5"), transactions: [ ]
+                };
+
+            case "getTransactionReceipt":
+                if (!this.mined.has(req.hash)) { return null; }
+                return {
+                    to: target, from: target, contractAddress: null,
+                    hash: req.hash, index: 0, blockHash: id("block"), blockNumber: 100,
+                    logsBloom: "0x" + "00".repeat(256), logs: [ ],
+                    gasUsed: 21000, cumulativeGasUsed: 21000,
+                    effectiveGasPrice: gwei("10"), type: 2, status: 1, root: null
+                };
+
+            case "broadcastTransaction": {
+                const tx = Transaction.from(req.signedTransaction);
+                this.sent.push(tx);
+                return tx.hash;
+            }
+        }
+
+        throw new Error(`unhandled method: ${ req.method }`);
+    }
+}
+
+describe("Test Transaction Replacement", function() {
+    const wallet = new Wallet(id("test"));
+
+    async function send(provider: ReplacementProvider, tx: Record<string, any>): Promise<TransactionResponse> {
+        return await wallet.connect(provider).sendTransaction(Object.assign({
+            to: target, nonce: 5, gasLimit: 50000, data: "0x1234", value: 3
+        }, tx));
+    }
+
+    it("speeds up EIP-1559 transactions", async function() {
+        const provider = new ReplacementProvider();
+        const signer = wallet.connect(provider);
+
+        const original = await send(provider, {
+            maxPriorityFeePerGas: gwei("1"), maxFeePerGas: gwei("20")
+        });
+
+        const replacement = await original.speedUp(signer);
+        assert.equal(replacement.replaces, original, "replaces");
+        assert.equal(original.replaces, null, "original.replaces");
+
+        const tx = provider.sent[1];
+        assert.equal(tx.hash, replacement.hash, "hash");
+        assert.equal(tx.type, 2, "type");
+        assert.equal(tx.nonce, 5, "nonce");
+        assert.equal(tx.to, target, "to");
+        assert.equal(tx.data, "0x1234", "data");
+        assert.equal(tx.value, BigInt(3), "value");
+        assert.equal(tx.gasLimit, BigInt(50000), "gasLimit");
+
+        // Bumped by 10%, which exceeds the network fees
+        assert.equal(tx.maxPriorityFeePerGas, gwei("1.1"), "maxPriorityFeePerGas");
+        assert.equal(tx.maxFeePerGas, gwei("22"), "maxFeePerGas");
+    });
+
+    it("speeds up legacy transactions to the network gas price", async function() {
+        const provider = new ReplacementProvider();
+
+        const original = await send(provider, { type: 0, gasPrice: gwei("10") });
+        await original.speedUp(wallet.connect(provider), 50);
+
+        // Bumping by 50% is below the network gas price
+        const tx = provider.sent[1];
+        assert.equal(tx.type, 0, "type");
+        assert.equal(tx.nonce, 5, "nonce");
+        assert.equal(tx.gasPrice, gwei("30"), "gasPrice");
+    });
+
+    it("cancels transactions", async function() {
+        const provider = new ReplacementProvider();
+
+        const original = await send(provider, {
+            maxPriorityFeePerGas: gwei("2"), maxFeePerGas: gwei("20")
+        });
+
+        const replacement = await original.cancel(wallet.connect(provider), 20);
+        assert.equal(replacement.replaces, original, "replaces");
+
+        const tx = provider.sent[1];
+        assert.equal(tx.nonce, 5, "nonce");
+        assert.equal(tx.to, wallet.address, "to");
+        assert.equal(tx.data, "0x", "data");
+        assert.equal(tx.value, BigInt(0), "value");
+        assert.equal(tx.gasLimit, BigInt(21000), "gasLimit");
+        assert.equal(tx.maxPriorityFeePerGas, gwei("2.4"), "maxPriorityFeePerGas");
+        assert.equal(tx.maxFeePerGas, gwei("24"), "maxFeePerGas");
+    });
+
+    it("rejects invalid replacements", async function() {
+        const provider = new ReplacementProvider();
+        const signer = wallet.connect(provider);
+
+        const original = await send(provider, {
+            maxPriorityFeePerGas: gwei("1"), maxFeePerGas: gwei("20")
+        });
+
+        await assert.rejects(original.speedUp(signer, 5), (error: any) => {
+            return isError(error, "INVALID_ARGUMENT") && error.argument === "bumpPercent";
+        }, "bumpPercent");
+
+        const other = new Wallet(id("other"), provider);
+        await assert.rejects(original.cancel(other), (error: any) => {
+            return isError(error, "INVALID_ARGUMENT") && error.argument === "signer";
+        }, "signer");
+
+        provider.mined.add(original.hash);
+        await assert.rejects(original.speedUp(signer), (error: any) => {
+            return isError(error, "UNSUPPORTED_OPERATION") && error.operation === "speedUp";
+        }, "mined");
+
+        assert.equal(provider.sent.length, 1, "sent");
+    });
+});
@@ -0,0 +1,215 @@
+import assert from "assert";
+
+import {
+    isError,
+    WebSocketProvider
+} from "../index.js";
+
+import type { WebSocketLike } from "../index.js";
+
+
+function stall(duration: number): Promise<void> {
+    return new Promise((resolve) => { setTimeout(resolve, duration); });
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+    for (let i = 0; i < 100; i++) {
+        if (check()) { return; }
+        await stall(10);
+    }
+    throw new Error("timeout");
+}
+
+// A fake node, which accepts any number of WebSocket connections
+class MockServer {
+    readonly sockets: Array<MockSocket>;
+    readonly subscribe: Array<{ socket: number, id: string }>;
+
+    blockNumber: number;
+
+    // If true, requests are recorded but not answered
+    hold: boolean;
+
+    constructor() {
+        this.sockets = [ ];
+        this.subscribe = [ ];
+        this.blockNumber = 5;
+        this.hold = false;
+    }
+
+    get socket(): MockSocket { return this.sockets[this.sockets.length - 1]; }
+
+    connect(): MockSocket {
+        const socket = new MockSocket(this);
+        this.sockets.push(socket);
+        setTimeout(() => { socket.open(); }, 0);
+        return socket;
+    }
+
+    handle(socket: MockSocket, payload: any): void {
+        if (this.hold) { return; }
+
+        let result: any;
+        switch (payload.method) {
+            case "eth_chainId":
+                result = "0x1";
+                break;
+            case "eth_blockNumber":
+                result = "0x" + this.blockNumber.toString(16);
+                break;
+            case "eth_subscribe": {
+                const id = `0x${ this.sockets.indexOf(socket) }${ this.subscribe.length }`;
+                this.subscribe.push({ socket: this.sockets.indexOf(socket), id });
+                result = id;
+                break;
+            }
+            case "eth_unsubscribe":
+                result = true;
+                break;
+            default:
+                throw new Error(`unhandled method: ${ payload.method }`);
+        }
+
+        socket.reply({ id: payload.id, jsonrpc: "2.0", result });
+    }
+
+    newHead(blockNumber: number): void {
+        const { id } = this.subscribe[this.subscribe.length - 1];
+        this.socket.reply({
+            jsonrpc: "2.0", method: "eth_subscription",
+            params: { subscription: id, result: { number: "0x" + blockNumber.toString(16) } }
+        });
+    }
+}
+
+class MockSocket implements WebSocketLike {
+    onopen: null | ((...args: Array<any>) => any);
+    onmessage: null | ((...args: Array<any>) => any);
+    onerror: null | ((...args: Array<any>) => any);
+    onclose: null | ((...args: Array<any>) => any);
+
+    readyState: number;
+
+    readonly server: MockServer;
+    readonly requests: Array<any>;
+
+    constructor(server: MockServer) {
+        this.onopen = this.onmessage = this.onerror = this.onclose = null;
+        this.readyState = 0;
+        this.server = server;
+        this.requests = [ ];
+    }
+
+    open(): void {
+        if (this.readyState !== 0) { return; }
+        this.readyState = 1;
+        if (this.onopen) { this.onopen(); }
+    }
+
+    reply(message: any): void {
+        if (this.readyState !== 1) { return; }
+        const data = JSON.stringify(message);
+        setTimeout(() => {
+            if (this.onmessage) { this.onmessage({ data }); }
+        }, 0);
+    }
+
+    send(payload: any): void {
+        assert.equal(this.readyState, 1, "send on closed socket");
+        const request = JSON.parse(payload);
+        this.requests.push(request);
+        this.server.handle(this, request);
+    }
+
+    close(code?: number, reason?: string): void {
+        if (this.readyState === 3) { return; }
+        this.readyState = 3;
+        setTimeout(() => {
+            if (this.onclose) { this.onclose({ code: (code || 1006), reason: (reason || "") }); }
+        }, 0);
+    }
+}
+
+describe("Test WebSocketProvider Reconnect", function() {
+    it("reconnects and resubscribes", async function() {
+        const server = new MockServer();
+        const provider = new WebSocketProvider(() => server.connect(), "mainnet", {
+            reconnectDelay: 10
+        });
+
+        const events: Array<string> = [ ];
+        provider.on("connected", () => { events.push("connected"); });
+        provider.on("disconnected", () => { events.push("disconnected"); });
+
+        const blocks: Array<number> = [ ];
+        await provider.on("block", (blockNumber: number) => { blocks.push(blockNumber); });
+
+        await waitFor(() => (server.subscribe.length === 1));
+        server.newHead(5);
+        await waitFor(() => (blocks.length === 1));
+
+        // The connection drops
+        server.socket.close();
+        await waitFor(() => (server.subscribe.length === 2));
+        assert.equal(server.sockets.length, 2, "sockets");
+        assert.deepEqual(events, [ "connected", "disconnected", "connected" ], "events");
+        assert.equal(server.subscribe[1].socket, 1, "resubscribed");
+
+        // Missed blocks are emitted once a new head arrives
+        server.newHead(8);
+        await waitFor(() => (blocks.length === 4));
+        assert.deepEqual(blocks, [ 5, 6, 7, 8 ], "blocks");
+
+        await provider.destroy();
+    });
+
+    it("re-sends in-flight requests, but not transactions", async function() {
+        const server = new MockServer();
+        const provider = new WebSocketProvider(() => server.connect(), "mainnet", {
+            reconnectDelay: 10
+        });
+        await provider._waitUntilReady();
+
+        server.hold = true;
+        const blockNumber = provider.send("eth_blockNumber", [ ]);
+        const sendTx = provider.send("eth_sendRawTransaction", [ "0x1234" ]);
+        await waitFor(() => (server.socket.requests.filter((r) => r.method !== "eth_chainId").length === 2));
+
+        server.hold = false;
+        server.socket.close();
+
+        await assert.rejects(sendTx, (error: any) => {
+            return isError(error, "NETWORK_ERROR") && error.event === "disconnected";
+        });
+
+        assert.equal(await blockNumber, "0x5", "blockNumber");
+        assert.deepEqual(server.sockets[1].requests.map((r) => r.method), [ "eth_blockNumber" ], "re-sent");
+
+        await provider.destroy();
+    });
+
+    it("rejects requests if reconnecting is disabled", async function() {
+        const server = new MockServer();
+        const provider = new WebSocketProvider(() => server.connect(), "mainnet", {
+            reconnect: false
+        });
+        await provider._waitUntilReady();
+
+        server.hold = true;
+        const blockNumber = provider.send("eth_blockNumber", [ ]);
+        await waitFor(() => (server.socket.requests.length > 0));
+
+        server.socket.close();
+
+        await assert.rejects(blockNumber, (error: any) => {
+            return isError(error, "NETWORK_ERROR") && error.event === "close";
+        });
+        await assert.rejects(provider.send("eth_blockNumber", [ ]), (error: any) => {
+            return isError(error, "NETWORK_ERROR");
+        });
+        assert.equal(server.sockets.length, 1, "sockets");
+        assert.equal(provider.connected, false, "connected");
+
+        await provider.destroy();
+    });
+});
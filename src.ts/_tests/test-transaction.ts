@@ -3,7 +3,7 @@ import { loadTests } from "./utils.js";
 import type { TestCaseTransaction, TestCaseTransactionTx } from "./types.js";
 
 
-import { isError, Transaction } from "../index.js";
+import { isError, Signature, Transaction } from "../index.js";
 
 
 const BN_0 = BigInt(0);
@@ -457,3 +457,83 @@ describe("Tests Transaction Parameters", function() {
 
     }
 });
+
+describe("Tests EIP-7702 Transactions", function() {
+    const signature = Signature.from({
+        r: "0x8a62e8b0a0b5d2e6e4f6c0a0f3dd2d7aa8a10d8e6b5b6bf38a20bf1b2a3c4d5e",
+        s: "0x1f2e3d4c5b6a79880a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d4e5f6071",
+        yParity: 1
+    });
+
+    const authorizationList = [
+        {
+            address: "0x8ba1f109551bD432803012645Ac136ddd64DBA72",
+            nonce: 3, chainId: 1, signature
+        }, {
+            address: "0xaB7C8803962c0f2F5BBBe3FA8bf41cd82AA1923C",
+            nonce: 0, chainId: 0, signature
+        }
+    ];
+
+    const txData = {
+        to: "0xaB7C8803962c0f2F5BBBe3FA8bf41cd82AA1923C",
+        nonce: 42, chainId: 1, gasLimit: 50000,
+        maxFeePerGas: 2000, maxPriorityFeePerGas: 1000,
+        data: "0x1234", value: 1,
+        authorizationList
+    };
+
+    it("infers the type from an authorizationList", function() {
+        const tx = Transaction.from(txData);
+        assert.equal(tx.inferType(), 4, "inferType");
+        assert.deepStrictEqual(tx.inferTypes(), [ 4 ], "inferTypes");
+    });
+
+    it("serializes and parses unsigned transactions", function() {
+        const tx = Transaction.from(txData);
+        const unsigned = tx.unsignedSerialized;
+        assert.ok(unsigned.startsWith("0x04"), "type prefix");
+
+        const parsed = Transaction.from(unsigned);
+        assert.equal(parsed.type, 4, "type");
+        assert.equal(parsed.typeName, "eip-7702", "typeName");
+        assert.equal(parsed.to, txData.to, "to");
+        assert.equal(parsed.nonce, txData.nonce, "nonce");
+        assert.equal(parsed.data, txData.data, "data");
+        assert.equal(parsed.unsignedSerialized, unsigned, "unsignedSerialized");
+
+        const auths = parsed.authorizationList || [ ];
+        assert.equal(auths.length, authorizationList.length, "authorizationList.length");
+        for (let i = 0; i < auths.length; i++) {
+            const expected = authorizationList[i];
+            assert.equal(auths[i].address, expected.address, `authorizationList[${ i }].address`);
+            assert.equal(auths[i].nonce, BigInt(expected.nonce), `authorizationList[${ i }].nonce`);
+            assert.equal(auths[i].chainId, BigInt(expected.chainId), `authorizationList[${ i }].chainId`);
+            assert.equal(auths[i].signature.r, signature.r, `authorizationList[${ i }].signature.r`);
+            assert.equal(auths[i].signature.s, signature.s, `authorizationList[${ i }].signature.s`);
+            assert.equal(auths[i].signature.yParity, signature.yParity, `authorizationList[${ i }].signature.yParity`);
+        }
+    });
+
+    it("serializes and parses signed transactions", function() {
+        const tx = Transaction.from(Object.assign({ }, txData, { signature }));
+        const parsed = Transaction.from(tx.serialized);
+        assert.equal(parsed.serialized, tx.serialized, "serialized");
+        assert.equal(parsed.hash, tx.hash, "hash");
+        assert.equal(parsed.unsignedHash, tx.unsignedHash, "unsignedHash");
+    });
+
+    it("defaults an empty authorizationList for type 4", function() {
+        const tx = Transaction.from({ type: 4 });
+        assert.deepStrictEqual(tx.authorizationList, [ ], "authorizationList");
+        assert.equal(Transaction.from({ type: 2 }).authorizationList, null, "non-eip-7702");
+    });
+
+    it("fails on authorizationList for other types", function() {
+        assert.throws(() => {
+            Transaction.from(Object.assign({ }, txData, { type: 2 })).unsignedSerialized;
+        }, (error: any) => {
+            return isError(error, "BAD_DATA");
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import assert from "assert";
+
+import {
+    toUtf8Bytes, toUtf8String,
+    FetchRequest, JsonRpcProvider, Network, RequestScheduler
+} from "../index.js";
+
+import type { GetUrlResponse } from "../index.js";
+
+
+function getTime(): number { return (new Date()).getTime(); }
+
+describe("Test RequestScheduler", function() {
+    it("limits the request rate", async function() {
+        const scheduler = new RequestScheduler({ requestsPerSecond: 20, requestBurst: 2 });
+
+        const start = getTime();
+        const times: Array<number> = [ ];
+        await Promise.all([ 0, 1, 2, 3 ].map(async () => {
+            await scheduler.acquire();
+            times.push(getTime() - start);
+        }));
+
+        // After the burst, one request per 50ms (only the lower bounds
+        // are checked, as a busy machine may delay any timer)
+        assert.ok(times[2] >= 40, `rate: ${ times }`);
+        assert.ok(times[3] >= 90, `rate: ${ times }`);
+        assert.equal(scheduler.queueDepth, 0, "queueDepth");
+    });
+
+    it("makes queued requests by priority", async function() {
+        const scheduler = new RequestScheduler({ requestsPerSecond: 50, requestBurst: 1 });
+
+        await scheduler.acquire();
+
+        const order: Array<string> = [ ];
+        const waits = [
+            scheduler.schedule(async () => { order.push("low"); }),
+            scheduler.schedule(async () => { order.push("high"); }, { priority: 5 }),
+            scheduler.schedule(async () => { order.push("low2"); }),
+            scheduler.schedule(async () => { order.push("mid"); }, { priority: 1 }),
+        ];
+        assert.equal(scheduler.queueDepth, 4, "queueDepth");
+
+        await Promise.all(waits);
+        assert.deepEqual(order, [ "high", "mid", "low", "low2" ], "order");
+    });
+
+    it("limits compute units for JSON-RPC requests", async function() {
+        const scheduler = new RequestScheduler({
+            computeUnitsPerSecond: 1000, computeUnitBurst: 100,
+            costs: { eth_getLogs: 50 }
+        });
+
+        const start = getTime();
+        const calls: Array<{ method: string, time: number }> = [ ];
+
+        const req = new FetchRequest("http:/\/localhost:8545");
+        req.getUrlFunc = async (req: FetchRequest): Promise<GetUrlResponse> => {
+            const payload = JSON.parse(toUtf8String(req.body!));
+            calls.push({ method: payload.method, time: getTime() - start });
+            const body = toUtf8Bytes(JSON.stringify({ id: payload.id, jsonrpc: "2.0", result: [ ] }));
+            return { statusCode: 200, statusMessage: "OK", headers: { }, body };
+        };
+
+        const network = Network.from("mainnet");
+        const providers = [ 0, 1 ].map(() => new JsonRpcProvider(req, network, {
+            staticNetwork: network, batchMaxCount: 1, scheduler
+        }));
+
+        await Promise.all([
+            providers[0].send("eth_getLogs", [ { } ]),
+            providers[1].send("eth_getLogs", [ { } ]),
+            providers[0].send("eth_getLogs", [ { } ]),
+            providers[1].send("eth_getLogs", [ { } ]),
+        ]);
+
+        // The budget is shared by both providers
+        const times = calls.map((c) => c.time);
+        assert.equal(calls.length, 4, "calls");
+        assert.ok(times[2] >= 40, `rate: ${ times }`);
+        assert.ok(times[3] >= 90, `rate: ${ times }`);
+
+        for (const provider of providers) { provider.destroy(); }
+    });
+
+    it("pauses requests", async function() {
+        const scheduler = new RequestScheduler();
+
+        scheduler.pause(100);
+
+        const start = getTime();
+        await scheduler.acquire();
+        assert.ok(getTime() - start >= 90, "paused");
+    });
+});
@@ -0,0 +1,114 @@
+import assert from "assert";
+
+import {
+    id, isError, toUtf8Bytes, hexlify,
+    ExternalSigner, LoopbackTransport, SigningKey, Transaction, Wallet
+} from "../index.js";
+
+import type {
+    ExternalSignerRequest, ExternalSignerTransport, SignatureLike
+} from "../index.js";
+
+
+// Records each request, and optionally signs with another key
+class RecordingTransport implements ExternalSignerTransport {
+    readonly transport: LoopbackTransport;
+    readonly requests: Array<ExternalSignerRequest>;
+
+    signingKey: null | SigningKey;
+
+    constructor(transport: LoopbackTransport) {
+        this.transport = transport;
+        this.requests = [ ];
+        this.signingKey = null;
+    }
+
+    getAddress(): Promise<string> { return this.transport.getAddress(); }
+
+    async sign(request: ExternalSignerRequest): Promise<SignatureLike> {
+        this.requests.push(request);
+        if (this.signingKey) { return this.signingKey.sign(request.digest); }
+        return this.transport.sign(request);
+    }
+}
+
+describe("Test ExternalSigner", function() {
+    const privateKey = id("external-signer");
+    const wallet = new Wallet(privateKey);
+
+    async function create(): Promise<{ signer: ExternalSigner, transport: RecordingTransport }> {
+        const transport = new RecordingTransport(new LoopbackTransport(new SigningKey(privateKey)));
+        const signer = await ExternalSigner.from(transport);
+        return { signer, transport };
+    }
+
+    it("signs transactions", async function() {
+        const { signer, transport } = await create();
+        assert.equal(signer.address, wallet.address, "address");
+
+        const txs = [ {
+            type: 2, chainId: 1, nonce: 5, gasLimit: 21000, to: wallet.address,
+            maxFeePerGas: 2000000000, maxPriorityFeePerGas: 1000000000, value: 1
+        }, {
+            type: 0, chainId: 1337, nonce: 6, gasLimit: 21000, gasPrice: 1000000000,
+            to: wallet.address, data: "0x1234"
+        } ];
+
+        for (const tx of txs) {
+            const signed = await signer.signTransaction(Object.assign({ from: wallet.address }, tx));
+            assert.equal(signed, await wallet.signTransaction(tx), `type ${ tx.type }`);
+
+            const request = transport.requests.pop()!;
+            assert.equal(request.type, "transaction", "type");
+            assert.equal(request.payload, Transaction.from(signed).unsignedSerialized, "payload");
+        }
+    });
+
+    it("signs messages", async function() {
+        const { signer, transport } = await create();
+
+        for (const message of [ "Hello World", toUtf8Bytes("0x1234") ]) {
+            assert.equal(await signer.signMessage(message), await wallet.signMessage(message));
+
+            const request = transport.requests.pop()!;
+            assert.equal(request.type, "message", "type");
+            assert.equal(request.payload, hexlify((typeof(message) === "string") ? toUtf8Bytes(message): message), "payload");
+        }
+    });
+
+    it("signs typed data", async function() {
+        const { signer, transport } = await create();
+
+        const domain = { name: "Test", version: "1", chainId: 1 };
+        const types = { Mail: [ { name: "to", type: "address" }, { name: "body", type: "string" } ] };
+        const value = { to: wallet.address, body: "Hello" };
+
+        assert.equal(await signer.signTypedData(domain, types, value),
+            await wallet.signTypedData(domain, types, value));
+
+        const request = transport.requests.pop()!;
+        assert.equal(request.type, "typed-data", "type");
+        assert.ok(request.payload.startsWith("0x1901"), "payload");
+        assert.equal(request.typedData.primaryType, "Mail", "typedData");
+    });
+
+    it("signs authorizations", async function() {
+        const { signer } = await create();
+
+        const auth = { address: wallet.address, nonce: 3, chainId: 1 };
+        const result = await signer.authorize(auth);
+        const expected = await wallet.authorize(auth);
+
+        assert.equal(result.signature.serialized, expected.signature.serialized, "signature");
+        assert.equal(result.nonce, BigInt(3), "nonce");
+    });
+
+    it("rejects signatures from another account", async function() {
+        const { signer, transport } = await create();
+        transport.signingKey = new SigningKey(id("other"));
+
+        await assert.rejects(signer.signMessage("Hello World"), (error: any) => {
+            return isError(error, "BAD_DATA");
+        });
+    });
+});
@@ -7,7 +7,9 @@ import type {
 } from "./types.js";
 
 
-import { hexlify, randomBytes, Wallet } from "../index.js";
+import {
+    hexlify, randomBytes, Transaction, verifyAuthorization, Wallet
+} from "../index.js";
 
 import type { HDNodeWallet } from "../index.js";
 
@@ -68,6 +70,52 @@ describe("Test Transaction Signing", function() {
     }
 });
 
+describe("Test Authorization Signing (EIP-7702)", function() {
+    const wallet = new Wallet("0x0123456789012345678901234567890123456789012345678901234567890123");
+    const delegate = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+
+    it("signs an authorization", async function() {
+        const auth = await wallet.authorize({ address: delegate, nonce: 5, chainId: 1 });
+        assert.equal(auth.address, delegate, "address");
+        assert.equal(auth.nonce, BigInt(5), "nonce");
+        assert.equal(auth.chainId, BigInt(1), "chainId");
+        assert.equal(verifyAuthorization(auth, auth.signature), wallet.address, "verifyAuthorization");
+    });
+
+    it("signs an authorization valid on any chain", function() {
+        const auth = wallet.authorizeSync({ address: delegate, nonce: 0, chainId: 0 });
+        assert.equal(auth.chainId, BigInt(0), "chainId");
+        assert.equal(verifyAuthorization(auth, auth.signature), wallet.address, "verifyAuthorization");
+    });
+
+    it("fails to sync-sign an unpopulated authorization", function() {
+        assert.throws(() => {
+            wallet.authorizeSync({ address: delegate });
+        }, (error: any) => {
+            return (error.code === "INVALID_ARGUMENT" && error.argument === "auth");
+        });
+    });
+
+    it("signs an EIP-7702 transaction", async function() {
+        const auth = wallet.authorizeSync({ address: delegate, nonce: 1, chainId: 1 });
+
+        const signed = await wallet.signTransaction({
+            to: wallet.address, nonce: 0, chainId: 1, gasLimit: 100000,
+            maxFeePerGas: 100, maxPriorityFeePerGas: 10,
+            authorizationList: [ auth ]
+        });
+
+        const tx = Transaction.from(signed);
+        assert.equal(tx.type, 4, "type");
+        assert.equal(tx.from, wallet.address, "from");
+
+        const auths = tx.authorizationList || [ ];
+        assert.equal(auths.length, 1, "authorizationList.length");
+        assert.equal(auths[0].address, delegate, "authorizationList[0].address");
+        assert.equal(verifyAuthorization(auths[0], auths[0].signature), wallet.address, "authorizationList[0] signer");
+    });
+});
+
 describe("Test Message Signing (EIP-191)", function() {
 });
 
@@ -21,14 +21,19 @@ import { ArrayCoder } from "./coders/array.js";
 import { BooleanCoder } from "./coders/boolean.js";
 import { BytesCoder } from "./coders/bytes.js";
 import { FixedBytesCoder } from "./coders/fixed-bytes.js";
+import { LazyResult } from "./coders/lazy.js";
 import { NullCoder } from "./coders/null.js";
 import { NumberCoder } from "./coders/number.js";
 import { StringCoder } from "./coders/string.js";
 import { TupleCoder } from "./coders/tuple.js";
 import { ParamType } from "./fragments.js";
+import { Typed } from "./typed.js";
 
 import { getAddress } from "../address/index.js";
-import { getBytes, hexlify, makeError } from "../utils/index.js";
+import {
+    concat, getBytes, getBytesCopy, hexlify, toBigInt, zeroPadBytes, zeroPadValue,
+    assert, makeError
+} from "../utils/index.js";
 
 import type {
     BytesLike,
@@ -48,9 +53,30 @@ PanicReasons.set(0x32, "ARRAY_RANGE_ERROR");
 PanicReasons.set(0x41, "OUT_OF_MEMORY");
 PanicReasons.set(0x51, "UNINITIALIZED_FUNCTION_CALL");
 
+const BN_1 = BigInt(1);
+
 const paramTypeBytes = new RegExp(/^bytes([0-9]*)$/);
 const paramTypeNumber = new RegExp(/^(u?int)([0-9]*)$/);
 
+// Fixed bytes (including external functions) are padded on the right
+function isLeftAligned(param: ParamType): boolean {
+    return (param.baseType.startsWith("bytes") || param.baseType === "function");
+}
+
+
+/**
+ *  The mode used to decode ABI data.
+ *
+ *  A ``"loose"`` decode does not enforce the data is padded to a full
+ *  word, which some older versions of Solidity incorrectly did not pad
+ *  event data emitted from ``external`` functions.
+ *
+ *  A ``"strict"`` decode only accepts the canonical encoding of the
+ *  values; any padding bytes must be zero, dynamic offsets must point
+ *  to the next value and there may be no trailing data. This rejects
+ *  malleable encodings which a ``"standard"`` decode accepts.
+ */
+export type AbiDecodeMode = "standard" | "loose" | "strict";
 
 let defaultCoder: null | AbiCoder = null;
 let defaultMaxInflation = 1024;
@@ -144,6 +170,9 @@ export class AbiCoder {
                 return new StringCoder(param.name);
             case "bytes":
                 return new BytesCoder(param.name);
+            case "function":
+                // An external function (address and selector)
+                return new FixedBytesCoder(24, param.name);
             case "":
                 return new NullCoder(param.name);
         }
@@ -199,14 +228,237 @@ export class AbiCoder {
     /**
      *  Decode the ABI %%data%% as the %%types%% into values.
      *
-     *  If %%loose%% decoding is enabled, then strict padding is
-     *  not enforced. Some older versions of Solidity incorrectly
-     *  padded event data emitted from ``external`` functions.
+     *  The %%mode%% may be any [[AbiDecodeMode]] (default:
+     *  ``"standard"``). For backwards compatibility, ``true`` is
+     *  equivalent to ``"loose"``.
      */
-    decode(types: ReadonlyArray<string | ParamType>, data: BytesLike, loose?: boolean): Result {
+    decode(types: ReadonlyArray<string | ParamType>, data: BytesLike, mode?: boolean | AbiDecodeMode): Result {
         const coders: Array<Coder> = types.map((type) => this.#getCoder(ParamType.from(type)));
         const coder = new TupleCoder(coders, "_");
-        return coder.decode(new Reader(data, loose, defaultMaxInflation));
+
+        const loose = (mode === true || mode === "loose");
+        const result = coder.decode(new Reader(data, loose, defaultMaxInflation));
+
+        // The only canonical encoding is the one we would produce
+        if (mode === "strict") {
+            const bytes = getBytes(data);
+
+            let encoded: Uint8Array;
+            try {
+                const writer = new Writer();
+                coder.encode(writer, result);
+                encoded = getBytes(writer.data);
+            } catch (error) {
+                assert(false, "invalid ABI data", "BAD_DATA", {
+                    value: hexlify(bytes), info: { error }
+                });
+            }
+
+            let offset = 0;
+            while (offset < bytes.length && bytes[offset] === encoded[offset]) { offset++; }
+
+            assert(offset === bytes.length && offset === encoded.length,
+                "non-canonical ABI data", "BAD_DATA", {
+                value: hexlify(bytes), info: { offset }
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     *  Decode the ABI %%data%% as the %%types%% into a [[LazyResult]],
+     *  which only decodes each value when it is accessed.
+     *
+     *  This avoids decoding every value of large data, when only some
+     *  of the values are used.
+     */
+    decodeLazy(types: ReadonlyArray<string | ParamType>, data: BytesLike): LazyResult {
+        const coders: Array<Coder> = types.map((type) => this.#getCoder(ParamType.from(type)));
+        const coder = new TupleCoder(coders, "_");
+        return LazyResult._from(coder, new Reader(data, false, defaultMaxInflation));
+    }
+
+    // The packed size of %%param%%, or null if it fills the remaining data
+    #getPackedSize(param: ParamType, inArray: boolean): null | number {
+        if (param.isArray()) {
+            const size = this.#getPackedSize(param.arrayChildren, true);
+            assertArgument(size != null, "ambiguous packed array", "param", param);
+            if (param.arrayLength === -1) {
+                assertArgument(!inArray, "ambiguous packed array", "param", param);
+                return null;
+            }
+            return size * param.arrayLength;
+        }
+
+        if (param.isTuple()) {
+            let total: null | number = 0;
+            for (const comp of param.components) {
+                const size = this.#getPackedSize(comp, inArray);
+                if (size == null) {
+                    assertArgument(total != null, "ambiguous packed tuple", "param", param);
+                    total = null;
+                } else if (total != null) {
+                    total += size;
+                }
+            }
+            return total;
+        }
+
+        if (param.type === "string" || param.type === "bytes") {
+            assertArgument(!inArray, "ambiguous packed array", "param", param);
+            return null;
+        }
+
+        if (inArray) { return 32; }
+
+        const coder = this.#getCoder(param);
+        if (coder instanceof NumberCoder || coder instanceof FixedBytesCoder) {
+            return coder.size;
+        }
+
+        return (param.baseType === "address") ? 20: 1;
+    }
+
+    #pack(param: ParamType, value: any, inArray: boolean): Uint8Array {
+        if (param.isArray()) {
+            const items = Typed.dereference(value, "array");
+            assertArgument(Array.isArray(items), "expected array value", param.name, value);
+            assertArgumentCount(items.length, (param.arrayLength === -1) ? items.length: param.arrayLength,
+                "coder array" + (param.name ? (" " + param.name): ""));
+            return getBytes(concat(items.map((v) => this.#pack(param.arrayChildren, v, true))));
+        }
+
+        if (param.isTuple()) {
+            let items = Typed.dereference(value, "tuple");
+            if (!Array.isArray(items)) {
+                assertArgument(items && typeof(items) === "object", "invalid tuple value", param.name, value);
+                items = param.components.map((c) => {
+                    assertArgument(c.name, "cannot encode object for signature with missing names", param.name, value);
+                    return items[c.name];
+                });
+            }
+            assertArgumentCount(items.length, param.components.length, "types/value length mismatch");
+            return getBytes(concat(param.components.map((c, i) => this.#pack(c, items[i], inArray))));
+        }
+
+        // The packed value is a slice of the ABI encoded value
+        const writer = new Writer();
+        this.#getCoder(param).encode(writer, value);
+        const data = getBytes(writer.data);
+
+        // Dynamic data; drop the length, and the padding unless in an array
+        if (param.type === "string" || param.type === "bytes") {
+            if (inArray) { return data.slice(32); }
+            return data.slice(32, 32 + Number(toBigInt(data.slice(0, 32))));
+        }
+
+        if (inArray) { return data; }
+
+        const size = this.#getPackedSize(param, false)!;
+        if (isLeftAligned(param)) { return data.slice(0, size); }
+        return data.slice(32 - size);
+    }
+
+    #unpack(param: ParamType, data: Uint8Array, inArray: boolean): any {
+        if (param.isArray()) {
+            const size = this.#getPackedSize(param.arrayChildren, true)!;
+            const count = (param.arrayLength === -1) ? (data.length / size): param.arrayLength;
+            assert(Number.isInteger(count) && count * size === data.length,
+                "invalid packed array length", "BAD_DATA", { value: hexlify(data) });
+
+            const items: Array<any> = [ ];
+            for (let i = 0; i < count; i++) {
+                items.push(this.#unpack(param.arrayChildren, data.slice(i * size, (i + 1) * size), true));
+            }
+            return Result.fromItems(items);
+        }
+
+        if (param.isTuple()) {
+            return this.#unpackTuple(param.components, data, inArray);
+        }
+
+        // Restore the ABI encoding and decode it
+        const writer = new Writer();
+        if (param.type === "string" || param.type === "bytes") {
+            writer.writeValue(data.length);
+            writer.writeBytes(data);
+        } else if (isLeftAligned(param)) {
+            writer.writeBytes(zeroPadBytes(data, 32));
+        } else {
+            if (param.baseType === "bool") {
+                const value = toBigInt(data);
+                assert(value <= BN_1, "invalid packed bool", "BAD_DATA", { value: hexlify(data) });
+            }
+            writer.writeBytes(zeroPadValue(data, 32));
+        }
+
+        const result = this.#getCoder(param).decode(new Reader(writer.data));
+
+        // Check array elements are the canonical padded value
+        if (inArray) {
+            assert(hexlify(this.#pack(param, result, true)) === hexlify(data),
+                "invalid packed array element", "BAD_DATA", { value: hexlify(data) });
+        }
+
+        return result;
+    }
+
+    #unpackTuple(params: ReadonlyArray<ParamType>, data: Uint8Array, inArray: boolean): Result {
+        const sizes = params.map((p) => this.#getPackedSize(p, inArray));
+
+        let fixed = 0, unbounded = 0;
+        for (const size of sizes) {
+            if (size == null) { unbounded++; } else { fixed += size; }
+        }
+        assertArgument(unbounded <= 1, "ambiguous packed types", "types", params.map((p) => p.format()));
+        assert(unbounded ? (data.length >= fixed): (data.length === fixed),
+            "invalid packed data length", "BAD_DATA", { value: hexlify(data) });
+
+        const values: Array<any> = [ ], keys: Array<null | string> = [ ];
+        let offset = 0;
+        params.forEach((param, index) => {
+            let size = sizes[index];
+            if (size == null) { size = data.length - fixed; }
+            values.push(this.#unpack(param, data.slice(offset, offset + size), inArray));
+            keys.push(param.name || null);
+            offset += size;
+        });
+
+        return Result.fromItems(values, keys);
+    }
+
+    /**
+     *  Encode the %%values%% as the %%types%% into the non-standard
+     *  [[link-solc-packed]] encoding, as Solidity ``abi.encodePacked``.
+     *
+     *  Each value is encoded using the minimum bytes for its type, except
+     *  array elements which are each padded to a full word. Dynamic
+     *  ``bytes`` and ``string`` are not length-prefixed, and tuples
+     *  are encoded as the concatenation of their components.
+     *
+     *  @returns DataHexstring
+     */
+    encodePacked(types: ReadonlyArray<string | ParamType>, values: ReadonlyArray<any>): string {
+        assertArgumentCount(values.length, types.length, "types/values length mismatch");
+
+        const params = types.map((type) => ParamType.from(type));
+        return hexlify(concat(params.map((p, i) => this.#pack(p, values[i], false))));
+    }
+
+    /**
+     *  Decode the [[link-solc-packed]] %%data%% as the %%types%% into
+     *  values.
+     *
+     *  Since values are not length-prefixed, the %%types%% may include
+     *  at most one dynamically sized value (``bytes``, ``string`` or a
+     *  dynamic array) which fills the remaining data, and arrays may not
+     *  contain dynamically sized values, otherwise the data is ambiguous
+     *  and an error is thrown.
+     */
+    decodePacked(types: ReadonlyArray<string | ParamType>, data: BytesLike): Result {
+        const params = types.map((type) => ParamType.from(type));
+        return this.#unpackTuple(params, getBytesCopy(data), false);
     }
 
     static _setDefaultMaxInflation(value: number): void {
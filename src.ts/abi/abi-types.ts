@@ -0,0 +1,366 @@
+/**
+ *  When an ABI is known at compile time (e.g. declared ``as const``),
+ *  its types can be parsed by the TypeScript compiler, so that the
+ *  arguments and results of an [[Interface]] or [[Contract]] are
+ *  fully typed, without generating any code.
+ *
+ *  Both JSON ABI fragments and Human-Readable ABI fragments are
+ *  supported. If any fragment cannot be parsed, or the ABI is not a
+ *  literal type, the ABI is untyped and any values are accepted.
+ *
+ *  @_subsection api/abi:Typed ABIs  [about-abi-types]
+ */
+
+import type { Addressable } from "../address/index.js";
+import type { BigNumberish, BytesLike } from "../utils/index.js";
+
+import type { Result } from "./coders/abstract-coder.js";
+import type { Indexed } from "./interface.js";
+
+
+///////////////////////////////
+// String Utilities
+
+type Whitespace = " " | "\n" | "\t";
+
+type TrimLeft<S extends string> = S extends `${ Whitespace }${ infer R }` ? TrimLeft<R>: S;
+type TrimRight<S extends string> = S extends `${ infer R }${ Whitespace }` ? TrimRight<R>: S;
+type Trim<S extends string> = TrimLeft<TrimRight<S>>;
+
+// Splits the string following an open parenthesis into the contents
+// and the remainder after the matching close parenthesis
+type MatchParen<S extends string, D extends Array<unknown> = [ ], I extends string = ""> =
+    S extends `${ infer C }${ infer R }`
+        ? C extends "(" ? MatchParen<R, [ ...D, unknown ], `${ I }(`>
+        : C extends ")" ? (D extends [ unknown, ...infer P ] ? MatchParen<R, P, `${ I })`>: [ I, R ])
+        : MatchParen<R, D, `${ I }${ C }`>
+        : never;
+
+// Splits a parameter list on its top-level commas
+type SplitParams<S extends string, D extends Array<unknown> = [ ], I extends string = "", A extends Array<string> = [ ]> =
+    S extends `${ infer C }${ infer R }`
+        ? C extends "(" ? SplitParams<R, [ ...D, unknown ], `${ I }(`, A>
+        : C extends ")" ? SplitParams<R, (D extends [ unknown, ...infer P ] ? P: [ ]), `${ I })`, A>
+        : C extends "," ? (D extends [ ] ? SplitParams<R, D, "", [ ...A, Trim<I> ]>: SplitParams<R, D, `${ I },`, A>)
+        : SplitParams<R, D, `${ I }${ C }`, A>
+        : (Trim<I> extends "" ? A: [ ...A, Trim<I> ]);
+
+// Splits a string into its space-separated words
+type Words<S extends string, A extends Array<string> = [ ]> =
+    Trim<S> extends "" ? A
+    : Trim<S> extends `${ infer W } ${ infer R }` ? Words<R, [ ...A, W ]>
+    : [ ...A, Trim<S> ];
+
+
+///////////////////////////////
+// Human-Readable ABI Parsing
+
+/**
+ *  A parameter, as in a JSON ABI.
+ */
+export interface AbiParameter {
+    readonly name?: string;
+    readonly type: string;
+    readonly indexed?: boolean;
+    readonly components?: ReadonlyArray<AbiParameter>;
+}
+
+// The keywords which may follow a parameter type, which are not its name
+type ParamKeyword = "indexed" | "memory" | "calldata" | "storage";
+
+type ParamName<W extends Array<string>> =
+    W extends [ ...infer _, infer N extends string ] ? (N extends ParamKeyword ? "": N): "";
+
+type ParamIndexed<W extends Array<string>> = "indexed" extends W[number] ? true: false;
+
+type ParseParam<P extends string> =
+    P extends `tuple(${ infer R }` ? ParseTupleParam<MatchParen<R>>
+    : P extends `(${ infer R }` ? ParseTupleParam<MatchParen<R>>
+    : P extends `${ infer T } ${ infer R }` ? {
+        type: T, name: ParamName<Words<R>>, indexed: ParamIndexed<Words<R>>
+    }
+    : { type: P, name: "", indexed: false };
+
+type ParseTupleParam<M> =
+    M extends [ infer I extends string, infer R extends string ]
+        ? (R extends `${ infer S } ${ infer T }` ? [ S, T ]: [ R, "" ]) extends [ infer S extends string, infer T extends string ]
+            ? {
+                type: `tuple${ S }`, name: ParamName<Words<T>>,
+                indexed: ParamIndexed<Words<T>>, components: ParseParams<I>
+            }
+            : never
+        : never;
+
+/**
+ *  Parses the Human-Readable parameter list %%S%% (e.g.
+ *  ``"address to, uint256 amount"``) into [[AbiParameter]] types.
+ */
+export type ParseParams<S extends string> = SplitParams<S> extends infer P extends Array<string>
+    ? { [ K in keyof P ]: ParseParam<P[K]> }
+    : never;
+
+// The parameters within parentheses, and the remainder
+type ParseParenParams<S extends string> =
+    MatchParen<S> extends [ infer I extends string, infer R extends string ] ? [ ParseParams<I>, R ]: never;
+
+type ParseMutability<S extends string> =
+    "view" extends Words<S>[number] ? "view"
+    : "pure" extends Words<S>[number] ? "pure"
+    : "constant" extends Words<S>[number] ? "view"
+    : "payable" extends Words<S>[number] ? "payable"
+    : "nonpayable";
+
+type ParseFunction<S extends string> =
+    S extends `${ infer N }(${ infer R }` ? ParseParenParams<R> extends [ infer I, infer T extends string ]
+        ? (T extends `${ infer M }returns${ infer O }`
+            ? (Trim<O> extends `(${ infer P }` ? ParseParenParams<P>[0]: never) extends infer Outputs
+                ? { type: "function", name: Trim<N>, inputs: I, outputs: Outputs, stateMutability: ParseMutability<M> }
+                : never
+            : { type: "function", name: Trim<N>, inputs: I, outputs: [ ], stateMutability: ParseMutability<T> })
+        : never
+    : never;
+
+type ParseNamed<K extends string, S extends string> =
+    S extends `${ infer N }(${ infer R }` ? ParseParenParams<R> extends [ infer I, string ]
+        ? { type: K, name: Trim<N>, inputs: I }
+        : never
+    : never;
+
+/**
+ *  Parses the Human-Readable ABI fragment %%S%% into the equivalent
+ *  JSON ABI fragment type, or ``unknown`` if it is not supported.
+ */
+export type ParseSignature<S extends string> =
+    Trim<S> extends `function ${ infer R }` ? ParseFunction<R>
+    : Trim<S> extends `event ${ infer R }` ? ParseNamed<"event", R>
+    : Trim<S> extends `error ${ infer R }` ? ParseNamed<"error", R>
+    : Trim<S> extends `constructor${ string }` ? { type: "constructor" }
+    : Trim<S> extends `fallback${ string }` ? { type: "fallback" }
+    : Trim<S> extends `receive${ string }` ? { type: "receive" }
+    : unknown;
+
+
+///////////////////////////////
+// ABI Fragments
+
+type JsonMutability<F> =
+    F extends { stateMutability: infer M extends string } ? M
+    : F extends { constant: true } ? "view"
+    : F extends { payable: true } ? "payable"
+    : "nonpayable";
+
+// Normalizes a fragment into the JSON ABI fragment type
+type NormalizeFragment<F> =
+    F extends string ? ParseSignature<F>
+    : F extends { type: "function", name: infer N extends string } ? {
+        type: "function", name: N,
+        inputs: F extends { inputs: infer I } ? I: [ ],
+        outputs: F extends { outputs: infer O extends ReadonlyArray<unknown> } ? O: [ ],
+        stateMutability: JsonMutability<F>
+    }
+    : F extends { type: infer K extends ("event" | "error"), name: infer N extends string } ? {
+        type: K, name: N,
+        inputs: F extends { inputs: infer I } ? I: [ ]
+    }
+    : F extends { type: "constructor" | "fallback" | "receive" } ? F
+    : unknown;
+
+type IsLiteralFragment<F> =
+    F extends string ? (string extends F ? false: (unknown extends ParseSignature<F> ? false: true))
+    : F extends { type: infer K extends string } ? (string extends K ? false: true)
+    : false;
+
+/**
+ *  Resolves to ``true`` if the ABI %%A%% is fully known at compile
+ *  time (e.g. declared ``as const``), so its types can be inferred.
+ */
+export type IsTypedAbi<A> =
+    A extends string ? false
+    : A extends ReadonlyArray<infer F> ? (false extends IsLiteralFragment<F> ? false: true)
+    : false;
+
+/**
+ *  The JSON ABI fragment types of each fragment in the ABI %%A%%.
+ */
+export type AbiFragments<A> = A extends ReadonlyArray<infer F> ? NormalizeFragment<F>: never;
+
+type FragmentName<F> = F extends { name: infer N extends string } ? N: never;
+
+// The canonical type of a parameter, as used in a signature (e.g.
+// "uint" is "uint256" and a tuple is its parenthesized components)
+type CanonicalBaseType<T extends string> = T extends "uint" ? "uint256": T extends "int" ? "int256": T;
+type CanonicalType<P> =
+    P extends { type: `tuple${ infer S }`, components: infer C extends ReadonlyArray<unknown> } ? `(${ CanonicalTypes<C> })${ S }`
+    : P extends { type: `${ infer B }[${ infer S }` } ? `${ CanonicalBaseType<B> }[${ S }`
+    : P extends { type: infer T extends string } ? CanonicalBaseType<T>
+    : never;
+type CanonicalTypes<P> =
+    P extends readonly [ infer F ] ? CanonicalType<F>
+    : P extends readonly [ infer F, ...infer R ] ? `${ CanonicalType<F> },${ CanonicalTypes<R> }`
+    : "";
+
+// The signature of each fragment (e.g. "transfer(address,uint256)")
+type FragmentSignature<F> = F extends { name: infer N extends string, inputs: infer I }
+    ? `${ N }(${ CanonicalTypes<I> })`
+    : never;
+
+// The fragments of kind %%K%% which are named or have the signature %%N%%
+type AbiFragment<A, K, N> = IsTypedAbi<A> extends true
+    ? (Extract<AbiFragments<A>, { type: K }> extends infer F
+        ? (F extends unknown ? (N extends FragmentName<F> | FragmentSignature<F> ? F: never): never)
+        : never)
+    : never;
+
+type AbiFunction<A, N> = AbiFragment<A, "function", N>;
+
+type AbiEvent<A, N> = AbiFragment<A, "event", N>;
+
+
+///////////////////////////////
+// Values
+
+// Each array dimension of a type (e.g. "uint256[2][]") wraps the value
+type ArrayValue<T extends string, V, F extends "input" | "output"> = T extends `${ string }[${ infer R }`
+    ? (F extends "input" ? ReadonlyArray<ArrayValue<R, V, F>>: Array<ArrayValue<R, V, F>>)
+    : V;
+type BaseType<T extends string> = T extends `${ infer B }[${ string }` ? B: T;
+
+type NamedValues<P, F extends "input" | "output"> = {
+    [ K in P extends ReadonlyArray<infer E> ? E: never as
+        K extends { name: infer N extends string } ? (N extends "" ? never: N): never
+    ]: AbiParameterValue<K, F>
+};
+
+type TupleValues<P extends ReadonlyArray<unknown>, F extends "input" | "output"> = {
+    -readonly [ K in keyof P ]: AbiParameterValue<P[K], F>
+};
+
+type BaseValue<P, T extends string, F extends "input" | "output"> =
+    T extends `uint${ string }` | `int${ string }` ? (F extends "input" ? BigNumberish: bigint)
+    : T extends "address" ? (F extends "input" ? string | Addressable: `0x${ string }`)
+    : T extends "bool" ? boolean
+    : T extends "string" ? string
+    : T extends `bytes${ string }` | "function" ? (F extends "input" ? BytesLike: `0x${ string }`)
+    : T extends "tuple" ? (P extends { components: infer C extends ReadonlyArray<unknown> }
+        ? (F extends "input" ? Readonly<TupleValues<C, F>> | NamedValues<C, F>: AbiResult<TupleValues<C, F> & NamedValues<C, F>>)
+        : never)
+    : any;
+
+// Dynamic values are only logged as their hash when indexed
+type IsIndexedDynamic<P> = P extends { indexed: true, type: infer T extends string }
+    ? (T extends "string" | "bytes" | "tuple" | `${ string }]` ? true: false)
+    : false;
+
+/**
+ *  The type of a value for the ABI parameter %%P%%, which is either
+ *  the type accepted as an ``"input"`` or the type of a decoded
+ *  ``"output"``.
+ *
+ *  Decoded integers are a ``bigint``, and addresses and bytes are a
+ *  ``0x``-prefixed hex string. A decoded indexed event parameter of a
+ *  dynamic type is an [[Indexed]].
+ */
+export type AbiParameterValue<P, F extends "input" | "output" = "output"> =
+    F extends "output" ? (IsIndexedDynamic<P> extends true ? Indexed: ParameterValue<P, F>)
+    : ParameterValue<P, F>;
+
+type ParameterValue<P, F extends "input" | "output"> =
+    P extends { type: infer T extends string } ? ArrayValue<T, BaseValue<P, BaseType<T>, F>, F>: any;
+
+/**
+ *  The typed [[Result]] %%T%%, which is a tuple of the values which
+ *  may also be accessed by name.
+ */
+export type AbiResult<T> = T & Pick<Result, "toArray" | "toObject" | "getValue">;
+
+/**
+ *  The tuple of arguments accepted for the parameters %%P%%.
+ */
+export type AbiInputs<P extends ReadonlyArray<unknown>> = TupleValues<P, "input">;
+
+/**
+ *  The typed [[Result]] for the decoded parameters %%P%%.
+ */
+export type AbiOutputs<P extends ReadonlyArray<unknown>> = AbiResult<TupleValues<P, "output"> & NamedValues<P, "output">>;
+
+
+///////////////////////////////
+// Functions and Events
+
+/**
+ *  The names of the functions in the ABI %%A%%, or ``string`` if the
+ *  ABI is untyped.
+ */
+export type AbiFunctionName<A> = IsTypedAbi<A> extends true
+    ? FragmentName<Extract<AbiFragments<A>, { type: "function" }>>
+    : string;
+
+/**
+ *  The signatures of the functions in the ABI %%A%% (e.g.
+ *  ``"transfer(address,uint256)"``), or ``string`` if the ABI is
+ *  untyped.
+ */
+export type AbiFunctionSignature<A> = IsTypedAbi<A> extends true
+    ? FragmentSignature<Extract<AbiFragments<A>, { type: "function" }>>
+    : string;
+
+/**
+ *  The arguments for the function %%N%% in the ABI %%A%%, which may
+ *  be its name or its signature; for an overloaded function name, a
+ *  union of each argument tuple.
+ */
+export type AbiFunctionArgs<A, N> = [ AbiFunction<A, N> ] extends [ never ] ? Array<any>
+    : AbiFunction<A, N> extends { inputs: infer I extends ReadonlyArray<unknown> } ? AbiInputs<I>: never;
+
+/**
+ *  The typed [[Result]] of the function %%N%% in the ABI %%A%%.
+ */
+export type AbiFunctionOutputs<A, N> = [ AbiFunction<A, N> ] extends [ never ] ? Result
+    : AbiFunction<A, N> extends { outputs: infer O extends ReadonlyArray<unknown> } ? AbiOutputs<O>: never;
+
+/**
+ *  The value of calling the function %%N%% in the ABI %%A%%, which is
+ *  the value itself for a single output, otherwise its
+ *  [[AbiFunctionOutputs]].
+ */
+export type AbiFunctionResult<A, N> = [ AbiFunction<A, N> ] extends [ never ] ? any
+    : AbiFunction<A, N> extends { outputs: infer O extends ReadonlyArray<unknown> }
+        ? (O extends readonly [ infer P ] ? AbiParameterValue<P>: AbiOutputs<O>)
+        : never;
+
+/**
+ *  Resolves to ``true`` if the function %%N%% in the ABI %%A%% is
+ *  ``view`` or ``pure``.
+ */
+export type AbiFunctionIsConstant<A, N> = [ AbiFunction<A, N> ] extends [ never ] ? boolean
+    : AbiFunction<A, N> extends { stateMutability: "view" | "pure" } ? true: false;
+
+/**
+ *  The names of the events in the ABI %%A%%, or ``string`` if the ABI
+ *  is untyped.
+ */
+export type AbiEventName<A> = IsTypedAbi<A> extends true
+    ? FragmentName<Extract<AbiFragments<A>, { type: "event" }>>
+    : string;
+
+/**
+ *  The signatures of the events in the ABI %%A%% (e.g.
+ *  ``"Transfer(address,address,uint256)"``), or ``string`` if the ABI
+ *  is untyped.
+ */
+export type AbiEventSignature<A> = IsTypedAbi<A> extends true
+    ? FragmentSignature<Extract<AbiFragments<A>, { type: "event" }>>
+    : string;
+
+/**
+ *  The arguments to filter the event %%N%% in the ABI %%A%% by, which
+ *  may be its name or its signature.
+ */
+export type AbiEventArgs<A, N> = [ AbiEvent<A, N> ] extends [ never ] ? Array<any>
+    : AbiEvent<A, N> extends { inputs: infer I extends ReadonlyArray<unknown> } ? AbiInputs<I>: never;
+
+/**
+ *  The typed [[Result]] of the decoded event %%N%% in the ABI %%A%%.
+ */
+export type AbiEventOutputs<A, N> = [ AbiEvent<A, N> ] extends [ never ] ? Result
+    : AbiEvent<A, N> extends { inputs: infer I extends ReadonlyArray<unknown> } ? AbiOutputs<I>: never;
@@ -467,12 +467,15 @@ export class Reader {
     #parent: null | Reader;
     #maxInflation: number;
 
-    constructor(data: BytesLike, allowLoose?: boolean, maxInflation?: number) {
+    // A reader created from another reader shares its data, rather than
+    // copying it, since a Reader never modifies its data; the %%parent%%
+    // is that reader, or null if this reader tracks its own inflation
+    constructor(data: BytesLike, allowLoose?: boolean, maxInflation?: number, parent?: null | Reader) {
         defineProperties<Reader>(this, { allowLoose: !!allowLoose });
 
-        this.#data = getBytesCopy(data);
+        this.#data = (parent !== undefined && data instanceof Uint8Array) ? data: getBytesCopy(data);
         this.#bytesRead = 0;
-        this.#parent = null;
+        this.#parent = parent || null;
         this.#maxInflation = (maxInflation != null) ? maxInflation: 1024;
 
         this.#offset = 0;
@@ -516,9 +519,13 @@ export class Reader {
 
     // Create a sub-reader with the same underlying data, but offset
     subReader(offset: number): Reader {
-        const reader = new Reader(this.#data.slice(this.#offset + offset), this.allowLoose, this.#maxInflation);
-        reader.#parent = this;
-        return reader;
+        return new Reader(this.#data.subarray(this.#offset + offset), this.allowLoose, this.#maxInflation, this);
+    }
+
+    // Create a reader with the same underlying data, but offset, which
+    // tracks its own inflation (rather than adding to this reader's)
+    rootReader(offset: number): Reader {
+        return new Reader(this.#data.subarray(this.#offset + offset), this.allowLoose, this.#maxInflation, null);
     }
 
     // Read bytes
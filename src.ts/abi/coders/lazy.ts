@@ -0,0 +1,179 @@
+import {
+    defineProperties, assert, assertArgument, assertPrivate
+} from "../../utils/index.js";
+
+import { WordSize } from "./abstract-coder.js";
+import { ArrayCoder } from "./array.js";
+import { TupleCoder } from "./tuple.js";
+
+import type { Coder, Reader, Result } from "./abstract-coder.js";
+
+
+const _guard = { };
+
+// The size of the in-place (head) encoding of a value for %%coder%%
+function getHeadSize(coder: Coder): number {
+    if (coder.dynamic) { return WordSize; }
+    if (coder instanceof ArrayCoder) { return coder.length * getHeadSize(coder.coder); }
+    if (coder instanceof TupleCoder) {
+        return coder.coders.reduce((accum, c) => accum + getHeadSize(c), 0);
+    }
+    return WordSize;
+}
+
+/**
+ *  A **LazyResult** is a view of an ABI encoded tuple or array, whose
+ *  values are only decoded when accessed.
+ *
+ *  Nested tuples and arrays are also a **LazyResult**, so only the
+ *  values accessed are ever decoded, and the underlying data is shared
+ *  rather than copied. Each access decodes the value again, so a value
+ *  used frequently should be kept.
+ *
+ *  This is useful for large data, such as a large ``bytes[]`` or an
+ *  array of structs, where only some values are required, or values
+ *  can be processed while iterating.
+ *
+ *  @_docloc: api/abi
+ */
+export class LazyResult implements Iterable<any> {
+    /**
+     *  The ABI type of the tuple or array.
+     */
+    readonly type!: string;
+
+    /**
+     *  The number of values.
+     */
+    readonly length!: number;
+
+    readonly #coder: TupleCoder | ArrayCoder;
+    readonly #reader: Reader;
+
+    // A reader anchored at the first value, and the head offset of each
+    // tuple value; array values are evenly spaced by #size
+    readonly #base: Reader;
+    readonly #offsets: null | ReadonlyArray<number>;
+    readonly #size: number;
+
+    /**
+     *  @_ignore:
+     */
+    constructor(guard: any, coder: TupleCoder | ArrayCoder, reader: Reader) {
+        assertPrivate(guard, _guard, "LazyResult");
+
+        let base = reader.subReader(0);
+
+        let length: number, offsets: null | Array<number> = null, size = 0;
+        if (coder instanceof ArrayCoder) {
+            length = coder.length;
+            if (length === -1) {
+                length = base.readIndex();
+
+                // See ArrayCoder; check there is *roughly* enough data
+                assert(length * WordSize <= base.dataLength, "insufficient data length",
+                    "BUFFER_OVERRUN", { buffer: base.bytes, offset: length * WordSize, length: base.dataLength });
+
+                base = base.subReader(0);
+            }
+            size = getHeadSize(coder.coder);
+
+        } else {
+            let offset = 0;
+            offsets = coder.coders.map((c) => {
+                const result = offset;
+                offset += getHeadSize(c);
+                return result;
+            });
+            length = offsets.length;
+        }
+
+        this.#coder = coder;
+        this.#reader = reader;
+        this.#base = base;
+        this.#offsets = offsets;
+        this.#size = size;
+
+        defineProperties<LazyResult>(this, { type: coder.type, length });
+    }
+
+    #getCoder(index: number): Coder {
+        if (this.#coder instanceof ArrayCoder) { return this.#coder.coder; }
+        return this.#coder.coders[index];
+    }
+
+    /**
+     *  Returns the value at %%index%%, decoding it.
+     *
+     *  A tuple or array value is returned as a **LazyResult**.
+     */
+    get(index: number): any {
+        assertArgument(Number.isInteger(index) && index >= 0 && index < this.length,
+            "index out-of-range", "index", index);
+
+        const coder = this.#getCoder(index);
+        const offset = this.#offsets ? this.#offsets[index]: (index * this.#size);
+
+        // Each access decodes again, so each has its own inflation
+        // limit, rather than adding to the original reader's
+        let reader = this.#base.rootReader(offset);
+        if (coder.dynamic) {
+            reader = this.#base.rootReader(reader.readIndex());
+        }
+
+        if (coder instanceof TupleCoder || coder instanceof ArrayCoder) {
+            return new LazyResult(_guard, coder, reader);
+        }
+
+        return coder.decode(reader);
+    }
+
+    /**
+     *  Returns the value for the tuple component named %%name%%,
+     *  decoding it.
+     */
+    getValue(name: string): any {
+        const coder = this.#coder;
+
+        let index = -1;
+        if (coder instanceof TupleCoder) {
+            coder.coders.forEach((c, i) => {
+                if (c.localName !== name) { return; }
+                assertArgument(index === -1, "ambiguous name", "name", name);
+                index = i;
+            });
+        }
+        assertArgument(index >= 0, "no named value", "name", name);
+
+        return this.get(index);
+    }
+
+    /**
+     *  Iterates over each value, decoding each as it is reached.
+     */
+    [Symbol.iterator](): Iterator<any> {
+        let index = 0;
+        return {
+            next: () => {
+                if (index < this.length) {
+                    return { value: this.get(index++), done: false };
+                }
+                return { value: undefined, done: true };
+            }
+        };
+    }
+
+    /**
+     *  Decodes every value, returning the [[Result]].
+     */
+    toResult(): Result {
+        return this.#coder.decode(this.#reader.rootReader(0));
+    }
+
+    /**
+     *  @_ignore:
+     */
+    static _from(coder: TupleCoder, reader: Reader): LazyResult {
+        return new LazyResult(_guard, coder, reader);
+    }
+}
@@ -0,0 +1,215 @@
+/**
+ *  An **ErrorRegistry** collects the custom errors of many contracts,
+ *  so that revert data can be decoded even if it originated in a
+ *  contract other than the one called.
+ *
+ *  @_subsection api/abi:Error Registry  [about-error-registry]
+ */
+
+import { getBytes, hexlify } from "../utils/index.js";
+
+import { AbiCoder } from "./abi-coder.js";
+import { ErrorFragment } from "./fragments.js";
+import { ErrorDescription, Interface } from "./interface.js";
+
+import type { BytesLike, CallExceptionError } from "../utils/index.js";
+
+import type { InterfaceAbi } from "./interface.js";
+
+
+// The errors which are commonly encountered, from the Solidity built-in
+// errors and the OpenZeppelin Contracts library (including ERC-6093)
+const WellKnownErrors: Array<string> = [
+    "error Error(string)",
+    "error Panic(uint256)",
+
+    // ERC-6093: Custom errors for commonly-used tokens
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error ERC20InvalidSender(address sender)",
+    "error ERC20InvalidReceiver(address receiver)",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    "error ERC20InvalidApprover(address approver)",
+    "error ERC20InvalidSpender(address spender)",
+    "error ERC721InvalidOwner(address owner)",
+    "error ERC721NonexistentToken(uint256 tokenId)",
+    "error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)",
+    "error ERC721InvalidSender(address sender)",
+    "error ERC721InvalidReceiver(address receiver)",
+    "error ERC721InsufficientApproval(address operator, uint256 tokenId)",
+    "error ERC721InvalidApprover(address approver)",
+    "error ERC721InvalidOperator(address operator)",
+    "error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)",
+    "error ERC1155InvalidSender(address sender)",
+    "error ERC1155InvalidReceiver(address receiver)",
+    "error ERC1155MissingApprovalForAll(address operator, address owner)",
+    "error ERC1155InvalidApprover(address approver)",
+    "error ERC1155InvalidOperator(address operator)",
+    "error ERC1155InvalidArrayLength(uint256 idsLength, uint256 valuesLength)",
+
+    // Access
+    "error OwnableUnauthorizedAccount(address account)",
+    "error OwnableInvalidOwner(address owner)",
+    "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+    "error AccessControlBadConfirmation()",
+
+    // Security and proxies
+    "error ReentrancyGuardReentrantCall()",
+    "error EnforcedPause()",
+    "error ExpectedPause()",
+    "error InvalidInitialization()",
+    "error NotInitializing()",
+
+    // Utilities
+    "error AddressEmptyCode(address target)",
+    "error FailedCall()",
+    "error InsufficientBalance(uint256 balance, uint256 needed)",
+    "error SafeERC20FailedOperation(address token)",
+    "error SafeERC20FailedDecreaseAllowance(address spender, uint256 currentAllowance, uint256 requestedDecrease)",
+    "error ECDSAInvalidSignature()",
+    "error ECDSAInvalidSignatureLength(uint256 length)",
+    "error ECDSAInvalidSignatureS(bytes32 s)",
+    "error ERC2612ExpiredSignature(uint256 deadline)",
+    "error ERC2612InvalidSigner(address signer, address owner)",
+    "error InvalidAccountNonce(address account, uint256 currentNonce)",
+];
+
+let defaultRegistry: null | ErrorRegistry = null;
+
+/**
+ *  An **ErrorRegistry** holds the [[ErrorFragment]] for any number of
+ *  custom errors, indexed by selector.
+ *
+ *  When a ``CALL_EXCEPTION`` is created, the contract called may not
+ *  recognize the revert data, since it may have been bubbled up from
+ *  another contract it called. The registry is consulted in this case
+ *  by the [[AbstractProvider]] and [[BaseContract]], to populate the
+ *  ``revert`` and ``reason`` of the error.
+ *
+ *  If multiple errors share a selector, each is attempted, in the order
+ *  they were added, until one successfully decodes the data.
+ */
+export class ErrorRegistry {
+    #errors: Map<string, Array<ErrorFragment>>;
+
+    /**
+     *  Create a new **ErrorRegistry** with the errors of each of %%abis%%.
+     */
+    constructor(abis?: Array<Interface | InterfaceAbi>) {
+        this.#errors = new Map();
+        for (const abi of (abis || [ ])) { this.add(abi); }
+    }
+
+    /**
+     *  All the registered errors.
+     */
+    get errors(): Array<ErrorFragment> {
+        const result: Array<ErrorFragment> = [ ];
+        for (const fragments of this.#errors.values()) {
+            for (const fragment of fragments) { result.push(fragment); }
+        }
+        return result;
+    }
+
+    /**
+     *  Adds the errors in %%value%%, which may be an [[Interface]], any
+     *  ABI or a single [[ErrorFragment]].
+     *
+     *  Errors which are already registered are ignored.
+     */
+    add(value: Interface | InterfaceAbi | ErrorFragment): this {
+        if (ErrorFragment.isFragment(value)) {
+            this.#addError(value);
+        } else {
+            Interface.from(value).forEachError((fragment) => {
+                this.#addError(fragment);
+            });
+        }
+        return this;
+    }
+
+    #addError(fragment: ErrorFragment): void {
+        let fragments = this.#errors.get(fragment.selector);
+        if (fragments == null) {
+            fragments = [ ];
+            this.#errors.set(fragment.selector, fragments);
+        }
+
+        const signature = fragment.format();
+        if (fragments.some((f) => (f.format() === signature))) { return; }
+
+        fragments.push(fragment);
+    }
+
+    /**
+     *  Returns the first registered error matching the %%selector%%, or
+     *  ``null`` if none.
+     */
+    getError(selector: string): null | ErrorFragment {
+        const fragments = this.#errors.get(selector.toLowerCase());
+        if (fragments == null) { return null; }
+        return fragments[0];
+    }
+
+    /**
+     *  Parses the revert %%data%%, returning the [[ErrorDescription]] of
+     *  the first registered error which can decode it, or ``null`` if
+     *  no registered error matches.
+     */
+    parseError(data: BytesLike): null | ErrorDescription {
+        const bytes = getBytes(data, "data");
+        if (bytes.length < 4) { return null; }
+
+        const selector = hexlify(bytes.slice(0, 4));
+        const fragments = this.#errors.get(selector);
+        if (fragments == null) { return null; }
+
+        const abiCoder = AbiCoder.defaultAbiCoder();
+        for (const fragment of fragments) {
+            try {
+                const args = abiCoder.decode(fragment.inputs, bytes.slice(4));
+                return new ErrorDescription(fragment, selector, args);
+            } catch (error) { }
+        }
+
+        return null;
+    }
+
+    /**
+     *  Populates the ``revert`` and ``reason`` of %%error%% if its
+     *  revert data was not recognized, but matches a registered error.
+     *
+     *  Returns %%error%%, which is modified in place.
+     */
+    updateError(error: CallExceptionError): CallExceptionError {
+        if (error.revert != null || error.data == null) { return error; }
+
+        let desc: null | ErrorDescription = null;
+        try {
+            desc = this.parseError(error.data);
+        } catch (e) { }
+        if (desc == null) { return error; }
+
+        error.revert = {
+            name: desc.name, signature: desc.fragment.format(), args: desc.args
+        };
+        error.reason = error.revert.signature;
+        error.message = `execution reverted: ${ error.reason }`;
+
+        return error;
+    }
+
+    /**
+     *  Returns the shared default **ErrorRegistry**, which includes
+     *  the Solidity built-in errors and the well-known errors of the
+     *  OpenZeppelin Contracts library.
+     *
+     *  Any errors added to it are available to all providers and
+     *  contracts which do not specify their own registry.
+     */
+    static defaultRegistry(): ErrorRegistry {
+        if (defaultRegistry == null) {
+            defaultRegistry = new ErrorRegistry([ WellKnownErrors ]);
+        }
+        return defaultRegistry;
+    }
+}
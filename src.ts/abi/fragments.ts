@@ -154,7 +154,7 @@ const regexIdPrefix = new RegExp("^([a-zA-Z$_][a-zA-Z0-9$_]*)");
 
 // Parser regexs to check validity
 const regexId = new RegExp("^([a-zA-Z$_][a-zA-Z0-9$_]*)$");
-const regexType = new RegExp("^(address|bool|bytes([0-9]*)|string|u?int([0-9]*))$");
+const regexType = new RegExp("^(address|bool|bytes([0-9]*)|function|string|u?int([0-9]*))$");
 
 /**
  *  @ignore:
@@ -575,11 +575,20 @@ export class ParamType {
      */
     readonly arrayChildren!: null | ParamType;
 
+    /**
+     *  The Solidity type, as declared (e.g. ``"struct IPool.Pair"``,
+     *  ``"enum Status"`` or ``"contract IERC20"``), if known.
+     *
+     *  This is included when formatting as JSON, but otherwise has no
+     *  effect on the ABI type.
+     */
+    readonly internalType!: null | string;
+
 
     /**
      *  @private
      */
-    constructor(guard: any, name: string, type: string, baseType: string, indexed: null | boolean, components: null | ReadonlyArray<ParamType>, arrayLength: null | number, arrayChildren: null | ParamType) {
+    constructor(guard: any, name: string, type: string, baseType: string, indexed: null | boolean, components: null | ReadonlyArray<ParamType>, arrayLength: null | number, arrayChildren: null | ParamType, internalType?: null | string) {
         assertPrivate(guard, _guard, "ParamType");
         Object.defineProperty(this, internal, { value: ParamTypeInternal });
 
@@ -600,7 +609,8 @@ export class ParamType {
         }
 
         defineProperties<ParamType>(this, {
-            name, type, baseType, indexed, components, arrayLength, arrayChildren
+            name, type, baseType, indexed, components, arrayLength, arrayChildren,
+            internalType: (internalType || null)
         });
     }
 
@@ -624,6 +634,11 @@ export class ParamType {
                 const result = JSON.parse(this.arrayChildren.format("json"));
                 result.name = name;
                 result.type += `[${ (this.arrayLength < 0 ? "": String(this.arrayLength)) }]`;
+                if (this.internalType != null) {
+                    result.internalType = this.internalType;
+                } else {
+                    delete result.internalType;
+                }
                 return JSON.stringify(result);
             }
 
@@ -634,6 +649,7 @@ export class ParamType {
 
 
             if (typeof(this.indexed) === "boolean") { result.indexed = this.indexed; }
+            if (this.internalType != null) { result.internalType = this.internalType; }
             if (this.isTuple()) {
                 result.components = this.components.map((c) => JSON.parse(c.format(format)));
             }
@@ -826,6 +842,10 @@ export class ParamType {
                 baseType = "tuple";
                 comps = obj.popParams().map((t) => ParamType.from(t));
                 type = `tuple(${ comps.map((c) => c.format()).join(",") })`;
+            } else if (obj.peekKeyword(setify([ "function" ]))) {
+                // External function; a keyword, so not lexed as a type
+                type = obj.popKeyword(setify([ "function" ]));
+                baseType = type;
             } else {
                 // Normal
                 type = verifyBasicType(obj.popType("TYPE"));
@@ -871,27 +891,38 @@ export class ParamType {
 
         let type = obj.type;
 
+        const internalType = (typeof(obj.internalType) === "string") ? obj.internalType: null;
+
         let arrayMatch = type.match(regexArrayType);
         if (arrayMatch) {
             const arrayLength = parseInt(arrayMatch[2] || "-1");
+
+            // The children have the internal type without the array suffix
+            let childInternalType: undefined | string = undefined;
+            if (internalType) {
+                const match = internalType.match(regexArrayType);
+                if (match) { childInternalType = match[1]; }
+            }
+
             const arrayChildren = ParamType.from({
                 type: arrayMatch[1],
+                internalType: childInternalType,
                 components: obj.components
             });
 
-            return new ParamType(_guard, name || "", type, "array", indexed, null, arrayLength, arrayChildren);
+            return new ParamType(_guard, name || "", type, "array", indexed, null, arrayLength, arrayChildren, internalType);
         }
 
         if (type === "tuple" || type.startsWith("tuple("/* fix: ) */) || type.startsWith("(" /* fix: ) */)) {
             const comps = (obj.components != null) ? obj.components.map((c: any) => ParamType.from(c)): null;
-            const tuple = new ParamType(_guard, name || "", type, "tuple", indexed, comps, null, null);
+            const tuple = new ParamType(_guard, name || "", type, "tuple", indexed, comps, null, null, internalType);
             // @TODO: use lexer to validate and normalize type
             return tuple;
         }
 
         type = verifyBasicType(obj.type);
 
-        return new ParamType(_guard, name || "", type, type, indexed, null, null, null);
+        return new ParamType(_guard, name || "", type, type, indexed, null, null, null, internalType);
     }
 
     /**
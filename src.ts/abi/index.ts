@@ -12,9 +12,12 @@
 
 //////
 export { AbiCoder } from "./abi-coder.js";
+export { LazyResult } from "./coders/lazy.js";
 
 export { decodeBytes32String, encodeBytes32String } from "./bytes32.js";
 
+export { ErrorRegistry } from "./error-registry.js";
+
 export {
     ConstructorFragment, ErrorFragment, EventFragment, FallbackFragment,
     Fragment, FunctionFragment, NamedFragment, ParamType, StructFragment,
@@ -35,7 +38,17 @@ export type {
     FormatType, FragmentType, ParamTypeWalkAsyncFunc, ParamTypeWalkFunc
 } from "./fragments.js";
 
+export type { AbiDecodeMode } from "./abi-coder.js";
+
 export type {
     InterfaceAbi,
 } from "./interface.js";
 
+export type {
+    AbiEventArgs, AbiEventName, AbiEventOutputs, AbiEventSignature,
+    AbiFunctionArgs, AbiFunctionIsConstant, AbiFunctionName,
+    AbiFunctionOutputs, AbiFunctionResult, AbiFunctionSignature,
+    AbiFragments, AbiInputs, AbiOutputs, AbiParameter, AbiParameterValue,
+    AbiResult, IsTypedAbi, ParseParams, ParseSignature
+} from "./abi-types.js";
+
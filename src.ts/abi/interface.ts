@@ -24,10 +24,15 @@ import {
     ConstructorFragment, ErrorFragment, EventFragment, FallbackFragment,
     Fragment, FunctionFragment, ParamType
 } from "./fragments.js";
+import { parseSolidityAbi } from "./solidity-source.js";
 import { Typed } from "./typed.js";
 
 import type { BigNumberish, BytesLike, CallExceptionError, CallExceptionTransaction } from "../utils/index.js";
 
+import type {
+    AbiEventName, AbiEventOutputs, AbiFunctionArgs, AbiFunctionName,
+    AbiFunctionOutputs
+} from "./abi-types.js";
 import type { JsonFragment } from "./fragments.js";
 
 
@@ -291,8 +296,12 @@ export type InterfaceAbi = string | ReadonlyArray<Fragment | JsonFragment | stri
  *  interpret revert errors.
  *
  *  The ABI can be specified by [any supported format](InterfaceAbi).
+ *
+ *  If the ABI is known at compile time (e.g. declared ``as const``),
+ *  the values encoded and decoded for each function and event are
+ *  typed by name (see [[about-abi-types]]).
  */
-export class Interface {
+export class Interface<A extends InterfaceAbi = InterfaceAbi> {
 
     /**
      *  All the Contract ABI members (i.e. methods, events, errors, etc).
@@ -324,7 +333,7 @@ export class Interface {
     /**
      *  Create a new Interface for the %%fragments%%.
      */
-    constructor(fragments: InterfaceAbi) {
+    constructor(fragments: A) {
         let abi: ReadonlyArray<Fragment | JsonFragment | string> = [ ];
         if (typeof(fragments) === "string") {
             abi = JSON.parse(fragments);
@@ -872,7 +881,7 @@ export class Interface {
      *  specified (see [[getFunction]] for valid values for %%fragment%%) with
      *  the %%values%%.
      */
-    encodeFunctionData(fragment: FunctionFragment | string, values?: ReadonlyArray<any>): string {
+    encodeFunctionData<N extends string = AbiFunctionName<A>>(fragment: FunctionFragment | N, values?: Readonly<AbiFunctionArgs<A, N>>): string {
         if (typeof(fragment) === "string") {
             const f = this.getFunction(fragment);
             assertArgument(f, "unknown function", "fragment", fragment);
@@ -881,7 +890,7 @@ export class Interface {
 
         return concat([
             fragment.selector,
-            this._encodeParams(fragment.inputs, values || [ ])
+            this._encodeParams(fragment.inputs, <ReadonlyArray<any>>(values || [ ]))
         ]);
     }
 
@@ -894,7 +903,7 @@ export class Interface {
      *  which will automatically detect a ``CALL_EXCEPTION`` and throw the
      *  corresponding error.
      */
-    decodeFunctionResult(fragment: FunctionFragment | string, data: BytesLike): Result {
+    decodeFunctionResult<N extends string = AbiFunctionName<A>>(fragment: FunctionFragment | N, data: BytesLike): AbiFunctionOutputs<A, N> {
         if (typeof(fragment) === "string") {
             const f = this.getFunction(fragment);
             assertArgument(f, "unknown function", "fragment", fragment);
@@ -906,7 +915,7 @@ export class Interface {
         const bytes = getBytesCopy(data);
         if ((bytes.length % 32) === 0) {
             try {
-                return this.#abiCoder.decode(fragment.outputs, bytes);
+                return <any>(this.#abiCoder.decode(fragment.outputs, bytes));
             } catch (error) {
                 message = "could not decode result data";
             }
@@ -1113,7 +1122,7 @@ export class Interface {
     }
 
     // Decode a filter for the event and the search criteria
-    decodeEventLog(fragment: EventFragment | string, data: BytesLike, topics?: ReadonlyArray<string>): Result {
+    decodeEventLog<N extends string = AbiEventName<A>>(fragment: EventFragment | N, data: BytesLike, topics?: ReadonlyArray<string>): AbiEventOutputs<A, N> {
         if (typeof(fragment) === "string") {
             const f = this.getEvent(fragment);
             assertArgument(f, "unknown event", "eventFragment", fragment);
@@ -1181,7 +1190,7 @@ export class Interface {
             keys.push(param.name || null);
         });
 
-        return Result.fromItems(values, keys);
+        return <any>(Result.fromItems(values, keys));
     }
 
     /**
@@ -1222,7 +1231,7 @@ export class Interface {
         //        not mean we have the full ABI; maybe just a fragment?
 
 
-       return new LogDescription(fragment, fragment.topicHash, this.decodeEventLog(fragment, log.data, log.topics));
+       return new LogDescription(fragment, fragment.topicHash, <Result>(this.decodeEventLog(fragment, log.data, log.topics)));
     }
 
     /**
@@ -1248,7 +1257,7 @@ export class Interface {
      *  The %%value%% may be provided as an existing [[Interface]] object,
      *  a JSON-encoded ABI or any Human-Readable ABI format.
      */
-    static from(value: InterfaceAbi | Interface): Interface {
+    static from<A extends InterfaceAbi = InterfaceAbi>(value: A | Interface<A>): Interface<A> {
         // Already an Interface, which is immutable
         if (value instanceof Interface) { return value; }
 
@@ -1268,4 +1277,42 @@ export class Interface {
         // Array of fragments
         return new Interface(value);
     }
+
+    /**
+     *  Creates a new [[Interface]] from the Solidity %%source%% of a
+     *  contract or interface.
+     *
+     *  The source may declare functions, events, errors, structs, enums
+     *  and user-defined value types, within a ``contract``, ``interface``
+     *  or at file-level. Comments (including NatSpec) are ignored, as are
+     *  any function bodies.
+     *
+     *  Structs are resolved to tuples, enums to ``uint8``, user-defined
+     *  value types to their underlying type and contracts to ``address``,
+     *  while the original type name is kept as the [[ParamType]]
+     *  ``internalType``.
+     *
+     *  Each public state variable of a contract is included as its
+     *  ``view`` getter function, which takes each mapping key and array
+     *  index and returns the value (or for a struct, its members other
+     *  than any arrays and mappings).
+     *
+     *  If the %%source%% declares more than one contract or interface,
+     *  the %%name%% must be specified. The members of any base contracts
+     *  declared in the %%source%% are included.
+     *
+     *  @example:
+     *    source = `
+     *      interface IPool {
+     *        struct Pair { address token; uint112 reserve; }
+     *        /// @notice Returns the pair for an id
+     *        function getPair(uint id) external view returns (Pair memory);
+     *      }
+     *    `
+     *    iface = Interface.fromSolidity(source)
+     *    iface.getFunction("getPair").format("full")
+     */
+    static fromSolidity(source: string, name?: string): Interface {
+        return new Interface(parseSolidityAbi(source, name));
+    }
 }
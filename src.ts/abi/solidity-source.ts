@@ -0,0 +1,742 @@
+/**
+ *  Parses the ABI of a contract from its Solidity source, which is used
+ *  by [[Interface-fromSolidity]].
+ *
+ *  Only the declarations are parsed, so any function bodies are skipped
+ *  and need not be valid.
+ *
+ *  @_ignore:
+ */
+
+import { assertArgument } from "../utils/index.js";
+
+import type { JsonFragment, JsonFragmentType } from "./fragments.js";
+
+
+type TokenType = "ID" | "NUMBER" | "STRING" | "SYMBOL";
+
+interface Token {
+    type: TokenType;
+    text: string;
+    offset: number;
+}
+
+// A param, member or underlying type, before any names are resolved
+interface RawParam {
+    type: Array<string>;     // e.g. [ "IPool", ".", "Pair", "[", "]" ]
+    name: string;
+    indexed: boolean;
+
+    // Only state variables and struct members may be a mapping
+    mapping?: { key: RawParam, value: RawParam };
+}
+
+// A user-defined type, in the scope of a contract (or null for the file)
+type Definition = {
+    kind: "struct", scope: null | string, name: string, members: Array<RawParam>
+} | {
+    kind: "enum", scope: null | string, name: string
+} | {
+    kind: "udvt", scope: null | string, name: string, underlying: RawParam
+} | {
+    kind: "contract", scope: null, name: string
+};
+
+interface Contract {
+    kind: string;
+    name: string;
+    bases: Array<string>;
+    members: Array<Member>;
+}
+
+type Member = {
+    type: "function", name: string, inputs: Array<RawParam>, outputs: Array<RawParam>,
+    visibility: null | string, stateMutability: string
+} | {
+    type: "constructor" | "fallback" | "receive", inputs: Array<RawParam>, outputs: Array<RawParam>,
+    stateMutability: string
+} | {
+    type: "event", name: string, inputs: Array<RawParam>, anonymous: boolean
+} | {
+    type: "error", name: string, inputs: Array<RawParam>
+} | {
+    type: "getter", name: string, variable: RawParam
+};
+
+const Mutabilities = new Set([ "pure", "view", "payable", "nonpayable" ]);
+const Visibilities = new Set([ "external", "public", "internal", "private" ]);
+const Locations = new Set([ "memory", "calldata", "storage" ]);
+
+const regexElementary = new RegExp(/^(address|bool|string|byte|bytes([0-9]+)?|u?int([0-9]+)?)$/);
+
+function isElementary(type: string): boolean {
+    const match = type.match(regexElementary);
+    if (!match) { return false; }
+
+    if (match[2]) {
+        const size = parseInt(match[2]);
+        return (String(size) === match[2] && size >= 1 && size <= 32);
+    }
+
+    if (match[3]) {
+        const bits = parseInt(match[3]);
+        return (String(bits) === match[3] && bits >= 8 && bits <= 256 && (bits % 8) === 0);
+    }
+
+    return true;
+}
+
+function tokenize(source: string): Array<Token> {
+    const tokens: Array<Token> = [ ];
+
+    let offset = 0;
+    while (offset < source.length) {
+        const c = source[offset];
+
+        // Whitespace
+        if (c.match(/\s/)) {
+            offset++;
+            continue;
+        }
+
+        // Comments (including NatSpec)
+        if (source.startsWith("//", offset)) {
+            const end = source.indexOf("\n", offset);
+            offset = (end === -1) ? source.length: end + 1;
+            continue;
+        }
+
+        if (source.startsWith("/*", offset)) {
+            const end = source.indexOf("*/", offset + 2);
+            assertArgument(end >= 0, "unterminated comment", "source", source);
+            offset = end + 2;
+            continue;
+        }
+
+        if (source.startsWith("=>", offset)) {
+            tokens.push({ type: "SYMBOL", text: "=>", offset });
+            offset += 2;
+            continue;
+        }
+
+        // Strings (e.g. within a function body)
+        if (c === "\"" || c === "'") {
+            let end = offset + 1;
+            while (end < source.length && source[end] !== c) {
+                if (source[end] === "\\") { end++; }
+                end++;
+            }
+            assertArgument(end < source.length, "unterminated string", "source", source);
+            tokens.push({ type: "STRING", text: source.substring(offset, end + 1), offset });
+            offset = end + 1;
+            continue;
+        }
+
+        let match = source.substring(offset).match(/^[a-z_$][a-z0-9_$]*/i);
+        if (match) {
+            tokens.push({ type: "ID", text: match[0], offset });
+            offset += match[0].length;
+            continue;
+        }
+
+        match = source.substring(offset).match(/^[0-9][0-9a-z_.]*/i);
+        if (match) {
+            tokens.push({ type: "NUMBER", text: match[0], offset });
+            offset += match[0].length;
+            continue;
+        }
+
+        tokens.push({ type: "SYMBOL", text: c, offset });
+        offset++;
+    }
+
+    return tokens;
+}
+
+class Parser {
+    readonly #source: string;
+    readonly #tokens: Array<Token>;
+    #offset: number;
+
+    constructor(source: string) {
+        this.#source = source;
+        this.#tokens = tokenize(source);
+        this.#offset = 0;
+    }
+
+    get done(): boolean { return this.#offset >= this.#tokens.length; }
+
+    #throwError(message: string): never {
+        const token = this.#tokens[this.#offset];
+        const offset = token ? token.offset: this.#source.length;
+        assertArgument(false, `${ message } (at offset ${ offset })`, "source", this.#source);
+    }
+
+    peek(text?: string): null | string {
+        const token = this.#tokens[this.#offset];
+        if (token == null) { return null; }
+        if (text != null && token.text !== text) { return null; }
+        return token.text;
+    }
+
+    pop(text?: string): string {
+        const token = this.#tokens[this.#offset];
+        if (token == null) { this.#throwError("unexpected end of source"); }
+        if (text != null && token.text !== text) {
+            this.#throwError(`expected ${ JSON.stringify(text) }`);
+        }
+        this.#offset++;
+        return token.text;
+    }
+
+    popId(): string {
+        const token = this.#tokens[this.#offset];
+        if (token == null || token.type !== "ID") { this.#throwError("expected identifier"); }
+        this.#offset++;
+        return token.text;
+    }
+
+    // Skips to past the next %%text%% (not within brackets)
+    skipPast(text: string): void {
+        let depth = 0;
+        while (!this.done) {
+            const t = this.pop();
+            if (depth === 0 && t === text) { return; }
+            if (t === "(" || t === "[" || t === "{") { depth++; }
+            if (t === ")" || t === "]" || t === "}") { depth--; }
+        }
+        this.#throwError(`expected ${ JSON.stringify(text) }`);
+    }
+
+    // Skips a { ... } block, or a statement ending in ";"
+    skipStatement(): void {
+        let depth = 0;
+        while (!this.done) {
+            const t = this.pop();
+            if (t === "(" || t === "[" || t === "{") {
+                depth++;
+            } else if (t === ")" || t === "]" || t === "}") {
+                depth--;
+                if (depth === 0 && t === "}") { return; }
+            } else if (depth === 0 && t === ";") {
+                return;
+            }
+        }
+    }
+
+    // Parses a parenthesized list of params
+    parseParams(): Array<RawParam> {
+        this.pop("(");
+        const result: Array<RawParam> = [ ];
+        if (this.peek(")")) {
+            this.pop();
+            return result;
+        }
+
+        while (true) {
+            result.push(this.parseParam([ ",", ")" ]));
+            if (this.pop() === ")") { break; }
+        }
+        return result;
+    }
+
+    // Parses a type, with its modifiers and name, ending at any %%ends%%
+    parseParam(ends: Array<string>, allowMapping?: boolean): RawParam {
+        const param = this.parseType(allowMapping);
+
+        let name = "";
+        while (true) {
+            const next = this.peek();
+            if (next == null || ends.indexOf(next) >= 0) { break; }
+
+            if (next === "indexed") {
+                param.indexed = true;
+                this.pop();
+            } else if (Locations.has(next)) {
+                this.pop();
+            } else if (name === "") {
+                name = this.popId();
+            } else {
+                this.#throwError("unexpected token");
+            }
+        }
+        param.name = name;
+
+        return param;
+    }
+
+    // Parses a type, e.g. "IPool.Pair[]" or "mapping(address => uint)"
+    parseType(allowMapping?: boolean): RawParam {
+        const type: Array<string> = [ ];
+
+        const first = this.popId();
+        assertArgument(first !== "function" && (first !== "mapping" || allowMapping),
+            `unsupported type ${ JSON.stringify(first) }`, "source", this.#source);
+        type.push(first);
+
+        if (first === "mapping") {
+            this.pop("(");
+            const key = this.parseParam([ "=>" ]);
+            this.pop("=>");
+            const value = this.parseParam([ ")" ], true);
+            this.pop(")");
+            return { type, name: "", indexed: false, mapping: { key, value } };
+        }
+
+        if (first === "address" && this.peek("payable")) { type.push(this.pop()); }
+
+        while (this.peek(".")) {
+            type.push(this.pop(), this.popId());
+        }
+
+        while (this.peek("[")) {
+            type.push(this.pop());
+            if (!this.peek("]")) {
+                const length = this.pop();
+                if (!length.match(/^[0-9]+$/)) { this.#throwError("unsupported array length"); }
+                type.push(length);
+            }
+            type.push(this.pop("]"));
+        }
+
+        return { type, name: "", indexed: false };
+    }
+
+    // Parses a state variable, adding a getter if it is public
+    parseVariable(members: Array<Member>): void {
+        const variable = this.parseType(true);
+
+        let visibility = "internal", name = "";
+        while (!this.peek(";") && !this.peek("=")) {
+            const t = this.popId();
+            if (Visibilities.has(t)) {
+                visibility = t;
+            } else if (t === "override" && this.peek("(")) {
+                this.pop();
+                this.skipPast(")");
+            } else if (t !== "constant" && t !== "immutable" && t !== "override" && t !== "transient") {
+                if (name !== "") { this.#throwError("unexpected token"); }
+                name = t;
+            }
+        }
+        if (name === "") { this.#throwError("expected identifier"); }
+
+        // Skip any initializer
+        this.skipStatement();
+
+        if (visibility === "public") {
+            variable.name = name;
+            members.push({ type: "getter", name, variable });
+        }
+    }
+
+    // Parses the attributes following the params of a function
+    parseAttributes(): { visibility: null | string, stateMutability: string, outputs: Array<RawParam> } {
+        let visibility: null | string = null;
+        let stateMutability = "nonpayable";
+        let outputs: Array<RawParam> = [ ];
+
+        while (!this.done && !this.peek(";") && !this.peek("{")) {
+            const t = this.popId();
+            if (t === "returns") {
+                outputs = this.parseParams();
+            } else if (Visibilities.has(t)) {
+                visibility = t;
+            } else if (Mutabilities.has(t)) {
+                stateMutability = t;
+            } else if (this.peek("(")) {
+                // e.g. override(A, B) or a modifier invocation
+                this.pop();
+                this.skipPast(")");
+            }
+        }
+
+        return { visibility, stateMutability, outputs };
+    }
+
+    // Parses a struct, enum, user-defined value type, error or event
+    parseDefinition(scope: null | string, defs: Array<Definition>, members: Array<Member>): boolean {
+        const keyword = this.peek();
+
+        if (keyword === "struct") {
+            this.pop();
+            const name = this.popId();
+            this.pop("{");
+            const fields: Array<RawParam> = [ ];
+            while (!this.peek("}")) {
+                fields.push(this.parseParam([ ";" ], true));
+                this.pop(";");
+            }
+            this.pop("}");
+            defs.push({ kind: "struct", scope, name, members: fields });
+            return true;
+        }
+
+        if (keyword === "enum") {
+            this.pop();
+            const name = this.popId();
+            this.pop("{");
+            this.skipPast("}");
+            defs.push({ kind: "enum", scope, name });
+            return true;
+        }
+
+        if (keyword === "type") {
+            this.pop();
+            const name = this.popId();
+            this.pop("is");
+            const underlying = this.parseParam([ ";" ]);
+            this.pop(";");
+            defs.push({ kind: "udvt", scope, name, underlying });
+            return true;
+        }
+
+        if (keyword === "error") {
+            this.pop();
+            const name = this.popId();
+            const inputs = this.parseParams();
+            this.pop(";");
+            members.push({ type: "error", name, inputs });
+            return true;
+        }
+
+        if (keyword === "event") {
+            this.pop();
+            const name = this.popId();
+            const inputs = this.parseParams();
+            const anonymous = !!this.peek("anonymous");
+            if (anonymous) { this.pop(); }
+            this.pop(";");
+            members.push({ type: "event", name, inputs, anonymous });
+            return true;
+        }
+
+        return false;
+    }
+
+    parseContract(kind: string, defs: Array<Definition>): Contract {
+        const name = this.popId();
+        defs.push({ kind: "contract", scope: null, name });
+
+        const bases: Array<string> = [ ];
+        if (this.peek("is")) {
+            this.pop();
+            while (true) {
+                let base = this.popId();
+                while (this.peek(".")) { base += this.pop() + this.popId(); }
+                bases.push(base);
+
+                // Base constructor arguments
+                if (this.peek("(")) {
+                    this.pop();
+                    this.skipPast(")");
+                }
+
+                if (!this.peek(",")) { break; }
+                this.pop();
+            }
+        }
+
+        const members: Array<Member> = [ ];
+
+        this.pop("{");
+        while (!this.peek("}")) {
+            if (this.done) { this.#throwError("unexpected end of source"); }
+
+            if (this.parseDefinition(name, defs, members)) { continue; }
+
+            const keyword = this.peek();
+            if (keyword === "function") {
+                this.pop();
+
+                // A state variable of a function type, which cannot be
+                // part of an ABI
+                if (this.peek("(")) {
+                    this.skipStatement();
+                    continue;
+                }
+
+                const name = this.popId();
+                const inputs = this.parseParams();
+                const { visibility, stateMutability, outputs } = this.parseAttributes();
+                this.skipStatement();
+                members.push({ type: "function", name, inputs, outputs, visibility, stateMutability });
+
+            } else if (keyword === "constructor" || keyword === "fallback" || keyword === "receive") {
+                this.pop();
+                const inputs = this.parseParams();
+                const { stateMutability, outputs } = this.parseAttributes();
+                this.skipStatement();
+                members.push({ type: keyword, inputs, outputs, stateMutability });
+
+            } else if (keyword === "modifier" || keyword === "using") {
+                this.skipStatement();
+
+            } else {
+                this.parseVariable(members);
+            }
+        }
+        this.pop("}");
+
+        return { kind, name, bases, members };
+    }
+
+    parseSource(): { contracts: Array<Contract>, defs: Array<Definition>, members: Array<Member> } {
+        const contracts: Array<Contract> = [ ];
+        const defs: Array<Definition> = [ ];
+        const members: Array<Member> = [ ];
+
+        while (!this.done) {
+            if (this.parseDefinition(null, defs, members)) { continue; }
+
+            const keyword = this.peek();
+            if (keyword === "abstract") {
+                this.pop();
+                this.pop("contract");
+                contracts.push(this.parseContract("abstract contract", defs));
+
+            } else if (keyword === "contract" || keyword === "interface" || keyword === "library") {
+                this.pop();
+                contracts.push(this.parseContract(keyword, defs));
+
+            } else {
+                // Pragmas, imports, free functions, constants, etc.
+                this.skipStatement();
+            }
+        }
+
+        return { contracts, defs, members };
+    }
+}
+
+// Resolves the names of user-defined types
+class Resolver {
+    readonly #defs: Array<Definition>;
+    readonly #scopes: Array<string>;
+
+    constructor(defs: Array<Definition>, scopes: Array<string>) {
+        this.#defs = defs;
+        this.#scopes = scopes;
+    }
+
+    #find(path: Array<string>, scopes: Array<null | string>): null | Definition {
+        if (path.length === 1) {
+            for (const scope of scopes) {
+                const def = this.#defs.find((d) => (d.scope === scope && d.name === path[0]));
+                if (def) { return def; }
+            }
+            return null;
+        }
+
+        if (path.length === 2) {
+            return this.#defs.find((d) => (d.scope === path[0] && d.name === path[1])) || null;
+        }
+
+        return null;
+    }
+
+    resolve(param: RawParam, scopes: Array<null | string>, stack: Array<Definition>): JsonFragmentType {
+        assertArgument(!param.mapping, "unsupported type \"mapping\"", "source", param.name);
+
+        // Split the base type from the array suffix
+        let index = param.type.indexOf("[");
+        if (index === -1) { index = param.type.length; }
+        const base = param.type.slice(0, index);
+        const suffix = param.type.slice(index).join("");
+
+        const result: { name: string, type: string, internalType: string, components?: Array<JsonFragmentType>, indexed?: boolean } = {
+            name: param.name, type: "", internalType: ""
+        };
+        if (param.indexed) { result.indexed = true; }
+
+        const path = base.filter((t) => t !== ".");
+
+        const def = (path[0] === "address" && path.length > 1) ? null: this.#find(path, scopes);
+        if (def == null) {
+            assertArgument(isElementary(path[0]) && (path.length === 1 || (path.length === 2 && path[1] === "payable")),
+                `unknown type ${ JSON.stringify(path.join(".")) }`, "source", path.join("."));
+
+            let type = path[0];
+            if (type === "uint" || type === "int") {
+                type += "256";
+            } else if (type === "byte") {
+                type = "bytes1";
+            }
+
+            result.type = type + suffix;
+            result.internalType = ((path.length === 2) ? "address payable": type) + suffix;
+            return result;
+        }
+
+        const qualified = (def.scope ? `${ def.scope }.${ def.name }`: def.name);
+        const defScopes = [ def.scope, ...this.#scopes, null ];
+
+        switch (def.kind) {
+            case "struct":
+                assertArgument(stack.indexOf(def) === -1, "recursive struct", "source", qualified);
+                result.type = "tuple" + suffix;
+                result.internalType = `struct ${ qualified }${ suffix }`;
+                result.components = def.members.map((m) => this.resolve(m, defScopes, stack.concat([ def ])));
+                break;
+
+            case "enum":
+                result.type = "uint8" + suffix;
+                result.internalType = `enum ${ qualified }${ suffix }`;
+                break;
+
+            case "udvt": {
+                const underlying = this.resolve(def.underlying, defScopes, stack);
+                result.type = underlying.type + suffix;
+                result.internalType = qualified + suffix;
+                break;
+            }
+
+            case "contract":
+                result.type = "address" + suffix;
+                result.internalType = `contract ${ qualified }${ suffix }`;
+                break;
+        }
+
+        return result;
+    }
+
+    // The inputs and outputs of the getter for a public state %%variable%%;
+    // each mapping key and array index is an input, and a struct is
+    // returned as its members, except any arrays and mappings
+    resolveGetter(variable: RawParam, scopes: Array<null | string>): { inputs: Array<JsonFragmentType>, outputs: Array<JsonFragmentType> } {
+        const inputs: Array<JsonFragmentType> = [ ];
+
+        let value = variable, name = "";
+        while (true) {
+            if (value.mapping) {
+                inputs.push(this.resolve(value.mapping.key, scopes, [ ]));
+                value = value.mapping.value;
+                name = value.name;
+                continue;
+            }
+
+            const index = value.type.lastIndexOf("[");
+            if (index === -1) { break; }
+
+            inputs.push({ name: "", type: "uint256", internalType: "uint256" });
+            value = { type: value.type.slice(0, index), name: "", indexed: false };
+            name = "";
+        }
+
+        const def = this.#find(value.type.filter((t) => (t !== ".")), scopes);
+        if (def && def.kind === "struct") {
+            const defScopes = [ def.scope, ...this.#scopes, null ];
+            const outputs = def.members.filter((m) => (!m.mapping && m.type.indexOf("[") === -1)).map((m) => {
+                return this.resolve(m, defScopes, [ def ]);
+            });
+            return { inputs, outputs };
+        }
+
+        const output = this.resolve(value, scopes, [ ]);
+        return { inputs, outputs: [ Object.assign(output, { name }) ] };
+    }
+}
+
+/**
+ *  Returns the JSON ABI of the contract %%name%% declared in the
+ *  Solidity %%source%%, or of the only contract if %%name%% is not
+ *  specified.
+ *
+ *  @_ignore:
+ */
+export function parseSolidityAbi(source: string, name?: string): Array<JsonFragment> {
+    const { contracts, defs, members: fileMembers } = (new Parser(source)).parseSource();
+
+    let contract: undefined | Contract;
+    if (name != null) {
+        contract = contracts.find((c) => (c.name === name));
+        assertArgument(contract, "contract not found", "name", name);
+    } else {
+        const candidates = contracts.filter((c) => (c.kind !== "library"));
+        assertArgument(candidates.length === 1, "source must declare exactly one contract or interface, or specify a name", "source", source);
+        contract = candidates[0];
+    }
+
+    // Include the members of any bases declared in the source (in
+    // linearized order, most derived first)
+    const chain: Array<Contract> = [ ];
+    const addBases = (c: Contract) => {
+        if (chain.indexOf(c) >= 0) { return; }
+        chain.push(c);
+        for (const base of c.bases.slice().reverse()) {
+            const found = contracts.find((c) => (c.name === base));
+            if (found) { addBases(found); }
+        }
+    };
+    addBases(contract);
+    const contractName = contract.name;
+
+    const scopes = chain.map((c) => c.name);
+    const resolver = new Resolver(defs, scopes);
+
+    const result: Array<JsonFragment> = [ ];
+    const seen: Set<string> = new Set();
+
+    const add = (member: Member, scope: null | string, isInterface: boolean) => {
+        const memberScopes = [ scope, ...scopes, null ];
+        const resolve = (params: Array<RawParam>) => params.map((p) => resolver.resolve(p, memberScopes, [ ]));
+
+        let fragment: any;
+        switch (member.type) {
+            case "function":
+                // Only external and public functions are part of the ABI
+                if (!isInterface && (member.visibility === "internal" || member.visibility === "private")) {
+                    return;
+                }
+                fragment = {
+                    type: "function", name: member.name,
+                    inputs: resolve(member.inputs), outputs: resolve(member.outputs),
+                    stateMutability: member.stateMutability
+                };
+                break;
+
+            case "constructor":
+                if (scope !== contractName) { return; }
+                fragment = { type: "constructor", inputs: resolve(member.inputs), stateMutability: member.stateMutability };
+                break;
+
+            case "fallback":
+                fragment = { type: "fallback", stateMutability: member.stateMutability };
+                break;
+
+            case "receive":
+                fragment = { type: "receive", stateMutability: "payable" };
+                break;
+
+            case "event":
+                fragment = { type: "event", name: member.name, inputs: resolve(member.inputs), anonymous: member.anonymous };
+                break;
+
+            case "error":
+                fragment = { type: "error", name: member.name, inputs: resolve(member.inputs) };
+                break;
+
+            case "getter": {
+                const { inputs, outputs } = resolver.resolveGetter(member.variable, memberScopes);
+                fragment = { type: "function", name: member.name, inputs, outputs, stateMutability: "view" };
+                break;
+            }
+        }
+
+        // An overridden function (or repeated error or event) is only included once
+        const key = JSON.stringify([ fragment.type, fragment.name, (fragment.inputs || [ ]).map((i: any) => i.type) ]);
+        if (seen.has(key)) { return; }
+        seen.add(key);
+
+        result.push(fragment);
+    };
+
+    for (const c of chain) {
+        for (const member of c.members) { add(member, c.name, c.kind === "interface"); }
+    }
+
+    // Errors and events declared at file-level may be used
+    for (const member of fileMembers) { add(member, null, false); }
+
+    return result;
+}
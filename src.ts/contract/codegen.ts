@@ -0,0 +1,326 @@
+/**
+ *  The type bindings for a Contract can be generated from its ABI, as
+ *  TypeScript source which declares the [[BaseContract]], its events,
+ *  structs and errors and a [[ContractFactory]] using the same
+ *  [[ContractMethod]] and [[ContractEvent]] types as a **Contract**.
+ *
+ *  For ABIs available at compile time, the inferred types (see
+ *  [[about-abi-types]]) may be used instead.
+ *
+ *  @_subsection: api/contract:Type Bindings  [about-contract-codegen]
+ */
+import { Interface } from "../abi/index.js";
+import { version } from "../_version.js";
+import { assertArgument } from "../utils/index.js";
+
+import { BaseContract } from "./contract.js";
+
+import type {
+    EventFragment, Fragment, FunctionFragment, InterfaceAbi, NamedFragment,
+    ParamType, StructFragment
+} from "../abi/index.js";
+
+
+/**
+ *  The options for [[generateContractTypes]].
+ *
+ *  **``importPath``** - the module ethers types are imported from
+ *  (default: ``"ethers"``)
+ *
+ *  **``factory``** - whether to include the [[ContractFactory]] type
+ *  (default: ``true``)
+ */
+export type ContractTypesOptions = {
+    importPath?: string;
+    factory?: boolean;
+};
+
+// The properties of a BaseContract, which shadow any method of the same name
+const contractProperties = new Set([
+    "target", "interface", "runner", "filters", "fallback",
+    ...Object.getOwnPropertyNames(BaseContract.prototype)
+]);
+
+// Reserved words cannot be used as a tuple label or type name, although
+// they may still be used as a property key
+const reservedWords = new Set([
+    "break", "case", "catch", "class", "const", "continue", "debugger",
+    "default", "delete", "do", "else", "enum", "export", "extends", "false",
+    "finally", "for", "function", "if", "implements", "import", "in",
+    "instanceof", "interface", "let", "new", "null", "package", "private",
+    "protected", "public", "return", "static", "super", "switch", "this",
+    "throw", "true", "try", "typeof", "var", "void", "while", "with", "yield"
+]);
+
+function isIdentifier(value: string): boolean {
+    return /^[a-z_$][a-z0-9_$]*$/i.test(value);
+}
+
+function isLabel(value: string): boolean {
+    return isIdentifier(value) && !reservedWords.has(value);
+}
+
+function quoteKey(key: string): string {
+    return isIdentifier(key) ? key: JSON.stringify(key);
+}
+
+function isDynamic(param: ParamType): boolean {
+    return (param.isArray() || param.isTuple() || param.type === "string" || param.type === "bytes");
+}
+
+// Structs are matched to tuples by the type and name of each component,
+// since an unrelated tuple may share the same types
+function getStructKey(params: ReadonlyArray<ParamType>): string {
+    return params.map((p) => p.format("full")).join(", ");
+}
+
+// Tracks the ethers types used, so only those are imported
+class Writer {
+    readonly imports: Set<string>;
+    readonly structs: Map<string, string>;
+
+    constructor(structs: Map<string, string>) {
+        this.imports = new Set();
+        this.structs = structs;
+    }
+
+    use(name: string): string {
+        this.imports.add(name);
+        return name;
+    }
+
+    // The type of a value for the parameter %%param%%
+    getType(param: ParamType, output: boolean, event?: boolean): string {
+        // Dynamic values are only logged as their hash when indexed
+        if (event && output && param.indexed && isDynamic(param)) {
+            return this.use("Indexed");
+        }
+
+        if (param.isArray()) {
+            return `Array<${ this.getType(param.arrayChildren, output) }>`;
+        }
+
+        if (param.isTuple()) {
+            const struct = this.structs.get(getStructKey(param.components));
+            if (struct) { return struct + (output ? "StructOutput": "Struct"); }
+            return this.getTupleType(param.components, output);
+        }
+
+        const type = param.baseType;
+        if (type === "address") { return output ? "string": this.use("AddressLike"); }
+        if (type === "bool") { return "boolean"; }
+        if (type === "string") { return "string"; }
+        if (type.startsWith("bytes") || type === "function") {
+            return output ? "string": this.use("BytesLike");
+        }
+        if (type.startsWith("int") || type.startsWith("uint")) {
+            return output ? "bigint": this.use("BigNumberish");
+        }
+
+        assertArgument(false, "unsupported parameter type", "param", param);
+    }
+
+    // The tuple of values for %%params%%, labelled if every parameter name
+    // may be used as a label
+    getTuple(params: ReadonlyArray<ParamType>, output: boolean, event?: boolean): string {
+        const labelled = params.every((p) => isLabel(p.name));
+        const items = params.map((p) => {
+            const type = this.getType(p, output, event);
+            return labelled ? `${ p.name }: ${ type }`: type;
+        });
+        return (items.length ? `[ ${ items.join(", ") } ]`: "[ ]");
+    }
+
+    // The object of values for %%params%%, by name
+    getObject(params: ReadonlyArray<ParamType>, output: boolean, event?: boolean): string {
+        const items = params.filter((p) => p.name).map((p) => {
+            return `${ quoteKey(p.name) }: ${ this.getType(p, output, event) }`;
+        });
+        return (items.length ? `{ ${ items.join("; ") } }`: "{ }");
+    }
+
+    // A tuple (or struct) is either positional or named for inputs, and
+    // a Result which is both for outputs
+    getTupleType(params: ReadonlyArray<ParamType>, output: boolean, event?: boolean): string {
+        if (output) { return this.getResult(params, event); }
+        if (params.length && params.every((p) => p.name)) {
+            return this.getObject(params, output);
+        }
+        return this.getTuple(params, output);
+    }
+
+    getResult(params: ReadonlyArray<ParamType>, event?: boolean): string {
+        const tuple = this.getTuple(params, true, event);
+        const object = this.getObject(params, true, event);
+        return `${ this.use("AbiResult") }<${ tuple } & ${ object }>`;
+    }
+}
+
+// Fragments sharing a name are keyed by their signature
+function getKeys<T extends NamedFragment>(fragments: Array<T>): Map<T, { key: string, index: number }> {
+    const counts: Map<string, number> = new Map();
+    for (const fragment of fragments) {
+        counts.set(fragment.name, (counts.get(fragment.name) || 0) + 1);
+    }
+
+    const seen: Map<string, number> = new Map();
+    const result: Map<T, { key: string, index: number }> = new Map();
+    for (const fragment of fragments) {
+        if (counts.get(fragment.name) === 1) {
+            result.set(fragment, { key: fragment.name, index: 0 });
+            continue;
+        }
+        const index = (seen.get(fragment.name) || 0) + 1;
+        seen.set(fragment.name, index);
+        result.set(fragment, { key: fragment.format("sighash"), index });
+    }
+
+    return result;
+}
+
+function getTypeName(name: string, index: number): string {
+    name = name[0].toUpperCase() + name.substring(1);
+    return (index ? `${ name }_${ index }`: name);
+}
+
+/**
+ *  Returns the TypeScript source declaring the types for the Contract
+ *  %%name%% with %%abi%%, which may be an [[Interface]] or any ABI
+ *  it accepts, such as the output of [[Interface-formatJson]].
+ *
+ *  The source declares:
+ *
+ *  - an interface %%name%% for the [[BaseContract]], with a
+ *    [[ContractMethod]] for each function and a [[ContractEvent]]
+ *    for each event in its ``filters``
+ *  - for each event, its filter arguments (``TransferEventArgs``)
+ *    and its decoded values (``TransferEventOutput``)
+ *  - for each struct fragment, its input (``PairStruct``) and decoded
+ *    (``PairStructOutput``) values
+ *  - a union of each [[ErrorDescription]] (``TokenError``)
+ *  - the [[ContractFactory]] (``TokenFactory``)
+ *
+ *  Overloaded functions and events are keyed by signature and their
+ *  types are numbered (e.g. ``Transfer_1EventArgs``).
+ *
+ *  @example:
+ *    source = generateContractTypes("Token", abi)
+ *    fs.writeFileSync("token.ts", source)
+ */
+export function generateContractTypes(name: string, abi: Interface | InterfaceAbi, options?: ContractTypesOptions): string {
+    assertArgument(isLabel(name), "invalid contract name", "name", name);
+
+    if (options == null) { options = { }; }
+    const importPath = (options.importPath != null) ? options.importPath: "ethers";
+    const factory = (options.factory != null) ? options.factory: true;
+
+    const iface = Interface.from(abi);
+
+    const structFragments = iface.fragments.filter((f: Fragment) => (f.type === "struct")).map((f) => <StructFragment><unknown>f);
+
+    const structs: Map<string, string> = new Map();
+    for (const struct of structFragments) {
+        structs.set(getStructKey(struct.inputs), getTypeName(struct.name, 0));
+    }
+
+    const writer = new Writer(structs);
+    const sections: Array<Array<string>> = [ ];
+
+    // Structs
+    if (structFragments.length) {
+        const lines: Array<string> = [ ];
+        for (const struct of structFragments) {
+            const typeName = getTypeName(struct.name, 0);
+            lines.push(`export type ${ typeName }Struct = ${ writer.getTupleType(struct.inputs, false) };`);
+            lines.push(`export type ${ typeName }StructOutput = ${ writer.getResult(struct.inputs) };`);
+        }
+        sections.push(lines);
+    }
+
+    // Events
+    const events: Array<EventFragment> = [ ];
+    iface.forEachEvent((e) => { events.push(e); });
+    const eventKeys = getKeys(events);
+    const filters: Array<string> = [ ];
+    if (events.length) {
+        const lines: Array<string> = [ ];
+        for (const event of events) {
+            const { key, index } = eventKeys.get(event)!;
+            const typeName = getTypeName(event.name, index);
+            lines.push(`export type ${ typeName }EventArgs = ${ writer.getTuple(event.inputs, false) };`);
+            lines.push(`export type ${ typeName }EventOutput = ${ writer.getResult(event.inputs, true) };`);
+
+            filters.push(`        ${ quoteKey(key) }: ${ writer.use("ContractEvent") }<${ typeName }EventArgs>;`);
+        }
+        sections.push(lines);
+    }
+
+    // Errors
+    const errors: Array<string> = [ ];
+    iface.forEachError((e) => {
+        errors.push(`    { name: ${ JSON.stringify(e.name) }; signature: ${ JSON.stringify(e.format("sighash")) }; args: ${ writer.getResult(e.inputs) } }`);
+    });
+    if (errors.length) {
+        writer.use("ErrorDescription");
+        sections.push([
+            `export type ${ name }Error = Omit<ErrorDescription, "name" | "signature" | "args"> & (`,
+            errors.join(" |\n"),
+            `);`
+        ]);
+    }
+
+    // Contract
+    const functions: Array<FunctionFragment> = [ ];
+    iface.forEachFunction((f) => { functions.push(f); });
+    const functionKeys = getKeys(functions);
+    const methods: Array<string> = [ ];
+    for (const func of functions) {
+        const { key } = functionKeys.get(func)!;
+        if (contractProperties.has(key)) { continue; }
+
+        const args = writer.getTuple(func.inputs, false);
+
+        let result: string;
+        if (func.outputs.length === 1) {
+            result = writer.getType(func.outputs[0], true);
+        } else if (func.outputs.length === 0) {
+            result = writer.use("Result");
+        } else {
+            result = writer.getResult(func.outputs);
+        }
+
+        if (func.constant) {
+            methods.push(`    ${ quoteKey(key) }: ${ writer.use("ConstantContractMethod") }<${ args }, ${ result }>;`);
+        } else {
+            methods.push(`    ${ quoteKey(key) }: ${ writer.use("ContractMethod") }<${ args }, ${ result }, ${ writer.use("ContractTransactionResponse") }>;`);
+        }
+    }
+
+    const contract = [ `export interface ${ name } extends ${ writer.use("BaseContract") } {` ];
+    contract.push(...methods);
+    if (methods.length && filters.length) { contract.push(""); }
+    if (filters.length) {
+        contract.push("    readonly filters: {", ...filters, "    };");
+    }
+    contract.push("}");
+    sections.push(contract);
+
+    // Factory
+    if (factory) {
+        const args = writer.getTuple(iface.deploy.inputs, false);
+        sections.push([
+            `export type ${ name }Factory = ${ writer.use("ContractFactory") }<${ args }, ${ name }>;`
+        ]);
+    }
+
+    const imports = Array.from(writer.imports).sort();
+    const header = [
+        `/* Generated by ethers v${ version }; do not modify */`,
+        "",
+        "import type {",
+        `    ${ imports.join(", ") }`,
+        `} from ${ JSON.stringify(importPath) };`
+    ];
+
+    return [ header, ...sections ].map((s) => s.join("\n")).join("\n\n") + "\n";
+}
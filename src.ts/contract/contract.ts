@@ -1,8 +1,9 @@
-import { Interface, Typed } from "../abi/index.js";
+import { ErrorRegistry, Interface, Typed } from "../abi/index.js";
 import { isAddressable, resolveAddress } from "../address/index.js";
 // import from provider.ts instead of index.ts to prevent circular dep
 // from EtherscanProvider
 import { copyRequest, Log, TransactionResponse } from "../providers/provider.js";
+import { createPaginationResult } from "../providers/pagination.js";
 import {
     defineProperties, getBigInt, isCallException, isHexString, resolveProperties,
     isError, makeError, assert, assertArgument
@@ -14,12 +15,15 @@ import {
     EventLog, UndecodedEventLog
 } from "./wrappers.js";
 
-import type { EventFragment, FunctionFragment, InterfaceAbi, ParamType, Result } from "../abi/index.js";
+import type {
+    EventFragment, FunctionFragment, InterfaceAbi, IsTypedAbi, ParamType, Result
+} from "../abi/index.js";
 import type { Addressable, NameResolver } from "../address/index.js";
-import type { EventEmitterable, Listener } from "../utils/index.js";
+import type { CallExceptionError, EventEmitterable, Listener } from "../utils/index.js";
 import type {
-    BlockTag, ContractRunner, Provider, TransactionRequest, TopicFilter
+    BlockTag, ContractRunner, Filter, Provider, TransactionRequest, TopicFilter
 } from "../providers/index.js";
+import type { PaginationResult } from "../providers/pagination.js";
 
 import type {
     BaseContractMethod,
@@ -29,6 +33,8 @@ import type {
     ContractMethod,
     ContractEventArgs,
     ContractEvent,
+    ContractEvents,
+    ContractMethods,
     ContractTransaction,
     DeferredTopicFilter,
     WrappedFallback
@@ -52,6 +58,14 @@ interface ContractRunnerResolver extends ContractRunner {
     resolveName: (name: string | Addressable) => Promise<null | string>;
 }
 
+interface ProviderWithErrorRegistry extends Provider {
+    errorRegistry: ErrorRegistry;
+}
+
+interface ProviderPaginator extends Provider {
+    getLogsPaginated: (filter: Filter, blockRange?: number) => Promise<PaginationResult<Log>>;
+}
+
 function canCall(value: any): value is ContractRunnerCaller {
     return (value && typeof(value.call) === "function");
 }
@@ -68,6 +82,14 @@ function canSend(value: any): value is ContractRunnerSender {
     return (value && typeof(value.sendTransaction) === "function");
 }
 
+function hasErrorRegistry(value: Provider): value is ProviderWithErrorRegistry {
+    return ("errorRegistry" in value && value.errorRegistry instanceof ErrorRegistry);
+}
+
+function canPaginate(value: Provider): value is ProviderPaginator {
+    return ("getLogsPaginated" in value && typeof(value.getLogsPaginated) === "function");
+}
+
 function getResolver(value: any): undefined | NameResolver {
     if (value != null) {
         if (canResolve(value)) { return value; }
@@ -136,6 +158,20 @@ function getProvider(value: null | ContractRunner): null | Provider {
     return value.provider || null;
 }
 
+// Decodes revert data using the contract ABI, falling back onto the
+// ErrorRegistry of the provider, for errors bubbled up from other contracts
+function makeCallError(contract: BaseContract, data: string, tx: ContractTransaction): CallExceptionError {
+    const error = contract.interface.makeError(data, tx);
+
+    let registry = ErrorRegistry.defaultRegistry();
+    const provider = getProvider(contract.runner);
+    if (provider && hasErrorRegistry(provider)) {
+        registry = provider.errorRegistry;
+    }
+
+    return registry.updateError(error);
+}
+
 /**
  *  @_ignore:
  */
@@ -222,7 +258,7 @@ function buildWrappedFallback(contract: BaseContract): WrappedFallback {
             return await runner.call(tx);
         } catch (error: any) {
             if (isCallException(error) && error.data) {
-                throw contract.interface.makeError(error.data, tx);
+                throw makeCallError(contract, error.data, tx);
             }
             throw error;
         }
@@ -337,7 +373,7 @@ function buildWrappedMethod<A extends Array<any> = Array<any>, R = any, D extend
             result = await runner.call(tx);
         } catch (error: any) {
             if (isCallException(error) && error.data) {
-                throw contract.interface.makeError(error.data, tx);
+                throw makeCallError(contract, error.data, tx);
             }
             throw error;
         }
@@ -536,6 +572,40 @@ async function hasSub(contract: BaseContract, event: ContractEventName): Promise
     return subs.get((await getSubInfo(contract, event)).tag) || null;
 }
 
+async function getQueryInfo(contract: BaseContract, event: ContractEventName, fromBlock: undefined | BlockTag, toBlock: undefined | BlockTag, operation: string): Promise<{ provider: Provider, fragment: null | EventFragment, filter: Filter }> {
+    if (fromBlock == null) { fromBlock = 0; }
+    if (toBlock == null) { toBlock = "latest"; }
+    const { addr, addrPromise } = getInternal(contract);
+    const address = (addr ? addr: (await addrPromise));
+    const { fragment, topics } = await getSubInfo(contract, event);
+    const filter = { address, topics, fromBlock, toBlock };
+
+    const provider = getProvider(contract.runner);
+    assert(provider, "contract runner does not have a provider",
+        "UNSUPPORTED_OPERATION", { operation });
+
+    return { provider, fragment, filter };
+}
+
+function decodeLog(contract: BaseContract, provider: Provider, fragment: null | EventFragment, log: Log): EventLog | Log {
+    let foundFragment = fragment;
+    if (foundFragment == null) {
+        try {
+            foundFragment = contract.interface.getEvent(log.topics[0]);
+        } catch (error) { }
+    }
+
+    if (foundFragment) {
+        try {
+            return new EventLog(log, contract.interface, foundFragment);
+        } catch (error: any) {
+            return new UndecodedEventLog(log, error);
+        }
+    }
+
+    return new Log(log, provider);
+}
+
 async function getSub(contract: BaseContract, operation: string, event: ContractEventName): Promise<Sub> {
     // Make sure our runner can actually subscribe to events
     const provider = getProvider(contract.runner);
@@ -931,35 +1001,36 @@ export class BaseContract implements Addressable, EventEmitterable<ContractEvent
      *  inclusive.
      */
     async queryFilter(event: ContractEventName, fromBlock?: BlockTag, toBlock?: BlockTag): Promise<Array<EventLog | Log>> {
-        if (fromBlock == null) { fromBlock = 0; }
-        if (toBlock == null) { toBlock = "latest"; }
-        const { addr, addrPromise } = getInternal(this);
-        const address = (addr ? addr: (await addrPromise));
-        const { fragment, topics } = await getSubInfo(this, event);
-        const filter = { address, topics, fromBlock, toBlock };
-
-        const provider = getProvider(this.runner);
-        assert(provider, "contract runner does not have a provider",
-            "UNSUPPORTED_OPERATION", { operation: "queryFilter" });
+        const { provider, fragment, filter } = await getQueryInfo(this, event, fromBlock, toBlock, "queryFilter");
 
         return (await provider.getLogs(filter)).map((log) => {
-            let foundFragment = fragment;
-            if (foundFragment == null) {
-                try {
-                    foundFragment = this.interface.getEvent(log.topics[0]);
-                } catch (error) { }
-            }
+            return decodeLog(this, provider, fragment, log);
+        });
+    }
 
-            if (foundFragment) {
-                try {
-                    return new EventLog(log, this.interface, foundFragment);
-                } catch (error: any) {
-                    return new UndecodedEventLog(log, error);
-                }
-            }
+    /**
+     *  Provide historic access to event data for %%event%% in the range
+     *  %%fromBlock%% (default: ``0``) to %%toBlock%% (default: ``"latest"``)
+     *  inclusive, a page at a time, where each page covers at most
+     *  %%blockRange%% blocks.
+     *
+     *  This requires the runner's provider support ``getLogsPaginated``,
+     *  such as any [[AbstractProvider]]; see
+     *  [[AbstractProvider-getLogsPaginated]].
+     */
+    async queryFilterPaginated(event: ContractEventName, fromBlock?: BlockTag, toBlock?: BlockTag, blockRange?: number): Promise<PaginationResult<EventLog | Log>> {
+        const { provider, fragment, filter } = await getQueryInfo(this, event, fromBlock, toBlock, "queryFilterPaginated");
 
-            return new Log(log, provider);
-        });
+        assert(canPaginate(provider), "provider does not support getLogsPaginated",
+            "UNSUPPORTED_OPERATION", { operation: "queryFilterPaginated" });
+
+        const wrap = (page: PaginationResult<Log>): PaginationResult<EventLog | Log> => {
+            const logs = page.map((log) => decodeLog(this, provider, fragment, log));
+            if (page.done) { return createPaginationResult(logs, null); }
+            return createPaginationResult(logs, async () => wrap(await page.next()));
+        };
+
+        return wrap(await provider.getLogsPaginated(filter, blockRange));
     }
 
     /**
@@ -1110,11 +1181,34 @@ export class BaseContract implements Addressable, EventEmitterable<ContractEvent
     }
 }
 
-function _ContractBase(): new (target: string | Addressable, abi: Interface | InterfaceAbi, runner?: null | ContractRunner) => BaseContract & Omit<ContractInterface, keyof BaseContract> {
-    return BaseContract as any;
+/**
+ *  A [[BaseContract]] for the ABI %%A%%.
+ *
+ *  If %%A%% is a typed ABI (e.g. declared ``as const``), its methods
+ *  and filters are typed from the ABI (see [[about-abi-types]]),
+ *  otherwise there are no type guards on its methods or events.
+ *
+ *  A typed Contract may be used anywhere a [[Contract]] is expected;
+ *  any name not in the ABI is an untyped [[BaseContractMethod]].
+ */
+export type Contract<A extends InterfaceAbi = InterfaceAbi> = IsTypedAbi<A> extends true
+    ? {
+        readonly interface: Interface<A>;
+        readonly filters: ContractEvents<A>;
+    } & Omit<ContractMethods<A>, keyof BaseContract> & BaseContract & Omit<ContractInterface, keyof BaseContract>
+    : BaseContract & Omit<ContractInterface, keyof BaseContract>;
+
+/**
+ *  The constructor for a [[Contract]], which infers the type of
+ *  the Contract from the %%abi%%.
+ */
+export interface ContractConstructor extends Omit<typeof BaseContract, "prototype"> {
+    new <A extends InterfaceAbi = InterfaceAbi>(target: string | Addressable, abi: A | Interface<A>, runner?: null | ContractRunner): Contract<A>;
+    readonly prototype: BaseContract;
 }
 
 /**
- *  A [[BaseContract]] with no type guards on its methods or events.
+ *  A [[BaseContract]] with no type guards on its methods or events,
+ *  unless created with a typed ABI.
  */
-export class Contract extends _ContractBase() { }
+export const Contract = <ContractConstructor>(<unknown>(class Contract extends BaseContract { }));
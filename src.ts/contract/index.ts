@@ -10,6 +10,10 @@ export {
     BaseContract, Contract
 } from "./contract.js";
 
+export {
+    generateContractTypes
+} from "./codegen.js";
+
 export {
     ContractFactory
 } from "./factory.js";
@@ -20,12 +24,15 @@ export {
     EventLog, UndecodedEventLog
 } from "./wrappers.js";
 
+export type { ContractTypesOptions } from "./codegen.js";
+
 export type {
     BaseContractMethod, ConstantContractMethod,
     PostfixOverrides,
-    ContractEvent, ContractEventArgs, ContractEventName,
+    ContractEvent, ContractEventArgs, ContractEventName, ContractEvents,
     ContractDeployTransaction,
-    ContractInterface, ContractMethod, ContractMethodArgs, ContractTransaction,
+    ContractInterface, ContractMethod, ContractMethodArgs, ContractMethods,
+    ContractTransaction,
     DeferredTopicFilter, Overrides,
     WrappedFallback
 } from "./types.js";
@@ -1,4 +1,7 @@
 import type {
+    AbiEventArgs, AbiEventName, AbiEventSignature, AbiFunctionArgs,
+    AbiFunctionIsConstant, AbiFunctionName, AbiFunctionResult,
+    AbiFunctionSignature,
     EventFragment, FunctionFragment, Result, Typed
 } from "../abi/index.js";
 import type {
@@ -199,6 +202,29 @@ export interface ContractEvent<A extends Array<any> = Array<any>> {
     getFragment(...args: ContractEventArgs<A>): EventFragment;
 };
 
+/**
+ *  The methods of a Contract for the typed ABI %%A%%, with the
+ *  arguments and results of each inferred from the ABI (see
+ *  [[about-abi-types]]).
+ *
+ *  Each method is available by its name and by its signature (e.g.
+ *  ``contract["transfer(address,uint256)"]``), which selects a single
+ *  overload.
+ */
+export type ContractMethods<A> = {
+    [ N in AbiFunctionName<A> | AbiFunctionSignature<A> ]: AbiFunctionIsConstant<A, N> extends true
+        ? ConstantContractMethod<AbiFunctionArgs<A, N>, AbiFunctionResult<A, N>>
+        : ContractMethod<AbiFunctionArgs<A, N>, AbiFunctionResult<A, N>, ContractTransactionResponse>;
+};
+
+/**
+ *  The event filters of a Contract for the typed ABI %%A%%, by name
+ *  and by signature.
+ */
+export type ContractEvents<A> = {
+    [ N in AbiEventName<A> | AbiEventSignature<A> ]: ContractEvent<AbiEventArgs<A, N>>;
+};
+
 /**
  *  A Fallback or Receive function on a Contract.
  */
@@ -8,10 +8,10 @@ export { version } from "./_version.js";
 export {
     decodeBytes32String, encodeBytes32String,
 
-    AbiCoder,
+    AbiCoder, ErrorRegistry,
     ConstructorFragment, ErrorFragment, EventFragment, Fragment, FallbackFragment, FunctionFragment, NamedFragment, ParamType, StructFragment,
 
-    checkResultErrors, ErrorDescription, Indexed, Interface, LogDescription, Result, TransactionDescription,
+    checkResultErrors, ErrorDescription, Indexed, Interface, LazyResult, LogDescription, Result, TransactionDescription,
     Typed,
 } from "./abi/index.js";
 
@@ -31,7 +31,8 @@ export {
 export {
     BaseContract, Contract,
     ContractFactory,
-    ContractEventPayload, ContractTransactionReceipt, ContractTransactionResponse, ContractUnknownEventPayload, EventLog, UndecodedEventLog
+    ContractEventPayload, ContractTransactionReceipt, ContractTransactionResponse, ContractUnknownEventPayload, EventLog, UndecodedEventLog,
+    generateContractTypes
 } from "./contract/index.js";
 
 export {
@@ -47,6 +48,7 @@ export {
 } from "./crypto/index.js";
 
 export {
+    encodeAuthorization, hashAuthorization, verifyAuthorization,
     id,
     ensNormalize, isValidName, namehash, dnsEncode,
     hashMessage, verifyMessage,
@@ -60,14 +62,18 @@ export {
 
     Block, FeeData, Log, TransactionReceipt, TransactionResponse,
 
-    AbstractSigner, NonceManager, VoidSigner,
+    AbstractSigner, NonceManager, SmartAccountSigner, VoidSigner,
 
     AbstractProvider,
 
+    BlockTracker,
+
+    FileProviderCache, MemoryProviderCache,
+
     FallbackProvider,
     JsonRpcApiProvider, JsonRpcProvider, JsonRpcSigner,
 
-    BrowserProvider,
+    BrowserProvider, BundlerProvider,
 
     AlchemyProvider, AnkrProvider, ChainstackProvider, CloudflareProvider,
     EtherscanProvider, InfuraProvider, InfuraWebSocketProvider, PocketProvider,
@@ -85,11 +91,15 @@ export {
     SocketBlockSubscriber, SocketEventSubscriber, SocketPendingSubscriber,
     SocketSubscriber, UnmanagedSubscriber,
 
+    EntryPointV06, EntryPointV07,
+    getEntryPointVersion, getUserOperationHash, getUserOperationInitCode,
+    getUserOperationPaymasterAndData, packUserOperation, userOperationFrom,
+
     copyRequest, showThrottleMessage
 } from "./providers/index.js";
 
 export {
-    accessListify,
+    accessListify, authorizationify,
     computeAddress, recoverAddress,
     Transaction
 } from "./transaction/index.js";
@@ -105,6 +115,7 @@ export {
     isCallException, isError,
     EventPayload,
     FetchRequest, FetchResponse, FetchCancelSignal,
+    RequestScheduler,
     FixedNumber,
     getBigInt, getNumber, getUint, toBeArray, toBigInt, toBeHex, toNumber, toQuantity,
     fromTwos, toTwos, mask,
@@ -120,6 +131,8 @@ export {
     BaseWallet, HDNodeWallet, HDNodeVoidWallet,
     Wallet,
 
+    ExternalSigner, LoopbackTransport,
+
     defaultPath,
 
     getAccountPath, getIndexedAccountPath,
@@ -139,10 +152,16 @@ export {
 // Types
 
 export type {
+    AbiDecodeMode,
     JsonFragment, JsonFragmentType,
     FormatType, FragmentType,
     InterfaceAbi,
-    ParamTypeWalkFunc, ParamTypeWalkAsyncFunc
+    ParamTypeWalkFunc, ParamTypeWalkAsyncFunc,
+    AbiEventArgs, AbiEventName, AbiEventOutputs, AbiEventSignature,
+    AbiFunctionArgs, AbiFunctionIsConstant, AbiFunctionName,
+    AbiFunctionOutputs, AbiFunctionResult, AbiFunctionSignature,
+    AbiFragments, AbiInputs, AbiOutputs, AbiParameter, AbiParameterValue,
+    AbiResult, IsTypedAbi, ParseParams, ParseSignature
 } from "./abi/index.js";
 
 export type {
@@ -151,7 +170,8 @@ export type {
 
 export type {
     ConstantContractMethod, ContractEvent, ContractEventArgs, ContractEventName,
-    ContractInterface, ContractMethod, ContractMethodArgs, ContractTransaction,
+    ContractEvents, ContractInterface, ContractMethod, ContractMethodArgs,
+    ContractMethods, ContractTransaction, ContractTypesOptions,
     DeferredTopicFilter, Overrides,
     BaseContractMethod, ContractDeployTransaction, PostfixOverrides,
     WrappedFallback
@@ -159,25 +179,44 @@ export type {
 
 export type { ProgressCallback, SignatureLike } from "./crypto/index.js";
 
-export type { TypedDataDomain, TypedDataField } from "./hash/index.js";
+export type {
+    AuthorizationRequest, TypedDataDomain, TypedDataField
+} from "./hash/index.js";
 
 export type {
     Provider, Signer,
 
-    AbstractProviderOptions, BrowserProviderOptions, FallbackProviderOptions,
+    AbstractProviderOptions, BrowserDiscoverOptions, BrowserProviderOptions,
+    Eip6963EventTarget, Eip6963ProviderDetail, Eip6963ProviderInfo, EtherscanContractSource,
+    EtherscanHistoryOptions, EtherscanInternalTransaction, EtherscanProviderOptions,
+    FallbackCircuitState, FallbackMethodPolicy, FallbackProviderOptions,
+    FallbackProviderStats, FallbackQuorumStrategy,
 
-    AbstractProviderPlugin, BlockParams, BlockTag, ContractRunner, DebugEventBrowserProvider,
-    Eip1193Provider, EventFilter, Filter, FilterByBlockHash, GasCostParameters,
+    AbstractProviderPlugin, AccountOverride, BlockHeader, BlockOverrides, BlockParams, BlockTag,
+    CallFrame, CallFrameLog, CallTraceOptions, ContractRunner, DebugEventBrowserProvider,
+    DecodedCall, Eip1193Provider, EntryPointVersion, EventFilter, Filter, FilterByBlockHash, FlatTrace,
+    GasCostParameters,
     JsonRpcApiProviderOptions, JsonRpcError, JsonRpcPayload, JsonRpcResult,
     JsonRpcTransactionRequest, LogParams, MinedBlock, MinedTransactionResponse, Networkish,
-    OrphanFilter, PerformActionFilter, PerformActionRequest, PerformActionTransaction,
-    PreparedTransactionRequest, ProviderEvent, Subscriber, Subscription, TopicFilter,
+    OrphanFilter, PackedUserOperation, PaginationResult, PerformActionFilter, PerformActionRequest,
+    PerformActionSimulateBlock, PerformActionTransaction,
+    PreparedTransactionRequest, PrestateAccount, PrestateDiffTrace, PrestateTrace,
+    PrestateTraceOptions, ProviderCache, ProviderEvent, ReorgEvent,
+    SimulateBlockParams, SimulateBlockRequest, SimulateBlockResult, SimulateCallParams,
+    SimulateCallResult, SimulateOptions, SmartAccountCall, SmartAccountSignerOptions,
+    SocketProviderOptions, StateOverride, StructLog, StructLogTrace,
+    StructLogTraceOptions, Subscriber, Subscription, TopicFilter, TraceInterfaces,
+    TraceOptions, TraceOptionsBase,
     TransactionReceiptParams, TransactionRequest, TransactionResponseParams,
+    UserOperation, UserOperationGasEstimate, UserOperationLike, UserOperationReceipt,
+    WalletAddChainOptions, WalletCallsStatus, WalletPermission, WalletSendCallsOptions,
+    WalletWatchAssetOptions,
     WebSocketCreator, WebSocketLike
 } from "./providers/index.js";
 
 export type {
     AccessList, AccessListish, AccessListEntry,
+    Authorization, AuthorizationLike,
     Blob, BlobLike, KzgLibrary,
     TransactionLike
 } from "./transaction/index.js";
@@ -194,8 +233,10 @@ export type {
     FetchPreflightFunc, FetchProcessFunc, FetchRetryFunc,
     FetchGatewayFunc, FetchGetUrlFunc,
 
+    RequestScheduleOptions, RequestSchedulerOptions,
+
     EthersError, UnknownError, NotImplementedError, UnsupportedOperationError, NetworkError,
-    ServerError, TimeoutError, BadDataError, CancelledError, BufferOverrunError,
+    ServerError, TimeoutError, BadDataError, CancelledError, QuorumMismatchError, BufferOverrunError,
     NumericFaultError, InvalidArgumentError, MissingArgumentError, UnexpectedArgumentError,
     CallExceptionError, InsufficientFundsError, NonceExpiredError, OffchainFaultError,
     ReplacementUnderpricedError, TransactionReplacedError, UnconfiguredNameError,
@@ -207,7 +248,8 @@ export type {
 } from "./utils/index.js";
 
 export type {
-    CrowdsaleAccount, KeystoreAccount, EncryptOptions
+    CrowdsaleAccount, KeystoreAccount, EncryptOptions,
+    ExternalSignerRequest, ExternalSignerTransport
 } from "./wallet/index.js";
 
 // dummy change; to pick-up ws security issue changes
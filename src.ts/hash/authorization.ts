@@ -0,0 +1,66 @@
+import { getAddress } from "../address/index.js";
+import { keccak256 } from "../crypto/index.js";
+import { recoverAddress } from "../transaction/index.js";
+import {
+    assertArgument, concat, encodeRlp, toBeArray
+} from "../utils/index.js";
+
+import type { Addressable } from "../address/index.js";
+import type { SignatureLike } from "../crypto/index.js";
+import type { BigNumberish, Numeric } from "../utils/index.js";
+
+
+/**
+ *  A request for an [[link-eip-7702]] authorization, which may
+ *  still require population of its %%nonce%% and %%chainId%%.
+ */
+export interface AuthorizationRequest {
+    /**
+     *  The address whose code the authorizing account will delegate to.
+     */
+    address: string | Addressable;
+
+    /**
+     *  The nonce of the authorizing account.
+     */
+    nonce?: Numeric;
+
+    /**
+     *  The chain ID the authorization is valid on, or ``0`` for any chain.
+     */
+    chainId?: BigNumberish;
+}
+
+/**
+ *  Returns the encoded [[link-eip-7702]] authorization for %%auth%%,
+ *  which is the ``0x05`` magic byte followed by the RLP-encoded
+ *  ``[ chainId, address, nonce ]`` tuple.
+ */
+export function encodeAuthorization(auth: AuthorizationRequest): string {
+    assertArgument(typeof(auth.address) === "string", "invalid address for encodeAuthorization", "auth.address", auth);
+    return concat([
+        "0x05", encodeRlp([
+            (auth.chainId != null) ? toBeArray(auth.chainId): "0x",
+            getAddress(auth.address),
+            (auth.nonce != null) ? toBeArray(auth.nonce): "0x",
+        ])
+    ]);
+}
+
+/**
+ *  Computes the [[link-eip-7702]] authorization digest to sign.
+ *
+ *  This is the [[keccak256]] of the [[encodeAuthorization]] of %%auth%%.
+ */
+export function hashAuthorization(auth: AuthorizationRequest): string {
+    assertArgument(typeof(auth.address) === "string", "invalid address for hashAuthorization", "auth.address", auth);
+    return keccak256(encodeAuthorization(auth));
+}
+
+/**
+ *  Return the address of the private key that produced
+ *  the signature %%sig%% during signing for %%auth%%.
+ */
+export function verifyAuthorization(auth: AuthorizationRequest, sig: SignatureLike): string {
+    return recoverAddress(hashAuthorization(auth), sig);
+}
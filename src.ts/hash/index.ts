@@ -5,6 +5,9 @@
  *  @_section: api/hashing:Hashing Utilities  [about-hashing]
  */
 
+export {
+    encodeAuthorization, hashAuthorization, verifyAuthorization
+} from "./authorization.js";
 export { id } from "./id.js"
 export { ensNormalize, isValidName, namehash, dnsEncode } from "./namehash.js";
 export { hashMessage, verifyMessage } from "./message.js";
@@ -13,4 +16,5 @@ export {
 } from "./solidity.js";
 export { TypedDataEncoder, verifyTypedData } from "./typed-data.js";
 
+export type { AuthorizationRequest } from "./authorization.js";
 export type { TypedDataDomain, TypedDataField } from "./typed-data.js";
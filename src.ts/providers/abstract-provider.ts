@@ -14,6 +14,7 @@
 //   migrate the listener to the static event. We also need to maintain a map
 //   of Signer/ENS name to address so we can sync respond to listenerCount.
 
+import { AbiCoder, ErrorRegistry, Interface } from "../abi/index.js";
 import { getAddress, resolveAddress } from "../address/index.js";
 import { ZeroAddress } from "../constants/index.js";
 import { Contract } from "../contract/index.js";
@@ -31,20 +32,29 @@ import {
 
 import { EnsResolver } from "./ens-resolver.js";
 import {
-    formatBlock, formatLog, formatTransactionReceipt, formatTransactionResponse
+    formatBlock, formatLog, formatSimulateBlock, formatTransactionReceipt,
+    formatTransactionResponse
 } from "./format.js";
 import { Network } from "./network.js";
-import { copyRequest, Block, FeeData, Log, TransactionReceipt, TransactionResponse } from "./provider.js";
+import { createPaginationResult } from "./pagination.js";
 import {
-    PollingBlockSubscriber, PollingBlockTagSubscriber, PollingEventSubscriber,
-    PollingOrphanSubscriber, PollingTransactionSubscriber
+    copyBlockOverrides, copyRequest, copyStateOverride,
+    Block, FeeData, Log, TransactionReceipt, TransactionResponse
+} from "./provider.js";
+import {
+    PollingBlockSubscriber, PollingBlockTagSubscriber,
+    PollingBlockTrackerSubscriber, PollingEventSubscriber,
+    PollingOrphanSubscriber, PollingReorgSubscriber, PollingTransactionSubscriber
 } from "./subscriber-polling.js";
 
 import type { Addressable, AddressLike } from "../address/index.js";
 import type { BigNumberish, BytesLike } from "../utils/index.js";
 import type { FetchResponse, Listener } from "../utils/index.js";
 
+import type { ReorgEvent } from "./block-tracker.js";
+import type { ProviderCache } from "./cache.js";
 import type { Networkish } from "./network.js";
+import type { PaginationResult } from "./pagination.js";
 import type { FetchUrlFeeDataNetworkPlugin } from "./plugins-network.js";
 //import type { MaxPriorityFeePlugin } from "./plugins-network.js";
 import type {
@@ -53,8 +63,9 @@ import type {
 } from "./formatting.js";
 
 import type {
-    BlockTag, EventFilter, Filter, FilterByBlockHash, OrphanFilter,
+    BlockOverrides, BlockTag, EventFilter, Filter, FilterByBlockHash, OrphanFilter,
     PreparedTransactionRequest, Provider, ProviderEvent,
+    SimulateBlockRequest, SimulateBlockResult, SimulateOptions, StateOverride,
     TransactionRequest
 } from "./provider.js";
 
@@ -66,6 +77,58 @@ const BN_2 = BigInt(2);
 
 const MAX_CCIP_REDIRECTS = 10;
 
+// The Multicall3 contract, deployed at the same address on most networks;
+// see: https://www.multicall3.com
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+let _multicallIface: null | Interface = null;
+function getMulticallInterface(): Interface {
+    if (_multicallIface == null) {
+        _multicallIface = new Interface([
+            "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)"
+        ]);
+    }
+    return _multicallIface;
+}
+
+// Only plain calls (i.e. with only a target and calldata) can be safely
+// executed by the Multicall3 contract, since any other property (such as
+// ``from`` or ``value``) would behave differently through it
+const multicallKeys = [ "to", "data", "blockTag", "enableCcipRead" ];
+function canMulticall(tx: PerformActionTransaction): boolean {
+    if (tx.to == null) { return false; }
+    for (const key of Object.keys(tx)) {
+        if (multicallKeys.indexOf(key) >= 0) { continue; }
+        if ((<any>tx)[key] == null) { continue; }
+        return false;
+    }
+    return true;
+}
+
+// Errors from backends indicating a getLogs request matched too many
+// logs or spanned too many blocks, for which a narrower range may succeed
+const logRangeErrors = /more than \d+ results|too many|too large|too wide|block range|limit exceeded|response size/i;
+function isLogRangeError(error: any): boolean {
+    for (let i = 0; error != null && i < 4; i++) {
+        if (error.code === -32005) { return true; }
+        if (typeof(error.message) === "string" && error.message.match(logRangeErrors)) {
+            return true;
+        }
+        error = (error.error || (error.info && error.info.error));
+    }
+    return false;
+}
+
+// Moves any overrides from the transaction of %%req%% onto %%req%%
+// itself, since they are not part of the transaction
+function liftOverrides<T extends PerformActionRequest & { transaction: PerformActionTransaction }>(req: T): T {
+    const { stateOverride, blockOverrides, ...transaction } = req.transaction;
+    const result: any = Object.assign({ }, req, { transaction });
+    if (stateOverride) { result.stateOverride = stateOverride; }
+    if (blockOverrides) { result.blockOverrides = blockOverrides; }
+    return result;
+}
+
 function isPromise<T = any>(value: any): value is Promise<T> {
     return (value && typeof(value.then) === "function");
 }
@@ -118,6 +181,18 @@ export type DebugEventAbstractProvider = {
     action: "receiveCcipReadCallError",
     transaction: { to: string, data: string }
     error: Error
+} | {
+    action: "sendMulticall",
+    blockTag: string,
+    transactions: Array<PerformActionTransaction>
+} | {
+    action: "receiveMulticallError",
+    blockTag: string,
+    error: Error
+} | {
+    action: "receiveCacheError",
+    key: string,
+    error: Error
 };
 
 
@@ -128,7 +203,7 @@ export type DebugEventAbstractProvider = {
  *  if they are modifying a low-level feature of how subscriptions operate.
  */
 export type Subscription = {
-    type: "block" | "close" | "debug" | "error" | "finalized" | "network" | "pending" | "safe",
+    type: "accountsChanged" | "block" | "chainChanged" | "close" | "connected" | "debug" | "disconnect" | "disconnected" | "error" | "finalized" | "network" | "pending" | "reorg" | "safe",
     tag: string
 } | {
     type: "transaction",
@@ -236,12 +311,19 @@ async function getSubscription(_event: ProviderEvent, provider: AbstractProvider
 
     if (typeof(_event) === "string") {
         switch (_event) {
+            case "accountsChanged":
             case "block":
+            case "chainChanged":
+            case "close":
+            case "connected":
             case "debug":
+            case "disconnect":
+            case "disconnected":
             case "error":
             case "finalized":
             case "network":
             case "pending":
+            case "reorg":
             case "safe": {
                 return { type: _event, tag: _event };
             }
@@ -303,6 +385,23 @@ async function getSubscription(_event: ProviderEvent, provider: AbstractProvider
 
 function getTime(): number { return (new Date()).getTime(); }
 
+// Operations whose results may be immutable, depending on their
+// parameters and result
+function isCacheable(req: PerformActionRequest): boolean {
+    switch (req.method) {
+        case "call":
+        case "getCode":
+        case "getStorage":
+            return (typeof(req.blockTag) === "string" && isHexString(req.blockTag));
+        case "getBlock":
+            return ("blockHash" in req);
+        case "getTransaction":
+        case "getTransactionReceipt":
+            return true;
+    }
+    return false;
+}
+
 /**
  *  An **AbstractPlugin** is used to provide additional internal services
  *  to an [[AbstractProvider]] without adding backwards-incompatible changes
@@ -349,6 +448,26 @@ export interface PerformActionTransaction extends PreparedTransactionRequest {
     from?: string;
 }
 
+/**
+ *  A normalized block of calls used for [[PerformActionRequest]] objects.
+ */
+export interface PerformActionSimulateBlock {
+    /**
+     *  The calls to execute, in order.
+     */
+    calls: Array<PerformActionTransaction>;
+
+    /**
+     *  The account state to override before executing the calls.
+     */
+    stateOverride?: StateOverride;
+
+    /**
+     *  The block header properties to override for the calls.
+     */
+    blockOverrides?: BlockOverrides;
+}
+
 /**
  *  The [[AbstractProvider]] methods will normalize all values and pass this
  *  type to [[AbstractProvider-_perform]].
@@ -358,12 +477,14 @@ export type PerformActionRequest = {
     signedTransaction: string
 } | {
     method: "call",
-    transaction: PerformActionTransaction, blockTag: BlockTag
+    transaction: PerformActionTransaction, blockTag: BlockTag,
+    stateOverride?: StateOverride, blockOverrides?: BlockOverrides
 } | {
     method: "chainId"
 } | {
     method: "estimateGas",
-    transaction: PerformActionTransaction
+    transaction: PerformActionTransaction,
+    stateOverride?: StateOverride, blockOverrides?: BlockOverrides
 } | {
     method: "getBalance",
     address: string, blockTag: BlockTag
@@ -400,6 +521,10 @@ export type PerformActionRequest = {
 } | {
     method: "getTransactionResult",
     hash: string
+} | {
+    method: "simulate",
+    blocks: Array<PerformActionSimulateBlock>, blockTag: BlockTag,
+    validation: boolean, traceTransfers: boolean
 };
 
 type _PerformAccountRequest = {
@@ -408,6 +533,12 @@ type _PerformAccountRequest = {
     method: "getStorage", position: bigint
 }
 
+type MulticallPayload = {
+    transaction: PerformActionTransaction;
+    resolve: (result: string) => void;
+    reject: (error: Error) => void;
+};
+
 /**
  *  Options for configuring some internal aspects of an [[AbstractProvider]].
  *
@@ -417,15 +548,81 @@ type _PerformAccountRequest = {
  *  can perform operations (internally) synchronously. Use ``-1`` to
  *  disable, ``0`` will only buffer within the same event loop and
  *  any other value is in ms. (default: ``250``)
+ *
+ *  **``multicall``** - if true, concurrent read-only [[call]] operations
+ *  for the same block tag are merged into a single Multicall3
+ *  ``aggregate3`` call, with the results (and reverts) routed back to
+ *  each caller. Calls which specify any property other than ``to`` and
+ *  ``data`` (such as ``from``) are never merged. (default: ``false``)
+ *
+ *  **``multicallAddress``** - the address of the Multicall3 contract.
+ *  (default: ``0xcA11bde05977b3631167028862bE2a173976CA11``)
+ *
+ *  **``multicallStallTime``** - how long (ms) to collect calls before
+ *  sending a merged call. (default: ``10``)
+ *
+ *  **``multicallMaxCount``** - the maximum number of calls to merge into
+ *  a single Multicall3 call. (default: ``100``)
+ *
+ *  **``cache``** - a [[ProviderCache]] consulted for data which cannot
+ *  change; blocks by hash, transactions and receipts which are at least
+ *  ``cacheConfirmations`` deep, and ``getCode``, ``getStorage`` and
+ *  ``call`` at a block hash or at a block number which is at least
+ *  ``cacheConfirmations`` deep. (default: ``null``)
+ *
+ *  **``cacheConfirmations``** - the number of confirmations a block
+ *  must have before data within it is considered immutable for the
+ *  ``cache``. (default: ``12``)
+ *
+ *  **``reorgDepth``** - the number of recent block headers tracked by
+ *  the [[BlockTracker]] used for ``"reorg"`` events, which is also the
+ *  deepest re-organization that can be detected. (default: ``64``)
+ *
+ *  **``logsBlockRange``** - if non-zero, [[getLogs]] splits any request
+ *  spanning more than this many blocks into multiple requests, halving
+ *  the range of a request the backend rejects for matching too many logs
+ *  or spanning too many blocks. (default: ``0``)
+ *
+ *  **``errorRegistry``** - the [[ErrorRegistry]] used to decode the
+ *  revert data of a ``CALL_EXCEPTION`` which was not otherwise
+ *  recognized. (default: the [[ErrorRegistry-defaultRegistry]])
  */
 export type AbstractProviderOptions = {
     cacheTimeout?: number;
     pollingInterval?: number;
+
+    multicall?: boolean;
+    multicallAddress?: string;
+    multicallStallTime?: number;
+    multicallMaxCount?: number;
+
+    cache?: null | ProviderCache;
+    cacheConfirmations?: number;
+
+    reorgDepth?: number;
+
+    logsBlockRange?: number;
+
+    errorRegistry?: null | ErrorRegistry;
 };
 
 const defaultOptions = {
     cacheTimeout: 250,
-    pollingInterval: 4000
+    pollingInterval: 4000,
+
+    multicall: false,
+    multicallAddress: MULTICALL3_ADDRESS,
+    multicallStallTime: 10,
+    multicallMaxCount: 100,
+
+    cache: null,
+    cacheConfirmations: 12,
+
+    reorgDepth: 64,
+
+    logsBlockRange: 0,
+
+    errorRegistry: null
 };
 
 type CcipArgs = {
@@ -448,6 +645,9 @@ export class AbstractProvider implements Provider {
     #subs: Map<string, Sub>;
     #plugins: Map<string, AbstractProviderPlugin>;
 
+    // The shared block tracker and everything notified of its re-orgs
+    #reorgs: null | { subscriber: Subscriber, listeners: Array<(event: ReorgEvent) => void> };
+
     // null=unpaused, true=paused+dropWhilePaused, false=paused
     #pausedState: null | boolean;
 
@@ -468,6 +668,8 @@ export class AbstractProvider implements Provider {
 
     #options: Required<AbstractProviderOptions>;
 
+    #multicallBatches: Map<string, Array<MulticallPayload>>;
+
     /**
      *  Create a new **AbstractProvider** connected to %%network%%, or
      *  use the various network detection capabilities to discover the
@@ -495,6 +697,7 @@ export class AbstractProvider implements Provider {
 
         this.#subs = new Map();
         this.#plugins = new Map();
+        this.#reorgs = null;
         this.#pausedState = null;
 
         this.#destroyed = false;
@@ -503,10 +706,25 @@ export class AbstractProvider implements Provider {
         this.#timers = new Map();
 
         this.#disableCcipRead = false;
+
+        this.#multicallBatches = new Map();
     }
 
     get pollingInterval(): number { return this.#options.pollingInterval; }
 
+    /**
+     *  The number of recent block headers tracked to detect
+     *  re-organizations.
+     */
+    get reorgDepth(): number { return this.#options.reorgDepth; }
+
+    /**
+     *  The [[ErrorRegistry]] used to decode unrecognized revert data.
+     */
+    get errorRegistry(): ErrorRegistry {
+        return this.#options.errorRegistry || ErrorRegistry.defaultRegistry();
+    }
+
     /**
      *  Returns ``this``, to allow an **AbstractProvider** to implement
      *  the [[ContractRunner]] interface.
@@ -550,14 +768,14 @@ export class AbstractProvider implements Provider {
         const timeout = this.#options.cacheTimeout;
 
         // Caching disabled
-        if (timeout < 0) { return await this._perform(req); }
+        if (timeout < 0) { return await this.#performCached(req, () => this._perform(req)); }
 
         // Create a tag
         const tag = getTag(req.method, req);
 
         let perform = this.#performCache.get(tag);
         if (!perform) {
-            perform = this._perform(req);
+            perform = this.#performCached(req, () => this._perform(req));
 
             this.#performCache.set(tag, perform);
 
@@ -571,6 +789,68 @@ export class AbstractProvider implements Provider {
         return await perform;
     }
 
+    // Consults the persistent cache (if any) for immutable data, falling
+    // back onto %%perform%%
+    async #performCached<T = any>(req: PerformActionRequest, perform: () => Promise<T>): Promise<T> {
+        const cache = this.#options.cache;
+        if (cache == null || !isCacheable(req)) { return await perform(); }
+
+        const key = String((await this.getNetwork()).chainId) + ":" + getTag(req.method, req);
+
+        try {
+            const cached = await cache.get(key);
+            if (cached !== undefined) { return cached; }
+        } catch (error: any) {
+            this.emit("debug", { action: "receiveCacheError", key, error });
+        }
+
+        const result = await perform();
+
+        if (await this.#isImmutable(req, result)) {
+            try {
+                await cache.set(key, result);
+            } catch (error: any) {
+                this.emit("debug", { action: "receiveCacheError", key, error });
+            }
+        }
+
+        return result;
+    }
+
+    // Returns true if %%blockNumber%% has enough confirmations to
+    // consider its data immutable
+    async #isConfirmed(blockNumber: number): Promise<boolean> {
+        let head = this.#lastBlockNumber;
+        if (head < 0) { head = await this.getBlockNumber(); }
+        return (head - blockNumber + 1) >= this.#options.cacheConfirmations;
+    }
+
+    // Returns true if %%result%% for %%req%% can no longer change
+    async #isImmutable(req: PerformActionRequest, result: any): Promise<boolean> {
+        if (result == null) { return false; }
+
+        switch (req.method) {
+            case "getBlock":
+                return ("blockHash" in req);
+
+            case "getTransaction":
+            case "getTransactionReceipt":
+                if (result.blockNumber == null) { return false; }
+                return await this.#isConfirmed(getNumber(result.blockNumber));
+
+            case "call":
+            case "getCode":
+            case "getStorage": {
+                const blockTag = req.blockTag;
+                if (isHexString(blockTag, 32)) { return true; }
+                if (!isHexString(blockTag)) { return false; }
+                return await this.#isConfirmed(getNumber(blockTag));
+            }
+        }
+
+        return false;
+    }
+
     /**
      *  Resolves to the data for executing the CCIP-read operations.
      */
@@ -967,9 +1247,9 @@ export class AbstractProvider implements Provider {
     async estimateGas(_tx: TransactionRequest): Promise<bigint> {
         let tx = this._getTransactionRequest(_tx);
         if (isPromise(tx)) { tx = await tx; }
-        return getBigInt(await this.#perform({
+        return getBigInt(await this.#perform(liftOverrides({
             method: "estimateGas", transaction: tx
-        }), "%response");
+        })), "%response");
     }
 
     async #call(tx: PerformActionTransaction, blockTag: string, attempt: number): Promise<string> {
@@ -982,7 +1262,8 @@ export class AbstractProvider implements Provider {
          const transaction = <PerformActionTransaction>copyRequest(tx);
 
          try {
-             return hexlify(await this._perform({ method: "call", transaction, blockTag }));
+             const req = liftOverrides({ method: "call", transaction, blockTag });
+             return hexlify(await this.#performCached(req, () => this.#performCall(req)));
 
          } catch (error: any) {
              // CCIP Read OffchainLookup
@@ -1021,7 +1302,9 @@ export class AbstractProvider implements Provider {
 
                  const tx = {
                      to: txSender,
-                     data: concat([ ccipArgs.selector, encodeBytes([ ccipResult, ccipArgs.extraData ]) ])
+                     data: concat([ ccipArgs.selector, encodeBytes([ ccipResult, ccipArgs.extraData ]) ]),
+                     stateOverride: transaction.stateOverride,
+                     blockOverrides: transaction.blockOverrides
                  };
 
                  this.emit("debug", { action: "sendCcipReadCall", transaction: tx });
@@ -1039,6 +1322,91 @@ export class AbstractProvider implements Provider {
          }
     }
 
+    // Performs the call, possibly merged with other concurrent calls for
+    // the same blockTag into a Multicall3 call
+    #performCall(req: PerformActionRequest & { method: "call" }): Promise<string> {
+        const { transaction } = req;
+        const blockTag = <string>req.blockTag;
+
+        if (!this.#options.multicall || !canMulticall(transaction) ||
+          req.stateOverride != null || req.blockOverrides != null) {
+            return this._perform(req);
+        }
+
+        return new Promise((resolve, reject) => {
+            let batch = this.#multicallBatches.get(blockTag);
+            if (batch == null) {
+                const newBatch: Array<MulticallPayload> = [ ];
+                this.#multicallBatches.set(blockTag, newBatch);
+                setTimeout(() => {
+                    this.#flushMulticall(blockTag, newBatch);
+                }, this.#options.multicallStallTime);
+                batch = newBatch;
+            }
+
+            batch.push({ transaction, resolve, reject });
+
+            if (batch.length >= this.#options.multicallMaxCount) {
+                this.#flushMulticall(blockTag, batch);
+            }
+        });
+    }
+
+    async #flushMulticall(blockTag: string, batch: Array<MulticallPayload>): Promise<void> {
+        // Already flushed (i.e. the batch filled up before the timer fired)
+        if (this.#multicallBatches.get(blockTag) !== batch) { return; }
+        this.#multicallBatches.delete(blockTag);
+
+        // Performs each call as its own request
+        const performEach = () => {
+            for (const { transaction, resolve, reject } of batch) {
+                this._perform({ method: "call", transaction, blockTag }).then(resolve, reject);
+            }
+        };
+
+        // Nothing to gain going through Multicall3 for a single call
+        if (batch.length === 1) { return performEach(); }
+
+        const iface = getMulticallInterface();
+
+        let results: null | Array<[ boolean, string ]> = null;
+        try {
+            const transactions = batch.map(({ transaction }) => transaction);
+            this.emit("debug", { action: "sendMulticall", blockTag, transactions });
+
+            const data = iface.encodeFunctionData("aggregate3", [
+                transactions.map((tx) => [ tx.to, true, (tx.data || "0x") ])
+            ]);
+
+            const result = await this._perform({
+                method: "call",
+                transaction: { to: this.#options.multicallAddress, data },
+                blockTag
+            });
+
+            results = iface.decodeFunctionResult("aggregate3", result)[0];
+
+        } catch (error: any) {
+            this.emit("debug", { action: "receiveMulticallError", blockTag, error });
+        }
+
+        // The Multicall3 call failed as a whole (e.g. the contract is not
+        // deployed on this network), so fall back onto individual calls
+        if (results == null || results.length !== batch.length) {
+            return performEach();
+        }
+
+        for (let i = 0; i < batch.length; i++) {
+            const { transaction, resolve, reject } = batch[i];
+            const [ success, returnData ] = results[i];
+            if (success) {
+                resolve(returnData);
+            } else {
+                reject(this.errorRegistry.updateError(AbiCoder.getBuiltinCallException("call", transaction, returnData)));
+            }
+        }
+    }
+
     async #checkNetwork<T>(promise: Promise<T>): Promise<T> {
         const { value } = await resolveProperties({
             network: this.getNetwork(),
@@ -1056,6 +1424,67 @@ export class AbstractProvider implements Provider {
         return await this.#checkNetwork(this.#call(tx, blockTag, _tx.enableCcipRead ? 0: -1));
     }
 
+    /**
+     *  Simulates executing each of the %%blocks%% of calls on top of
+     *  the block for %%options.blockTag%%, using ``eth_simulateV1``.
+     *
+     *  Each call executes on the state resulting from all previous
+     *  calls (including those in previous blocks) and its result
+     *  includes the return data (or error) and any logs emitted.
+     *
+     *  A call which fails does not throw; its result has a ``status``
+     *  of ``0`` and an ``error`` describing the failure.
+     */
+    async simulate(blocks: Array<SimulateBlockRequest>, options?: SimulateOptions): Promise<Array<SimulateBlockResult>> {
+        if (options == null) { options = { }; }
+
+        const { network, blockTag, calls } = await resolveProperties({
+            network: this.getNetwork(),
+            blockTag: this._getBlockTag(options.blockTag),
+            calls: Promise.all(blocks.map((block) => {
+                return Promise.all(block.calls.map((tx, index) => {
+                    assertArgument(tx.stateOverride == null && tx.blockOverrides == null,
+                        "overrides must be specified on the block", `blocks.calls[${ index }]`, tx);
+                    return this._getTransactionRequest(tx);
+                }));
+            }))
+        });
+
+        const simulateBlocks = blocks.map((block, index) => {
+            const result: PerformActionSimulateBlock = { calls: calls[index] };
+            if (block.stateOverride) {
+                result.stateOverride = copyStateOverride(block.stateOverride);
+            }
+            if (block.blockOverrides) {
+                result.blockOverrides = copyBlockOverrides(block.blockOverrides);
+            }
+            return result;
+        });
+
+        const results = await this.#perform<Array<any>>({
+            method: "simulate", blocks: simulateBlocks, blockTag,
+            validation: !!options.validation,
+            traceTransfers: !!options.traceTransfers
+        });
+
+        return results.map((value, blockIndex) => {
+            const block = formatSimulateBlock(value);
+            return Object.freeze(Object.assign({ }, block, {
+                calls: Object.freeze(block.calls.map((call, index) => {
+                    const tx = simulateBlocks[blockIndex].calls[index];
+                    return Object.freeze({
+                        status: call.status,
+                        returnData: call.returnData,
+                        gasUsed: call.gasUsed,
+                        logs: Object.freeze(call.logs.map((log) => this._wrapLog(log, network))),
+                        error: (call.status ? null: this.errorRegistry.updateError(
+                            AbiCoder.getBuiltinCallException("call", tx, call.returnData)))
+                    });
+                }))
+            }));
+        });
+    }
+
     // Account
     async #getAccountValue(request: _PerformAccountRequest, _address: AddressLike, _blockTag?: BlockTag): Promise<any> {
         let address: string | Promise<string> = this._getAddress(_address);
@@ -1169,11 +1598,115 @@ export class AbstractProvider implements Provider {
         return hexlify(result);
     }
 
+    // Resolves a log filter block tag to a block number
+    async #getLogsBlockNumber(blockTag: undefined | BlockTag): Promise<number> {
+        if (typeof(blockTag) === "number") { return blockTag; }
+        if (blockTag == null || blockTag === "latest" || blockTag === "pending") {
+            return await this.getBlockNumber();
+        }
+        if (blockTag === "earliest") { return 0; }
+        if (isHexString(blockTag)) { return getNumber(blockTag); }
+
+        const block = await this.getBlock(blockTag);
+        assert(block != null, "could not resolve block tag", "UNKNOWN_ERROR", {
+            info: { blockTag }
+        });
+        return block.number;
+    }
+
+    // Fetches the logs from %%fromBlock%% to at most %%toBlock%%, halving
+    // the range each time the backend rejects it as too large; resolves
+    // to the logs and the last block actually covered
+    async #getLogsRange(filter: PerformActionFilter, fromBlock: number, toBlock: number): Promise<{ logs: Array<LogParams>, toBlock: number }> {
+        while (true) {
+            try {
+                const logs = await this.#perform<Array<LogParams>>({
+                    method: "getLogs",
+                    filter: Object.assign({ }, filter, {
+                        fromBlock: toQuantity(fromBlock), toBlock: toQuantity(toBlock)
+                    })
+                });
+                return { logs, toBlock };
+            } catch (error) {
+                if (toBlock <= fromBlock || !isLogRangeError(error)) { throw error; }
+                toBlock = fromBlock + Math.floor((toBlock - fromBlock + 1) / 2) - 1;
+            }
+        }
+    }
+
+    async #getLogsPage(filter: PerformActionFilter, fromBlock: number, toBlock: number, blockRange: number, network: Network): Promise<PaginationResult<Log>> {
+        if (fromBlock > toBlock) { return createPaginationResult([ ], null); }
+
+        const endBlock = Math.min(toBlock, fromBlock + blockRange - 1);
+        const range = await this.#getLogsRange(filter, fromBlock, endBlock);
+
+        // If the range was narrowed, subsequent pages use the narrower range
+        if (range.toBlock < endBlock) { blockRange = range.toBlock - fromBlock + 1; }
+
+        const logs = range.logs.map((p) => this._wrapLog(p, network));
+        if (range.toBlock >= toBlock) { return createPaginationResult(logs, null); }
+
+        return createPaginationResult(logs, () => {
+            return this.#getLogsPage(filter, range.toBlock + 1, toBlock, blockRange, network);
+        });
+    }
+
+    async #getLogsPaginated(filter: PerformActionFilter, blockRange: number): Promise<PaginationResult<Log>> {
+        assertArgument(Number.isSafeInteger(blockRange) && blockRange > 0,
+            "invalid blockRange", "blockRange", blockRange);
+        assertArgument(!("blockHash" in filter) || filter.blockHash == null,
+            "cannot paginate a blockHash filter", "filter", filter);
+
+        const { fromBlock, toBlock, ...rest } = <{ fromBlock?: BlockTag, toBlock?: BlockTag }>filter;
+
+        // The end of the range is fixed at the first page, so the pages
+        // do not follow a moving "latest"
+        const resolved = await resolveProperties({
+            network: this.getNetwork(),
+            fromBlock: this.#getLogsBlockNumber(fromBlock),
+            toBlock: this.#getLogsBlockNumber(toBlock)
+        });
+
+        return await this.#getLogsPage(rest, resolved.fromBlock, resolved.toBlock, blockRange, resolved.network);
+    }
+
+    /**
+     *  Resolves to the first page of [[Log]]s matching %%filter%%, where
+     *  each page is the result of a single ``getLogs`` request covering at
+     *  most %%blockRange%% blocks (default: the ``logsBlockRange`` option,
+     *  or ``1000`` if unset).
+     *
+     *  If the backend rejects a request as matching too many logs or
+     *  spanning too many blocks, its range is halved and retried.
+     *
+     *  Logs are returned in order, and may be consumed a page at a time
+     *  using ``next()`` or one at a time using ``for await``.
+     */
+    async getLogsPaginated(_filter: Filter, blockRange?: number): Promise<PaginationResult<Log>> {
+        let filter = this._getFilter(_filter);
+        if (isPromise(filter)) { filter = await filter; }
+
+        if (blockRange == null) { blockRange = (this.#options.logsBlockRange || 1000); }
+
+        return await this.#getLogsPaginated(filter, blockRange);
+    }
+
     // Bloom-filter Queries
     async getLogs(_filter: Filter | FilterByBlockHash): Promise<Array<Log>> {
         let filter = this._getFilter(_filter);
         if (isPromise(filter)) { filter = await filter; }
 
+        const blockRange = this.#options.logsBlockRange;
+        if (blockRange > 0 && !("blockHash" in filter && filter.blockHash != null)) {
+            let page = await this.#getLogsPaginated(filter, blockRange);
+            const logs = page.slice();
+            while (!page.done) {
+                page = await page.next();
+                for (const log of page) { logs.push(log); }
+            }
+            return logs;
+        }
+
         const { network, params } = await resolveProperties({
             network: this.getNetwork(),
             params: this.#perform<Array<LogParams>>({ method: "getLogs", filter })
@@ -1358,7 +1891,14 @@ export class AbstractProvider implements Provider {
             case "transaction":
                 return new PollingTransactionSubscriber(this, sub.hash);
             case "orphan":
+                // Removed logs are emitted by the event subscriber which
+                // emitted the original log
+                if (sub.filter.orphan === "drop-log") {
+                    return new UnmanagedSubscriber("drop-log");
+                }
                 return new PollingOrphanSubscriber(this, sub.filter);
+            case "reorg":
+                return new PollingReorgSubscriber(this);
         }
 
         throw new Error(`unsupported event: ${ sub.type }`);
@@ -1385,12 +1925,52 @@ export class AbstractProvider implements Provider {
         }
     }
 
+    /**
+     *  Calls %%listener%% with each [[ReorgEvent]] detected by the
+     *  provider, starting a [[BlockTracker]] if one is not running.
+     *
+     *  Unlike a ``"reorg"`` event listener, this does not affect the
+     *  listeners of the provider, so it is used by any [[Subscriber]]
+     *  which must account for re-orgs.
+     */
+    _onReorg(listener: (event: ReorgEvent) => void): void {
+        if (this.#reorgs == null) {
+            const listeners: Array<(event: ReorgEvent) => void> = [ ];
+            const subscriber = new PollingBlockTrackerSubscriber(this, (event: ReorgEvent) => {
+                for (const listener of listeners.slice()) { listener(event); }
+            });
+            this.#reorgs = { subscriber, listeners };
+            subscriber.start();
+        }
+        this.#reorgs.listeners.push(listener);
+    }
+
+    /**
+     *  Stops calling %%listener%% for each [[ReorgEvent]], stopping the
+     *  [[BlockTracker]] once there are no remaining listeners.
+     */
+    _offReorg(listener: (event: ReorgEvent) => void): void {
+        const reorgs = this.#reorgs;
+        if (reorgs == null) { return; }
+
+        const index = reorgs.listeners.indexOf(listener);
+        if (index >= 0) { reorgs.listeners.splice(index, 1); }
+
+        if (reorgs.listeners.length === 0) {
+            reorgs.subscriber.stop();
+            this.#reorgs = null;
+        }
+    }
+
     async #hasSub(event: ProviderEvent, emitArgs?: Array<any>): Promise<null | Sub> {
         let sub = await getSubscription(event, this);
         // This is a log that is removing an existing log; we actually want
         // to emit an orphan event for the removed log
         if (sub.type === "event" && emitArgs && emitArgs.length > 0 && emitArgs[0].removed === true) {
-            sub = await getSubscription({ orphan: "drop-log", log: emitArgs[0] }, this);
+            const { transactionHash, blockHash, blockNumber, address, data, topics, index } = emitArgs[0];
+            sub = await getSubscription({ orphan: "drop-log", log: {
+                transactionHash, blockHash, blockNumber, address, data, topics, index
+            } }, this);
         }
         return this.#subs.get(sub.tag) || null;
     }
@@ -14,8 +14,10 @@ import {
 
 import { copyRequest } from "./provider.js";
 
-import type { TypedDataDomain, TypedDataField } from "../hash/index.js";
-import type { TransactionLike } from "../transaction/index.js";
+import type {
+    AuthorizationRequest, TypedDataDomain, TypedDataField
+} from "../hash/index.js";
+import type { Authorization, TransactionLike } from "../transaction/index.js";
 
 import type {
     BlockTag, Provider, TransactionRequest, TransactionResponse
@@ -97,6 +99,11 @@ export abstract class AbstractSigner<P extends null | Provider = null | Provider
 
         const pop = await populate(this, tx);
 
+        // An authorization list is only supported by EIP-7702 transactions
+        if (pop.type == null && pop.authorizationList != null && pop.authorizationList.length) {
+            pop.type = 4;
+        }
+
         if (pop.nonce == null) {
             pop.nonce = await this.getNonce("pending");
         }
@@ -116,7 +123,7 @@ export abstract class AbstractSigner<P extends null | Provider = null | Provider
 
         // Do not allow mixing pre-eip-1559 and eip-1559 properties
         const hasEip1559 = (pop.maxFeePerGas != null || pop.maxPriorityFeePerGas != null);
-        if (pop.gasPrice != null && (pop.type === 2 || hasEip1559)) {
+        if (pop.gasPrice != null && (pop.type === 2 || pop.type === 4 || hasEip1559)) {
             assertArgument(false, "eip-1559 transaction do not support gasPrice", "tx", tx);
         } else if ((pop.type === 0 || pop.type === 1) && hasEip1559) {
             assertArgument(false, "pre-eip-1559 transaction do not support maxFeePerGas/maxPriorityFeePerGas", "tx", tx);
@@ -194,8 +201,8 @@ export abstract class AbstractSigner<P extends null | Provider = null | Provider
                         operation: "signer.getFeeData" });
                 }
 
-            } else if (pop.type === 2 || pop.type === 3) {
-                // Explicitly using EIP-1559 or EIP-4844
+            } else if (pop.type === 2 || pop.type === 3 || pop.type === 4) {
+                // Explicitly using EIP-1559, EIP-4844 or EIP-7702
 
                 // Populate missing fee data
                 if (pop.maxFeePerGas == null) {
@@ -213,6 +220,21 @@ export abstract class AbstractSigner<P extends null | Provider = null | Provider
         return await resolveProperties(pop);
     }
 
+    async populateAuthorization(_auth: AuthorizationRequest): Promise<AuthorizationRequest> {
+        const auth = Object.assign({ }, _auth);
+
+        // Add a chain ID if not explicitly set to 0
+        if (auth.chainId == null) {
+            auth.chainId = (await checkProvider(this, "getNetwork").getNetwork()).chainId;
+        }
+
+        if (auth.nonce == null) { auth.nonce = await this.getNonce("pending"); }
+
+        auth.address = await resolveAddress(auth.address, this);
+
+        return auth;
+    }
+
     async estimateGas(tx: TransactionRequest): Promise<bigint> {
         return checkProvider(this, "estimateGas").estimateGas(await this.populateCall(tx));
     }
@@ -238,6 +260,11 @@ export abstract class AbstractSigner<P extends null | Provider = null | Provider
     abstract signTransaction(tx: TransactionRequest): Promise<string>;
     abstract signMessage(message: string | Uint8Array): Promise<string>;
     abstract signTypedData(domain: TypedDataDomain, types: Record<string, Array<TypedDataField>>, value: Record<string, any>): Promise<string>;
+
+    async authorize(auth: AuthorizationRequest): Promise<Authorization> {
+        assert(false, "authorization not implemented for this signer",
+          "UNSUPPORTED_OPERATION", { operation: "authorize" });
+    }
 }
 
 /**
@@ -284,5 +311,9 @@ export class VoidSigner extends AbstractSigner {
     async signTypedData(domain: TypedDataDomain, types: Record<string, Array<TypedDataField>>, value: Record<string, any>): Promise<string> {
         this.#throwUnsupported("typed-data", "signTypedData");
     }
+
+    async authorize(auth: AuthorizationRequest): Promise<Authorization> {
+        this.#throwUnsupported("authorizations", "authorize");
+    }
 }
 
@@ -0,0 +1,247 @@
+/**
+ *  A **BlockTracker** maintains a window of the most recent canonical
+ *  block headers, which allows chain re-organizations to be detected
+ *  and reconciled.
+ *
+ *  @_subsection: api/providers:Block Tracker  [about-block-tracker]
+ */
+
+import { assertArgument } from "../utils/index.js";
+
+import type { BlockTag, Provider } from "./provider.js";
+
+
+/**
+ *  The minimal details of a block tracked by a [[BlockTracker]].
+ */
+export interface BlockHeader {
+    /**
+     *  The block hash.
+     */
+    readonly hash: string;
+
+    /**
+     *  The hash of the parent block.
+     */
+    readonly parentHash: string;
+
+    /**
+     *  The block number.
+     */
+    readonly number: number;
+}
+
+/**
+ *  A **ReorgEvent** describes a chain re-organization, which replaced
+ *  the blocks in %%removed%% with the blocks in %%added%%.
+ */
+export interface ReorgEvent {
+    /**
+     *  The most recent block shared by both the old and new chain.
+     */
+    readonly commonAncestor: BlockHeader;
+
+    /**
+     *  The blocks which are no longer canonical, in ascending order.
+     */
+    readonly removed: ReadonlyArray<BlockHeader>;
+
+    /**
+     *  The blocks which replaced the removed blocks, in ascending order.
+     */
+    readonly added: ReadonlyArray<BlockHeader>;
+}
+
+function toHeader(block: BlockHeader): BlockHeader {
+    return Object.freeze({
+        hash: block.hash,
+        parentHash: block.parentHash,
+        number: block.number
+    });
+}
+
+/**
+ *  A **BlockTracker** keeps a window of the most recent %%depth%%
+ *  canonical block headers.
+ *
+ *  Each time a new block is observed, its ancestry is compared against
+ *  the tracked headers by parent hash. If the new block does not
+ *  extend the tracked chain, the tracker walks back along the new chain
+ *  until it finds the common ancestor, replacing any tracked headers
+ *  after it and reporting the change as a [[ReorgEvent]].
+ *
+ *  A re-organization deeper than %%depth%% blocks cannot be reconciled,
+ *  in which case the tracker discards its window and begins again from
+ *  the new block.
+ */
+export class BlockTracker {
+    /**
+     *  The provider used to fetch blocks.
+     */
+    readonly provider: Provider;
+
+    /**
+     *  The maximum number of headers to track, which is also the maximum
+     *  depth of a re-organization which can be detected.
+     */
+    readonly depth!: number;
+
+    #headers: Array<BlockHeader>;
+    #pending: Promise<null | ReorgEvent>;
+
+    /**
+     *  Create a new **BlockTracker** for %%provider%%, tracking up to
+     *  %%depth%% headers (default: ``64``).
+     */
+    constructor(provider: Provider, depth?: number) {
+        if (depth == null) { depth = 64; }
+        assertArgument(Number.isSafeInteger(depth) && depth > 0, "invalid depth", "depth", depth);
+
+        this.provider = provider;
+        this.depth = depth;
+
+        this.#headers = [ ];
+        this.#pending = Promise.resolve(null);
+    }
+
+    /**
+     *  The tracked headers, in ascending order.
+     */
+    get headers(): Array<BlockHeader> {
+        return this.#headers.slice();
+    }
+
+    /**
+     *  The most recent canonical header, or ``null`` if no block has
+     *  been observed yet.
+     */
+    get head(): null | BlockHeader {
+        if (this.#headers.length === 0) { return null; }
+        return this.#headers[this.#headers.length - 1];
+    }
+
+    /**
+     *  Returns the tracked header for %%blockNumber%%, or ``null`` if it
+     *  is outside the tracked window.
+     */
+    getHeader(blockNumber: number): null | BlockHeader {
+        for (const header of this.#headers) {
+            if (header.number === blockNumber) { return header; }
+        }
+        return null;
+    }
+
+    /**
+     *  Returns true if %%blockHash%% is a tracked canonical block.
+     */
+    isCanonical(blockHash: string): boolean {
+        blockHash = blockHash.toLowerCase();
+        return this.#headers.some((h) => (h.hash.toLowerCase() === blockHash));
+    }
+
+    /**
+     *  Discard all tracked headers.
+     */
+    reset(): void {
+        this.#headers = [ ];
+    }
+
+    /**
+     *  Fetches the block for %%blockTag%% (default: ``"latest"``) and
+     *  reconciles it against the tracked chain, resolving to a
+     *  [[ReorgEvent]] if any tracked blocks were removed.
+     *
+     *  Calls are processed in order, so overlapping calls never observe
+     *  a partially reconciled chain.
+     */
+    update(blockTag?: BlockTag): Promise<null | ReorgEvent> {
+        const result = this.#pending.then(async () => {
+            const block = await this.provider.getBlock(blockTag || "latest");
+            if (block == null || block.hash == null) { return null; }
+            return await this.#reconcile(toHeader(<BlockHeader>block));
+        });
+
+        // Failures are reported to the caller, but must not poison
+        // subsequent updates
+        this.#pending = result.catch(() => null);
+
+        return result;
+    }
+
+    async #reconcile(head: BlockHeader): Promise<null | ReorgEvent> {
+        const headers = this.#headers;
+
+        // First block observed
+        if (headers.length === 0) {
+            this.#headers = [ head ];
+            return null;
+        }
+
+        // Already known (e.g. a lagging backend returned an older block)
+        if (this.isCanonical(head.hash)) { return null; }
+
+        // Too far ahead to have any overlap with the window; start over
+        const oldest = headers[0];
+        if (head.number - this.depth > headers[headers.length - 1].number) {
+            this.#headers = [ head ];
+            return null;
+        }
+
+        // Walk back along the new chain until reaching a tracked block
+        const added: Array<BlockHeader> = [ head ];
+        while (true) {
+            const current = added[0];
+
+            const parentHash = current.parentHash.toLowerCase();
+            const index = headers.findIndex((h) => (h.hash.toLowerCase() === parentHash));
+            if (index >= 0) {
+                return this.#replace(headers[index], headers.slice(index + 1), added);
+            }
+
+            // The oldest tracked block was replaced, but the parent it
+            // shares with its replacement is the common ancestor
+            if (current.number === oldest.number && parentHash === oldest.parentHash.toLowerCase()) {
+                const ancestor = await this.provider.getBlock(current.parentHash);
+                if (ancestor == null || ancestor.hash == null) { return null; }
+                return this.#replace(toHeader(<BlockHeader>ancestor), headers, added);
+            }
+
+            // The common ancestor is older than the window; we cannot
+            // determine what was removed, so start over
+            if (current.number <= oldest.number) {
+                this.#headers = added;
+                this.#trim();
+                return null;
+            }
+
+            const parent = await this.provider.getBlock(current.parentHash);
+
+            // The new chain was itself replaced while walking back; the
+            // next update will reconcile against the newer chain
+            if (parent == null || parent.hash == null) { return null; }
+
+            added.unshift(toHeader(<BlockHeader>parent));
+        }
+    }
+
+    #replace(commonAncestor: BlockHeader, removed: Array<BlockHeader>, added: Array<BlockHeader>): null | ReorgEvent {
+        this.#headers = this.#headers.slice(0, this.#headers.length - removed.length);
+        if (this.#headers.length === 0) { this.#headers.push(commonAncestor); }
+        this.#headers = this.#headers.concat(added);
+        this.#trim();
+
+        if (removed.length === 0) { return null; }
+
+        return Object.freeze({
+            commonAncestor,
+            removed: Object.freeze(removed),
+            added: Object.freeze(added)
+        });
+    }
+
+    #trim(): void {
+        if (this.#headers.length > this.depth) {
+            this.#headers = this.#headers.slice(this.#headers.length - this.depth);
+        }
+    }
+}
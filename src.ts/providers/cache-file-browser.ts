@@ -0,0 +1,3 @@
+const FileProviderCache = undefined;
+
+export { FileProviderCache };
@@ -0,0 +1,74 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+
+import { id } from "../hash/index.js";
+import { defineProperties } from "../utils/index.js";
+
+import type { ProviderCache } from "./cache.js";
+
+
+/**
+ *  A **FileProviderCache** stores each entry as a JSON file within a
+ *  directory, so the cache persists across processes.
+ *
+ *  Since values are serialized as JSON, this should only be used with
+ *  a provider whose [[AbstractProvider-_perform]] returns JSON values,
+ *  such as a [[JsonRpcProvider]].
+ */
+export class FileProviderCache implements ProviderCache {
+    /**
+     *  The directory the cache entries are stored in.
+     */
+    readonly path!: string;
+
+    #ready: null | Promise<void>;
+
+    /**
+     *  Create a new **FileProviderCache** storing entries in the
+     *  directory %%path%%, which is created if it does not exist.
+     */
+    constructor(path: string) {
+        this.#ready = null;
+        defineProperties<FileProviderCache>(this, { path });
+    }
+
+    #filename(key: string): string {
+        return join(this.path, id(key).substring(2) + ".json");
+    }
+
+    async get(key: string): Promise<undefined | any> {
+        let data: string;
+        try {
+            data = await readFile(this.#filename(key), "utf8");
+        } catch (error: any) {
+            if (error.code === "ENOENT") { return undefined; }
+            throw error;
+        }
+
+        try {
+            const entry = JSON.parse(data);
+
+            // Guard against (however unlikely) filename collisions
+            if (entry.key === key) { return entry.value; }
+        } catch (error) {
+            // A corrupt entry is treated as missing; it will be
+            // overwritten on the next set
+        }
+
+        return undefined;
+    }
+
+    async set(key: string, value: any): Promise<void> {
+        if (this.#ready == null) {
+            this.#ready = mkdir(this.path, { recursive: true }).then(() => { });
+        }
+        await this.#ready;
+
+        // Write to a temporary file first, so a concurrent reader never
+        // sees a partially written entry
+        const filename = this.#filename(key);
+        const tmp = `${ filename }.${ process.pid }.${ Math.random().toString(16).substring(2) }`;
+        await writeFile(tmp, JSON.stringify({ key, value }));
+        await rename(tmp, filename);
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ *  A **ProviderCache** persists the results of operations which can
+ *  no longer change, such as a block fetched by its hash, so that
+ *  re-reading historic data does not require re-fetching it from the
+ *  backend.
+ *
+ *  @_subsection: api/providers:Caching  [provider-cache]
+ */
+
+import { assertArgument } from "../utils/index.js";
+
+
+/**
+ *  A **ProviderCache** stores the results of immutable provider
+ *  operations.
+ *
+ *  The %%key%% includes the chain ID and all the parameters of the
+ *  operation, and the %%value%% is the raw result from the
+ *  [[AbstractProvider-_perform]], which must be considered read-only.
+ */
+export interface ProviderCache {
+    /**
+     *  Resolves to the value for %%key%% or ``undefined`` if the
+     *  value is not present in the cache.
+     */
+    get(key: string): Promise<undefined | any>;
+
+    /**
+     *  Stores %%value%% for %%key%%.
+     */
+    set(key: string, value: any): Promise<void>;
+}
+
+/**
+ *  A **MemoryProviderCache** keeps the most recently used entries in
+ *  memory, evicting the least recently used entry once the cache is
+ *  full.
+ */
+export class MemoryProviderCache implements ProviderCache {
+    #maxSize: number;
+    #entries: Map<string, any>;
+
+    /**
+     *  Create a new **MemoryProviderCache** which holds at most
+     *  %%maxSize%% entries (default: ``1000``).
+     */
+    constructor(maxSize?: number) {
+        if (maxSize == null) { maxSize = 1000; }
+        assertArgument(Number.isSafeInteger(maxSize) && maxSize > 0, "invalid maxSize", "maxSize", maxSize);
+
+        this.#maxSize = maxSize;
+        this.#entries = new Map();
+    }
+
+    /**
+     *  The maximum number of entries this cache holds.
+     */
+    get maxSize(): number { return this.#maxSize; }
+
+    /**
+     *  The number of entries currently in the cache.
+     */
+    get size(): number { return this.#entries.size; }
+
+    async get(key: string): Promise<undefined | any> {
+        if (!this.#entries.has(key)) { return undefined; }
+
+        // Move the entry to the most-recently-used position
+        const value = this.#entries.get(key);
+        this.#entries.delete(key);
+        this.#entries.set(key, value);
+
+        return value;
+    }
+
+    async set(key: string, value: any): Promise<void> {
+        this.#entries.delete(key);
+        this.#entries.set(key, value);
+
+        // Evict the least-recently-used entries (the first in the Map)
+        while (this.#entries.size > this.#maxSize) {
+            const oldest = this.#entries.keys().next().value;
+            if (oldest == null) { break; }
+            this.#entries.delete(oldest);
+        }
+    }
+
+    /**
+     *  Removes all entries from the cache.
+     */
+    clear(): void {
+        this.#entries.clear();
+    }
+}
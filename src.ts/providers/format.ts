@@ -9,8 +9,10 @@ import {
     assert, assertArgument
 } from "../utils/index.js";
 
+import type { Authorization } from "../transaction/index.js";
+
 import type {
-    BlockParams, LogParams,
+    BlockParams, LogParams, SimulateBlockParams,
     TransactionReceiptParams, TransactionResponseParams,
 } from "./formatting.js";
 
@@ -193,6 +195,19 @@ export function formatTransactionReceipt(value: any): TransactionReceiptParams {
     return _formatTransactionReceipt(value);
 }
 
+const _formatAuthorization = object({
+    address: getAddress,
+    nonce: getBigInt,
+    chainId: getBigInt,
+    signature: (v: any) => v
+});
+
+function formatAuthorization(value: any): Authorization {
+    return _formatAuthorization(Object.assign({ }, value, {
+        signature: Signature.from(value.signature || value)
+    }));
+}
+
 export function formatTransactionResponse(value: any): TransactionResponseParams {
 
     // Some clients (TestRPC) do strange things like return 0x0 for the
@@ -213,6 +228,7 @@ export function formatTransactionResponse(value: any): TransactionResponseParams
         },
         accessList: allowNull(accessListify, null),
         blobVersionedHashes: allowNull(arrayOf(formatHash, true), null),
+        authorizationList: allowNull(arrayOf(formatAuthorization), null),
 
         blockHash: allowNull(formatHash, null),
         blockNumber: allowNull(getNumber, null),
@@ -249,7 +265,7 @@ export function formatTransactionResponse(value: any): TransactionResponseParams
     // @TODO: Check fee data
 
     // Add an access list to supported transaction types
-    if ((value.type === 1 || value.type === 2) && value.accessList == null) {
+    if ((value.type === 1 || value.type === 2 || value.type === 4) && value.accessList == null) {
         result.accessList = [ ];
     }
 
@@ -309,3 +325,24 @@ export function formatTransactionResponse(value: any): TransactionResponseParams
 
     return result;
 }
+
+const _formatSimulateCall = object({
+    status: getNumber,
+    returnData: formatData,
+    gasUsed: getBigInt,
+    logs: arrayOf(formatLog)
+});
+
+const _formatSimulateBlock = object({
+    number: getNumber,
+    hash: formatHash,
+    timestamp: getNumber,
+    gasLimit: getBigInt,
+    gasUsed: getBigInt,
+    baseFeePerGas: allowNull(getBigInt, null),
+    calls: arrayOf(_formatSimulateCall)
+});
+
+export function formatSimulateBlock(value: any): SimulateBlockParams {
+    return _formatSimulateBlock(value);
+}
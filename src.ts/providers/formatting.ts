@@ -5,7 +5,7 @@
  */
 
 import type { Signature } from "../crypto/index.js";
-import type { AccessList } from "../transaction/index.js";
+import type { AccessList, Authorization } from "../transaction/index.js";
 
 
 //////////////////////
@@ -407,6 +407,80 @@ export interface TransactionResponseParams {
      *  The [[link-eip-4844]] BLOb versioned hashes.
      */
     blobVersionedHashes?: null | Array<string>;
+
+    /**
+     *  The [[link-eip-7702]] authorizations (if any).
+     */
+    authorizationList?: null | Array<Authorization>;
 };
 
 
+//////////////////////
+// Simulation
+
+/**
+ *  a **SimulateCallParams** encodes the minimal required properties
+ *  for a formatted simulated call result.
+ */
+export interface SimulateCallParams {
+    /**
+     *  The status of the call, ``1`` for success or ``0`` for failure.
+     */
+    status: number;
+
+    /**
+     *  The data returned by the call, or the revert data if it reverted.
+     */
+    returnData: string;
+
+    /**
+     *  The gas used by the call.
+     */
+    gasUsed: bigint;
+
+    /**
+     *  The logs emitted by the call.
+     */
+    logs: Array<LogParams>;
+}
+
+/**
+ *  a **SimulateBlockParams** encodes the minimal required properties
+ *  for a formatted simulated block result.
+ */
+export interface SimulateBlockParams {
+    /**
+     *  The simulated block number.
+     */
+    number: number;
+
+    /**
+     *  The simulated block hash.
+     */
+    hash: string;
+
+    /**
+     *  The simulated block timestamp.
+     */
+    timestamp: number;
+
+    /**
+     *  The simulated block gas limit.
+     */
+    gasLimit: bigint;
+
+    /**
+     *  The gas used by all calls in the simulated block.
+     */
+    gasUsed: bigint;
+
+    /**
+     *  The simulated block base fee, if any.
+     */
+    baseFeePerGas: null | bigint;
+
+    /**
+     *  The result of each call, in order.
+     */
+    calls: Array<SimulateCallParams>;
+}
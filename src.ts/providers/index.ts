@@ -20,6 +20,10 @@ export {
     VoidSigner,
 } from "./abstract-signer.js";
 
+export { BlockTracker } from "./block-tracker.js";
+
+export { MemoryProviderCache } from "./cache.js";
+
 export {
     showThrottleMessage
 } from "./community.js";
@@ -34,6 +38,7 @@ export {
 export { Network } from "./network.js";
 
 export { NonceManager } from "./signer-noncemanager.js";
+export { SmartAccountSigner } from "./signer-smartaccount.js";
 
 export {
     NetworkPlugin,
@@ -54,10 +59,17 @@ export {
     //resolveTransactionRequest,
 } from "./provider.js";
 
+export {
+    EntryPointV06, EntryPointV07,
+    getEntryPointVersion, getUserOperationHash, getUserOperationInitCode,
+    getUserOperationPaymasterAndData, packUserOperation, userOperationFrom
+} from "./user-operation.js";
+
 export { FallbackProvider } from "./provider-fallback.js";
 export { JsonRpcApiProvider, JsonRpcProvider, JsonRpcSigner } from "./provider-jsonrpc.js"
 
 export { BrowserProvider } from "./provider-browser.js";
+export { BundlerProvider } from "./provider-bundler.js";
 
 export { AlchemyProvider } from "./provider-alchemy.js";
 export { AnkrProvider } from "./provider-ankr.js";
@@ -68,6 +80,9 @@ export { InfuraProvider, InfuraWebSocketProvider } from "./provider-infura.js";
 export { PocketProvider } from "./provider-pocket.js";
 export { QuickNodeProvider } from "./provider-quicknode.js";
 
+import { FileProviderCache } from "./cache-file.js"; /*-browser*/
+export { FileProviderCache };
+
 import { IpcSocketProvider } from "./provider-ipcsocket.js"; /*-browser*/
 export { IpcSocketProvider };
 export { SocketProvider } from "./provider-socket.js";
@@ -82,13 +97,18 @@ export type {
     AbstractProviderOptions, Subscription, Subscriber,
     AbstractProviderPlugin,
     PerformActionFilter, PerformActionTransaction, PerformActionRequest,
+    PerformActionSimulateBlock,
 } from "./abstract-provider.js"
 
+export type { BlockHeader, ReorgEvent } from "./block-tracker.js";
+
+export type { ProviderCache } from "./cache.js";
+
 export type { ContractRunner } from "./contracts.js";
 
 export type {
-    BlockParams, LogParams, TransactionReceiptParams,
-    TransactionResponseParams,
+    BlockParams, LogParams, SimulateBlockParams, SimulateCallParams,
+    TransactionReceiptParams, TransactionResponseParams,
 } from "./formatting.js";
 
 /*
@@ -102,32 +122,66 @@ export type {
 */
 export type { Networkish } from "./network.js";
 
+export type { PaginationResult } from "./pagination.js";
+
 export type { GasCostParameters } from "./plugins-network.js";
 
 export type {
-    BlockTag,
+    AccountOverride, BlockOverrides, BlockTag, StateOverride,
     TransactionRequest, PreparedTransactionRequest,
     EventFilter, Filter, FilterByBlockHash, OrphanFilter, ProviderEvent,
     TopicFilter,
     Provider,
-    MinedBlock, MinedTransactionResponse
+    MinedBlock, MinedTransactionResponse,
+    SimulateBlockRequest, SimulateBlockResult, SimulateCallResult, SimulateOptions
 } from "./provider.js";
 
 export type {
-    BrowserProviderOptions, DebugEventBrowserProvider, Eip1193Provider
+    BrowserDiscoverOptions, BrowserProviderOptions, DebugEventBrowserProvider,
+    Eip1193Provider, Eip6963EventTarget, Eip6963ProviderDetail, Eip6963ProviderInfo
 } from "./provider-browser.js";
 
-export type { FallbackProviderOptions } from "./provider-fallback.js";
+export type {
+    UserOperationGasEstimate, UserOperationReceipt
+} from "./provider-bundler.js";
+
+export type {
+    EtherscanContractSource, EtherscanHistoryOptions, EtherscanInternalTransaction,
+    EtherscanProviderOptions
+} from "./provider-etherscan.js";
+
+export type {
+    FallbackCircuitState, FallbackMethodPolicy, FallbackProviderOptions,
+    FallbackProviderStats, FallbackQuorumStrategy
+} from "./provider-fallback.js";
 
 export type {
     JsonRpcPayload, JsonRpcResult, JsonRpcError,
     JsonRpcApiProviderOptions,
     JsonRpcTransactionRequest,
+    WalletAddChainOptions, WalletCallsStatus, WalletPermission, WalletSendCallsOptions,
+    WalletWatchAssetOptions
 } from "./provider-jsonrpc.js";
 
+export type { SocketProviderOptions } from "./provider-socket.js";
+
 export type {
     WebSocketCreator, WebSocketLike
 } from "./provider-websocket.js";
 
 export type { Signer } from "./signer.js";
 
+export type {
+    SmartAccountCall, SmartAccountSignerOptions
+} from "./signer-smartaccount.js";
+
+export type {
+    CallFrame, CallFrameLog, CallTraceOptions, DecodedCall, FlatTrace,
+    PrestateAccount, PrestateDiffTrace, PrestateTrace, PrestateTraceOptions,
+    StructLog, StructLogTrace, StructLogTraceOptions, TraceInterfaces,
+    TraceOptions, TraceOptionsBase
+} from "./trace.js";
+
+export type {
+    EntryPointVersion, PackedUserOperation, UserOperation, UserOperationLike
+} from "./user-operation.js";
@@ -1,3 +1,10 @@
+/**
+ *  A **PaginationResult** is a page of results, which can be used to
+ *  fetch the next page of results.
+ *
+ *  It can also be used as an async iterator, which yields each result
+ *  of this and all subsequent pages, fetching each page as needed.
+ */
 export interface PaginationResult<R> extends Array<R> {
     next(): Promise<PaginationResult<R>>;
 
@@ -5,4 +12,35 @@ export interface PaginationResult<R> extends Array<R> {
     totalResults: null | number;
 
     done: boolean;
+
+    [Symbol.asyncIterator](): AsyncIterator<R>;
+}
+
+/**
+ *  Create a new [[PaginationResult]] with the %%results%%, where
+ *  %%next%% fetches the following page, or is ``null`` if this is the
+ *  last page.
+ *
+ *  @_ignore:
+ */
+export function createPaginationResult<R>(results: Array<R>, next: null | (() => Promise<PaginationResult<R>>)): PaginationResult<R> {
+    const page = <PaginationResult<R>>(results.slice());
+    page.totalResults = null;
+    page.done = (next == null);
+
+    page.next = async function() {
+        if (next == null) { return createPaginationResult<R>([ ], null); }
+        return await next();
+    };
+
+    page[Symbol.asyncIterator] = async function*() {
+        let current = page;
+        while (true) {
+            for (const result of current) { yield result; }
+            if (current.done) { break; }
+            current = await current.next();
+        }
+    };
+
+    return page;
 }
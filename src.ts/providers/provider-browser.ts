@@ -1,7 +1,11 @@
-import { assertArgument } from "../utils/index.js";
+import { getAddress } from "../address/index.js";
+import { assertArgument, getBigInt, makeError } from "../utils/index.js";
 
+import { UnmanagedSubscriber } from "./abstract-provider.js";
 import { JsonRpcApiPollingProvider } from "./provider-jsonrpc.js";
 
+import type { Subscriber, Subscription } from "./abstract-provider.js";
+
 import type {
     JsonRpcApiProviderOptions,
     JsonRpcError, JsonRpcPayload, JsonRpcResult,
@@ -19,6 +23,88 @@ export interface Eip1193Provider {
      *  See [[link-eip-1193]] for details on this method.
      */
     request(request: { method: string, params?: Array<any> | Record<string, any> }): Promise<any>;
+
+    /**
+     *  Adds a %%listener%% for %%event%% (e.g. ``"accountsChanged"``),
+     *  if the provider supports events.
+     */
+    on?(event: string, listener: (...args: Array<any>) => void): any;
+
+    /**
+     *  Removes a %%listener%% for %%event%%.
+     */
+    removeListener?(event: string, listener: (...args: Array<any>) => void): any;
+};
+
+/**
+ *  The information a wallet provides about itself when it announces
+ *  its provider, as specified by [[link-eip-6963]].
+ */
+export interface Eip6963ProviderInfo {
+    /**
+     *  A unique identifier (UUIDv4) for the provider, which is
+     *  unique for each session.
+     */
+    uuid: string;
+
+    /**
+     *  The human-readable name of the wallet.
+     */
+    name: string;
+
+    /**
+     *  The icon of the wallet, as a data URI.
+     */
+    icon: string;
+
+    /**
+     *  The reverse-DNS identifier of the wallet (e.g. ``"io.metamask"``).
+     */
+    rdns: string;
+}
+
+/**
+ *  A wallet provider announced using [[link-eip-6963]].
+ */
+export interface Eip6963ProviderDetail {
+    /**
+     *  The wallet information.
+     */
+    info: Eip6963ProviderInfo;
+
+    /**
+     *  The wallet [[link-eip-1193]] provider.
+     */
+    provider: Eip1193Provider;
+}
+
+/**
+ *  The target [[link-eip-6963]] events are dispatched on, which is
+ *  normally the browser ``window``.
+ */
+export interface Eip6963EventTarget {
+    addEventListener(type: string, listener: (event: any) => void): void;
+    removeEventListener(type: string, listener: (event: any) => void): void;
+    dispatchEvent(event: any): boolean;
+}
+
+/**
+ *  The options for discovering wallets using [[link-eip-6963]].
+ *
+ *  **``window``** - the target to discover wallets on
+ *  (default: the global ``window``)
+ *
+ *  **``timeout``** - how long (ms) to wait for wallets to announce
+ *  themselves (default: ``300``)
+ *
+ *  **``filter``** - for [[BrowserProvider-discover]], selects which of
+ *  the discovered wallets to use, or ``null`` (or ``undefined``) for
+ *  none (default: the first wallet)
+ */
+export type BrowserDiscoverOptions = {
+    window?: Eip6963EventTarget;
+    timeout?: number;
+    filter?: (found: Array<Eip6963ProviderInfo>) => null | undefined | Eip6963ProviderInfo | Promise<null | undefined | Eip6963ProviderInfo>;
 };
 
 /**
@@ -36,22 +122,46 @@ export type DebugEventBrowserProvider = {
     error: Error
 };
 
+/**
+ *  The options for a [[BrowserProvider]].
+ *
+ *  **``providerInfo``** - the [[link-eip-6963]] information of the
+ *  wallet, if it was discovered (default: ``null``)
+ */
 export type BrowserProviderOptions = {
     polling?: boolean;
     staticNetwork?: null | boolean | Network;
 
     cacheTimeout?: number;
     pollingInterval?: number;
+
+    providerInfo?: Eip6963ProviderInfo;
 };
 
+const Eip1193Events = [ "accountsChanged", "chainChanged", "disconnect" ];
+
 /**
  *  A **BrowserProvider** is intended to wrap an injected provider which
  *  adheres to the [[link-eip-1193]] standard, which most (if not all)
  *  currently do.
+ *
+ *  Since multiple wallets may be installed, each competing for the
+ *  global ``window.ethereum``, wallets which support [[link-eip-6963]]
+ *  can be found using [[BrowserProvider-discover]].
+ *
+ *  If the wallet supports events, the ``"accountsChanged"`` (with the
+ *  array of addresses), ``"chainChanged"`` (with the chain ID as a
+ *  bigint) and ``"disconnect"`` (with the error) events are forwarded
+ *  as provider events.
  */
 export class BrowserProvider extends JsonRpcApiPollingProvider {
     #request: (method: string, params: Array<any> | Record<string, any>) => Promise<any>;
 
+    #providerInfo: null | Eip6963ProviderInfo;
+
+    #ethereum: Eip1193Provider;
+    #listeners: Record<string, (...args: Array<any>) => void>;
+
     /**
      *  Connnect to the %%ethereum%% provider, optionally forcing the
      *  %%network%%.
@@ -62,10 +172,50 @@ export class BrowserProvider extends JsonRpcApiPollingProvider {
           ((_options != null) ? _options: { }),
           { batchMaxCount: 1 });
 
+        const providerInfo = (_options && _options.providerInfo) || null;
+        delete (<any>options).providerInfo;
+
         assertArgument(ethereum && ethereum.request, "invalid EIP-1193 provider", "ethereum", ethereum);
 
         super(network, options);
 
+        this.#providerInfo = providerInfo ? Object.assign({ }, providerInfo): null;
+
+        this.#ethereum = ethereum;
+        this.#listeners = {
+            // Malformed values are emitted as an "error", rather than
+            // throwing into the wallet's event dispatcher
+            accountsChanged: (accounts: Array<string>) => {
+                let addresses: Array<string>;
+                try {
+                    addresses = accounts.map((a) => getAddress(a));
+                } catch (error) {
+                    this.emit("error", makeError("invalid accountsChanged event", "BAD_DATA", { value: accounts, info: { error } }));
+                    return;
+                }
+                this.emit("accountsChanged", addresses);
+            },
+            chainChanged: (chainId: string) => {
+                let value: bigint;
+                try {
+                    value = getBigInt(chainId);
+                } catch (error) {
+                    this.emit("error", makeError("invalid chainChanged event", "BAD_DATA", { value: chainId, info: { error } }));
+                    return;
+                }
+                this.emit("chainChanged", value);
+            },
+            disconnect: (error: any) => {
+                this.emit("disconnect", error);
+            }
+        };
+
+        if (typeof(ethereum.on) === "function") {
+            for (const event of Eip1193Events) {
+                ethereum.on(event, this.#listeners[event]);
+            }
+        }
+
         this.#request = async (method: string, params: Array<any> | Record<string, any>) => {
             const payload = { method, params };
             this.emit("debug", { action: "sendEip1193Request", payload });
@@ -84,6 +234,14 @@ export class BrowserProvider extends JsonRpcApiPollingProvider {
         };
     }
 
+    /**
+     *  The [[link-eip-6963]] information of the wallet, or ``null`` if
+     *  it was not discovered.
+     */
+    get providerInfo(): null | Eip6963ProviderInfo {
+        return (this.#providerInfo != null) ? Object.assign({ }, this.#providerInfo): null;
+    }
+
     async send(method: string, params: Array<any> | Record<string, any>): Promise<any> {
         await this._start();
 
@@ -154,4 +312,99 @@ export class BrowserProvider extends JsonRpcApiPollingProvider {
 
         return await super.getSigner(address);
     }
+
+    _getSubscriber(sub: Subscription): Subscriber {
+        switch (sub.type) {
+            case "accountsChanged": case "chainChanged": case "disconnect":
+                return new UnmanagedSubscriber(sub.type);
+        }
+        return super._getSubscriber(sub);
+    }
+
+    destroy(): void {
+        const ethereum = this.#ethereum;
+        if (typeof(ethereum.removeListener) === "function") {
+            for (const event of Eip1193Events) {
+                ethereum.removeListener(event, this.#listeners[event]);
+            }
+        }
+
+        super.destroy();
+    }
+
+    /**
+     *  Resolves to the wallets which announce themselves using
+     *  [[link-eip-6963]] within the %%options.timeout%%.
+     *
+     *  If there is no ``window`` (e.g. in Node.js), resolves to an
+     *  empty array.
+     */
+    static async discoverProviders(options?: BrowserDiscoverOptions): Promise<Array<Eip6963ProviderDetail>> {
+        if (options == null) { options = { }; }
+
+        const context: null | Eip6963EventTarget = options.window || (<any>globalThis).window || null;
+        if (context == null || typeof(context.addEventListener) !== "function") { return [ ]; }
+
+        const timeout = (options.timeout != null) ? options.timeout: 300;
+
+        return await new Promise((resolve) => {
+            const found: Array<Eip6963ProviderDetail> = [ ];
+
+            const addProvider = (event: any) => {
+                const detail = event.detail;
+                if (!detail || !detail.info || !detail.provider) { return; }
+
+                // Wallets may announce themselves more than once
+                const { info, provider } = detail;
+                if (found.some((f) => (f.info.uuid === info.uuid))) { return; }
+
+                found.push({
+                    info: { uuid: info.uuid, name: info.name, icon: info.icon, rdns: info.rdns },
+                    provider
+                });
+            };
+
+            context.addEventListener("eip6963:announceProvider", addProvider);
+
+            setTimeout(() => {
+                context.removeEventListener("eip6963:announceProvider", addProvider);
+                resolve(found);
+            }, timeout);
+
+            const Event = (<any>context).Event || (<any>globalThis).Event;
+            context.dispatchEvent(new Event("eip6963:requestProvider"));
+        });
+    }
+
+    /**
+     *  Resolves to a **BrowserProvider** for a wallet discovered using
+     *  [[link-eip-6963]], or ``null`` if no wallet was found (or the
+     *  %%options.filter%% returned ``null`` or ``undefined``).
+     *
+     *  @example:
+     *    provider = await BrowserProvider.discover({
+     *      filter: (found) => found.find((info) => (info.rdns === "io.metamask"))
+     *    });
+     */
+    static async discover(options?: BrowserDiscoverOptions): Promise<null | BrowserProvider> {
+        if (options == null) { options = { }; }
+
+        const found = await BrowserProvider.discoverProviders(options);
+        if (found.length === 0) { return null; }
+
+        let detail: undefined | Eip6963ProviderDetail = found[0];
+        if (options.filter) {
+            const info = await options.filter(found.map((f) => Object.assign({ }, f.info)));
+            if (info == null) { return null; }
+
+            detail = found.find((f) => (f.info.uuid === info.uuid));
+            if (detail == null) {
+                throw makeError("filter returned unknown provider info", "UNSUPPORTED_OPERATION", {
+                    operation: "discover", info: { providerInfo: info }
+                });
+            }
+        }
+
+        return new BrowserProvider(detail.provider, undefined, { providerInfo: detail.info });
+    }
 }
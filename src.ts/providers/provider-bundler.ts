@@ -0,0 +1,221 @@
+/**
+ *  A bundler accepts [[link-eip-4337]] UserOperations over JSON-RPC,
+ *  which it submits to the EntryPoint in a transaction.
+ *
+ *  @_subsection: api/providers/thirdparty:Bundler  [providers-bundler]
+ */
+import { getAddress } from "../address/index.js";
+import { assert, getBigInt, toQuantity } from "../utils/index.js";
+
+import { JsonRpcProvider } from "./provider-jsonrpc.js";
+import {
+    getEntryPointVersion, getUserOperationInitCode,
+    getUserOperationPaymasterAndData, userOperationFrom
+} from "./user-operation.js";
+
+import type { Log, TransactionReceipt } from "./provider.js";
+import type {
+    EntryPointVersion, UserOperation, UserOperationLike
+} from "./user-operation.js";
+
+
+/**
+ *  The gas limits for a UserOperation, estimated by a bundler.
+ */
+export interface UserOperationGasEstimate {
+    preVerificationGas: bigint;
+    verificationGasLimit: bigint;
+    callGasLimit: bigint;
+
+    /**
+     *  The paymaster gas limits, which are only available for v0.7
+     *  if a paymaster is used.
+     */
+    paymasterVerificationGasLimit: null | bigint;
+    paymasterPostOpGasLimit: null | bigint;
+}
+
+/**
+ *  The outcome of a UserOperation which has been included in a block.
+ */
+export interface UserOperationReceipt {
+    /**
+     *  The hash of the UserOperation.
+     */
+    userOpHash: string;
+
+    entryPoint: string;
+    sender: string;
+    nonce: bigint;
+
+    /**
+     *  The paymaster which paid for the operation, or ``null`` if the
+     *  account paid.
+     */
+    paymaster: null | string;
+
+    actualGasCost: bigint;
+    actualGasUsed: bigint;
+
+    /**
+     *  Whether the call to the account succeeded.
+     */
+    success: boolean;
+
+    /**
+     *  The revert data if the call to the account failed.
+     */
+    reason: null | string;
+
+    /**
+     *  The logs emitted by the UserOperation.
+     */
+    logs: Array<Log>;
+
+    /**
+     *  The receipt of the bundle transaction, which may include
+     *  other UserOperations.
+     */
+    receipt: TransactionReceipt;
+}
+
+function getOptionalBigInt(value: undefined | null | string): null | bigint {
+    return (value == null) ? null: getBigInt(value);
+}
+
+// Encodes an operation in the JSON-RPC shape of the EntryPoint version
+function formatUserOperation(op: UserOperation, version: EntryPointVersion): Record<string, string> {
+    const result: Record<string, string> = {
+        sender: op.sender,
+        nonce: toQuantity(op.nonce)
+    };
+
+    if (version === "0.6") {
+        result.initCode = getUserOperationInitCode(op);
+    } else if (op.factory != null) {
+        result.factory = op.factory;
+        result.factoryData = op.factoryData;
+    }
+
+    result.callData = op.callData;
+    result.callGasLimit = toQuantity(op.callGasLimit);
+    result.verificationGasLimit = toQuantity(op.verificationGasLimit);
+    result.preVerificationGas = toQuantity(op.preVerificationGas);
+    result.maxFeePerGas = toQuantity(op.maxFeePerGas);
+    result.maxPriorityFeePerGas = toQuantity(op.maxPriorityFeePerGas);
+
+    if (version === "0.6") {
+        result.paymasterAndData = getUserOperationPaymasterAndData(op, "0.6");
+    } else if (op.paymaster != null) {
+        result.paymaster = op.paymaster;
+        result.paymasterVerificationGasLimit = toQuantity(op.paymasterVerificationGasLimit);
+        result.paymasterPostOpGasLimit = toQuantity(op.paymasterPostOpGasLimit);
+        result.paymasterData = op.paymasterData;
+    }
+
+    result.signature = op.signature;
+
+    return result;
+}
+
+/**
+ *  A **BundlerProvider** connects to a [[link-eip-4337]] bundler over
+ *  HTTP.
+ *
+ *  Most bundlers also forward the standard JSON-RPC methods to a node,
+ *  in which case this may be used as any other [[JsonRpcProvider]].
+ *
+ *  @example:
+ *    bundler = new BundlerProvider(bundlerUrl, "sepolia")
+ *    entryPoints = await bundler.getSupportedEntryPoints()
+ */
+export class BundlerProvider extends JsonRpcProvider {
+
+    /**
+     *  Resolves to the EntryPoint addresses the bundler supports.
+     */
+    async getSupportedEntryPoints(): Promise<Array<string>> {
+        const result = await this.send("eth_supportedEntryPoints", [ ]);
+        return result.map((a: string) => getAddress(a));
+    }
+
+    /**
+     *  Resolves to the gas limits required for %%op%% using
+     *  %%entryPoint%%.
+     *
+     *  The %%op%% must have a signature of the correct length which
+     *  does not revert during validation (i.e. a //dummy// signature),
+     *  since bundlers simulate the operation.
+     */
+    async estimateUserOperationGas(op: UserOperationLike, entryPoint: string): Promise<UserOperationGasEstimate> {
+        const version = getEntryPointVersion(entryPoint);
+        const result = await this.send("eth_estimateUserOperationGas", [
+            formatUserOperation(userOperationFrom(op), version), getAddress(entryPoint)
+        ]);
+
+        return {
+            preVerificationGas: getBigInt(result.preVerificationGas),
+            verificationGasLimit: getBigInt(result.verificationGasLimit),
+            callGasLimit: getBigInt(result.callGasLimit),
+            paymasterVerificationGasLimit: getOptionalBigInt(result.paymasterVerificationGasLimit),
+            paymasterPostOpGasLimit: getOptionalBigInt(result.paymasterPostOpGasLimit)
+        };
+    }
+
+    /**
+     *  Submits the signed %%op%% to the bundler for %%entryPoint%%,
+     *  resolving to its hash.
+     */
+    async sendUserOperation(op: UserOperationLike, entryPoint: string): Promise<string> {
+        const version = getEntryPointVersion(entryPoint);
+        return await this.send("eth_sendUserOperation", [
+            formatUserOperation(userOperationFrom(op), version), getAddress(entryPoint)
+        ]);
+    }
+
+    /**
+     *  Resolves to the receipt for the UserOperation with %%hash%%, or
+     *  ``null`` if it has not been included in a block.
+     */
+    async getUserOperationReceipt(hash: string): Promise<null | UserOperationReceipt> {
+        const result = await this.send("eth_getUserOperationReceipt", [ hash ]);
+        if (result == null) { return null; }
+
+        const network = await this.getNetwork();
+
+        return {
+            userOpHash: result.userOpHash,
+            entryPoint: getAddress(result.entryPoint),
+            sender: getAddress(result.sender),
+            nonce: getBigInt(result.nonce),
+            paymaster: (result.paymaster != null) ? getAddress(result.paymaster): null,
+            actualGasCost: getBigInt(result.actualGasCost),
+            actualGasUsed: getBigInt(result.actualGasUsed),
+            success: !!result.success,
+            reason: (result.reason != null && result.reason !== "") ? result.reason: null,
+            logs: (result.logs || [ ]).map((log: any) => this._wrapLog(log, network)),
+            receipt: this._wrapTransactionReceipt(result.receipt, network)
+        };
+    }
+
+    /**
+     *  Resolves to the receipt for the UserOperation with %%hash%%,
+     *  once it has been included in a block.
+     *
+     *  If %%timeout%% (in ms) is specified and the operation has not
+     *  been included, a ``TIMEOUT`` error is thrown.
+     */
+    async waitForUserOperation(hash: string, timeout?: number): Promise<UserOperationReceipt> {
+        const expires = (timeout != null) ? Date.now() + timeout: Infinity;
+
+        while (true) {
+            const receipt = await this.getUserOperationReceipt(hash);
+            if (receipt) { return receipt; }
+
+            const delay = Math.min(this.pollingInterval, expires - Date.now());
+            assert(delay > 0, "timeout", "TIMEOUT", { operation: "waitForUserOperation", reason: "timeout" });
+
+            await new Promise((resolve) => { setTimeout(resolve, delay); });
+        }
+    }
+}
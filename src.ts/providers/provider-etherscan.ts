@@ -21,16 +21,23 @@
  *  - Polygon Mumbai Testnet (``matic-mumbai``)
  *  - Polygon Amoy Testnet (``matic-amoy``)
  *
+ *  Other block explorers which provide an Etherscan-compatible API,
+ *  such as Blockscout and Routescan, can be used by adding an
+ *  [[EtherscanPlugin]] with their base URL to the network.
+ *
  *  @_subsection api/providers/thirdparty:Etherscan  [providers-etherscan]
  */
 
-import { AbiCoder } from "../abi/index.js";
+import { AbiCoder, Interface } from "../abi/index.js";
+import { getAddress } from "../address/index.js";
 import { Contract } from "../contract/index.js";
+import { Signature } from "../crypto/index.js";
+import { id } from "../hash/index.js";
 import { accessListify, Transaction } from "../transaction/index.js";
 import {
     defineProperties,
-    hexlify, toQuantity,
-    FetchRequest,
+    getBigInt, getNumber, hexlify, toBeHex, toQuantity, zeroPadValue,
+    FetchRequest, RequestScheduler,
     assert, assertArgument, isError,
 //    parseUnits,
     toUtf8String
@@ -40,14 +47,31 @@ import { AbstractProvider } from "./abstract-provider.js";
 import { Network } from "./network.js";
 import { NetworkPlugin } from "./plugins-network.js";
 import { showThrottleMessage } from "./community.js";
+import { createPaginationResult } from "./pagination.js";
 
-import { PerformActionRequest } from "./abstract-provider.js";
+import { PerformActionFilter, PerformActionRequest } from "./abstract-provider.js";
+import type { AddressLike } from "../address/index.js";
+import type { LogParams, TransactionResponseParams } from "./formatting.js";
 import type { Networkish } from "./network.js";
-//import type { } from "./pagination";
-import type { TransactionRequest } from "./provider.js";
+import type { PaginationResult } from "./pagination.js";
+import type {
+    BlockTag, Log, TransactionRequest, TransactionResponse
+} from "./provider.js";
 
 const THROTTLE = 2000;
 
+// The maximum number of results the logs API returns per page
+const LOGS_PAGE_SIZE = 1000;
+
+// The maximum number of results the logs API can page through (i.e. the
+// page times the page size) for a single query
+const LOGS_MAX_RESULTS = 10000;
+
+// The maximum number of queries a single getLogs may be expanded into
+const MAX_LOG_QUERIES = 16;
+
+const TransferTopic = id("Transfer(address,address,uint256)");
+
 function isPromise<T = any>(value: any): value is Promise<T> {
     return (value && typeof(value.then) === "function");
 }
@@ -75,6 +99,232 @@ export type DebugEventEtherscanProvider = {
     error: any
 };
 
+/**
+ *  The options for [[EtherscanProvider-getHistory]].
+ *
+ *  @_docloc: api/providers/thirdparty:Etherscan
+ */
+export interface EtherscanHistoryOptions {
+    /**
+     *  The type of history to fetch; ``"normal"`` transactions sent from
+     *  or to the account, ``"internal"`` transactions (i.e. calls with
+     *  value made by contracts) or ``"erc20"`` token transfers
+     *  (default: ``"normal"``).
+     */
+    type?: "normal" | "internal" | "erc20";
+
+    /**
+     *  The first block to include (default: ``0``).
+     */
+    startBlock?: number;
+
+    /**
+     *  The last block to include (default: the latest block).
+     */
+    endBlock?: number;
+
+    /**
+     *  The number of results in each page (default: ``100``).
+     */
+    pageSize?: number;
+
+    /**
+     *  The order of the results, by block (default: ``"asc"``).
+     */
+    sort?: "asc" | "desc";
+
+    /**
+     *  For ``"erc20"`` history, only include transfers of this token.
+     */
+    token?: string;
+}
+
+/**
+ *  An internal transaction, which is a call made by a contract (for
+ *  example, to transfer ether) during the execution of a transaction.
+ *
+ *  @_docloc: api/providers/thirdparty:Etherscan
+ */
+export interface EtherscanInternalTransaction {
+    /**
+     *  The hash of the transaction which made the call.
+     */
+    hash: string;
+
+    /**
+     *  The block number of the transaction.
+     */
+    blockNumber: number;
+
+    /**
+     *  The timestamp of the block.
+     */
+    timestamp: number;
+
+    /**
+     *  The type of call (e.g. ``"call"`` or ``"create"``).
+     */
+    type: string;
+
+    /**
+     *  The caller.
+     */
+    from: string;
+
+    /**
+     *  The called address, or ``null`` for a contract creation.
+     */
+    to: null | string;
+
+    /**
+     *  The address of the created contract, if any.
+     */
+    contractAddress: null | string;
+
+    /**
+     *  The value transferred.
+     */
+    value: bigint;
+
+    /**
+     *  The gas limit of the call.
+     */
+    gasLimit: bigint;
+
+    /**
+     *  The gas used by the call.
+     */
+    gasUsed: bigint;
+
+    /**
+     *  The calldata.
+     */
+    data: string;
+
+    /**
+     *  The position of the call within the transaction trace.
+     */
+    traceId: string;
+
+    /**
+     *  Whether the call failed.
+     */
+    failed: boolean;
+}
+
+/**
+ *  The verified source code and compiler metadata of a contract.
+ *
+ *  @_docloc: api/providers/thirdparty:Etherscan
+ */
+export interface EtherscanContractSource {
+    /**
+     *  The contract address.
+     */
+    address: string;
+
+    /**
+     *  The contract name.
+     */
+    name: string;
+
+    /**
+     *  The contract ABI.
+     */
+    abi: Interface;
+
+    /**
+     *  The source files, by path.
+     */
+    sources: Record<string, string>;
+
+    /**
+     *  The compiler settings, if verified using the Standard JSON Input.
+     */
+    settings: null | Record<string, any>;
+
+    /**
+     *  The compiler version (e.g. ``"v0.8.24+commit.e11b9ed9"``).
+     */
+    compilerVersion: string;
+
+    /**
+     *  Whether the optimizer was enabled.
+     */
+    optimizationUsed: boolean;
+
+    /**
+     *  The number of optimizer runs.
+     */
+    runs: number;
+
+    /**
+     *  The EVM version (e.g. ``"Default"`` or ``"paris"``).
+     */
+    evmVersion: string;
+
+    /**
+     *  The ABI-encoded constructor arguments.
+     */
+    constructorArguments: string;
+
+    /**
+     *  The license (e.g. ``"MIT"``).
+     */
+    license: string;
+
+    /**
+     *  The implementation address, if the contract is a proxy.
+     */
+    implementation: null | string;
+}
+
+// Some explorers return "0x" for zero
+function fixQuantity(value: any): any {
+    if (value === "0x") { return "0x0"; }
+    return value;
+}
+
+// Converts a normalized block tag to a value the logs API accepts
+function getLogTag(blockTag: BlockTag): string {
+    if (blockTag === "earliest") { return "0"; }
+    if (blockTag === "latest" || blockTag === "pending") { return "latest"; }
+    return String(getNumber(blockTag));
+}
+
+// Parses the (optionally JSON-encoded) SourceCode of a verified contract
+function getSources(name: string, result: any): { sources: Record<string, string>, settings: null | Record<string, any> } {
+    const sources: Record<string, string> = { };
+    let settings: null | Record<string, any> = null;
+
+    let code: string = result.SourceCode || "";
+
+    // Standard JSON Input is wrapped in an extra set of braces
+    if (code.startsWith("{{")) { code = code.substring(1, code.length - 1); }
+
+    let json: any = null;
+    if (code.startsWith("{")) {
+        try { json = JSON.parse(code); } catch (error) { }
+    }
+
+    if (json) {
+        if (json.settings) { settings = json.settings; }
+        const files = json.sources || json;
+        for (const path in files) { sources[path] = files[path].content; }
+    } else {
+        sources[result.FileName || `${ name }.sol`] = code;
+    }
+
+    // Blockscout includes any additional files separately
+    if (Array.isArray(result.AdditionalSources)) {
+        for (const { Filename, SourceCode } of result.AdditionalSources) {
+            sources[Filename] = SourceCode;
+        }
+    }
+
+    return { sources, settings };
+}
+
 const EtherscanPluginId = "org.ethers.plugins.provider.Etherscan";
 
 /**
@@ -103,6 +353,19 @@ export class EtherscanPlugin extends NetworkPlugin {
     }
 }
 
+/**
+ *  The options for an [[EtherscanProvider]].
+ *
+ *  **``scheduler``** - a [[RequestScheduler]] which limits the rate of
+ *  requests made by the [[EtherscanProvider]]; it may be shared with
+ *  other providers using the same API key (default: ``null``)
+ *
+ *  @_docloc: api/providers/thirdparty:Etherscan
+ */
+export type EtherscanProviderOptions = {
+    scheduler?: null | RequestScheduler;
+};
+
 const skipKeys = [ "enableCcipRead" ];
 
 let nextId = 1;
@@ -129,13 +392,23 @@ export class EtherscanProvider extends AbstractProvider {
      */
     readonly apiKey!: null | string;
 
+    /**
+     *  The [[RequestScheduler]] used to limit the rate of requests, or
+     *  null if only limited by the server (default: ``null``).
+     *
+     *  The cost and priority of each request are determined by its
+     *  ``action`` (e.g. ``"getLogs"`` or ``"eth_call"``).
+     */
+    scheduler: null | RequestScheduler;
+
     readonly #plugin: null | EtherscanPlugin;
 
     /**
      *  Creates a new **EtherscanBaseProvider**.
      */
-    constructor(_network?: Networkish, _apiKey?: string) {
+    constructor(_network?: Networkish, _apiKey?: string, options?: EtherscanProviderOptions) {
         const apiKey = (_apiKey != null) ? _apiKey: null;
+        if (options == null) { options = { }; }
 
         super();
 
@@ -145,6 +418,8 @@ export class EtherscanProvider extends AbstractProvider {
 
         defineProperties<EtherscanProvider>(this, { apiKey, network });
 
+        this.scheduler = options.scheduler || null;
+
         // Test that the network is supported by Etherscan
         this.getBaseUrl();
     }
@@ -248,6 +523,15 @@ export class EtherscanProvider extends AbstractProvider {
 
         const request = new FetchRequest(url);
         request.setThrottleParams({ slotInterval: 1000 });
+
+        const scheduler = this.scheduler;
+        if (scheduler) {
+            const method = params.action || module;
+            request.getUrlFunc = scheduler.wrapGetUrlFunc(request.getUrlFunc, {
+                cost: scheduler.getCost(method), priority: scheduler.getPriority(method)
+            });
+        }
+
         request.retryFunc = (req, resp, attempt: number) => {
             if (this.isCommunityResource()) {
                 showThrottleMessage("Etherscan");
@@ -308,7 +592,7 @@ export class EtherscanProvider extends AbstractProvider {
 
         } else {
             // getLogs, getHistory have weird success responses
-            if (result.status == 0 && (result.message === "No records found" || result.message === "No transactions found")) {
+            if (result.status == 0 && (result.message === "No records found" || result.message === "No transactions found" || result.message === "No logs found")) {
                 this.emit("debug", { action: "receiveRequest", id, result });
                 return result.result;
             }
@@ -346,6 +630,15 @@ export class EtherscanProvider extends AbstractProvider {
                     return `{address:"${ set.address }",storageKeys:["${ set.storageKeys.join('","') }"]}`;
                 }).join(",") + "]";
 
+            } else if (key === "authorizationList") {
+                if (value.length === 0) { continue; }
+
+                // @TODO: update this once the API supports EIP-7702
+                assert(false, "Etherscan API does not support authorizationList", "UNSUPPORTED_OPERATION", {
+                    operation: "_getTransactionPostData",
+                    info: { transaction }
+                });
+
             } else if (key === "blobVersionedHashes") {
                 if (value.length === 0) { continue; }
 
@@ -398,7 +691,8 @@ export class EtherscanProvider extends AbstractProvider {
                     data = (<any>error).info.result.error.data;
                 } catch (error) { }
 
-                const e = AbiCoder.getBuiltinCallException(req.method, <any>req.transaction, data);
+                const e = this.errorRegistry.updateError(
+                    AbiCoder.getBuiltinCallException(req.method, <any>req.transaction, data));
                 e.info = { request: req, error }
                 throw e;
             }
@@ -551,6 +845,11 @@ export class EtherscanProvider extends AbstractProvider {
                     throw new Error("EtherscanProvider does not support blockTag for call");
                 }
 
+                assert(req.stateOverride == null && req.blockOverrides == null,
+                    "Etherscan API does not support overrides", "UNSUPPORTED_OPERATION", {
+                        operation: "call"
+                    });
+
                 const postData = this._getTransactionPostData(req.transaction);
                 postData.module = "proxy";
                 postData.action = "eth_call";
@@ -563,6 +862,11 @@ export class EtherscanProvider extends AbstractProvider {
             }
 
             case "estimateGas": {
+                assert(req.stateOverride == null && req.blockOverrides == null,
+                    "Etherscan API does not support overrides", "UNSUPPORTED_OPERATION", {
+                        operation: "estimateGas"
+                    });
+
                 const postData = this._getTransactionPostData(req.transaction);
                 postData.module = "proxy";
                 postData.action = "eth_estimateGas";
@@ -573,70 +877,291 @@ export class EtherscanProvider extends AbstractProvider {
                     return this._checkError(req, <Error>error, req.transaction);
                 }
             }
-/*
-            case "getLogs": {
-                // Needs to complain if more than one address is passed in
-                const args: Record<string, any> = { action: "getLogs" }
+            case "getLogs":
+                return await this.#getLogs(req.filter);
 
-                if (params.filter.fromBlock) {
-                    args.fromBlock = checkLogTag(params.filter.fromBlock);
-                }
+            default:
+                break;
+        }
 
-                if (params.filter.toBlock) {
-                    args.toBlock = checkLogTag(params.filter.toBlock);
-                }
+        return super._perform(req);
+    }
 
-                if (params.filter.address) {
-                    args.address = params.filter.address;
-                }
+    async #getLogs(filter: PerformActionFilter): Promise<Array<LogParams>> {
+        assert(!("blockHash" in filter && filter.blockHash != null), "getLogs by blockHash not supported by Etherscan", "UNSUPPORTED_OPERATION", {
+            operation: "getLogs(blockHash)"
+        });
+
+        const args: Record<string, any> = { action: "getLogs" };
+        for (const key of [ "fromBlock", "toBlock" ]) {
+            let blockTag = (<any>filter)[key];
+            if (blockTag == null) { continue; }
+            if (blockTag === "safe" || blockTag === "finalized") {
+                const block = await this.getBlock(blockTag);
+                assert(block != null, `no ${ blockTag } block`, "UNSUPPORTED_OPERATION", {
+                    operation: "getLogs"
+                });
+                blockTag = block.number;
+            }
+            args[key] = getLogTag(blockTag);
+        }
 
-                // @TODO: We can handle slightly more complicated logs using the logs API
-                if (params.filter.topics && params.filter.topics.length > 0) {
-                    if (params.filter.topics.length > 1) {
-                        logger.throwError("unsupported topic count", Logger.Errors.UNSUPPORTED_OPERATION, { topics: params.filter.topics });
-                    }
-                    if (params.filter.topics.length === 1) {
-                        const topic0 = params.filter.topics[0];
-                        if (typeof(topic0) !== "string" || topic0.length !== 66) {
-                            logger.throwError("unsupported topic format", Logger.Errors.UNSUPPORTED_OPERATION, { topic0: topic0 });
-                        }
-                        args.topic0 = topic0;
-                    }
+        // The API accepts a single address and a single topic per position,
+        // so a query is made for each combination of the alternatives
+        let queries: Array<Record<string, any>> = [ args ];
+        const expand = (key: string, values: Array<string>) => {
+            const result: Array<Record<string, any>> = [ ];
+            for (const query of queries) {
+                for (const value of values) {
+                    result.push(Object.assign({ }, query, { [key]: value }));
                 }
+            }
+            queries = result;
+        };
+
+        if (filter.address != null) {
+            expand("address", Array.isArray(filter.address) ? filter.address: [ filter.address ]);
+        }
 
-                const logs: Array<any> = await this.fetch("logs", args);
+        const topics = filter.topics || [ ];
+        const positions: Array<number> = [ ];
+        for (let i = 0; i < topics.length; i++) {
+            const topic = topics[i];
+            if (topic == null) { continue; }
+            expand(`topic${ i }`, Array.isArray(topic) ? topic: [ topic ]);
+            positions.push(i);
+        }
 
-                // Cache txHash => blockHash
-                let blocks: { [tag: string]: string } = {};
+        assert(queries.length <= MAX_LOG_QUERIES, "too many address and topic combinations for Etherscan", "UNSUPPORTED_OPERATION", {
+            operation: "getLogs",
+            info: { filter }
+        });
 
-                // Add any missing blockHash to the logs
-                for (let i = 0; i < logs.length; i++) {
-                    const log = logs[i];
-                    if (log.blockHash != null) { continue; }
-                    if (blocks[log.blockNumber] == null) {
-                        const block = await this.getBlock(log.blockNumber);
-                        if (block) {
-                            blocks[log.blockNumber] = block.hash;
-                        }
-                    }
+        // Each topic position must match
+        for (let i = 0; i < positions.length; i++) {
+            for (let j = i + 1; j < positions.length; j++) {
+                for (const query of queries) {
+                    query[`topic${ positions[i] }_${ positions[j] }_opr`] = "and";
+                }
+            }
+        }
 
-                    log.blockHash = blocks[log.blockNumber];
+        // Merge the (possibly overlapping) results of each query
+        const logs: Map<string, any> = new Map();
+        for (const query of queries) {
+            let fromBlock: undefined | string = query.fromBlock;
+            let page = 1;
+            while (true) {
+                const request = Object.assign({ page, offset: LOGS_PAGE_SIZE }, query);
+                if (fromBlock != null) { request.fromBlock = fromBlock; }
+
+                const result: Array<any> = await this.fetch("logs", request);
+                for (const log of (result || [ ])) {
+                    log.blockNumber = fixQuantity(log.blockNumber);
+                    log.transactionIndex = fixQuantity(log.transactionIndex);
+                    log.logIndex = fixQuantity(log.logIndex);
+                    logs.set(`${ log.transactionHash }:${ getNumber(log.logIndex) }`, log);
                 }
+                if (result == null || result.length < LOGS_PAGE_SIZE) { break; }
+
+                if ((page + 1) * LOGS_PAGE_SIZE <= LOGS_MAX_RESULTS) {
+                    page++;
+                    continue;
+                }
+
+                // The results can no longer be paged through, so restart
+                // the query from the last block (any of whose logs already
+                // included are merged)
+                const lastBlock = String(getNumber(result[result.length - 1].blockNumber));
+                assert(lastBlock !== fromBlock, "too many logs in a single block for Etherscan", "UNSUPPORTED_OPERATION", {
+                    operation: "getLogs",
+                    info: { filter, blockNumber: lastBlock }
+                });
+                fromBlock = lastBlock;
+                page = 1;
+            }
+        }
 
-                return logs;
+        const result = Array.from(logs.values());
+        result.sort((a, b) => {
+            const blockDelta = getNumber(a.blockNumber) - getNumber(b.blockNumber);
+            if (blockDelta !== 0) { return blockDelta; }
+            return getNumber(a.logIndex) - getNumber(b.logIndex);
+        });
+
+        // Add any missing blockHash to the logs
+        const blockHashes: Map<number, string> = new Map();
+        for (const log of result) {
+            if (log.blockHash != null) { continue; }
+            const blockNumber = getNumber(log.blockNumber);
+            if (!blockHashes.has(blockNumber)) {
+                const block = await this.getBlock(blockNumber);
+                if (block && block.hash) { blockHashes.set(blockNumber, block.hash); }
             }
-*/
-            default:
-                break;
+            log.blockHash = blockHashes.get(blockNumber);
         }
 
-        return super._perform(req);
+        return result;
     }
 
     async getNetwork(): Promise<Network> {
         return this.network;
     }
 
+    /**
+     *  Resolves to a page of the history of %%address%%.
+     *
+     *  By default, the ``"normal"`` transactions are returned as
+     *  [[TransactionResponse]] objects. Since the API does not include
+     *  their signature or fee parameters, each has an empty signature,
+     *  a ``type`` of ``0`` and its effective ``gasPrice``; use
+     *  [[Provider-getTransaction]] if the full transaction is required.
+     *
+     *  The ``"internal"`` transactions are returned as
+     *  [[EtherscanInternalTransaction]] objects and ``"erc20"``
+     *  transfers are returned as the ``Transfer`` event [[Log]] (the
+     *  ``index`` is ``-1`` if the API does not include it).
+     */
+    getHistory(address: AddressLike, options?: EtherscanHistoryOptions & { type?: "normal" }): Promise<PaginationResult<TransactionResponse>>;
+    getHistory(address: AddressLike, options: EtherscanHistoryOptions & { type: "internal" }): Promise<PaginationResult<EtherscanInternalTransaction>>;
+    getHistory(address: AddressLike, options: EtherscanHistoryOptions & { type: "erc20" }): Promise<PaginationResult<Log>>;
+    async getHistory(_address: AddressLike, options?: EtherscanHistoryOptions): Promise<PaginationResult<any>> {
+        let address = this._getAddress(_address);
+        if (isPromise(address)) { address = await address; }
+
+        if (options == null) { options = { }; }
+
+        const type = options.type || "normal";
+        const action = ({ normal: "txlist", internal: "txlistinternal", erc20: "tokentx" })[type];
+        assertArgument(action != null, "invalid history type", "options.type", type);
+
+        const pageSize = (options.pageSize != null) ? options.pageSize: 100;
+        assertArgument(pageSize > 0, "invalid page size", "options.pageSize", pageSize);
+
+        const params: Record<string, any> = {
+            action, address,
+            startblock: (options.startBlock != null) ? options.startBlock: 0,
+            offset: pageSize,
+            sort: options.sort || "asc"
+        };
+
+        // Without an endblock, the API includes up to the latest block
+        if (options.endBlock != null) { params.endblock = options.endBlock; }
+
+        if (options.token != null) {
+            assertArgument(type === "erc20", "token only supported for erc20 history", "options.token", options.token);
+            params.contractaddress = getAddress(options.token);
+        }
+
+        const network = this.network;
+
+        const wrap = (tx: any): any => {
+            if (type === "internal") {
+                return {
+                    hash: tx.hash,
+                    blockNumber: getNumber(tx.blockNumber),
+                    timestamp: getNumber(tx.timeStamp),
+                    type: tx.type,
+                    from: getAddress(tx.from),
+                    to: tx.to ? getAddress(tx.to): null,
+                    contractAddress: tx.contractAddress ? getAddress(tx.contractAddress): null,
+                    value: getBigInt(tx.value),
+                    gasLimit: getBigInt(tx.gas || 0),
+                    gasUsed: getBigInt(tx.gasUsed || 0),
+                    data: hexlify(tx.input || "0x"),
+                    traceId: tx.traceId || "",
+                    failed: (tx.isError === "1")
+                };
+            }
+
+            if (type === "erc20") {
+                return this._wrapLog({
+                    transactionHash: tx.hash,
+                    blockHash: tx.blockHash,
+                    blockNumber: getNumber(tx.blockNumber),
+                    removed: false,
+                    address: getAddress(tx.contractAddress),
+                    data: toBeHex(tx.value, 32),
+                    topics: [
+                        TransferTopic,
+                        zeroPadValue(getAddress(tx.from), 32),
+                        zeroPadValue(getAddress(tx.to), 32)
+                    ],
+                    index: (tx.logIndex != null && tx.logIndex !== "") ? getNumber(tx.logIndex): -1,
+                    transactionIndex: getNumber(tx.transactionIndex || 0)
+                }, network);
+            }
+
+            const params: TransactionResponseParams = {
+                blockNumber: getNumber(tx.blockNumber),
+                blockHash: tx.blockHash || null,
+                hash: tx.hash,
+                index: getNumber(tx.transactionIndex || 0),
+                type: 0,
+                to: tx.to ? getAddress(tx.to): null,
+                from: getAddress(tx.from),
+                nonce: getNumber(tx.nonce),
+                gasLimit: getBigInt(tx.gas),
+                gasPrice: getBigInt(tx.gasPrice),
+                maxPriorityFeePerGas: null,
+                maxFeePerGas: null,
+                data: hexlify(tx.input || "0x"),
+                value: getBigInt(tx.value),
+                chainId: network.chainId,
+                signature: Signature.from(),
+                accessList: null
+            };
+
+            return this._wrapTransactionResponse(params, network);
+        };
+
+        const fetchPage = async (page: number): Promise<PaginationResult<any>> => {
+            const result: Array<any> = (await this.fetch("account", Object.assign({ page }, params))) || [ ];
+            const next = (result.length < pageSize) ? null: (() => fetchPage(page + 1));
+            return createPaginationResult(result.map(wrap), next);
+        };
+
+        return await fetchPage(1);
+    }
+
+    /**
+     *  Resolves to the verified source code and compiler metadata of
+     *  the contract at %%address%%, or ``null`` if it is not verified.
+     */
+    async getContractSource(_address: AddressLike): Promise<null | EtherscanContractSource> {
+        let address = this._getAddress(_address);
+        if (isPromise(address)) { address = await address; }
+
+        const results = await this.fetch("contract", { action: "getsourcecode", address });
+        const result = Array.isArray(results) ? results[0]: results;
+
+        // Not verified
+        if (result == null || !result.SourceCode) { return null; }
+
+        let abi: Interface;
+        try {
+            abi = Interface.from(JSON.parse(result.ABI));
+        } catch (error) {
+            return null;
+        }
+
+        const name = result.ContractName || "";
+        const { sources, settings } = getSources(name, result);
+
+        const implementation = result.Implementation;
+
+        return {
+            address, name, abi, sources, settings,
+            compilerVersion: result.CompilerVersion || "",
+            optimizationUsed: (String(result.OptimizationUsed) === "1" || result.OptimizationUsed === true),
+            runs: getNumber(result.Runs || 0),
+            evmVersion: result.EVMVersion || "Default",
+            constructorArguments: hexlify(result.ConstructorArguments ? ("0x" + result.ConstructorArguments.replace(/^0x/i, "")): "0x"),
+            license: result.LicenseType || "",
+            implementation: implementation ? getAddress(implementation): null
+        };
+    }
+
     /**
      *  Resolves to the current price of ether.
      *
@@ -4,6 +4,7 @@
  *
  *  @_section: api/providers/fallback-provider:Fallback Provider [about-fallback-provider]
  */
+import { id } from "../hash/index.js";
 import {
     assert, assertArgument, getBigInt, getNumber, isError
 } from "../utils/index.js";
@@ -120,21 +121,92 @@ export interface FallbackProviderState extends Required<FallbackProviderConfig>
     score: number;
 }
 
+/**
+ *  The state of the circuit breaker of a [[Provider]].
+ *
+ *  - ``"closed"`` - the provider is healthy and used normally
+ *  - ``"open"`` - the provider has failed too many times in a row and
+ *    is skipped (unless no other provider is available)
+ *  - ``"half-open"`` - the cooldown has elapsed and the provider is
+ *    skipped until a probe request succeeds
+ */
+export type FallbackCircuitState = "closed" | "open" | "half-open";
+
+/**
+ *  The health statistics of a [[Provider]], used to route requests.
+ */
+export interface FallbackProviderStats extends FallbackProviderState {
+
+    /**
+     *  A rolling average (10% current response) of responses which
+     *  failed, from ``0`` (none) to ``1`` (all).
+     *
+     *  Errors which are a valid response (e.g. ``CALL_EXCEPTION``) are
+     *  not failures.
+     */
+    errorRate: number;
+
+    /**
+     *  The number of consecutive failed responses.
+     */
+    consecutiveErrors: number;
+
+    /**
+     *  The health score, from ``0`` to ``1``, based on the
+     *  ``errorRate`` and the ``rollingDuration`` relative to the fastest
+     *  provider. Within a priority, requests are routed to healthier
+     *  providers more often.
+     */
+    health: number;
+
+    /**
+     *  The state of the circuit breaker.
+     */
+    circuit: FallbackCircuitState;
+
+    /**
+     *  The time (in ms) until a probe request is sent to an ``"open"``
+     *  provider.
+     */
+    cooldownRemaining: number;
+}
+
 interface Config extends FallbackProviderState {
     _updateNumber: null | Promise<any>;
     _network: null | Network;
     _totalTime: number;
     _lastFatalError: null | Error;
     _lastFatalErrorTimestamp: number;
+    _errorRate: number;
+    _consecutiveErrors: number;
+    _circuitOpenUntil: number;
+    _probe: null | Promise<void>;
 }
 
 const defaultState = {
     blockNumber: -2, requests: 0, lateResponses: 0, errorResponses: 0,
     outOfSync: -1, unsupportedEvents: 0, rollingDuration: 0, score: 0,
     _network: null, _updateNumber: null, _totalTime: 0,
-    _lastFatalError: null, _lastFatalErrorTimestamp: 0
+    _lastFatalError: null, _lastFatalErrorTimestamp: 0,
+    _errorRate: 0, _consecutiveErrors: 0, _circuitOpenUntil: 0, _probe: null
 };
 
+// Differences in latency (in ms) below this have little effect on
+// the health of a provider
+const LatencyTolerance = 50;
+
+// The minimum health, so a demoted provider is still occasionally used
+// and can recover
+const MinHealth = 0.01;
+
+// Errors which are a valid response from a healthy backend
+function isFailure(error: any): boolean {
+    return !(isError(error, "CALL_EXCEPTION") || isError(error, "INSUFFICIENT_FUNDS") ||
+        isError(error, "NONCE_EXPIRED") || isError(error, "REPLACEMENT_UNDERPRICED") ||
+        isError(error, "TRANSACTION_REPLACED") || isError(error, "INVALID_ARGUMENT") ||
+        isError(error, "ACTION_REJECTED"));
+}
+
 
 async function waitForSync(config: Config, blockNumber: number): Promise<void> {
     while (config.blockNumber < 0 || config.blockNumber < blockNumber) {
@@ -159,6 +231,77 @@ async function waitForSync(config: Config, blockNumber: number): Promise<void> {
     }
 }
 
+/**
+ *  How the responses of the backends are compared, to find the result.
+ *
+ *  - ``"equal"`` - the results must be identical
+ *  - ``"median"`` - the median of the numeric results (e.g. block
+ *    numbers and gas prices)
+ *  - ``"log-set"`` - the logs must be identical, in any order
+ *  - ``"any"`` - a result which meets quorum, or otherwise any result
+ */
+export type FallbackQuorumStrategy = "any" | "equal" | "log-set" | "median";
+
+/**
+ *  A policy for how a method is dispatched to the backends of a
+ *  [[FallbackProvider]] and how their responses are compared.
+ */
+export interface FallbackMethodPolicy {
+    /**
+     *  The weight of agreeing backends required (default: the
+     *  [[FallbackProvider-quorum]]).
+     */
+    quorum?: number;
+
+    /**
+     *  How responses are compared (default: depends on the method).
+     */
+    strategy?: FallbackQuorumStrategy;
+
+    /**
+     *  If specified, results for which this returns true agree, and the
+     *  %%strategy%% is ignored. Errors are always compared exactly.
+     */
+    compare?: (a: any, b: any) => boolean;
+
+    /**
+     *  If true, the request is sent to every backend at once, rather
+     *  than only enough to meet quorum (default: ``false``).
+     *
+     *  A ``broadcastTransaction`` is always sent to every backend.
+     */
+    broadcast?: boolean;
+}
+
+const defaultStrategies: Record<string, FallbackQuorumStrategy> = {
+    broadcastTransaction: "any",
+
+    estimateGas: "median",
+    getBlockNumber: "median",
+    getGasPrice: "median",
+    getPriorityFee: "median",
+
+    call: "equal",
+    chainId: "equal",
+    getBalance: "equal",
+    getBlock: "equal",
+    getCode: "equal",
+    getStorage: "equal",
+    getTransaction: "equal",
+    getTransactionCount: "equal",
+    getTransactionReceipt: "equal",
+    simulate: "equal",
+
+    getLogs: "log-set",
+};
+
+type Policy = {
+    quorum: number;
+    strategy: FallbackQuorumStrategy;
+    compare: null | ((a: any, b: any) => boolean);
+    broadcast: boolean;
+};
+
 /**
  *  Additional options to configure a [[FallbackProvider]].
  */
@@ -167,6 +310,10 @@ export type FallbackProviderOptions = {
     // back the response
     quorum?: number;
 
+    // The policy for each method, which may override the quorum
+    // and how responses are compared
+    policies?: { [ K in PerformActionRequest["method"] ]?: FallbackMethodPolicy };
+
     // How many providers must have reported the same event
     // for it to be emitted (currently unimplmented)
     eventQuorum?: number;
@@ -179,6 +326,19 @@ export type FallbackProviderOptions = {
     cacheTimeout?: number;
 
     pollingInterval?: number;
+
+    // Whether to route requests to healthier providers more often,
+    // within each priority; otherwise providers of equal priority are
+    // chosen at random (default: true)
+    adaptiveRouting?: boolean;
+
+    // How many consecutive failed responses open the circuit breaker
+    // of a provider, skipping it; 0 disables (default: 3)
+    circuitBreakerThreshold?: number;
+
+    // How long (in ms) an open provider is skipped before a probe
+    // request is sent to check whether it has recovered (default: 30000)
+    circuitBreakerCooldown?: number;
 };
 
 type RunnerResult = { result: any } | { error: Error };
@@ -231,25 +391,69 @@ function normalizeResult(value: RunnerResult): { tag: string, value: any } {
     return { tag: _normalize(result), value: result };
 }
 
+// Logs may be returned in any order, so compare the hash of the
+// sorted logs
+function getLogSetTag(value: any): string {
+    if (!Array.isArray(value)) { return _normalize(value); }
+    return id(value.map(_normalize).sort().join(","));
+}
+
 type TallyResult = {
     tag: string;
     value: any;
     weight: number;
+
+    // The index of the backend
+    index: number;
 };
 
-// This strategy picks the highest weight result, as long as the weight is
-// equal to or greater than quorum
-function checkQuorum(quorum: number, results: Array<TallyResult>): any | Error {
-    const tally: Map<string, { value: any, weight: number }> = new Map();
-    for (const { value, tag, weight } of results) {
-        const t = tally.get(tag) || { value, weight: 0 };
+type Tally = {
+    tag: string;
+    value: any;
+    weight: number;
+    backends: Array<number>;
+};
+
+// Tags each result as compared by the strategy of %%policy%%, so any
+// results which agree under it share a tag
+function getStrategyResults(policy: Policy, results: Array<TallyResult>): Array<TallyResult> {
+    if (policy.strategy !== "log-set") { return results; }
+    return results.map((r) => {
+        if (r.value instanceof Error) { return r; }
+        return Object.assign({ }, r, { tag: getLogSetTag(r.value) });
+    });
+}
+
+// Groups the results which agree, using %%compare%% (if any) for
+// non-error results
+function tally(results: Array<TallyResult>, compare?: null | ((a: any, b: any) => boolean)): Array<Tally> {
+    const tallies: Array<Tally> = [ ];
+    for (const { value, tag, weight, index } of results) {
+        let t = tallies.find((t) => {
+            if (compare && !(value instanceof Error) && !(t.value instanceof Error)) {
+                return compare(t.value, value);
+            }
+            return (t.tag === tag);
+        });
+
+        if (t == null) {
+            t = { tag, value, weight: 0, backends: [ ] };
+            tallies.push(t);
+        }
+
         t.weight += weight;
-        tally.set(tag, t);
+        t.backends.push(index);
     }
 
+    return tallies;
+}
+
+// This strategy picks the highest weight result, as long as the weight is
+// equal to or greater than quorum
+function checkQuorum(quorum: number, results: Array<TallyResult>, compare?: null | ((a: any, b: any) => boolean)): any | Error {
     let best: null | { value: any, weight: number } = null;
 
-    for (const r of tally.values()) {
+    for (const r of tally(results, compare)) {
         if (r.weight >= quorum && (!best || r.weight > best.weight)) {
             best = r;
         }
@@ -314,39 +518,6 @@ function getAnyResult(quorum: number, results: Array<TallyResult>): undefined |
     return undefined;
 }
 
-function getFuzzyMode(quorum: number, results: Array<TallyResult>): undefined | number {
-    if (quorum === 1) { return getNumber(<bigint>getMedian(quorum, results), "%internal"); }
-
-    const tally: Map<number, { result: number, weight: number }> = new Map();
-    const add = (result: number, weight: number) => {
-        const t = tally.get(result) || { result, weight: 0 };
-        t.weight += weight;
-        tally.set(result, t);
-    };
-
-    for (const { weight, value } of results) {
-        const r = getNumber(value);
-        add(r - 1, weight);
-        add(r, weight);
-        add(r + 1, weight);
-    }
-
-    let bestWeight = 0;
-    let bestResult: undefined | number = undefined;
-
-    for (const { weight, result } of tally.values()) {
-        // Use this result, if this result meets quorum and has either:
-        // - a better weight
-        // - or equal weight, but the result is larger
-        if (weight >= quorum && (weight > bestWeight || (bestResult != null && weight === bestWeight && result > bestResult))) {
-            bestWeight = weight;
-            bestResult = result;
-        }
-    }
-
-    return bestResult;
-}
-
 /**
  *  A **FallbackProvider** manages several [[Providers]] providing
  *  resilience by switching between slow or misbehaving nodes, security
@@ -377,6 +548,12 @@ export class FallbackProvider extends AbstractProvider {
     #height: number;
     #initialSyncPromise: null | Promise<void>;
 
+    readonly #policies: Record<string, FallbackMethodPolicy>;
+
+    readonly #adaptiveRouting: boolean;
+    readonly #circuitBreakerThreshold: number;
+    readonly #circuitBreakerCooldown: number;
+
     /**
      *  Creates a new **FallbackProvider** with %%providers%% connected to
      *  %%network%%.
@@ -410,8 +587,21 @@ export class FallbackProvider extends AbstractProvider {
         this.eventQuorum = 1;
         this.eventWorkers = 1;
 
-        assertArgument(this.quorum <= this.#configs.reduce((a, c) => (a + c.weight), 0),
+        this.#adaptiveRouting = (options && options.adaptiveRouting != null) ? options.adaptiveRouting: true;
+        this.#circuitBreakerThreshold = (options && options.circuitBreakerThreshold != null) ? options.circuitBreakerThreshold: 3;
+        this.#circuitBreakerCooldown = (options && options.circuitBreakerCooldown != null) ? options.circuitBreakerCooldown: 30000;
+
+        const totalWeight = this.#configs.reduce((a, c) => (a + c.weight), 0);
+
+        assertArgument(this.quorum <= totalWeight,
             "quorum exceed provider weight", "quorum", this.quorum);
+
+        this.#policies = Object.assign({ }, (options && options.policies) || { });
+        for (const method in this.#policies) {
+            const policy = this.#policies[method];
+            assertArgument(policy.quorum == null || policy.quorum <= totalWeight,
+                "quorum exceed provider weight", `options.policies.${ method }.quorum`, policy.quorum);
+        }
     }
 
     get providerConfigs(): Array<FallbackProviderState> {
@@ -424,6 +614,113 @@ export class FallbackProvider extends AbstractProvider {
         });
     }
 
+    // The quorum policy for %%req%%, from its method
+    #getPolicy(req: PerformActionRequest): Policy {
+        const policy = this.#policies[req.method] || { };
+
+        let strategy = policy.strategy;
+        if (strategy == null) {
+            // Pending blocks are in the mempool and already
+            // quite untrustworthy; just grab anything
+            if (req.method === "getBlock" && "blockTag" in req && req.blockTag === "pending") {
+                strategy = "any";
+            } else {
+                strategy = defaultStrategies[req.method];
+            }
+        }
+
+        assert(strategy != null || policy.compare != null, "unsupported method", "UNSUPPORTED_OPERATION", {
+            operation: `_perform(${ stringify((<any>req).method) })`
+        });
+
+        return {
+            quorum: (policy.quorum != null) ? policy.quorum: this.quorum,
+            strategy: strategy || "equal",
+            compare: policy.compare || null,
+            broadcast: !!policy.broadcast
+        };
+    }
+
+    /**
+     *  Returns the health statistics of each provider, which are used to
+     *  route requests, in the order the providers were given.
+     */
+    getProviderStats(): Array<FallbackProviderStats> {
+        const now = getTime();
+        const configs = this.providerConfigs;
+        return this.#configs.map((config, index) => {
+            let circuit: FallbackCircuitState = "closed";
+            if (config._circuitOpenUntil) {
+                circuit = (config._circuitOpenUntil > now) ? "open": "half-open";
+            }
+
+            return Object.assign(configs[index], {
+                errorRate: config._errorRate,
+                consecutiveErrors: config._consecutiveErrors,
+                health: this.#getHealth(config),
+                circuit,
+                cooldownRemaining: Math.max(0, config._circuitOpenUntil - now)
+            });
+        });
+    }
+
+    #getHealth(config: Config): number {
+        if (config._lastFatalError || config._circuitOpenUntil) { return 0; }
+
+        // Compare the latency against the fastest provider
+        let fastest = config.rollingDuration;
+        for (const c of this.#configs) {
+            if (c._lastFatalError || c.requests === 0) { continue; }
+            fastest = Math.min(fastest, c.rollingDuration);
+        }
+        const latency = (fastest + LatencyTolerance) / (config.rollingDuration + LatencyTolerance);
+
+        return (1 - config._errorRate) * latency;
+    }
+
+    // Updates the health of a provider after each response
+    #updateHealth(config: Config, error: null | Error): void {
+        if (error != null) {
+            // The provider is fine; it just does not support this method
+            if (isError(error, "UNSUPPORTED_OPERATION")) {
+                config.unsupportedEvents++;
+                return;
+            }
+            if (!isFailure(error)) { error = null; }
+        }
+
+        config._errorRate = 0.9 * config._errorRate + ((error != null) ? 0.1: 0);
+
+        if (error == null) {
+            config._consecutiveErrors = 0;
+            return;
+        }
+
+        config._consecutiveErrors++;
+
+        const threshold = this.#circuitBreakerThreshold;
+        if (threshold > 0 && config._consecutiveErrors >= threshold && !config._circuitOpenUntil) {
+            config._circuitOpenUntil = getTime() + this.#circuitBreakerCooldown;
+        }
+    }
+
+    // Sends a probe request to a provider with an open circuit breaker,
+    // closing it if the provider has recovered
+    #probe(config: Config): void {
+        if (config._probe) { return; }
+
+        config._probe = (async () => {
+            try {
+                await config.provider.getBlockNumber();
+                config._circuitOpenUntil = 0;
+                this.#updateHealth(config, null);
+            } catch (error: any) {
+                config._circuitOpenUntil = getTime() + this.#circuitBreakerCooldown;
+            }
+            config._probe = null;
+        })();
+    }
+
     async _detectNetwork(): Promise<Network> {
         return Network.from(getBigInt(await this._perform({ method: "chainId" })));
     }
@@ -441,11 +738,18 @@ export class FallbackProvider extends AbstractProvider {
             case "broadcastTransaction":
                 return await provider.broadcastTransaction(req.signedTransaction);
             case "call":
-                return await provider.call(Object.assign({ }, req.transaction, { blockTag: req.blockTag }));
+                return await provider.call(Object.assign({ }, req.transaction, {
+                    blockTag: req.blockTag,
+                    stateOverride: req.stateOverride,
+                    blockOverrides: req.blockOverrides
+                }));
             case "chainId":
                 return (await provider.getNetwork()).chainId;
             case "estimateGas":
-                return await provider.estimateGas(req.transaction);
+                return await provider.estimateGas(Object.assign({ }, req.transaction, {
+                    stateOverride: req.stateOverride,
+                    blockOverrides: req.blockOverrides
+                }));
             case "getBalance":
                 return await provider.getBalance(req.address, req.blockTag);
             case "getBlock": {
@@ -472,29 +776,56 @@ export class FallbackProvider extends AbstractProvider {
                 return await provider.getTransactionReceipt(req.hash);
             case "getTransactionResult":
                 return await provider.getTransactionResult(req.hash);
+            case "simulate":
+                return await provider.simulate(req.blocks, {
+                    blockTag: req.blockTag,
+                    validation: req.validation,
+                    traceTransfers: req.traceTransfers
+                });
         }
     }
 
-    // Grab the next (random) config that is not already part of
-    // the running set
+    // Grab the next (random, favouring healthy) config that is not
+    // already part of the running set
     #getNextConfig(running: Set<RunnerState>): null | Config {
-        // @TODO: Maybe do a check here to favour (heavily) providers that
-        //        do not require waitForSync and disfavour providers that
-        //        seem down-ish or are behaving slowly
+        const now = getTime();
 
         const configs = Array.from(running).map((r) => r.config)
 
-        // Shuffle the states, sorted by priority
-        const allConfigs = this.#configs.slice();
-        shuffle(allConfigs);
-        allConfigs.sort((a, b) => (a.priority - b.priority));
+        const candidates = this.#configs.filter((c) => {
+            return (!c._lastFatalError && configs.indexOf(c) === -1);
+        });
+
+        // Skip any open circuits; once the cooldown has elapsed, probe
+        // whether the provider has recovered
+        const available = candidates.filter((c) => {
+            if (!c._circuitOpenUntil) { return true; }
+            if (c._circuitOpenUntil <= now) { this.#probe(c); }
+            return false;
+        });
+
+        // As a last resort, use the provider which is closest to its probe
+        if (available.length === 0) {
+            candidates.sort((a, b) => (a._circuitOpenUntil - b._circuitOpenUntil));
+            return candidates[0] || null;
+        }
+
+        // Only consider the best priority
+        const priority = available.reduce((a, c) => Math.min(a, c.priority), Infinity);
+        const group = available.filter((c) => (c.priority === priority));
+
+        shuffle(group);
+        if (!this.#adaptiveRouting) { return group[0]; }
 
-        for (const config of allConfigs) {
-            if (config._lastFatalError) { continue; }
-            if (configs.indexOf(config) === -1) { return config; }
+        // Choose randomly, weighted by health
+        const healths = group.map((c) => Math.max(MinHealth, this.#getHealth(c)));
+        let value = Math.random() * healths.reduce((a, h) => (a + h), 0);
+        for (let i = 0; i < group.length; i++) {
+            value -= healths[i];
+            if (value < 0) { return group[i]; }
         }
 
-        return null;
+        return group[group.length - 1];
     }
 
     // Adds a new runner (if available) to running.
@@ -518,15 +849,23 @@ export class FallbackProvider extends AbstractProvider {
                 config.requests++;
                 const result = await this._translatePerform(config.provider, req);
                 runner.result = { result };
+                this.#updateHealth(config, null);
             } catch (error: any) {
                 config.errorResponses++;
                 runner.result = { error };
+                this.#updateHealth(config, error);
             }
 
             const dt = (getTime() - now);
             config._totalTime += dt;
 
-            config.rollingDuration = 0.95 * config.rollingDuration + 0.05 * dt;
+            // Use the mean of the first responses to seed the rolling
+            // average, so a single slow start does not dominate it
+            if (config.requests <= 20) {
+                config.rollingDuration += (dt - config.rollingDuration) / config.requests;
+            } else {
+                config.rollingDuration = 0.95 * config.rollingDuration + 0.05 * dt;
+            }
 
             runner.perform = null;
         })();
@@ -581,74 +920,69 @@ export class FallbackProvider extends AbstractProvider {
     }
 
 
-    async #checkQuorum(running: Set<RunnerState>, req: PerformActionRequest): Promise<any> {
+    async #checkQuorum(running: Set<RunnerState>, req: PerformActionRequest, policy: Policy): Promise<any> {
+        const quorum = policy.quorum;
+
         // Get all the result objects
-        const results: Array<TallyResult> = [ ];
-        for (const runner of running) {
-            if (runner.result != null) {
-                const { tag, value } = normalizeResult(runner.result);
-                results.push({ tag, value, weight: runner.config.weight });
-            }
-        }
+        const results = this.#getResults(running);
 
         // Are there enough results to event meet quorum?
-        if (results.reduce((a, r) => (a + r.weight), 0) < this.quorum) {
+        if (results.reduce((a, r) => (a + r.weight), 0) < quorum) {
             return undefined;
         }
 
-        switch (req.method) {
-            case "getBlockNumber": {
+        if (policy.compare) { return checkQuorum(quorum, results, policy.compare); }
+
+        switch (policy.strategy) {
+            case "median": {
+                if (req.method !== "getBlockNumber") { return getMedian(quorum, results); }
+
                 // We need to get the bootstrap block height
                 if (this.#height === -2) {
-                    this.#height = Math.ceil(getNumber(<bigint>getMedian(this.quorum, this.#configs.filter((c) => (!c._lastFatalError)).map((c) => ({
+                    this.#height = Math.ceil(getNumber(<bigint>getMedian(quorum, this.#configs.filter((c) => (!c._lastFatalError)).map((c, index) => ({
                         value: c.blockNumber,
                         tag: getNumber(c.blockNumber).toString(),
-                        weight: c.weight
+                        weight: c.weight,
+                        index
                     })))));
                 }
 
-                // Find the mode across all the providers, allowing for
-                // a little drift between block heights
-                const mode = getFuzzyMode(this.quorum, results);
-                if (mode === undefined) { return undefined; }
-                if (mode > this.#height) { this.#height = mode; }
+                const median = getMedian(quorum, results);
+                if (median === undefined || median instanceof Error) { return median; }
+
+                // The block height never goes backwards
+                const blockNumber = getNumber(median);
+                if (blockNumber > this.#height) { this.#height = blockNumber; }
                 return this.#height;
             }
 
-            case "getGasPrice":
-            case "getPriorityFee":
-            case "estimateGas":
-                return getMedian(this.quorum, results);
+            case "log-set":
+                return checkQuorum(quorum, getStrategyResults(policy, results));
 
-            case "getBlock":
-                // Pending blocks are in the mempool and already
-                // quite untrustworthy; just grab anything
-                if ("blockTag" in req && req.blockTag === "pending") {
-                    return getAnyResult(this.quorum, results);
-                }
-                return checkQuorum(this.quorum, results);
-
-            case "call":
-            case "chainId":
-            case "getBalance":
-            case "getTransactionCount":
-            case "getCode":
-            case "getStorage":
-            case "getTransaction":
-            case "getTransactionReceipt":
-            case "getLogs":
-                return checkQuorum(this.quorum, results);
+            case "any":
+                return getAnyResult(quorum, results);
 
-            case "broadcastTransaction":
-                return getAnyResult(this.quorum, results);
+            case "equal":
+                return checkQuorum(quorum, results);
         }
 
-        assert(false, "unsupported method", "UNSUPPORTED_OPERATION", {
+        assert(false, "unsupported strategy", "UNSUPPORTED_OPERATION", {
             operation: `_perform(${ stringify((<any>req).method) })`
         });
     }
 
-    async #waitForQuorum(running: Set<RunnerState>, req: PerformActionRequest): Promise<any> {
+    #getResults(running: Set<RunnerState>): Array<TallyResult> {
+        const results: Array<TallyResult> = [ ];
+        for (const runner of running) {
+            if (runner.result == null) { continue; }
+            const { tag, value } = normalizeResult(runner.result);
+            const index = this.#configs.indexOf(runner.config);
+            results.push({ tag, value, weight: runner.config.weight, index });
+        }
+        return results;
+    }
+
+    async #waitForQuorum(running: Set<RunnerState>, req: PerformActionRequest, policy: Policy): Promise<any> {
         if (running.size === 0) { throw new Error("no runners?!"); }
 
         // Any promises that are interesting to watch for; an expired stall
@@ -678,7 +1012,7 @@ export class FallbackProvider extends AbstractProvider {
         }
 
         // Check if we have reached quorum on a result (or error)
-        const value = await this.#checkQuorum(running, req);
+        const value = await this.#checkQuorum(running, req, policy);
         if (value !== undefined) {
             if (value instanceof Error) { throw value; }
             return value;
@@ -687,11 +1021,25 @@ export class FallbackProvider extends AbstractProvider {
         // Add any new runners, because a staller timed out or a result
         // or error response came in.
         for (let i = 0; i < newRunners; i++) {
-            this.#addRunner(running, req);
+            const runner = this.#addRunner(running, req);
+            if (runner && runner.perform) { interesting.push(runner.perform); }
         }
 
         // All providers have returned, and we have no result
 
+        if (interesting.length === 0) {
+            // Enough backends responded, but they disagree
+            const results = getStrategyResults(policy, this.#getResults(running));
+            const tallies = tally(results, policy.compare);
+            if (tallies.length > 1 && results.reduce((a, r) => (a + r.weight), 0) >= policy.quorum) {
+                assert(false, "backends disagree; quorum not met", "QUORUM_MISMATCH", {
+                    operation: req.method,
+                    quorum: policy.quorum,
+                    responses: tallies.map(({ value, weight, backends }) => ({ value, weight, backends }))
+                });
+            }
+        }
+
         assert(interesting.length > 0, "quorum not met", "SERVER_ERROR", {
             request: "%sub-requests",
             info: { request: req, results: Array.from(running).map((r) => stringify(r.result)) }
@@ -702,10 +1050,12 @@ export class FallbackProvider extends AbstractProvider {
 
         // This is recursive, but at worst case the depth is 2x the
         // number of providers (each has a perform and a staller)
-        return await this.#waitForQuorum(running, req);
+        return await this.#waitForQuorum(running, req, policy);
     }
 
     async _perform<T = any>(req: PerformActionRequest): Promise<T> {
+        const policy = this.#getPolicy(req);
+
         // Broadcasting a transaction is rare (ish) and already incurs
         // a cost on the user, so spamming is safe-ish. Just send it to
         // every backend.
@@ -716,9 +1066,9 @@ export class FallbackProvider extends AbstractProvider {
             const broadcasts = this.#configs.map(async ({ provider, weight }, index) => {
                 try {
                     const result = await provider._perform(req);
-                    results[index] = Object.assign(normalizeResult({ result }), { weight });
+                    results[index] = Object.assign(normalizeResult({ result }), { weight, index });
                 } catch (error: any) {
-                    results[index] = Object.assign(normalizeResult({ error }), { weight });
+                    results[index] = Object.assign(normalizeResult({ error }), { weight, index });
                 }
             });
 
@@ -736,7 +1086,7 @@ export class FallbackProvider extends AbstractProvider {
                 // - alredy seend (UNKNOWN_ERROR)
                 // - NONCE_EXPIRED
                 // - REPLACEMENT_UNDERPRICED
-                const result = checkQuorum(this.quorum, <Array<any>>results.filter((r) => (r != null)));
+                const result = checkQuorum(policy.quorum, <Array<any>>results.filter((r) => (r != null)));
                 if (isError(result, "INSUFFICIENT_FUNDS")) {
                     throw result;
                 }
@@ -749,7 +1099,7 @@ export class FallbackProvider extends AbstractProvider {
 
             // Use standard quorum results; any result was returned above,
             // so this will find any error that met quorum if any
-            const result = getAnyResult(this.quorum, <Array<any>>results);
+            const result = getAnyResult(policy.quorum, <Array<any>>results);
             assert(result !== undefined, "problem multi-broadcasting", "SERVER_ERROR", {
                 request: "%sub-requests",
                 info: { request: req, results: results.map(stringify) }
@@ -760,17 +1110,18 @@ export class FallbackProvider extends AbstractProvider {
 
         await this.#initialSync();
 
-        // Bootstrap enough runners to meet quorum
+        // Bootstrap enough runners to meet quorum (or all of them, if
+        // broadcasting)
         const running: Set<RunnerState> = new Set();
         let inflightQuorum = 0;
         while (true) {
             const runner = this.#addRunner(running, req);
             if (runner == null) { break; }
             inflightQuorum += runner.config.weight;
-            if (inflightQuorum >= this.quorum) { break; }
+            if (!policy.broadcast && inflightQuorum >= policy.quorum) { break; }
         }
 
-        const result = await this.#waitForQuorum(running, req);
+        const result = await this.#waitForQuorum(running, req, policy);
 
         // Track requests sent to a provider that are still
         // outstanding after quorum has been otherwise found
@@ -15,14 +15,14 @@
 
 // https://playground.open-rpc.org/?schemaUrl=https://raw.githubusercontent.com/ethereum/eth1.0-apis/assembled-spec/openrpc.json&uiSchema%5BappBar%5D%5Bui:splitView%5D=true&uiSchema%5BappBar%5D%5Bui:input%5D=false&uiSchema%5BappBar%5D%5Bui:examplesDropdown%5D=false
 
-import { AbiCoder } from "../abi/index.js";
+import { AbiCoder, ErrorRegistry } from "../abi/index.js";
 import { getAddress, resolveAddress } from "../address/index.js";
 import { TypedDataEncoder } from "../hash/index.js";
-import { accessListify } from "../transaction/index.js";
+import { accessListify, authorizationify } from "../transaction/index.js";
 import {
     defineProperties, getBigInt, hexlify, isHexString, toQuantity, toUtf8Bytes,
     isError, makeError, assert, assertArgument,
-    FetchRequest, resolveProperties
+    FetchRequest, RequestScheduler, resolveProperties
 } from "../utils/index.js";
 
 import { AbstractProvider, UnmanagedSubscriber } from "./abstract-provider.js";
@@ -30,14 +30,28 @@ import { AbstractSigner } from "./abstract-signer.js";
 import { Network } from "./network.js";
 import { FilterIdEventSubscriber, FilterIdPendingSubscriber } from "./subscriber-filterid.js";
 import { PollingEventSubscriber } from "./subscriber-polling.js";
+import {
+    formatCallFrame, formatFlatTrace, formatPrestateTrace, formatStructLogTrace,
+    getTraceConfig
+} from "./trace.js";
 
 import type { TypedDataDomain, TypedDataField } from "../hash/index.js";
 import type { TransactionLike } from "../transaction/index.js";
+import type { ActionRejectedError, BigNumberish } from "../utils/index.js";
 
 import type { PerformActionRequest, Subscriber, Subscription } from "./abstract-provider.js";
+import type { ProviderCache } from "./cache.js";
 import type { Networkish } from "./network.js";
-import type { Provider, TransactionRequest, TransactionResponse } from "./provider.js";
+import type {
+    BlockOverrides, BlockTag, Provider, TransactionReceipt, TransactionRequest,
+    TransactionResponse
+} from "./provider.js";
 import type { Signer } from "./signer.js";
+import type {
+    CallFrame, CallTraceOptions, FlatTrace, PrestateDiffTrace, PrestateTrace,
+    PrestateTraceOptions, StructLogTrace, StructLogTraceOptions,
+    TraceInterfaces, TraceOptions
+} from "./trace.js";
 
 type Timer = ReturnType<typeof setTimeout>;
 
@@ -74,6 +88,23 @@ function getLowerCase(value: string): string {
     return value;
 }
 
+// The JSON-RPC block overrides use ``time`` for the timestamp
+function getRpcBlockOverrides(blockOverrides: BlockOverrides): Record<string, any> {
+    const { timestamp, ...result } = blockOverrides;
+    if (timestamp != null) { (<Record<string, any>>result).time = timestamp; }
+    return result;
+}
+
+function formatTrace(value: any, options: TraceOptions): CallFrame | PrestateTrace | PrestateDiffTrace | StructLogTrace {
+    switch (options.tracer) {
+        case "callTracer":
+            return formatCallFrame(value, options.interfaces);
+        case "prestateTracer":
+            return formatPrestateTrace(value, options.diffMode);
+    }
+    return formatStructLogTrace(value);
+}
+
 interface Pollable {
     pollingInterval: number;
 }
@@ -186,6 +217,25 @@ export type DebugEventJsonRpcApiProvider = {
  *  If ``batchMaxCount = 1``, then batching is disabled. (default: ``100``)
  *
  *  **``cacheTimeout``** - passed as [[AbstractProviderOptions]].
+ *
+ *  **``multicall``**, **``multicallAddress``**, **``multicallStallTime``**
+ *  and **``multicallMaxCount``** - passed as [[AbstractProviderOptions]].
+ *  Since many public endpoints limit the size of JSON-RPC batches,
+ *  merging calls into Multicall3 calls can significantly reduce the
+ *  number of requests made.
+ *
+ *  **``cache``** and **``cacheConfirmations``** - passed as
+ *  [[AbstractProviderOptions]].
+ *
+ *  **``reorgDepth``** and **``logsBlockRange``** - passed as
+ *  [[AbstractProviderOptions]].
+ *
+ *  **``errorRegistry``** - passed as [[AbstractProviderOptions]]. It is
+ *  also used by [[getRpcError]].
+ *
+ *  **``scheduler``** - a [[RequestScheduler]] which limits the rate of
+ *  requests made by the [[JsonRpcProvider]]; it may be shared with
+ *  other providers using the same API key (default: ``null``)
  */
 export type JsonRpcApiProviderOptions = {
     polling?: boolean;
@@ -196,6 +246,22 @@ export type JsonRpcApiProviderOptions = {
 
     cacheTimeout?: number;
     pollingInterval?: number;
+
+    multicall?: boolean;
+    multicallAddress?: string;
+    multicallStallTime?: number;
+    multicallMaxCount?: number;
+
+    cache?: null | ProviderCache;
+    cacheConfirmations?: number;
+
+    reorgDepth?: number;
+
+    logsBlockRange?: number;
+
+    errorRegistry?: null | ErrorRegistry;
+
+    scheduler?: null | RequestScheduler;
 };
 
 const defaultOptions = {
@@ -207,7 +273,23 @@ const defaultOptions = {
     batchMaxCount: 100,      // 100 requests
 
     cacheTimeout: 250,
-    pollingInterval: 4000
+    pollingInterval: 4000,
+
+    multicall: false,
+    multicallAddress: "0xcA11bde05977b3631167028862bE2a173976CA11",
+    multicallStallTime: 10,
+    multicallMaxCount: 100,
+
+    cache: null,
+    cacheConfirmations: 12,
+
+    reorgDepth: 64,
+
+    logsBlockRange: 0,
+
+    errorRegistry: null,
+
+    scheduler: null
 }
 
 /**
@@ -277,6 +359,175 @@ export interface JsonRpcTransactionRequest {
       *  The transaction access list.
       */
      accessList?: Array<{ address: string, storageKeys: Array<string> }>;
+
+     /**
+      *  The [[link-eip-7702]] authorization list.
+      */
+     authorizationList?: Array<{
+         address: string, nonce: string, chainId: string,
+         yParity: string, r: string, s: string
+     }>;
+}
+
+/**
+ *  The details of a chain to add to a wallet, for
+ *  [[JsonRpcApiProvider-addChain]], as specified by [[link-eip-3085]].
+ */
+export interface WalletAddChainOptions {
+    /**
+     *  The RPC URLs of the chain, at least one of which is required.
+     */
+    rpcUrls: Array<string>;
+
+    /**
+     *  The name of the chain (default: the network name).
+     */
+    chainName?: string;
+
+    /**
+     *  The native currency of the chain (default: 18 decimal ``ETH``).
+     */
+    nativeCurrency?: { name: string, symbol: string, decimals: number };
+
+    /**
+     *  The block explorer URLs of the chain.
+     */
+    blockExplorerUrls?: Array<string>;
+
+    /**
+     *  The icon URLs of the chain.
+     */
+    iconUrls?: Array<string>;
+}
+
+/**
+ *  A token to suggest a wallet tracks, for
+ *  [[JsonRpcApiProvider-watchAsset]], as specified by [[link-eip-747]].
+ */
+export interface WalletWatchAssetOptions {
+    /**
+     *  The token standard (default: ``"ERC20"``).
+     */
+    type?: string;
+
+    /**
+     *  The token address.
+     */
+    address: string;
+
+    /**
+     *  The token symbol.
+     */
+    symbol?: string;
+
+    /**
+     *  The token decimals.
+     */
+    decimals?: number;
+
+    /**
+     *  The URL of the token image.
+     */
+    image?: string;
+}
+
+/**
+ *  A permission granted by a wallet, as specified by [[link-eip-2255]].
+ */
+export interface WalletPermission {
+    /**
+     *  The permitted method (e.g. ``"eth_accounts"``).
+     */
+    parentCapability: string;
+
+    /**
+     *  The origin granted the permission.
+     */
+    invoker: string;
+
+    /**
+     *  Any restrictions on the permission.
+     */
+    caveats: Array<{ type: string, value: any }>;
+
+    /**
+     *  The time the permission was granted, if provided.
+     */
+    date?: number;
+}
+
+/**
+ *  The options for [[JsonRpcSigner-sendCalls]].
+ */
+export interface WalletSendCallsOptions {
+    /**
+     *  If true, the wallet must execute all the calls atomically, or
+     *  reject the request (default: ``false``).
+     */
+    atomicRequired?: boolean;
+
+    /**
+     *  A unique identifier for the calls; by default the wallet
+     *  assigns one.
+     */
+    id?: string;
+}
+
+/**
+ *  The status of calls sent using [[JsonRpcSigner-sendCalls]], as
+ *  specified by [[link-eip-5792]].
+ */
+export interface WalletCallsStatus {
+    /**
+     *  The identifier of the calls.
+     */
+    id: string;
+
+    /**
+     *  The chain ID the calls were sent on.
+     */
+    chainId: bigint;
+
+    /**
+     *  The status code, which is ``100`` while pending, ``200`` once
+     *  confirmed, ``400`` if the calls were not included on-chain,
+     *  ``500`` if the calls reverted and ``600`` if only some of the
+     *  calls were included.
+     */
+    status: number;
+
+    /**
+     *  Whether the wallet executed the calls atomically.
+     */
+    atomic: boolean;
+
+    /**
+     *  The receipts of any transactions which included the calls.
+     */
+    receipts: Array<TransactionReceipt>;
+
+    /**
+     *  The hashes of any transactions reported by the wallet, whose
+     *  receipts are not yet available from the provider.
+     */
+    missingReceipts: Array<string>;
+
+    /**
+     *  Any capability-specific information provided by the wallet.
+     */
+    capabilities: null | Record<string, any>;
+}
+
+// Returns the EIP-1193 error code of a JSON-RPC error, if any
+function getWalletErrorCode(error: any): null | number {
+    const e = (error && error.error) || { };
+
+    // Some mobile wallets wrap the actual error
+    if (e.data && e.data.originalError && e.data.originalError.code != null) {
+        return e.data.originalError.code;
+    }
+
+    return (e.code != null) ? e.code: null;
 }
 
 // @TODO: Unchecked Signers
@@ -459,6 +710,180 @@ export class JsonRpcSigner extends AbstractSigner<JsonRpcApiProvider> {
             this.address.toLowerCase(), password, null ]);
     }
 
+    /**
+     *  Requests the wallet make all %%calls%% (e.g. the result of a
+     *  contract method ``populateTransaction``), using
+     *  ``wallet_sendCalls`` ([[link-eip-5792]]), resolving to the
+     *  identifier of the calls.
+     *
+     *  Any %%capabilities%% (e.g. a ``paymasterService``) are passed
+     *  to the wallet, which should be checked using
+     *  [[getCapabilities]] first.
+     *
+     *  If the user rejects the request, an ``ACTION_REJECTED`` is thrown.
+     */
+    async sendCalls(calls: Array<TransactionRequest>, capabilities?: Record<string, any>, options?: WalletSendCallsOptions): Promise<string> {
+        if (options == null) { options = { }; }
+
+        assertArgument(calls.length > 0, "no calls", "calls", calls);
+
+        const network = await this.provider.getNetwork();
+
+        const populated = await Promise.all(calls.map(async (call) => {
+            const tx = await this.populateCall(call);
+
+            assertArgument(tx.chainId == null || getBigInt(tx.chainId) === network.chainId,
+                "call chainId mismatch", "calls", calls);
+
+            const result: Record<string, any> = { };
+            if (tx.to != null) { result.to = tx.to; }
+            if (tx.data != null) { result.data = hexlify(tx.data); }
+            if (tx.value != null) { result.value = toQuantity(tx.value); }
+            return result;
+        }));
+
+        const params: Record<string, any> = {
+            version: "2.0.0",
+            from: this.address,
+            chainId: toQuantity(network.chainId),
+            atomicRequired: !!options.atomicRequired,
+            calls: populated
+        };
+        if (options.id != null) { params.id = options.id; }
+        if (capabilities != null) { params.capabilities = capabilities; }
+
+        const result = await this.provider.send("wallet_sendCalls", [ params ]);
+
+        // Earlier versions of the specification returned only the id
+        if (typeof(result) === "string") { return result; }
+        return result.id;
+    }
+
+    /**
+     *  Resolves to the status of the calls with %%id%%, using
+     *  ``wallet_getCallsStatus`` ([[link-eip-5792]]).
+     *
+     *  Since the wallet only provides a subset of each receipt, the
+     *  full [[TransactionReceipt]] is fetched from the provider; the
+     *  hashes of any not yet available are included in
+     *  ``missingReceipts``.
+     */
+    async getCallsStatus(id: string): Promise<WalletCallsStatus> {
+        const result = await this.provider.send("wallet_getCallsStatus", [ id ]);
+
+        // Earlier versions of the specification used a string status;
+        // any other status must be numeric, or waitForCalls could never
+        // determine the calls are complete
+        let status = result.status;
+        if (status === "PENDING") {
+            status = 100;
+        } else if (status === "CONFIRMED") {
+            status = 200;
+        }
+        assert(typeof(status) === "number" || (typeof(status) === "string" && status.match(/^(0x[0-9a-f]+|[0-9]+)$/i)),
+            "invalid calls status", "BAD_DATA", { value: result.status });
+
+        const receipts: Array<TransactionReceipt> = [ ];
+        const missingReceipts: Array<string> = [ ];
+        for (const { transactionHash } of (result.receipts || [ ])) {
+            const receipt = await this.provider.getTransactionReceipt(transactionHash);
+            if (receipt) {
+                receipts.push(receipt);
+            } else {
+                missingReceipts.push(transactionHash);
+            }
+        }
+
+        return {
+            id: (result.id != null) ? result.id: id,
+            chainId: (result.chainId != null) ? getBigInt(result.chainId): (await this.provider.getNetwork()).chainId,
+            status: Number(getBigInt(status)),
+            atomic: !!result.atomic,
+            receipts, missingReceipts,
+            capabilities: result.capabilities || null
+        };
+    }
+
+    /**
+     *  Resolves to the status of the calls with %%id%%, once they are
+     *  no longer pending (i.e. the ``status`` is ``200`` or higher) and
+     *  the provider has the receipt of each transaction.
+     *
+     *  If %%timeout%% (in ms) is specified and the calls are still
+     *  pending, a ``TIMEOUT`` error is thrown.
+     */
+    async waitForCalls(id: string, timeout?: number): Promise<WalletCallsStatus> {
+        const expires = (timeout != null) ? Date.now() + timeout: Infinity;
+
+        while (true) {
+            const status = await this.getCallsStatus(id);
+            if (status.status >= 200 && status.missingReceipts.length === 0) { return status; }
+
+            const delay = Math.min(this.provider.pollingInterval, expires - Date.now());
+            assert(delay > 0, "timeout", "TIMEOUT", { operation: "waitForCalls", reason: "timeout" });
+
+            await new Promise((resolve) => { setTimeout(resolve, delay); });
+        }
+    }
+
+    /**
+     *  Resolves to the capabilities the wallet supports for this
+     *  account, by chain ID (as a hex string), using
+     *  ``wallet_getCapabilities`` ([[link-eip-5792]]).
+     *
+     *  If %%chainIds%% is specified, only those chains are included.
+     */
+    async getCapabilities(chainIds?: Array<BigNumberish>): Promise<Record<string, Record<string, any>>> {
+        const params: Array<any> = [ this.address ];
+        if (chainIds != null) { params.push(chainIds.map((c) => toQuantity(c))); }
+        return await this.provider.send("wallet_getCapabilities", params);
+    }
+
+    /**
+     *  Requests the wallet switch to %%network%%.
+     *
+     *  See [[JsonRpcApiProvider-switchChain]].
+     */
+    async switchChain(network: Networkish, addChain?: WalletAddChainOptions): Promise<void> {
+        return await this.provider.switchChain(network, addChain);
+    }
+
+    /**
+     *  Requests the wallet add %%network%%.
+     *
+     *  See [[JsonRpcApiProvider-addChain]].
+     */
+    async addChain(network: Networkish, options: WalletAddChainOptions): Promise<void> {
+        return await this.provider.addChain(network, options);
+    }
+
+    /**
+     *  Requests the wallet track the token %%asset%%.
+     *
+     *  See [[JsonRpcApiProvider-watchAsset]].
+     */
+    async watchAsset(asset: WalletWatchAssetOptions): Promise<boolean> {
+        return await this.provider.watchAsset(asset);
+    }
+
+    /**
+     *  Requests the wallet grant %%permissions%%.
+     *
+     *  See [[JsonRpcApiProvider-requestPermissions]].
+     */
+    async requestPermissions(permissions?: Record<string, any>): Promise<Array<WalletPermission>> {
+        return await this.provider.requestPermissions(permissions);
+    }
+
+    /**
+     *  Resolves to the permissions granted by the wallet.
+     *
+     *  See [[JsonRpcApiProvider-getPermissions]].
+     */
+    async getPermissions(): Promise<Array<WalletPermission>> {
+        return await this.provider.getPermissions();
+    }
+
     // https://github.com/ethereum/wiki/wiki/JSON-RPC#eth_sign
     async _legacySignMessage(_message: string | Uint8Array): Promise<string> {
         const message = ((typeof(_message) === "string") ? toUtf8Bytes(_message): _message);
@@ -845,6 +1270,21 @@ export abstract class JsonRpcApiProvider extends AbstractProvider {
             result["accessList"] = accessListify(tx.accessList);
         }
 
+        // Normalize the authorization list, flattening the signature
+        if (tx.authorizationList) {
+            result["authorizationList"] = tx.authorizationList.map((_a) => {
+                const a = authorizationify(_a);
+                return {
+                    address: a.address,
+                    nonce: toQuantity(a.nonce),
+                    chainId: toQuantity(a.chainId),
+                    yParity: toQuantity(a.signature.yParity),
+                    r: toQuantity(a.signature.r),
+                    s: toQuantity(a.signature.s),
+                }
+            });
+        }
+
         if (tx.blobVersionedHashes) {
             // @TODO: Remove this <any> case once EIP-4844 added to prepared tx
             (<any>result)["blobVersionedHashes"] = tx.blobVersionedHashes.map(h => h.toLowerCase());
@@ -936,18 +1376,42 @@ export abstract class JsonRpcApiProvider extends AbstractProvider {
                     args: [ req.hash ]
                 };
 
-            case "call":
-                return {
-                    method: "eth_call",
-                    args: [ this.getRpcTransaction(req.transaction), req.blockTag ]
-                };
+            case "call": {
+                const args: Array<any> = [ this.getRpcTransaction(req.transaction), req.blockTag ];
+                if (req.stateOverride || req.blockOverrides) {
+                    args.push(req.stateOverride || { });
+                    if (req.blockOverrides) { args.push(getRpcBlockOverrides(req.blockOverrides)); }
+                }
+                return { method: "eth_call", args };
+            }
 
             case "estimateGas": {
+                const args: Array<any> = [ this.getRpcTransaction(req.transaction) ];
+                if (req.stateOverride || req.blockOverrides) {
+                    args.push("latest", req.stateOverride || { });
+                    if (req.blockOverrides) { args.push(getRpcBlockOverrides(req.blockOverrides)); }
+                }
+                return { method: "eth_estimateGas", args };
+            }
+
+            case "simulate":
                 return {
-                    method: "eth_estimateGas",
-                    args: [ this.getRpcTransaction(req.transaction) ]
+                    method: "eth_simulateV1",
+                    args: [ {
+                        blockStateCalls: req.blocks.map((block) => {
+                            const result: Record<string, any> = {
+                                calls: block.calls.map((tx) => this.getRpcTransaction(tx))
+                            };
+                            if (block.stateOverride) { result.stateOverrides = block.stateOverride; }
+                            if (block.blockOverrides) {
+                                result.blockOverrides = getRpcBlockOverrides(block.blockOverrides);
+                            }
+                            return result;
+                        }),
+                        validation: req.validation,
+                        traceTransfers: req.traceTransfers
+                    }, req.blockTag ]
                 };
-            }
 
             case "getLogs":
                 if (req.filter && req.filter.address != null) {
@@ -986,11 +1450,11 @@ export abstract class JsonRpcApiProvider extends AbstractProvider {
         if (method === "eth_call" || method === "eth_estimateGas") {
             const result = spelunkData(error);
 
-            const e = AbiCoder.getBuiltinCallException(
+            const e = this.errorRegistry.updateError(AbiCoder.getBuiltinCallException(
                 (method === "eth_call") ? "call": "estimateGas",
                 ((<any>payload).params[0]),
                 (result ? result.data: null)
-            );
+            ));
             e.info = { error, payload };
             return e;
         }
@@ -1000,8 +1464,9 @@ export abstract class JsonRpcApiProvider extends AbstractProvider {
 
         const message = JSON.stringify(spelunkMessage(error));
 
-        if (typeof(error.message) === "string" && error.message.match(/user denied|ethers-user-denied/i)) {
-            const actionMap: Record<string, "requestAccess" | "sendTransaction" | "signMessage" | "signTransaction" | "signTypedData"> = {
+        // EIP-1193 wallets use 4001 for user rejection
+        if ((typeof(error.message) === "string" && error.message.match(/user denied|ethers-user-denied/i)) || error.code === 4001) {
+            const actionMap: Record<string, ActionRejectedError["action"]> = {
                 eth_sign: "signMessage",
                 personal_sign: "signMessage",
                 eth_signTypedData_v4: "signTypedData",
@@ -1009,6 +1474,11 @@ export abstract class JsonRpcApiProvider extends AbstractProvider {
                 eth_sendTransaction: "sendTransaction",
                 eth_requestAccounts: "requestAccess",
                 wallet_requestAccounts: "requestAccess",
+                wallet_requestPermissions: "requestAccess",
+                wallet_switchEthereumChain: "switchChain",
+                wallet_addEthereumChain: "addChain",
+                wallet_watchAsset: "watchAsset",
+                wallet_sendCalls: "sendTransaction",
             };
 
             return makeError(`user rejected action`, "ACTION_REJECTED", {
@@ -1095,6 +1565,84 @@ export abstract class JsonRpcApiProvider extends AbstractProvider {
         return <Promise<JsonRpcResult>>promise;
     }
 
+    /**
+     *  Resolves to the trace of the transaction %%hash%%, using the
+     *  ``debug_traceTransaction`` method.
+     *
+     *  The %%options%% select the tracer, which determines the type of
+     *  the result; the ``callTracer`` returns the [[CallFrame]] tree, the
+     *  ``prestateTracer`` returns the accessed state (or the
+     *  [[PrestateDiffTrace]] with ``diffMode``) and otherwise the opcode
+     *  [[StructLogTrace]] is returned.
+     *
+     *  If ``interfaces`` are provided, each call frame is decoded using
+     *  the matching [[Interface]].
+     */
+    async traceTransaction(hash: string, options: CallTraceOptions): Promise<CallFrame>;
+    async traceTransaction(hash: string, options: PrestateTraceOptions & { diffMode: true }): Promise<PrestateDiffTrace>;
+    async traceTransaction(hash: string, options: PrestateTraceOptions): Promise<PrestateTrace>;
+    async traceTransaction(hash: string, options?: StructLogTraceOptions): Promise<StructLogTrace>;
+    async traceTransaction(hash: string, options?: TraceOptions): Promise<CallFrame | PrestateTrace | PrestateDiffTrace | StructLogTrace> {
+        assertArgument(isHexString(hash, 32), "invalid transaction hash", "hash", hash);
+        if (options == null) { options = { }; }
+
+        const result = await this.send("debug_traceTransaction", [ hash, getTraceConfig(options) ]);
+        return formatTrace(result, options);
+    }
+
+    /**
+     *  Resolves to the trace of executing %%tx%% as a call, using the
+     *  ``debug_traceCall`` method.
+     *
+     *  Any ``stateOverride`` or ``blockOverrides`` on %%tx%% are applied
+     *  before tracing. See [[traceTransaction]] for the %%options%%.
+     */
+    async traceCall(tx: TransactionRequest, options: CallTraceOptions): Promise<CallFrame>;
+    async traceCall(tx: TransactionRequest, options: PrestateTraceOptions & { diffMode: true }): Promise<PrestateDiffTrace>;
+    async traceCall(tx: TransactionRequest, options: PrestateTraceOptions): Promise<PrestateTrace>;
+    async traceCall(tx: TransactionRequest, options?: StructLogTraceOptions): Promise<StructLogTrace>;
+    async traceCall(_tx: TransactionRequest, options?: TraceOptions): Promise<CallFrame | PrestateTrace | PrestateDiffTrace | StructLogTrace> {
+        if (options == null) { options = { }; }
+
+        const { tx, blockTag } = await resolveProperties({
+            tx: this._getTransactionRequest(_tx),
+            blockTag: this._getBlockTag(_tx.blockTag)
+        });
+
+        const config = getTraceConfig(options);
+        if (tx.stateOverride) { config.stateOverrides = tx.stateOverride; }
+        if (tx.blockOverrides) { config.blockOverrides = getRpcBlockOverrides(tx.blockOverrides); }
+
+        const result = await this.send("debug_traceCall", [ this.getRpcTransaction(tx), blockTag, config ]);
+        return formatTrace(result, options);
+    }
+
+    /**
+     *  Resolves to the Parity-style traces of the transaction %%hash%%,
+     *  using the ``trace_transaction`` method.
+     *
+     *  If %%interfaces%% are provided, each trace is decoded using the
+     *  matching [[Interface]].
+     */
+    async getTransactionTraces(hash: string, interfaces?: TraceInterfaces): Promise<Array<FlatTrace>> {
+        assertArgument(isHexString(hash, 32), "invalid transaction hash", "hash", hash);
+
+        const result = await this.send("trace_transaction", [ hash ]);
+        return (result || [ ]).map((t: any) => formatFlatTrace(t, interfaces));
+    }
+
+    /**
+     *  Resolves to the Parity-style traces of every transaction in
+     *  %%blockTag%%, using the ``trace_block`` method.
+     *
+     *  If %%interfaces%% are provided, each trace is decoded using the
+     *  matching [[Interface]].
+     */
+    async getBlockTraces(blockTag: BlockTag, interfaces?: TraceInterfaces): Promise<Array<FlatTrace>> {
+        const result = await this.send("trace_block", [ await this._getBlockTag(blockTag) ]);
+        return (result || [ ]).map((t: any) => formatFlatTrace(t, interfaces));
+    }
+
     /**
      *  Resolves to the [[Signer]] account for  %%address%% managed by
      *  the client.
@@ -1140,6 +1688,99 @@ export abstract class JsonRpcApiProvider extends AbstractProvider {
         return accounts.map((a) => new JsonRpcSigner(this, a));
     }
 
+    /**
+     *  Requests the wallet switch to %%network%%, using
+     *  ``wallet_switchEthereumChain`` ([[link-eip-3326]]).
+     *
+     *  If the wallet does not recognize the chain and %%addChain%% is
+     *  provided, the chain is added using [[addChain]], which most
+     *  wallets also switch to. Otherwise an ``UNSUPPORTED_OPERATION``
+     *  is thrown.
+     *
+     *  If the user rejects the request, an ``ACTION_REJECTED`` is thrown.
+     */
+    async switchChain(network: Networkish, addChain?: WalletAddChainOptions): Promise<void> {
+        const chainId = Network.from(network).chainId;
+
+        try {
+            await this.send("wallet_switchEthereumChain", [ { chainId: toQuantity(chainId) } ]);
+        } catch (error) {
+            // Unrecognized chain
+            if (getWalletErrorCode(error) === 4902) {
+                if (addChain) { return await this.addChain(network, addChain); }
+
+                assert(false, "chain not added to wallet", "UNSUPPORTED_OPERATION", {
+                    operation: "switchChain", info: { chainId, error }
+                });
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     *  Requests the wallet add %%network%%, using
+     *  ``wallet_addEthereumChain`` ([[link-eip-3085]]).
+     *
+     *  If the user rejects the request, an ``ACTION_REJECTED`` is thrown.
+     */
+    async addChain(_network: Networkish, options: WalletAddChainOptions): Promise<void> {
+        const network = Network.from(_network);
+
+        assertArgument(options && options.rpcUrls && options.rpcUrls.length > 0,
+            "missing rpcUrls", "options.rpcUrls", options && options.rpcUrls);
+
+        const params: Record<string, any> = {
+            chainId: toQuantity(network.chainId),
+            chainName: (options.chainName || network.name),
+            nativeCurrency: (options.nativeCurrency || { name: "Ether", symbol: "ETH", decimals: 18 }),
+            rpcUrls: options.rpcUrls
+        };
+        if (options.blockExplorerUrls) { params.blockExplorerUrls = options.blockExplorerUrls; }
+        if (options.iconUrls) { params.iconUrls = options.iconUrls; }
+
+        await this.send("wallet_addEthereumChain", [ params ]);
+    }
+
+    /**
+     *  Requests the wallet track the token %%asset%%, using
+     *  ``wallet_watchAsset`` ([[link-eip-747]]).
+     *
+     *  Resolves to ``true`` if the token was added. If the user rejects
+     *  the request, an ``ACTION_REJECTED`` is thrown.
+     */
+    async watchAsset(asset: WalletWatchAssetOptions): Promise<boolean> {
+        const options: Record<string, any> = { address: getAddress(asset.address) };
+        if (asset.symbol != null) { options.symbol = asset.symbol; }
+        if (asset.decimals != null) { options.decimals = asset.decimals; }
+        if (asset.image != null) { options.image = asset.image; }
+
+        return !!(await this.send("wallet_watchAsset", {
+            type: (asset.type || "ERC20"), options
+        }));
+    }
+
+    /**
+     *  Requests the wallet grant %%permissions%% (default: access to
+     *  the accounts), using ``wallet_requestPermissions``
+     *  ([[link-eip-2255]]).
+     *
+     *  Resolves to the permissions granted. If the user rejects the
+     *  request, an ``ACTION_REJECTED`` is thrown.
+     */
+    async requestPermissions(permissions?: Record<string, any>): Promise<Array<WalletPermission>> {
+        if (permissions == null) { permissions = { eth_accounts: { } }; }
+        return await this.send("wallet_requestPermissions", [ permissions ]);
+    }
+
+    /**
+     *  Resolves to the permissions granted by the wallet, using
+     *  ``wallet_getPermissions`` ([[link-eip-2255]]).
+     */
+    async getPermissions(): Promise<Array<WalletPermission>> {
+        return await this.send("wallet_getPermissions", [ ]);
+    }
+
     destroy(): void {
 
         // Stop processing requests
@@ -1241,6 +1882,10 @@ export class JsonRpcProvider extends JsonRpcApiPollingProvider {
         const request = this._getConnection();
         request.body = JSON.stringify(payload);
         request.setHeader("content-type", "application/json");
+
+        const scheduler = this._getOption("scheduler");
+        if (scheduler) { request.getUrlFunc = scheduler.wrapGetUrlFunc(request.getUrlFunc); }
+
         const response = await request.send();
         response.assertOk();
 
@@ -5,6 +5,8 @@
  *  - a sub-class MUST call the `_start()` method once connected
  *  - a sub-class MUST override the `_write(string)` method
  *  - a sub-class MUST call `_processMessage(string)` for each message
+ *  - a sub-class SHOULD call `_handleDisconnect(error)` if the connection
+ *    is lost, and override `_reconnect()` if it can reconnect
  *
  *  @_subsection: api/providers/abstract-provider:Socket Providers  [about-socketProvider]
  */
@@ -21,6 +23,39 @@ import type {
 import type { Networkish } from "./network.js";
 
 
+/**
+ *  Options for configuring a [[SocketProvider]], which extend the
+ *  [[JsonRpcApiProviderOptions]].
+ *
+ *  - **``reconnect``** - whether to automatically reconnect if the
+ *    connection is lost; the sub-class must support reconnecting
+ *    (default: ``true``)
+ *  - **``reconnectDelay``** - the delay (in ms) before the first
+ *    reconnect attempt, which doubles for each failed attempt
+ *    (default: ``1000``)
+ *  - **``reconnectMaxDelay``** - the maximum delay (in ms) between
+ *    reconnect attempts (default: ``30000``)
+ *  - **``reconnectMaxAttempts``** - the number of consecutive failed
+ *    reconnect attempts before giving up (default: ``Infinity``)
+ */
+export type SocketProviderOptions = JsonRpcApiProviderOptions & {
+    reconnect?: boolean;
+    reconnectDelay?: number;
+    reconnectMaxDelay?: number;
+    reconnectMaxAttempts?: number;
+};
+
+const defaultReconnectOptions = {
+    reconnect: true,
+    reconnectDelay: 1000,
+    reconnectMaxDelay: 30000,
+    reconnectMaxAttempts: Infinity
+};
+
+// Requests which are not re-sent after reconnecting, since they may
+// have been processed before the connection was lost
+const NoResend: Set<string> = new Set([ "eth_sendRawTransaction", "eth_sendTransaction" ]);
+
 type JsonRpcSubscription = {
     method: string,
     params: {
@@ -61,12 +96,28 @@ export class SocketSubscriber implements Subscriber {
     }
 
     start(): void {
-        this.#filterId = this.#provider.send("eth_subscribe", this.filter).then((filterId) => {;
+        this.#filterId = this.#subscribe();
+    }
+
+    #subscribe(): Promise<string | number> {
+        return this.#provider.send("eth_subscribe", this.filter).then((filterId) => {
             this.#provider._register(filterId, this);
             return filterId;
         });
     }
 
+    /**
+     *  Called by the [[SocketProvider]] once it has reconnected, since
+     *  any existing subscription ended with the previous connection.
+     *
+     *  @_ignore:
+     */
+    _resubscribe(): void {
+        // Stopped subscribers are not resubscribed
+        if (this.#filterId == null) { return; }
+        this.#filterId = this.#subscribe();
+    }
+
     stop(): void {
         (<Promise<number>>(this.#filterId)).then((filterId) => {
             if (this.#provider.destroyed) { return; }
@@ -123,15 +174,42 @@ export class SocketSubscriber implements Subscriber {
  *  ``"block"`` events.
  */
 export class SocketBlockSubscriber extends SocketSubscriber {
+    // The last block emitted
+    #blockNumber: number;
+
+    // Set after a reconnect, so any blocks missed are emitted
+    #fillGap: boolean;
+
     /**
      *  @_ignore:
      */
     constructor(provider: SocketProvider) {
         super(provider, [ "newHeads" ]);
+        this.#blockNumber = -1;
+        this.#fillGap = false;
+    }
+
+    _resubscribe(): void {
+        super._resubscribe();
+        this.#fillGap = true;
     }
 
     async _emit(provider: SocketProvider, message: any): Promise<void> {
-        provider.emit("block", parseInt(message.number));
+        const blockNumber = parseInt(message.number);
+
+        // Emit any blocks which were mined while disconnected; if the
+        // gap is too large, there is little value in back-filling
+        if (this.#fillGap) {
+            this.#fillGap = false;
+            if (this.#blockNumber !== -1 && blockNumber - this.#blockNumber <= 1000) {
+                for (let b = this.#blockNumber + 1; b < blockNumber; b++) {
+                    provider.emit("block", b);
+                }
+            }
+        }
+
+        this.#blockNumber = blockNumber;
+        provider.emit("block", blockNumber);
     }
 }
 
@@ -181,9 +259,16 @@ export class SocketEventSubscriber extends SocketSubscriber {
  *  A **SocketProvider** is backed by a long-lived connection over a
  *  socket, which can subscribe and receive real-time messages over
  *  its communication channel.
+ *
+ *  If the connection is lost, the provider emits a ``"disconnected"``
+ *  event and (if the sub-class supports it) reconnects with exponential
+ *  backoff. Once reconnected, it emits a ``"connected"`` event, re-sends
+ *  any outstanding requests and resubscribes all subscriptions. Requests
+ *  which send a transaction are instead rejected with a ``NETWORK_ERROR``,
+ *  since they may have been processed before the connection was lost.
  */
 export class SocketProvider extends JsonRpcApiProvider {
-    #callbacks: Map<number, { payload: JsonRpcPayload, resolve: (r: any) => void, reject: (e: Error) => void }>;
+    #callbacks: Map<number, { payload: JsonRpcPayload, resolve: (r: any) => void, reject: (e: Error) => void, sent: boolean }>;
 
     // Maps each filterId to its subscriber
     #subs: Map<number | string, SocketSubscriber>;
@@ -192,12 +277,24 @@ export class SocketProvider extends JsonRpcApiProvider {
     // registering, queue them
     #pending: Map<number | string, Array<any>>;
 
+    // Subscribers to resubscribe once reconnected
+    #resubscribe: Set<SocketSubscriber>;
+
+    #reconnectOptions: typeof defaultReconnectOptions;
+    #reconnectAttempts: number;
+    #reconnectTimer: null | ReturnType<typeof setTimeout>;
+
+    #connected: boolean;
+
+    // The error, once the connection has been permanently lost
+    #closed: null | Error;
+
     /**
      *  Creates a new **SocketProvider** connected to %%network%%.
      *
      *  If unspecified, the network will be discovered.
      */
-    constructor(network?: Networkish, _options?: JsonRpcApiProviderOptions) {
+    constructor(network?: Networkish, _options?: SocketProviderOptions) {
         // Copy the options
         const options = Object.assign({ }, (_options != null) ? _options: { });
 
@@ -217,8 +314,25 @@ export class SocketProvider extends JsonRpcApiProvider {
         this.#callbacks = new Map();
         this.#subs = new Map();
         this.#pending = new Map();
+        this.#resubscribe = new Set();
+
+        this.#reconnectOptions = Object.assign({ }, defaultReconnectOptions);
+        for (const _key in defaultReconnectOptions) {
+            const key = <keyof typeof defaultReconnectOptions>_key;
+            if (options[key] != null) { (<any>this.#reconnectOptions)[key] = options[key]; }
+        }
+        this.#reconnectAttempts = 0;
+        this.#reconnectTimer = null;
+
+        this.#connected = false;
+        this.#closed = null;
     }
 
+    /**
+     *  Whether the provider is currently connected.
+     */
+    get connected(): boolean { return this.#connected; }
+
     // This value is only valid after _start has been called
     /*
     get _network(): Network {
@@ -231,8 +345,8 @@ export class SocketProvider extends JsonRpcApiProvider {
 
     _getSubscriber(sub: Subscription): Subscriber {
         switch (sub.type) {
-            case "close":
-                return new UnmanagedSubscriber("close");
+            case "close": case "connected": case "disconnected":
+                return new UnmanagedSubscriber(sub.type);
             case "block":
                 return new SocketBlockSubscriber(this);
             case "pending":
@@ -270,34 +384,152 @@ export class SocketProvider extends JsonRpcApiProvider {
 
         // @TODO: stringify payloads here and store to prevent mutations
 
+        if (this.#closed) { throw this.#closed; }
+
         // Prepare a promise to respond to
+        const callback = { payload, resolve: (r: any) => { }, reject: (e: Error) => { }, sent: false };
         const promise = new Promise((resolve, reject) => {
-            this.#callbacks.set(payload.id, { payload, resolve, reject });
+            callback.resolve = resolve;
+            callback.reject = reject;
+            this.#callbacks.set(payload.id, callback);
         });
 
         // Wait until the socket is connected before writing to it
         await this._waitUntilReady();
 
-        // Write the request to the socket
-        await this._write(JSON.stringify(payload));
+        // Write the request to the socket; if disconnected, it is
+        // written once reconnected
+        if (this.#connected && !callback.sent) {
+            callback.sent = true;
+            await this._write(JSON.stringify(payload));
+        }
 
         return <Array<JsonRpcResult | JsonRpcError>>[ await promise ];
     }
 
-    // Sub-classes must call this once they are connected
-    /*
-    async _start(): Promise<void> {
-        if (this.#ready) { return; }
+    /**
+     *  Sub-classes **must** call this once they are connected, including
+     *  after each reconnect.
+     */
+    _start(): void {
+        if (this.#connected || this.destroyed) { return; }
+
+        const reconnected = this.ready;
+
+        this.#connected = true;
+        this.#reconnectAttempts = 0;
+        super._start();
+
+        if (reconnected) {
+            // Re-send any outstanding requests
+            for (const callback of this.#callbacks.values()) {
+                if (callback.sent) { continue; }
+                callback.sent = true;
+                this._write(JSON.stringify(callback.payload)).catch(() => {
+                    callback.sent = false;
+                });
+            }
 
-        for (const { payload } of this.#callbacks.values()) {
-            await this._write(JSON.stringify(payload));
+            // The previous subscriptions ended with the connection
+            const subscribers = Array.from(this.#resubscribe);
+            this.#resubscribe.clear();
+            for (const subscriber of subscribers) { subscriber._resubscribe(); }
         }
 
-        this.#ready = (async function() {
-            await super._start();
-        })();
+        this.emit("connected");
+    }
+
+    /**
+     *  Sub-classes **should** call this if the connection is lost, which
+     *  emits a ``"disconnected"`` event and schedules a reconnect.
+     *
+     *  If the sub-class cannot reconnect, or reconnecting has been
+     *  disabled, all outstanding requests are rejected.
+     */
+    _handleDisconnect(error?: null | Error): void {
+        if (this.destroyed || this.#closed) { return; }
+
+        if (this.#connected) {
+            this.#connected = false;
+
+            // The subscriptions end with the connection
+            for (const subscriber of this.#subs.values()) {
+                this.#resubscribe.add(subscriber);
+            }
+            this.#subs.clear();
+            this.#pending.clear();
+
+            for (const [ id, callback ] of this.#callbacks) {
+                const method = callback.payload.method;
+
+                // Nothing left to unsubscribe from
+                if (method === "eth_unsubscribe") {
+                    this.#callbacks.delete(id);
+                    callback.resolve({ id, result: true });
+                    continue;
+                }
+
+                if (callback.sent && NoResend.has(method)) {
+                    this.#callbacks.delete(id);
+                    callback.reject(makeError("connection lost; the request may have been processed", "NETWORK_ERROR", {
+                        event: "disconnected",
+                        info: { payload: callback.payload, error }
+                    }));
+                    continue;
+                }
+
+                callback.sent = false;
+            }
+
+            this.emit("disconnected", error || null);
+        }
+
+        // Already reconnecting
+        if (this.#reconnectTimer) { return; }
+
+        const options = this.#reconnectOptions;
+        if (!options.reconnect || this.#reconnectAttempts >= options.reconnectMaxAttempts) {
+            this.#close(error);
+            return;
+        }
+
+        const delay = Math.min(options.reconnectDelay * (2 ** this.#reconnectAttempts), options.reconnectMaxDelay);
+        this.#reconnectAttempts++;
+
+        this.#reconnectTimer = setTimeout(() => {
+            this.#reconnectTimer = null;
+            if (this.destroyed) { return; }
+            try {
+                this._reconnect();
+            } catch (error: any) {
+                this.#close(error);
+            }
+        }, delay);
+    }
+
+    // The connection cannot be recovered; fail any outstanding requests
+    #close(error?: null | Error): void {
+        this.#closed = makeError("connection closed", "NETWORK_ERROR", {
+            event: "close", info: { error }
+        });
+
+        const callbacks = Array.from(this.#callbacks.values());
+        this.#callbacks.clear();
+        this.#resubscribe.clear();
+
+        for (const { reject } of callbacks) { reject(this.#closed); }
+    }
+
+    /**
+     *  Sub-classes which support reconnecting **must** override this to
+     *  establish a new connection, calling [[_start]] once connected or
+     *  [[_handleDisconnect]] if the attempt fails.
+     */
+    _reconnect(): void {
+        assert(false, "reconnect not supported", "UNSUPPORTED_OPERATION", {
+            operation: "_reconnect"
+        });
     }
-    */
 
     /**
      *  Sub-classes **must** call this with messages received over their
@@ -349,4 +581,20 @@ export class SocketProvider extends JsonRpcApiProvider {
     async _write(message: string): Promise<void> {
         throw new Error("sub-classes must override this");
     }
+
+    destroy(): void {
+        if (this.#reconnectTimer) {
+            clearTimeout(this.#reconnectTimer);
+            this.#reconnectTimer = null;
+        }
+
+        // Cancel all outstanding requests
+        const callbacks = Array.from(this.#callbacks.values());
+        this.#callbacks.clear();
+        for (const { payload, reject } of callbacks) {
+            reject(makeError("provider destroyed; cancelled request", "UNSUPPORTED_OPERATION", { operation: payload.method }));
+        }
+
+        super.destroy();
+    }
 }
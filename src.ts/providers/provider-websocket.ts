@@ -4,7 +4,9 @@ import { WebSocket as _WebSocket } from "./ws.js"; /*-browser*/
 
 import { SocketProvider } from "./provider-socket.js";
 
-import type { JsonRpcApiProviderOptions} from "./provider-jsonrpc.js";
+import { makeError } from "../utils/index.js";
+
+import type { SocketProviderOptions } from "./provider-socket.js";
 import type { Networkish } from "./network.js";
 
 /**
@@ -14,6 +16,7 @@ export interface WebSocketLike {
     onopen: null | ((...args: Array<any>) => any);
     onmessage: null | ((...args: Array<any>) => any);
     onerror: null | ((...args: Array<any>) => any);
+    onclose?: null | ((...args: Array<any>) => any);
 
     readyState: number;
 
@@ -36,6 +39,10 @@ export type WebSocketCreator = () => WebSocketLike;
  *  However, this incurs higher server infrasturture costs, so additional
  *  resources may be required to host your own WebSocket nodes and many
  *  third-party services charge additional fees for WebSocket endpoints.
+ *
+ *  If the provider is created with a URL or a [[WebSocketCreator]], it
+ *  automatically reconnects when the WebSocket is closed (see
+ *  [[SocketProviderOptions]]).
  */
 export class WebSocketProvider extends SocketProvider {
     #connect: null | WebSocketCreator;
@@ -46,20 +53,28 @@ export class WebSocketProvider extends SocketProvider {
         return this.#websocket;
     }
 
-    constructor(url: string | WebSocketLike | WebSocketCreator, network?: Networkish, options?: JsonRpcApiProviderOptions) {
+    constructor(url: string | WebSocketLike | WebSocketCreator, network?: Networkish, options?: SocketProviderOptions) {
         super(network, options);
+        let websocket: WebSocketLike;
         if (typeof(url) === "string") {
             this.#connect = () => { return new _WebSocket(url); };
-            this.#websocket = this.#connect();
+            websocket = this.#connect();
         } else if (typeof(url) === "function") {
             this.#connect = url;
-            this.#websocket = url();
+            websocket = url();
         } else {
             this.#connect = null;
-            this.#websocket = url;
+            websocket = url;
         }
 
-        this.websocket.onopen = async () => {
+        this.#websocket = null;
+        this.#setup(websocket);
+    }
+
+    #setup(websocket: WebSocketLike): void {
+        this.#websocket = websocket;
+
+        websocket.onopen = async () => {
             try {
                 await this._start()
                 this.resume();
@@ -69,24 +84,25 @@ export class WebSocketProvider extends SocketProvider {
             }
         };
 
-        this.websocket.onmessage = (message: { data: string }) => {
+        websocket.onmessage = (message: { data: string }) => {
             this._processMessage(message.data);
         };
-/*
-        this.websocket.onclose = (event) => {
-            // @TODO: What event.code should we reconnect on?
-            const reconnect = false;
-            if (reconnect) {
-                this.pause(true);
-                if (this.#connect) {
-                    this.#websocket = this.#connect();
-                    this.#websocket.onopen = ...
-                    // @TODO: this requires the super class to rebroadcast; move it there
-                }
-                this._reconnect();
-            }
+
+        websocket.onclose = (event?: { code?: number, reason?: string }) => {
+            // Closed by destroy or replaced by a newer connection
+            if (this.#websocket !== websocket) { return; }
+            this.#websocket = null;
+
+            this._handleDisconnect(makeError("websocket closed", "NETWORK_ERROR", {
+                event: "close",
+                info: { code: (event && event.code), reason: (event && event.reason) }
+            }));
         };
-*/
+    }
+
+    _reconnect(): void {
+        if (this.#connect == null) { return super._reconnect(); }
+        this.#setup(this.#connect());
     }
 
     async _write(message: string): Promise<void> {
@@ -1,23 +1,28 @@
 //import { resolveAddress } from "@ethersproject/address";
+import { getAddress } from "../address/index.js";
 import {
     defineProperties, getBigInt, getNumber, hexlify, isBytesLike,
-    resolveProperties,
+    resolveProperties, toBeHex, toQuantity, zeroPadValue,
     assert, assertArgument, isError, makeError
 } from "../utils/index.js";
-import { accessListify } from "../transaction/index.js";
+import { accessListify, authorizationify } from "../transaction/index.js";
 
 import type { AddressLike, NameResolver } from "../address/index.js";
-import type { BigNumberish, EventEmitterable } from "../utils/index.js";
+import type { BigNumberish, BytesLike, CallExceptionError, EventEmitterable } from "../utils/index.js";
 import type { Signature } from "../crypto/index.js";
 import type {
-    AccessList, AccessListish, BlobLike, KzgLibrary, TransactionLike
+    AccessList, AccessListish, Authorization, AuthorizationLike, BlobLike,
+    KzgLibrary, TransactionLike
 } from "../transaction/index.js";
 
 import type { ContractRunner } from "./contracts.js";
 import type { Network } from "./network.js";
+import type { Signer } from "./signer.js";
 
 
 const BN_0 = BigInt(0);
+const BN_99 = BigInt(99);
+const BN_100 = BigInt(100);
 
 /**
  *  A **BlockTag** specifies a specific block.
@@ -117,6 +122,150 @@ export class FeeData {
 }
 
 
+/**
+ *  An **AccountOverride** replaces parts of the state of an account
+ *  for the duration of a ``call``, ``estimateGas`` or ``simulate``.
+ *
+ *  Only one of %%state%% (which replaces the entire storage) or
+ *  %%stateDiff%% (which replaces only the given slots) may be specified.
+ */
+export interface AccountOverride {
+    /**
+     *  The balance (in wei).
+     */
+    balance?: BigNumberish;
+
+    /**
+     *  The nonce.
+     */
+    nonce?: BigNumberish;
+
+    /**
+     *  The bytecode.
+     */
+    code?: BytesLike;
+
+    /**
+     *  The entire storage, as a map of slot to value; any slot not
+     *  included is zero.
+     */
+    state?: Record<string, BytesLike>;
+
+    /**
+     *  The storage slots to replace, as a map of slot to value; any slot
+     *  not included is unchanged.
+     */
+    stateDiff?: Record<string, BytesLike>;
+}
+
+/**
+ *  A **StateOverride** is a map of address to the [[AccountOverride]]
+ *  to apply to that account.
+ */
+export type StateOverride = Record<string, AccountOverride>;
+
+/**
+ *  A **BlockOverrides** replaces properties of the block header
+ *  for the duration of a ``call``, ``estimateGas`` or ``simulate``.
+ */
+export interface BlockOverrides {
+    /**
+     *  The block number.
+     */
+    number?: BigNumberish;
+
+    /**
+     *  The block difficulty.
+     */
+    difficulty?: BigNumberish;
+
+    /**
+     *  The block timestamp (in seconds).
+     */
+    timestamp?: BigNumberish;
+
+    /**
+     *  The block gas limit.
+     */
+    gasLimit?: BigNumberish;
+
+    /**
+     *  The address receiving the block fees (i.e. ``coinbase``).
+     */
+    feeRecipient?: string;
+
+    /**
+     *  The block ``prevRandao``.
+     */
+    prevRandao?: BytesLike;
+
+    /**
+     *  The block [[link-eip-1559]] base fee.
+     */
+    baseFeePerGas?: BigNumberish;
+
+    /**
+     *  The block [[link-eip-4844]] BLOb base fee.
+     */
+    blobBaseFee?: BigNumberish;
+}
+
+function copyStorage(storage: Record<string, BytesLike>): Record<string, string> {
+    const result: Record<string, string> = { };
+    for (const slot of Object.keys(storage)) {
+        result[toBeHex(slot, 32)] = zeroPadValue(storage[slot], 32);
+    }
+    return result;
+}
+
+/**
+ *  Returns a normalized copy of %%stateOverride%%, with all values
+ *  as hex strings.
+ */
+export function copyStateOverride(stateOverride: StateOverride): StateOverride {
+    const result: StateOverride = { };
+    for (const addr of Object.keys(stateOverride)) {
+        const account = stateOverride[addr];
+        assertArgument(account.state == null || account.stateDiff == null,
+            "cannot override both state and stateDiff", `stateOverride[${ addr }]`, account);
+
+        const override: AccountOverride = { };
+        if (account.balance != null) { override.balance = toQuantity(account.balance); }
+        if (account.nonce != null) { override.nonce = toQuantity(getNumber(account.nonce)); }
+        if (account.code != null) { override.code = hexlify(account.code); }
+        if (account.state != null) { override.state = copyStorage(account.state); }
+        if (account.stateDiff != null) { override.stateDiff = copyStorage(account.stateDiff); }
+
+        result[getAddress(addr)] = override;
+    }
+    return result;
+}
+
+/**
+ *  Returns a normalized copy of %%blockOverrides%%, with all values
+ *  as hex strings.
+ */
+export function copyBlockOverrides(blockOverrides: BlockOverrides): BlockOverrides {
+    const result: BlockOverrides = { };
+
+    const quantityKeys = "number,difficulty,timestamp,gasLimit,baseFeePerGas,blobBaseFee".split(/,/);
+    for (const key of quantityKeys) {
+        const value = (<any>blockOverrides)[key];
+        if (value == null) { continue; }
+        (<any>result)[key] = toQuantity(getBigInt(value, `blockOverrides.${ key }`));
+    }
+
+    if (blockOverrides.feeRecipient != null) {
+        result.feeRecipient = getAddress(blockOverrides.feeRecipient);
+    }
+
+    if (blockOverrides.prevRandao != null) {
+        result.prevRandao = zeroPadValue(blockOverrides.prevRandao, 32);
+    }
+
+    return result;
+}
+
 /**
  *  A **TransactionRequest** is a transactions with potentially various
  *  properties not defined, or with less strict types for its values.
@@ -191,6 +340,12 @@ export interface TransactionRequest {
      */
     accessList?: null | AccessListish;
 
+    /**
+     *  The [[link-eip-7702]] authorizations to include in the
+     *  transaction.
+     */
+    authorizationList?: null | Array<AuthorizationLike>;
+
     /**
      *  A custom object, which can be passed along for network-specific
      *  values.
@@ -217,6 +372,18 @@ export interface TransactionRequest {
      */
     enableCcipRead?: boolean;
 
+    /**
+     *  When using ``call``, ``estimateGas`` or ``simulate``, the account
+     *  state to override during execution.
+     */
+    stateOverride?: null | StateOverride;
+
+    /**
+     *  When using ``call``, ``estimateGas`` or ``simulate``, the block
+     *  header properties to override during execution.
+     */
+    blockOverrides?: null | BlockOverrides;
+
     /**
      *  The blob versioned hashes (see [[link-eip-4844]]).
      */
@@ -319,6 +486,12 @@ export interface PreparedTransactionRequest {
      */
     accessList?: AccessList;
 
+    /**
+     *  The [[link-eip-7702]] authorizations to include in the
+     *  transaction.
+     */
+    authorizationList?: Array<Authorization>;
+
     /**
      *  A custom object, which can be passed along for network-specific
      *  values.
@@ -344,6 +517,18 @@ export interface PreparedTransactionRequest {
      *  the fetch to unexpected parties.
      */
     enableCcipRead?: boolean;
+
+    /**
+     *  When using ``call``, ``estimateGas`` or ``simulate``, the account
+     *  state to override during execution.
+     */
+    stateOverride?: null | StateOverride;
+
+    /**
+     *  When using ``call``, ``estimateGas`` or ``simulate``, the block
+     *  header properties to override during execution.
+     */
+    blockOverrides?: null | BlockOverrides;
 }
 
 /**
@@ -375,12 +560,24 @@ export function copyRequest(req: TransactionRequest): PreparedTransactionRequest
         result.accessList = accessListify(req.accessList);
     }
 
+    if (req.authorizationList) {
+        result.authorizationList = req.authorizationList.map((a) => authorizationify(a));
+    }
+
     if ("blockTag" in req) { result.blockTag = req.blockTag; }
 
     if ("enableCcipRead" in req) {
         result.enableCcipRead = !!req.enableCcipRead
     }
 
+    if (req.stateOverride) {
+        result.stateOverride = copyStateOverride(req.stateOverride);
+    }
+
+    if (req.blockOverrides) {
+        result.blockOverrides = copyBlockOverrides(req.blockOverrides);
+    }
+
     if ("customData" in req) {
         result.customData = req.customData;
     }
@@ -401,6 +598,126 @@ export function copyRequest(req: TransactionRequest): PreparedTransactionRequest
     return result;
 }
 
+//////////////////////
+// Simulation
+
+/**
+ *  A **SimulateBlockRequest** is a block of calls to execute using
+ *  [[AbstractProvider-simulate]], where each call executes on the
+ *  state resulting from all previous calls.
+ */
+export interface SimulateBlockRequest {
+    /**
+     *  The calls to execute, in order.
+     */
+    calls: Array<TransactionRequest>;
+
+    /**
+     *  The account state to override before executing the calls.
+     */
+    stateOverride?: null | StateOverride;
+
+    /**
+     *  The block header properties to override for the calls.
+     */
+    blockOverrides?: null | BlockOverrides;
+}
+
+/**
+ *  The options for [[AbstractProvider-simulate]].
+ */
+export interface SimulateOptions {
+    /**
+     *  The block to simulate on top of. (default: ``"latest"``)
+     */
+    blockTag?: BlockTag;
+
+    /**
+     *  If true, the calls are validated as transactions would be
+     *  (e.g. nonces, balances and fees are checked). (default: ``false``)
+     */
+    validation?: boolean;
+
+    /**
+     *  If true, ether transfers are included in the logs as
+     *  [[link-eip-7528]] ``Transfer`` logs. (default: ``false``)
+     */
+    traceTransfers?: boolean;
+}
+
+/**
+ *  The result of a single call executed by
+ *  [[AbstractProvider-simulate]].
+ */
+export interface SimulateCallResult {
+    /**
+     *  The status of the call, ``1`` for success or ``0`` for failure.
+     */
+    readonly status: number;
+
+    /**
+     *  The data returned by the call, or the revert data if it reverted.
+     */
+    readonly returnData: string;
+
+    /**
+     *  The gas used by the call.
+     */
+    readonly gasUsed: bigint;
+
+    /**
+     *  The logs emitted by the call.
+     */
+    readonly logs: ReadonlyArray<Log>;
+
+    /**
+     *  The error for a failed call, or ``null`` if it succeeded.
+     */
+    readonly error: null | CallExceptionError;
+}
+
+/**
+ *  The result of a block of calls executed by
+ *  [[AbstractProvider-simulate]].
+ */
+export interface SimulateBlockResult {
+    /**
+     *  The simulated block number.
+     */
+    readonly number: number;
+
+    /**
+     *  The simulated block hash.
+     */
+    readonly hash: string;
+
+    /**
+     *  The simulated block timestamp.
+     */
+    readonly timestamp: number;
+
+    /**
+     *  The simulated block gas limit.
+     */
+    readonly gasLimit: bigint;
+
+    /**
+     *  The gas used by all calls in the simulated block.
+     */
+    readonly gasUsed: bigint;
+
+    /**
+     *  The simulated block base fee, if any.
+     */
+    readonly baseFeePerGas: null | bigint;
+
+    /**
+     *  The result of each call, in order.
+     */
+    readonly calls: ReadonlyArray<SimulateCallResult>;
+}
+
+
 //////////////////////
 // Block
 
@@ -1375,7 +1692,13 @@ export class TransactionResponse implements TransactionLike<string>, Transaction
      */
     readonly blobVersionedHashes!: null | Array<string>;
 
+    /**
+     *  The [[link-eip-7702]] authorizations (if any).
+     */
+    readonly authorizationList!: null | Array<Authorization>;
+
     #startBlock: number;
+    #replaces: null | TransactionResponse;
 
     /**
      *  @_ignore:
@@ -1410,7 +1733,18 @@ export class TransactionResponse implements TransactionLike<string>, Transaction
         this.accessList = (tx.accessList != null) ? tx.accessList: null;
         this.blobVersionedHashes = (tx.blobVersionedHashes != null) ? tx.blobVersionedHashes: null;
 
+        this.authorizationList = (tx.authorizationList != null) ? tx.authorizationList: null;
+
         this.#startBlock = -1;
+        this.#replaces = null;
+    }
+
+    /**
+     *  The transaction this transaction was sent to replace, if it was
+     *  created using [[speedUp]] or [[cancel]].
+     */
+    get replaces(): null | TransactionResponse {
+        return this.#replaces;
     }
 
     /**
@@ -1419,12 +1753,13 @@ export class TransactionResponse implements TransactionLike<string>, Transaction
     toJSON(): any {
         const {
             blockNumber, blockHash, index, hash, type, to, from, nonce,
-            data, signature, accessList, blobVersionedHashes
+            data, signature, accessList, blobVersionedHashes,
+            authorizationList
         } = this;
 
         return {
             _type: "TransactionResponse",
-            accessList, blockNumber, blockHash,
+            accessList, authorizationList, blockNumber, blockHash,
             blobVersionedHashes,
             chainId: toJson(this.chainId),
             data, from,
@@ -1747,6 +2082,106 @@ export class TransactionResponse implements TransactionLike<string>, Transaction
         return createReorderedTransactionFilter(this, other);
     }
 
+    /**
+     *  Sends a replacement for this transaction using %%signer%%, with
+     *  the same nonce and all other properties, but with the fees
+     *  increased by %%bumpPercent%%, or to the current network fees if
+     *  they are higher.
+     *
+     *  Most nodes only accept a replacement if every fee is increased
+     *  by at least the replacement threshold; 10% for most transactions
+     *  and 100% for blob transactions, which is also the minimum (and
+     *  default) %%bumpPercent%%.
+     *
+     *  Since the blobs are not included in a response, replacing a blob
+     *  transaction requires the original %%blobs%%.
+     *
+     *  The resulting response has [[replaces]] set to this transaction.
+     */
+    async speedUp(signer: Signer, bumpPercent?: number, blobs?: Array<BlobLike>): Promise<TransactionResponse> {
+        return await this.#replace("speedUp", signer, {
+            to: this.to, data: this.data, value: this.value,
+            gasLimit: this.gasLimit, accessList: this.accessList,
+            authorizationList: this.authorizationList
+        }, bumpPercent, blobs);
+    }
+
+    /**
+     *  Sends a replacement for this transaction using %%signer%%, which
+     *  transfers nothing to the sender, effectively cancelling this
+     *  transaction once the replacement is mined.
+     *
+     *  The fees are increased the same as [[speedUp]]. A blob transaction
+     *  may only be replaced by another blob transaction, so cancelling one
+     *  requires %%blobs%% (which need not be the original blobs).
+     *
+     *  The resulting response has [[replaces]] set to this transaction.
+     */
+    async cancel(signer: Signer, bumpPercent?: number, blobs?: Array<BlobLike>): Promise<TransactionResponse> {
+        return await this.#replace("cancel", signer, {
+            to: this.from, data: "0x", value: BN_0, gasLimit: 21000,
+            // Cancelling does not require re-applying any authorizations
+            type: ((this.type === 4) ? 2: this.type)
+        }, bumpPercent, blobs);
+    }
+
+    async #replace(operation: "speedUp" | "cancel", signer: Signer, tx: TransactionRequest, bumpPercent?: number, blobs?: Array<BlobLike>): Promise<TransactionResponse> {
+        const threshold = this.isCancun() ? 100: 10;
+        if (bumpPercent == null) { bumpPercent = threshold; }
+        assertArgument(Number.isInteger(bumpPercent) && bumpPercent >= threshold,
+            `bumpPercent must be an integer of at least ${ threshold }`, "bumpPercent", bumpPercent);
+
+        assertArgument(!this.isCancun() || (blobs != null && blobs.length > 0),
+            "replacing a blob transaction requires blobs", "blobs", blobs);
+
+        const { address, receipt, feeData } = await resolveProperties({
+            address: signer.getAddress(),
+            receipt: this.provider.getTransactionReceipt(this.hash),
+            feeData: this.provider.getFeeData()
+        });
+
+        assertArgument(address.toLowerCase() === this.from.toLowerCase(),
+            "signer does not match transaction sender", "signer", address);
+
+        assert(receipt == null, "transaction already mined; cannot replace",
+            "UNSUPPORTED_OPERATION", { operation });
+
+        // Round up, so the bump is never below the threshold
+        const multiplier = BigInt(100 + bumpPercent);
+        const bump = (value: bigint) => {
+            return (value * multiplier + BN_99) / BN_100;
+        };
+
+        const max = (a: bigint, b: null | bigint) => {
+            return (b != null && b > a) ? b: a;
+        };
+
+        tx = Object.assign({ type: this.type }, tx, { from: this.from, nonce: this.nonce });
+
+        // Legacy transactions may not be protected by EIP-155
+        if (this.chainId) { tx.chainId = this.chainId; }
+
+        if (this.maxFeePerGas != null && this.maxPriorityFeePerGas != null) {
+            const maxPriorityFeePerGas = max(bump(this.maxPriorityFeePerGas), feeData.maxPriorityFeePerGas);
+            tx.maxPriorityFeePerGas = maxPriorityFeePerGas;
+            tx.maxFeePerGas = max(max(bump(this.maxFeePerGas), feeData.maxFeePerGas), maxPriorityFeePerGas);
+        } else {
+            tx.gasPrice = max(bump(this.gasPrice), feeData.gasPrice);
+        }
+
+        if (this.isCancun()) {
+            tx.maxFeePerBlobGas = bump(this.maxFeePerBlobGas);
+            tx.blobs = blobs;
+        }
+
+        const response = await signer.sendTransaction(tx);
+
+        const result = new TransactionResponse(response, response.provider);
+        result.#startBlock = (response instanceof TransactionResponse) ? response.#startBlock: this.#startBlock;
+        result.#replaces = this;
+        return result;
+    }
+
     /**
      *  Returns a new TransactionResponse instance which has the ability to
      *  detect (and throw an error) if the transaction is replaced, which
@@ -1,7 +1,10 @@
-import { defineProperties } from "../utils/index.js";
+import { defineProperties, isError } from "../utils/index.js";
 import { AbstractSigner } from "./abstract-signer.js";
 
-import type { TypedDataDomain, TypedDataField } from "../hash/index.js";
+import type {
+    AuthorizationRequest, TypedDataDomain, TypedDataField
+} from "../hash/index.js";
+import type { Authorization } from "../transaction/index.js";
 
 import type {
     BlockTag, Provider, TransactionRequest, TransactionResponse
@@ -9,10 +12,33 @@ import type {
 import type { Signer } from "./signer.js";
 
 
+// The number of in-flight nonces at which the pending count is checked
+// to discard any the network already has
+const MAX_INFLIGHT = 128;
+
+// Errors which guarantee the transaction was not accepted, so its
+// nonce remains available
+function isUnsent(error: any): boolean {
+    return (isError(error, "ACTION_REJECTED") || isError(error, "CALL_EXCEPTION") ||
+        isError(error, "INSUFFICIENT_FUNDS") || isError(error, "INVALID_ARGUMENT") ||
+        isError(error, "UNSUPPORTED_OPERATION") || isError(error, "UNCONFIGURED_NAME"));
+}
+
 /**
  *  A **NonceManager** wraps another [[Signer]] and automatically manages
  *  the nonce, ensuring serialized and sequential nonces are used during
  *  transaction.
+ *
+ *  Nonces are assigned in the order [[sendTransaction]] is called, so
+ *  many transactions may be sent concurrently. If a transaction fails
+ *  before it is accepted by the network, its nonce is released and
+ *  re-used by the next transaction.
+ *
+ *  If the outcome of a send is unknown (e.g. a network error), or a
+ *  transaction is dropped from the mempool, the nonce may be left
+ *  unused, which prevents all subsequent transactions from being mined.
+ *  Such gaps can be found using [[findGaps]] and filled using
+ *  [[fillGaps]].
  */
 export class NonceManager extends AbstractSigner {
     /**
@@ -23,6 +49,13 @@ export class NonceManager extends AbstractSigner {
     #noncePromise: null | Promise<number>;
     #delta: number;
 
+    // Nonces released by failed sends, in ascending order
+    #released: Array<number>;
+
+    // In-flight nonces; the hash once broadcast or null while sending
+    #inflight: Map<number, null | string>;
+    #pruning: boolean;
+
     /**
      *  Creates a new **NonceManager** to manage %%signer%%.
      */
@@ -32,6 +65,9 @@ export class NonceManager extends AbstractSigner {
 
         this.#noncePromise = null;
         this.#delta = 0;
+        this.#released = [ ];
+        this.#inflight = new Map();
+        this.#pruning = false;
     }
 
     async getAddress(): Promise<string> {
@@ -42,19 +78,83 @@ export class NonceManager extends AbstractSigner {
         return new NonceManager(this.signer.connect(provider));
     }
 
+    /**
+     *  The nonces which have been assigned to a transaction, which is
+     *  either being sent or has been sent but is not yet known to be
+     *  pending, in ascending order.
+     *
+     *  Once many nonces are in-flight, those the network has are
+     *  discarded.
+     */
+    get pendingNonces(): Array<number> {
+        return Array.from(this.#inflight.keys()).sort((a, b) => (a - b));
+    }
+
     async getNonce(blockTag?: BlockTag): Promise<number> {
         if (blockTag === "pending") {
-            if (this.#noncePromise == null) {
-                this.#noncePromise = super.getNonce("pending");
-            }
+            if (this.#released.length) { return this.#released[0]; }
 
             const delta = this.#delta;
-            return (await this.#noncePromise) + delta;
+            return (await this.#getBaseNonce()) + delta;
         }
 
         return super.getNonce(blockTag);
     }
 
+    #getBaseNonce(): Promise<number> {
+        if (this.#noncePromise == null) {
+            const noncePromise = super.getNonce("pending");
+            this.#noncePromise = noncePromise;
+
+            noncePromise.then((count) => { this.#prune(count); }, () => { });
+
+            // Allow a failed request to be retried
+            noncePromise.catch(() => {
+                if (this.#noncePromise === noncePromise) { this.#noncePromise = null; }
+            });
+        }
+        return this.#noncePromise;
+    }
+
+    // Assigns the next nonce; this must be synchronous, so nonces are
+    // assigned in the order transactions are sent
+    #nextNonce(): Promise<number> {
+        const released = this.#released.shift();
+        if (released != null) { return Promise.resolve(released); }
+
+        const delta = this.#delta++;
+        return this.#getBaseNonce().then((nonce) => (nonce + delta));
+    }
+
+    // Anything below the pending count is at least in the mempool, so
+    // is no longer in-flight
+    #prune(count: number): void {
+        for (const nonce of Array.from(this.#inflight.keys())) {
+            if (nonce < count) { this.#inflight.delete(nonce); }
+        }
+        this.#released = this.#released.filter((n) => (n >= count));
+    }
+
+    // Once many nonces are in-flight, checks the pending count so they
+    // do not accumulate for transactions long since mined
+    #checkInflight(): void {
+        if (this.#pruning || this.#inflight.size < MAX_INFLIGHT) { return; }
+        this.#pruning = true;
+
+        super.getNonce("pending").then((count) => {
+            this.#pruning = false;
+            this.#prune(count);
+        }, (error) => {
+            // The next transaction sent will retry
+            this.#pruning = false;
+        });
+    }
+
+    #release(nonce: number): void {
+        this.#released.push(nonce);
+        this.#released.sort((a, b) => (a - b));
+    }
+
     /**
      *  Manually increment the nonce. This may be useful when managng
      *  offline transactions.
@@ -70,18 +170,118 @@ export class NonceManager extends AbstractSigner {
     reset(): void {
         this.#delta = 0;
         this.#noncePromise = null;
+        this.#released = [ ];
+        this.#inflight.clear();
+    }
+
+    /**
+     *  Resolves to the nonces, which were assigned, but are not known to
+     *  the network, preventing all subsequent transactions from being
+     *  mined.
+     *
+     *  This compares the in-flight nonces against the ``"pending"``
+     *  transaction count, which also discards any in-flight nonces which
+     *  are no longer pending. If the network is ahead (e.g. another
+     *  client sent transactions using the same account), the next nonce
+     *  is advanced to match.
+     */
+    async findGaps(): Promise<Array<number>> {
+        const count = await super.getNonce("pending");
+
+        // The nonces this manager has assigned are [ base, next )
+        const base = await this.#getBaseNonce();
+        const next = base + this.#delta;
+
+        this.#prune(count);
+
+        if (count >= next) {
+            this.#noncePromise = Promise.resolve(count);
+            this.#delta = 0;
+            this.#released = [ ];
+            return [ ];
+        }
+
+        const gaps: Array<number> = [ ];
+        for (let nonce = count; nonce < next; nonce++) {
+            // Will be re-used by the next transaction
+            if (this.#released.indexOf(nonce) >= 0) {
+                gaps.push(nonce);
+                continue;
+            }
+
+            const hash = this.#inflight.get(nonce);
+
+            // Currently being sent
+            if (hash === null) { continue; }
+
+            // The first nonce is missing by definition of the count; any
+            // others are missing if the network does not know them
+            if (nonce === count) {
+                gaps.push(nonce);
+            } else if (hash != null && this.provider && (await this.provider.getTransaction(hash)) == null) {
+                gaps.push(nonce);
+            }
+        }
+
+        return gaps;
+    }
+
+    /**
+     *  Sends a zero-value transfer to the managed account for each of the
+     *  nonces returned by [[findGaps]], allowing any transactions with
+     *  higher nonces to be mined.
+     */
+    async fillGaps(): Promise<Array<TransactionResponse>> {
+        const gaps = await this.findGaps();
+        if (gaps.length === 0) { return [ ]; }
+
+        // The gaps are filled explicitly; do not re-use them
+        this.#released = this.#released.filter((n) => (gaps.indexOf(n) === -1));
+
+        const address = await this.getAddress();
+        return await Promise.all(gaps.map((nonce) => {
+            return this.#send({ to: address, value: 0, data: "0x" }, Promise.resolve(nonce));
+        }));
     }
 
     async sendTransaction(tx: TransactionRequest): Promise<TransactionResponse> {
-        const noncePromise = this.getNonce("pending");
-        this.increment();
+        return await this.#send(tx, this.#nextNonce());
+    }
+
+    async #send(_tx: TransactionRequest, noncePromise: Promise<number>): Promise<TransactionResponse> {
+        const nonce = await noncePromise;
+        this.#inflight.set(nonce, null);
+
+        let sending = false;
+        try {
+            const tx = await this.signer.populateTransaction(Object.assign({ }, _tx, { nonce }));
+
+            sending = true;
+            const response = await this.signer.sendTransaction(tx);
+
+            this.#inflight.set(nonce, response.hash);
+            this.#checkInflight();
+
+            return response;
 
-        tx = await this.signer.populateTransaction(tx);
-        tx.nonce = await noncePromise;
+        } catch (error) {
+            this.#inflight.delete(nonce);
 
-        // @TODO: Maybe handle interesting/recoverable errors?
-        // Like don't increment if the tx was certainly not sent
-        return await this.signer.sendTransaction(tx);
+            if (!sending || isUnsent(error)) {
+                this.#release(nonce);
+
+            } else if (isError(error, "NONCE_EXPIRED")) {
+                // Another client has used our nonces; reload it
+                this.#noncePromise = null;
+                this.#delta = 0;
+                this.#released = [ ];
+            }
+
+            // Otherwise the transaction may or may not have been broadcast;
+            // if not, findGaps will detect it once it is the first gap
+
+            throw error;
+        }
     }
 
     signTransaction(tx: TransactionRequest): Promise<string> {
@@ -95,4 +295,8 @@ export class NonceManager extends AbstractSigner {
     signTypedData(domain: TypedDataDomain, types: Record<string, Array<TypedDataField>>, value: Record<string, any>): Promise<string> {
         return this.signer.signTypedData(domain, types, value);
     }
+
+    authorize(auth: AuthorizationRequest): Promise<Authorization> {
+        return this.signer.authorize(auth);
+    }
 }
@@ -0,0 +1,319 @@
+import { Interface } from "../abi/index.js";
+import { getAddress } from "../address/index.js";
+import {
+    defineProperties, getBigInt, getBytes, hexlify, assert, assertArgument
+} from "../utils/index.js";
+
+import { AbstractSigner } from "./abstract-signer.js";
+import {
+    EntryPointV07, getUserOperationHash, userOperationFrom
+} from "./user-operation.js";
+
+import type { TypedDataDomain, TypedDataField } from "../hash/index.js";
+import type { BigNumberish, BytesLike } from "../utils/index.js";
+
+import type { Provider, TransactionRequest, TransactionResponse } from "./provider.js";
+import type { BundlerProvider } from "./provider-bundler.js";
+import type { Signer } from "./signer.js";
+import type { UserOperation, UserOperationLike } from "./user-operation.js";
+
+
+// A signature which recovers to some address without reverting, so
+// validation can be simulated before the operation is signed
+const DUMMY_SIGNATURE = "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c";
+
+const accountIface = new Interface([
+    "function execute(address dest, uint256 value, bytes func)"
+]);
+
+const entryPointIface = new Interface([
+    "function getNonce(address sender, uint192 key) view returns (uint256)"
+]);
+
+/**
+ *  A call to be made by a smart contract account.
+ */
+export interface SmartAccountCall {
+    to: string;
+    value: bigint;
+    data: string;
+}
+
+/**
+ *  The options for a [[SmartAccountSigner]].
+ *
+ *  **``address``** - the address of the smart contract account
+ *
+ *  **``bundler``** - the bundler to send UserOperations to
+ *
+ *  **``entryPoint``** - the EntryPoint the account uses
+ *  (default: the v0.7 EntryPoint)
+ *
+ *  **``factory``** and **``factoryData``** - used to deploy the
+ *  account with its first UserOperation, if not yet deployed
+ *
+ *  **``nonceKey``** - the EntryPoint nonce key (default: ``0``)
+ *
+ *  **``encodeCallData``** - returns the data the account is called
+ *  with to make a call (default: a ``SimpleAccount``
+ *  ``execute(address,uint256,bytes)``)
+ *
+ *  **``signUserOperationHash``** - returns the signature of a
+ *  UserOperation hash (default: the owner signs the hash as an
+ *  [[link-eip-191]] message)
+ *
+ *  **``dummySignature``** - a signature which is valid for gas
+ *  estimation (default: a 65-byte ECDSA signature)
+ *
+ *  **``signMessage``** and **``signTypedData``** - return the signature
+ *  of a message or typed data for the account, for accounts which
+ *  expect more than the owner's signature (default: the owner's
+ *  signature)
+ */
+export type SmartAccountSignerOptions = {
+    address: string;
+    bundler: BundlerProvider;
+    entryPoint?: string;
+
+    factory?: null | string;
+    factoryData?: null | BytesLike;
+
+    nonceKey?: BigNumberish;
+
+    encodeCallData?: (call: SmartAccountCall) => string | Promise<string>;
+    signUserOperationHash?: (hash: string, owner: Signer) => Promise<string>;
+    dummySignature?: BytesLike;
+
+    signMessage?: (message: string | Uint8Array, owner: Signer) => Promise<string>;
+    signTypedData?: (domain: TypedDataDomain, types: Record<string, Array<TypedDataField>>, value: Record<string, any>, owner: Signer) => Promise<string>;
+};
+
+/**
+ *  A **SmartAccountSigner** is a [[Signer]] for a [[link-eip-4337]]
+ *  smart contract account, whose UserOperations are signed by an
+ *  %%owner%% Signer and sent using a [[BundlerProvider]].
+ *
+ *  Any API which accepts a Signer (such as a [[BaseContract]]) may
+ *  use it to send transactions from the account. Since the account does
+ *  not send transactions itself, the [[TransactionResponse]] is for
+ *  the bundle transaction which included the UserOperation, once it
+ *  has been mined.
+ *
+ *  Messages and typed data are signed by the owner, so the signature
+ *  is only valid for the account if it accepts its owner's signatures
+ *  (e.g. using [[link-eip-1271]]); the ``signMessage`` and
+ *  ``signTypedData`` options may be used to adapt them for the account.
+ *
+ *  @example:
+ *    bundler = new BundlerProvider(bundlerUrl, "sepolia")
+ *    account = new SmartAccountSigner(owner, {
+ *      address: accountAddress, bundler
+ *    })
+ *
+ *    contract = new Contract(tokenAddress, abi, account)
+ *    await contract.transfer(to, amount)
+ */
+export class SmartAccountSigner extends AbstractSigner {
+    /**
+     *  The owner, which signs UserOperations.
+     */
+    readonly owner!: Signer;
+
+    /**
+     *  The address of the smart contract account.
+     */
+    readonly address!: string;
+
+    /**
+     *  The bundler UserOperations are sent to.
+     */
+    readonly bundler!: BundlerProvider;
+
+    /**
+     *  The EntryPoint address.
+     */
+    readonly entryPoint!: string;
+
+    #options: SmartAccountSignerOptions;
+
+    /**
+     *  Creates a new **SmartAccountSigner** for the account in
+     *  %%options%%, signed for by %%owner%%.
+     *
+     *  If %%provider%% is not specified, the bundler is used.
+     */
+    constructor(owner: Signer, options: SmartAccountSignerOptions, provider?: null | Provider) {
+        super((provider != null) ? provider: options.bundler);
+
+        defineProperties<SmartAccountSigner>(this, {
+            owner,
+            address: getAddress(options.address),
+            bundler: options.bundler,
+            entryPoint: getAddress(options.entryPoint || EntryPointV07)
+        });
+
+        this.#options = Object.assign({ }, options);
+    }
+
+    async getAddress(): Promise<string> { return this.address; }
+
+    connect(provider: null | Provider): SmartAccountSigner {
+        return new SmartAccountSigner(this.owner, this.#options, provider);
+    }
+
+    #getProvider(operation: string): Provider {
+        assert(this.provider, "missing provider", "UNSUPPORTED_OPERATION", { operation });
+        return this.provider;
+    }
+
+    /**
+     *  Resolves to the next EntryPoint nonce for the account, using
+     *  the ``nonceKey`` option.
+     */
+    async getUserOperationNonce(): Promise<bigint> {
+        const provider = this.#getProvider("getUserOperationNonce");
+
+        const key = getBigInt(this.#options.nonceKey || 0);
+        const result = await provider.call({
+            to: this.entryPoint,
+            data: entryPointIface.encodeFunctionData("getNonce", [ this.address, key ])
+        });
+
+        return entryPointIface.decodeFunctionResult("getNonce", result)[0];
+    }
+
+    /**
+     *  Resolves to an unsigned [[UserOperation]] which makes the call
+     *  %%tx%% from the account, with the fees and gas limits
+     *  populated.
+     */
+    async buildUserOperation(tx: TransactionRequest): Promise<UserOperation> {
+        const provider = this.#getProvider("buildUserOperation");
+
+        const pop = await this.populateCall(tx);
+
+        assert(pop.to != null, "smart accounts cannot deploy contracts", "UNSUPPORTED_OPERATION", {
+            operation: "buildUserOperation"
+        });
+
+        const call: SmartAccountCall = {
+            to: pop.to,
+            value: getBigInt(pop.value || 0),
+            data: hexlify(pop.data || "0x")
+        };
+
+        const encodeCallData = this.#options.encodeCallData;
+        const callData = encodeCallData ? await encodeCallData(call):
+            accountIface.encodeFunctionData("execute", [ call.to, call.value, call.data ]);
+
+        // Only include the factory while the account is not deployed
+        let factory: null | string = null, factoryData: string = "0x";
+        if (this.#options.factory != null && (await provider.getCode(this.address)) === "0x") {
+            factory = this.#options.factory;
+            factoryData = hexlify(this.#options.factoryData || "0x");
+        }
+
+        const nonce = (pop.nonce != null) ? pop.nonce: await this.getUserOperationNonce();
+
+        let { maxFeePerGas, maxPriorityFeePerGas } = pop;
+        if (maxFeePerGas == null || maxPriorityFeePerGas == null) {
+            const feeData = await provider.getFeeData();
+            if (feeData.maxFeePerGas != null && feeData.maxPriorityFeePerGas != null) {
+                if (maxFeePerGas == null) { maxFeePerGas = feeData.maxFeePerGas; }
+                if (maxPriorityFeePerGas == null) { maxPriorityFeePerGas = feeData.maxPriorityFeePerGas; }
+            } else {
+                assert(feeData.gasPrice != null, "network does not provide fee data", "UNSUPPORTED_OPERATION", {
+                    operation: "getFeeData"
+                });
+                if (maxFeePerGas == null) { maxFeePerGas = feeData.gasPrice; }
+                if (maxPriorityFeePerGas == null) { maxPriorityFeePerGas = feeData.gasPrice; }
+            }
+        }
+
+        const op = userOperationFrom({
+            sender: this.address, nonce, factory, factoryData, callData,
+            maxFeePerGas, maxPriorityFeePerGas,
+            signature: (this.#options.dummySignature || DUMMY_SIGNATURE)
+        });
+
+        const gas = await this.bundler.estimateUserOperationGas(op, this.entryPoint);
+        op.preVerificationGas = gas.preVerificationGas;
+        op.verificationGasLimit = gas.verificationGasLimit;
+        op.callGasLimit = gas.callGasLimit;
+        op.signature = "0x";
+
+        return op;
+    }
+
+    /**
+     *  Resolves to %%op%% signed by the owner.
+     */
+    async signUserOperation(op: UserOperationLike): Promise<UserOperation> {
+        const provider = this.#getProvider("signUserOperation");
+
+        const uop = userOperationFrom(op);
+        assertArgument(uop.sender === this.address, "sender mismatch", "op.sender", op.sender);
+
+        const { chainId } = await provider.getNetwork();
+        const hash = getUserOperationHash(uop, this.entryPoint, chainId);
+
+        const signHash = this.#options.signUserOperationHash;
+        uop.signature = signHash ? await signHash(hash, this.owner):
+            await this.owner.signMessage(getBytes(hash));
+
+        return uop;
+    }
+
+    /**
+     *  Sends the signed %%op%% to the bundler, resolving to its hash.
+     */
+    async sendUserOperation(op: UserOperationLike): Promise<string> {
+        return await this.bundler.sendUserOperation(op, this.entryPoint);
+    }
+
+    async sendTransaction(tx: TransactionRequest): Promise<TransactionResponse> {
+        const provider = this.#getProvider("sendTransaction");
+
+        const op = await this.signUserOperation(await this.buildUserOperation(tx));
+        const hash = await this.sendUserOperation(op);
+
+        // The bundle transaction is unknown until it is mined
+        const { receipt } = await this.bundler.waitForUserOperation(hash);
+        const response = await provider.getTransaction(receipt.hash);
+        assert(response != null, "bundle transaction not found", "UNKNOWN_ERROR", {
+            info: { userOpHash: hash, hash: receipt.hash }
+        });
+
+        return response;
+    }
+
+    async signTransaction(tx: TransactionRequest): Promise<string> {
+        assert(false, "smart accounts cannot sign transactions", "UNSUPPORTED_OPERATION", {
+            operation: "signTransaction"
+        });
+    }
+
+    /**
+     *  Signs %%message%% using the ``signMessage`` option, otherwise
+     *  returns the owner's signature, which is **not** a signature by
+     *  the account address and is only valid if the account accepts its
+     *  owner's signatures (e.g. using [[link-eip-1271]]).
+     */
+    async signMessage(message: string | Uint8Array): Promise<string> {
+        const signMessage = this.#options.signMessage;
+        if (signMessage) { return await signMessage(message, this.owner); }
+        return await this.owner.signMessage(message);
+    }
+
+    /**
+     *  Signs the typed data using the ``signTypedData`` option, otherwise
+     *  returns the owner's signature, which is **not** a signature by
+     *  the account address and is only valid if the account accepts its
+     *  owner's signatures (e.g. using [[link-eip-1271]]).
+     */
+    async signTypedData(domain: TypedDataDomain, types: Record<string, Array<TypedDataField>>, value: Record<string, any>): Promise<string> {
+        const signTypedData = this.#options.signTypedData;
+        if (signTypedData) { return await signTypedData(domain, types, value, this.owner); }
+        return await this.owner.signTypedData(domain, types, value);
+    }
+}
@@ -1,7 +1,9 @@
 
 import type { Addressable, NameResolver } from "../address/index.js";
-import type { TypedDataDomain, TypedDataField } from "../hash/index.js";
-import type { TransactionLike } from "../transaction/index.js";
+import type {
+    AuthorizationRequest, TypedDataDomain, TypedDataField
+} from "../hash/index.js";
+import type { Authorization, TransactionLike } from "../transaction/index.js";
 
 import type { ContractRunner } from "./contracts.js";
 import type { BlockTag, Provider, TransactionRequest, TransactionResponse } from "./provider.js";
@@ -76,6 +78,15 @@ export interface Signer extends Addressable, ContractRunner, NameResolver {
      */
     populateTransaction(tx: TransactionRequest): Promise<TransactionLike<string>>;
 
+    /**
+     *  Prepares an [[AuthorizationRequest]] for authorization by
+     *  populating any missing properties:
+     *  - resolves ``address`` (if an Addressable or ENS name)
+     *  - populates ``nonce`` via ``signer.getNonce("pending")``
+     *  - populates ``chainId`` via ``signer.provider.getNetwork()``
+     */
+    populateAuthorization(auth: AuthorizationRequest): Promise<AuthorizationRequest>;
+
 
     ////////////////////
     // Execution
@@ -146,4 +157,13 @@ export interface Signer extends Addressable, ContractRunner, NameResolver {
      *  Signs the [[link-eip-712]] typed data.
      */
     signTypedData(domain: TypedDataDomain, types: Record<string, Array<TypedDataField>>, value: Record<string, any>): Promise<string>;
+
+    /**
+     *  Signs an [[link-eip-7702]] authorization, delegating the code
+     *  of this account to the code at ``auth.address``.
+     *
+     *  Any missing properties are populated first, using
+     *  [[populateAuthorization]].
+     */
+    authorize(auth: AuthorizationRequest): Promise<Authorization>;
 }
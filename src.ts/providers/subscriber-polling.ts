@@ -1,6 +1,10 @@
 import { assert, isHexString } from "../utils/index.js";
 
+import { BlockTracker } from "./block-tracker.js";
+import { Log } from "./provider.js";
+
 import type { AbstractProvider, Subscriber } from "./abstract-provider.js";
+import type { ReorgEvent } from "./block-tracker.js";
 import type { EventFilter, OrphanFilter, ProviderEvent } from "./provider.js";
 
 function copy(obj: any): any {
@@ -192,22 +196,176 @@ export class PollingBlockTagSubscriber extends OnBlockSubscriber {
 
 
 /**
- *  @_ignore:
+ *  A **PollingBlockTrackerSubscriber** reconciles each new block against
+ *  a [[BlockTracker]], calling its listener with the [[ReorgEvent]]
+ *  whenever a re-organization is detected.
+ *
+ *  A provider shares one among everything which needs to know of
+ *  re-orgs (see [[AbstractProvider-_onReorg]]).
+ *
+ *  @_docloc: api/providers/abstract-provider
+ */
+export class PollingBlockTrackerSubscriber extends OnBlockSubscriber {
+    #tracker: BlockTracker;
+    #listener: (event: ReorgEvent) => void;
+
+    /**
+     *  Create a new **PollingBlockTrackerSubscriber** attached to
+     *  %%provider%%, calling %%listener%% on each re-org.
+     */
+    constructor(provider: AbstractProvider, listener: (event: ReorgEvent) => void) {
+        super(provider);
+        this.#tracker = new BlockTracker(provider, provider.reorgDepth);
+        this.#listener = listener;
+    }
+
+    /**
+     *  The tracker maintaining the canonical chain.
+     */
+    get tracker(): BlockTracker { return this.#tracker; }
+
+    pause(dropWhilePaused?: boolean): void {
+        if (dropWhilePaused) { this.#tracker.reset(); }
+        super.pause(dropWhilePaused);
+    }
+
+    async _poll(blockNumber: number, provider: AbstractProvider): Promise<void> {
+        let event: null | ReorgEvent = null;
+        try {
+            event = await this.#tracker.update();
+        } catch (error) {
+            // The next block will retry; the tracker is left unchanged
+            return;
+        }
+        if (event) { this.#listener(event); }
+    }
+}
+
+/**
+ *  A **PollingReorgSubscriber** emits a ``"reorg"`` event with each
+ *  [[ReorgEvent]] detected by the provider.
+ *
+ *  @_docloc: api/providers/abstract-provider
+ */
+export class PollingReorgSubscriber implements Subscriber {
+    #provider: AbstractProvider;
+    #listener: (event: ReorgEvent) => void;
+
+    #running: boolean;
+
+    /**
+     *  Create a new **PollingReorgSubscriber** attached to %%provider%%.
+     */
+    constructor(provider: AbstractProvider) {
+        this.#provider = provider;
+        this.#listener = (event: ReorgEvent) => { this.#provider.emit("reorg", event); };
+        this.#running = false;
+    }
+
+    start(): void {
+        if (this.#running) { return; }
+        this.#running = true;
+
+        this.#provider._onReorg(this.#listener);
+    }
+
+    stop(): void {
+        if (!this.#running) { return; }
+        this.#running = false;
+
+        this.#provider._offReorg(this.#listener);
+    }
+
+    pause(dropWhilePaused?: boolean): void { this.stop(); }
+    resume(): void { this.start(); }
+}
+
+/**
+ *  A **PollingOrphanSubscriber** listens for re-orgs detected by the
+ *  provider and emits the [[ReorgEvent]] for any which orphan the block or
+ *  transaction of its [[OrphanFilter]].
+ *
+ *  A ``"drop-transaction"`` is emitted if the transaction is no longer
+ *  mined and a ``"reorder-transaction"`` if it was mined in one of the
+ *  replacement blocks.
+ *
+ *  Removed logs (i.e. ``"drop-log"``) are emitted by the event
+ *  subscriber which originally emitted the log, since only it knows
+ *  the complete log.
  *
  *  @_docloc: api/providers/abstract-provider
  */
-export class PollingOrphanSubscriber extends OnBlockSubscriber {
+export class PollingOrphanSubscriber implements Subscriber {
+    #provider: AbstractProvider;
     #filter: OrphanFilter;
+    #listener: (event: ReorgEvent) => void;
+
+    #running: boolean;
 
+    /**
+     *  Create a new **PollingOrphanSubscriber** attached to %%provider%%,
+     *  listening for %%filter%%.
+     */
     constructor(provider: AbstractProvider, filter: OrphanFilter) {
-        super(provider);
+        this.#provider = provider;
         this.#filter = copy(filter);
+        this.#listener = (event: ReorgEvent) => { this.#reorg(event); };
+        this.#running = false;
     }
 
-    async _poll(blockNumber: number, provider: AbstractProvider): Promise<void> {
-        throw new Error("@TODO");
-        console.log(this.#filter);
+    async #reorg(event: ReorgEvent): Promise<void> {
+        const filter = this.#filter;
+
+        const isRemoved = (blockHash: string) => {
+            blockHash = blockHash.toLowerCase();
+            return event.removed.some((b) => (b.hash.toLowerCase() === blockHash));
+        };
+
+        switch (filter.orphan) {
+            case "drop-block":
+                if (isRemoved(filter.hash)) { this.#provider.emit(filter, event); }
+                break;
+
+            case "drop-transaction":
+            case "reorder-transaction": {
+                if (!isRemoved(filter.tx.blockHash)) { break; }
+
+                let receipt = null;
+                try {
+                    receipt = await this.#provider.getTransactionReceipt(filter.tx.hash);
+                } catch (error) {
+                    // Without the receipt we cannot tell which occurred
+                    return;
+                }
+
+                if (receipt == null) {
+                    if (filter.orphan === "drop-transaction") {
+                        this.#provider.emit(filter, event);
+                    }
+                } else if (filter.orphan === "reorder-transaction") {
+                    this.#provider.emit(filter, event);
+                }
+                break;
+            }
+        }
+    }
+
+    start(): void {
+        if (this.#running) { return; }
+        this.#running = true;
+
+        this.#provider._onReorg(this.#listener);
     }
+
+    stop(): void {
+        if (!this.#running) { return; }
+        this.#running = false;
+
+        this.#provider._offReorg(this.#listener);
+    }
+
+    pause(dropWhilePaused?: boolean): void { this.stop(); }
+    resume(): void { this.start(); }
 }
 
 /**
@@ -243,6 +401,11 @@ export class PollingEventSubscriber implements Subscriber {
     #provider: AbstractProvider;
     #filter: EventFilter;
     #poller: (b: number) => void;
+    #reorg: (event: ReorgEvent) => void;
+
+    // The logs emitted within the re-organization window, by block hash,
+    // so they can be emitted again as removed if their block is orphaned
+    #emitted: Map<string, Array<Log>>;
 
     #running: boolean;
 
@@ -258,10 +421,62 @@ export class PollingEventSubscriber implements Subscriber {
         this.#provider = provider;
         this.#filter = copy(filter);
         this.#poller = this.#poll.bind(this);
+        this.#reorg = this.#handleReorg.bind(this);
+        this.#emitted = new Map();
         this.#running = false;
         this.#blockNumber = -2;
     }
 
+    #handleReorg(event: ReorgEvent): void {
+        for (const block of event.removed) {
+            const logs = this.#emitted.get(block.hash.toLowerCase());
+            if (logs == null) { continue; }
+            this.#emitted.delete(block.hash.toLowerCase());
+
+            for (const log of logs) {
+                this.#provider.emit(this.#filter, new Log({
+                    transactionHash: log.transactionHash,
+                    blockHash: log.blockHash,
+                    blockNumber: log.blockNumber,
+                    removed: true,
+                    address: log.address,
+                    data: log.data,
+                    topics: log.topics,
+                    index: log.index,
+                    transactionIndex: log.transactionIndex
+                }, this.#provider));
+            }
+        }
+
+        // Re-scan the replacement blocks for their logs
+        const ancestor = event.commonAncestor.number;
+        if (this.#blockNumber > ancestor) { this.#blockNumber = ancestor; }
+    }
+
+    #hasEmitted(log: Log): boolean {
+        const logs = this.#emitted.get(log.blockHash.toLowerCase());
+        if (logs == null) { return false; }
+        return logs.some((l) => (l.index === log.index));
+    }
+
+    #track(log: Log, blockNumber: number): void {
+        const blockHash = log.blockHash.toLowerCase();
+        let logs = this.#emitted.get(blockHash);
+        if (logs == null) {
+            logs = [ ];
+            this.#emitted.set(blockHash, logs);
+        }
+        logs.push(log);
+
+        // Forget logs too deep to be orphaned by a detectable re-org
+        const depth = this.#provider.reorgDepth;
+        for (const [ hash, logs ] of this.#emitted) {
+            if (logs[0].blockNumber < blockNumber - depth) {
+                this.#emitted.delete(hash);
+            }
+        }
+    }
+
     async #poll(blockNumber: number): Promise<void> {
         // The initial block hasn't been determined yet
         if (this.#blockNumber === -2) { return; }
@@ -282,7 +497,11 @@ export class PollingEventSubscriber implements Subscriber {
         }
 
         for (const log of logs) {
-            this.#provider.emit(this.#filter, log);
+            // A re-scan after a re-org may include logs already emitted
+            if (!this.#hasEmitted(log)) {
+                this.#track(log, blockNumber);
+                this.#provider.emit(this.#filter, log);
+            }
 
             // Only advance the block number when logs were found to
             // account for networks (like BNB and Polygon) which may
@@ -301,6 +520,7 @@ export class PollingEventSubscriber implements Subscriber {
             });
         }
         this.#provider.on("block", this.#poller);
+        this.#provider._onReorg(this.#reorg);
     }
 
     stop(): void {
@@ -308,11 +528,15 @@ export class PollingEventSubscriber implements Subscriber {
         this.#running = false;
 
         this.#provider.off("block", this.#poller);
+        this.#provider._offReorg(this.#reorg);
     }
 
     pause(dropWhilePaused?: boolean): void {
         this.stop();
-        if (dropWhilePaused) { this.#blockNumber = -2; }
+        if (dropWhilePaused) {
+            this.#blockNumber = -2;
+            this.#emitted.clear();
+        }
     }
 
     resume(): void {
@@ -0,0 +1,572 @@
+/**
+ *  Many backends expose the execution traces of transactions, via the
+ *  Geth-style ``debug_trace*`` methods or the Parity-style ``trace_*``
+ *  methods.
+ *
+ *  These types describe the normalized results of the built-in
+ *  tracers, which can optionally be decoded using a set of known
+ *  [[Interface]] objects.
+ *
+ *  @_subsection: api/providers:Tracing  [about-tracing]
+ */
+
+import { Interface } from "../abi/index.js";
+import { getAddress } from "../address/index.js";
+import { getBigInt, getNumber } from "../utils/index.js";
+
+import {
+    allowNull, arrayOf, formatBoolean, formatData, formatHash, object
+} from "./format.js";
+
+import type {
+    ErrorDescription, LogDescription, Result, TransactionDescription
+} from "../abi/index.js";
+
+
+/**
+ *  The [[Interface]] objects used to decode trace frames.
+ *
+ *  If an array, the first Interface which recognizes a selector is
+ *  used. If an object, it maps each contract address to the Interface
+ *  for that address.
+ */
+export type TraceInterfaces = Array<Interface> | Record<string, Interface>;
+
+/**
+ *  The options common to all tracers.
+ */
+export interface TraceOptionsBase {
+    /**
+     *  The maximum duration the backend may spend tracing, as a
+     *  Go duration string (e.g. ``"10s"``).
+     */
+    timeout?: string;
+}
+
+/**
+ *  The options for the default opcode (struct log) tracer.
+ */
+export interface StructLogTraceOptions extends TraceOptionsBase {
+    tracer?: undefined;
+
+    /**
+     *  Do not include the stack in each step.
+     */
+    disableStack?: boolean;
+
+    /**
+     *  Do not include the storage in each step.
+     */
+    disableStorage?: boolean;
+
+    /**
+     *  Include the memory in each step.
+     */
+    enableMemory?: boolean;
+
+    /**
+     *  Include the return data in each step.
+     */
+    enableReturnData?: boolean;
+}
+
+/**
+ *  The options for the ``callTracer``.
+ */
+export interface CallTraceOptions extends TraceOptionsBase {
+    tracer: "callTracer";
+
+    /**
+     *  Only trace the top-level call, not any of its sub-calls.
+     */
+    onlyTopCall?: boolean;
+
+    /**
+     *  Include the logs emitted by each call frame.
+     */
+    withLog?: boolean;
+
+    /**
+     *  The Interfaces used to decode each call frame and log.
+     */
+    interfaces?: TraceInterfaces;
+}
+
+/**
+ *  The options for the ``prestateTracer``.
+ */
+export interface PrestateTraceOptions extends TraceOptionsBase {
+    tracer: "prestateTracer";
+
+    /**
+     *  Return the state both before and after execution, rather than
+     *  only the state before.
+     */
+    diffMode?: boolean;
+}
+
+/**
+ *  The options for any tracer.
+ */
+export type TraceOptions = StructLogTraceOptions | CallTraceOptions | PrestateTraceOptions;
+
+/**
+ *  A log emitted within a [[CallFrame]].
+ */
+export interface CallFrameLog {
+    /**
+     *  The address of the contract which emitted the log.
+     */
+    address: string;
+
+    /**
+     *  The indexed topics.
+     */
+    topics: Array<string>;
+
+    /**
+     *  The non-indexed data.
+     */
+    data: string;
+
+    /**
+     *  The decoded log, if a matching Interface was found.
+     */
+    event: null | LogDescription;
+}
+
+/**
+ *  The decoded details of a call, if a matching Interface was found.
+ */
+export interface DecodedCall {
+    /**
+     *  The decoded call data.
+     */
+    method: null | TransactionDescription;
+
+    /**
+     *  The decoded result, if the call succeeded.
+     */
+    result: null | Result;
+
+    /**
+     *  The decoded revert data, if the call reverted.
+     */
+    revert: null | ErrorDescription;
+}
+
+/**
+ *  A call frame of a ``callTracer`` trace, which includes all its
+ *  sub-calls in %%calls%%.
+ */
+export interface CallFrame extends DecodedCall {
+    /**
+     *  The type of frame (e.g. ``"CALL"``, ``"DELEGATECALL"`` or
+     *  ``"CREATE2"``).
+     */
+    type: string;
+
+    /**
+     *  The address of the caller.
+     */
+    from: string;
+
+    /**
+     *  The address called, or created.
+     */
+    to: null | string;
+
+    /**
+     *  The value sent.
+     */
+    value: bigint;
+
+    /**
+     *  The gas provided.
+     */
+    gas: bigint;
+
+    /**
+     *  The gas used.
+     */
+    gasUsed: bigint;
+
+    /**
+     *  The call data, or initcode.
+     */
+    input: string;
+
+    /**
+     *  The return data, or revert data.
+     */
+    output: string;
+
+    /**
+     *  The error, if the frame failed.
+     */
+    error: null | string;
+
+    /**
+     *  The revert reason reported by the backend, if any.
+     */
+    revertReason: null | string;
+
+    /**
+     *  The logs emitted, if the ``withLog`` option was used.
+     */
+    logs: Array<CallFrameLog>;
+
+    /**
+     *  The sub-calls.
+     */
+    calls: Array<CallFrame>;
+}
+
+/**
+ *  The state of an account reported by the ``prestateTracer``.
+ *
+ *  Any property omitted by the backend is ``null``.
+ */
+export interface PrestateAccount {
+    balance: null | bigint;
+    nonce: null | number;
+    code: null | string;
+    storage: Record<string, string>;
+}
+
+/**
+ *  The result of the ``prestateTracer``, which maps each address to its
+ *  account state.
+ */
+export type PrestateTrace = Record<string, PrestateAccount>;
+
+/**
+ *  The result of the ``prestateTracer`` with ``diffMode``, which
+ *  includes only the modified accounts and properties.
+ */
+export interface PrestateDiffTrace {
+    pre: PrestateTrace;
+    post: PrestateTrace;
+}
+
+/**
+ *  A single step of the default opcode tracer.
+ */
+export interface StructLog {
+    pc: number;
+    op: string;
+    gas: bigint;
+    gasCost: bigint;
+    depth: number;
+    stack: null | Array<string>;
+    memory: null | Array<string>;
+    storage: null | Record<string, string>;
+    returnData: null | string;
+    error: null | string;
+}
+
+/**
+ *  The result of the default opcode tracer.
+ */
+export interface StructLogTrace {
+    gas: bigint;
+    failed: boolean;
+    returnValue: string;
+    structLogs: Array<StructLog>;
+}
+
+/**
+ *  A Parity-style trace, returned by the ``trace_*`` methods, which
+ *  flattens the call tree; the position of each trace within the tree
+ *  is given by %%traceAddress%%.
+ */
+export interface FlatTrace extends DecodedCall {
+    /**
+     *  The type of trace (e.g. ``"call"``, ``"create"``, ``"suicide"``
+     *  or ``"reward"``).
+     */
+    type: string;
+
+    /**
+     *  The type of call (e.g. ``"call"`` or ``"delegatecall"``), if a
+     *  call.
+     */
+    callType: null | string;
+
+    from: null | string;
+    to: null | string;
+    value: bigint;
+    gas: bigint;
+
+    /**
+     *  The call data, or initcode.
+     */
+    input: string;
+
+    gasUsed: null | bigint;
+
+    /**
+     *  The return data, or the code deployed.
+     */
+    output: null | string;
+
+    /**
+     *  The address of the created contract, if a create.
+     */
+    address: null | string;
+
+    error: null | string;
+
+    subtraces: number;
+    traceAddress: Array<number>;
+
+    blockHash: null | string;
+    blockNumber: null | number;
+    transactionHash: null | string;
+    transactionPosition: null | number;
+}
+
+/**
+ *  Returns the JSON-RPC tracer config for %%options%%.
+ *
+ *  @_ignore:
+ */
+export function getTraceConfig(options: TraceOptions): Record<string, any> {
+    const config: Record<string, any> = { };
+    if (options.timeout != null) { config.timeout = options.timeout; }
+
+    switch (options.tracer) {
+        case "callTracer":
+            config.tracer = "callTracer";
+            config.tracerConfig = {
+                onlyTopCall: !!options.onlyTopCall,
+                withLog: !!options.withLog
+            };
+            break;
+
+        case "prestateTracer":
+            config.tracer = "prestateTracer";
+            config.tracerConfig = { diffMode: !!options.diffMode };
+            break;
+
+        default:
+            for (const key of [ "disableStack", "disableStorage", "enableMemory", "enableReturnData" ]) {
+                const value = (<any>options)[key];
+                if (value != null) { config[key] = !!value; }
+            }
+    }
+
+    return config;
+}
+
+const formatAddress = allowNull(getAddress, null);
+
+// Backends differ on whether these values are zero or omitted
+const formatBigIntZero = allowNull(getBigInt, BigInt(0));
+
+const formatStringNull = allowNull((v: any) => String(v), null);
+
+const _formatCallFrameLog = object({
+    address: getAddress,
+    topics: arrayOf(formatHash),
+    data: formatData
+});
+
+const _formatCallFrame: (value: any) => any = object({
+    type: (v: any) => String(v).toUpperCase(),
+    from: getAddress,
+    to: formatAddress,
+    value: formatBigIntZero,
+    gas: formatBigIntZero,
+    gasUsed: formatBigIntZero,
+    input: allowNull(formatData, "0x"),
+    output: allowNull(formatData, "0x"),
+    error: formatStringNull,
+    revertReason: formatStringNull,
+    logs: allowNull(arrayOf(_formatCallFrameLog), [ ]),
+    calls: allowNull(arrayOf((v: any) => _formatCallFrame(v)), [ ])
+});
+
+const _formatPrestateAccount = object({
+    balance: allowNull(getBigInt, null),
+    nonce: allowNull(getNumber, null),
+    code: allowNull(formatData, null),
+    storage: allowNull((v: any) => Object.assign({ }, v), { })
+});
+
+function formatPrestate(value: any): PrestateTrace {
+    const result: PrestateTrace = { };
+    for (const address of Object.keys(value || { })) {
+        result[getAddress(address)] = _formatPrestateAccount(value[address]);
+    }
+    return result;
+}
+
+const _formatStructLog = object({
+    pc: getNumber,
+    op: (v: any) => String(v),
+    gas: getBigInt,
+    gasCost: getBigInt,
+    depth: getNumber,
+    stack: allowNull(arrayOf((v: any) => String(v)), null),
+    memory: allowNull(arrayOf((v: any) => String(v)), null),
+    storage: allowNull((v: any) => Object.assign({ }, v), null),
+    returnData: formatStringNull,
+    error: formatStringNull
+});
+
+const _formatStructLogTrace = object({
+    gas: getBigInt,
+    failed: formatBoolean,
+    returnValue: allowNull((v: any) => String(v), ""),
+    structLogs: arrayOf(_formatStructLog)
+});
+
+const _formatFlatTrace = object({
+    type: (v: any) => String(v),
+    subtraces: getNumber,
+    traceAddress: arrayOf(getNumber),
+    error: formatStringNull,
+    blockHash: allowNull(formatHash, null),
+    blockNumber: allowNull(getNumber, null),
+    transactionHash: allowNull(formatHash, null),
+    transactionPosition: allowNull(getNumber, null)
+});
+
+/**
+ *  Formats the raw result of the ``callTracer``, decoding each frame
+ *  using %%interfaces%%.
+ *
+ *  @_ignore:
+ */
+export function formatCallFrame(value: any, interfaces?: null | TraceInterfaces): CallFrame {
+    const frame: CallFrame = _formatCallFrame(value);
+    decodeCallFrame(frame, interfaces);
+    return frame;
+}
+
+/**
+ *  Formats the raw result of the ``prestateTracer``.
+ *
+ *  @_ignore:
+ */
+export function formatPrestateTrace(value: any, diffMode: true): PrestateDiffTrace;
+export function formatPrestateTrace(value: any, diffMode?: boolean): PrestateTrace;
+export function formatPrestateTrace(value: any, diffMode?: boolean): PrestateTrace | PrestateDiffTrace {
+    if (diffMode) {
+        return { pre: formatPrestate(value.pre), post: formatPrestate(value.post) };
+    }
+    return formatPrestate(value);
+}
+
+/**
+ *  Formats the raw result of the default opcode tracer.
+ *
+ *  @_ignore:
+ */
+export function formatStructLogTrace(value: any): StructLogTrace {
+    return _formatStructLogTrace(value);
+}
+
+/**
+ *  Formats a raw Parity-style trace, decoding the call using
+ *  %%interfaces%%.
+ *
+ *  @_ignore:
+ */
+export function formatFlatTrace(value: any, interfaces?: null | TraceInterfaces): FlatTrace {
+    const trace = _formatFlatTrace(value);
+
+    const action = value.action || { };
+    const result = value.result || null;
+
+    trace.callType = formatStringNull(action.callType);
+    trace.from = formatAddress(action.from || action.address);
+    trace.to = formatAddress(action.to || action.refundAddress || action.author);
+    trace.value = formatBigIntZero(action.value != null ? action.value: action.balance);
+    trace.gas = formatBigIntZero(action.gas);
+    trace.input = formatData(action.input || action.init || "0x");
+
+    trace.gasUsed = (result == null) ? null: formatBigIntZero(result.gasUsed);
+    trace.output = (result == null) ? null: formatData(result.output || result.code || "0x");
+    trace.address = (result == null) ? null: formatAddress(result.address);
+
+    Object.assign(trace, decodeCall(interfaces, trace.to, trace.input,
+        trace.value, trace.output, trace.error != null));
+
+    return trace;
+}
+
+// Interface used to decode builtin errors (i.e. Error(string) and Panic(uint256))
+let builtinInterface: null | Interface = null;
+
+function getCandidates(interfaces: undefined | null | TraceInterfaces, address: null | string): Array<Interface> {
+    if (interfaces == null) { return [ ]; }
+    if (Array.isArray(interfaces)) { return interfaces; }
+    if (address == null) { return [ ]; }
+
+    address = address.toLowerCase();
+    for (const key of Object.keys(interfaces)) {
+        if (key.toLowerCase() === address) { return [ interfaces[key] ]; }
+    }
+    return [ ];
+}
+
+function decodeCall(interfaces: undefined | null | TraceInterfaces, to: null | string, input: string, value: bigint, output: null | string, failed: boolean): DecodedCall {
+    const result: DecodedCall = { method: null, result: null, revert: null };
+
+    const candidates = getCandidates(interfaces, to);
+
+    let iface: null | Interface = null;
+    if (input.length >= 10) {
+        for (const candidate of candidates) {
+            try {
+                result.method = candidate.parseTransaction({ data: input, value });
+            } catch (error) { }
+            if (result.method) {
+                iface = candidate;
+                break;
+            }
+        }
+    }
+
+    if (output == null || output === "0x") { return result; }
+
+    if (failed) {
+        if (builtinInterface == null) { builtinInterface = new Interface([ ]); }
+
+        // Prefer the Interface of the method, but errors may originate
+        // from any contract called within
+        const ifaces = (iface ? [ iface ]: [ ]).concat(candidates, builtinInterface);
+        for (const candidate of ifaces) {
+            try {
+                result.revert = candidate.parseError(output);
+            } catch (error) { }
+            if (result.revert) { break; }
+        }
+
+    } else if (iface && result.method) {
+        try {
+            result.result = iface.decodeFunctionResult(result.method.fragment, output);
+        } catch (error) { }
+    }
+
+    return result;
+}
+
+function decodeCallFrame(frame: CallFrame, interfaces: undefined | null | TraceInterfaces): void {
+    Object.assign(frame, decodeCall(interfaces, frame.to, frame.input,
+        frame.value, frame.output, frame.error != null));
+
+    for (const log of frame.logs) {
+        log.event = null;
+        for (const candidate of getCandidates(interfaces, log.address)) {
+            try {
+                log.event = candidate.parseLog(log);
+            } catch (error) { }
+            if (log.event) { break; }
+        }
+    }
+
+    for (const call of frame.calls) { decodeCallFrame(call, interfaces); }
+}
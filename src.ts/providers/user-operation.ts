@@ -0,0 +1,337 @@
+/**
+ *  Account abstraction ([[link-eip-4337]]) allows a smart contract
+ *  account to initiate transactions, by signing a **UserOperation**
+ *  which a bundler submits to the **EntryPoint** contract on its behalf.
+ *
+ *  @_subsection: api/providers:User Operations  [about-user-operations]
+ */
+import { AbiCoder } from "../abi/index.js";
+import { getAddress } from "../address/index.js";
+import { keccak256 } from "../crypto/index.js";
+import {
+    concat, dataLength, dataSlice, getBigInt, hexlify, toBeHex,
+    assertArgument
+} from "../utils/index.js";
+
+import type { BigNumberish, BytesLike } from "../utils/index.js";
+
+
+/**
+ *  The address of the v0.6 EntryPoint.
+ */
+export const EntryPointV06: string = "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789";
+
+/**
+ *  The address of the v0.7 EntryPoint.
+ */
+export const EntryPointV07: string = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+
+/**
+ *  The version of an EntryPoint, which determines how a
+ *  **UserOperation** is packed and hashed.
+ */
+export type EntryPointVersion = "0.6" | "0.7";
+
+/**
+ *  A **UserOperation** to be executed by a smart contract account.
+ *
+ *  This uses the v0.7 (unpacked) fields, which are packed as required
+ *  for the EntryPoint being used.
+ */
+export interface UserOperation {
+    /**
+     *  The smart contract account.
+     */
+    sender: string;
+
+    /**
+     *  The nonce, managed by the EntryPoint, whose upper 192 bits are
+     *  the nonce key.
+     */
+    nonce: bigint;
+
+    /**
+     *  The factory to deploy the account with, or ``null`` if the
+     *  account is already deployed.
+     */
+    factory: null | string;
+
+    /**
+     *  The data to call the %%factory%% with.
+     */
+    factoryData: string;
+
+    /**
+     *  The data the account is called with.
+     */
+    callData: string;
+
+    /**
+     *  The gas limit for the call to the account.
+     */
+    callGasLimit: bigint;
+
+    /**
+     *  The gas limit for deploying and validating the account.
+     */
+    verificationGasLimit: bigint;
+
+    /**
+     *  The gas paid to the bundler which is not otherwise metered.
+     */
+    preVerificationGas: bigint;
+
+    /**
+     *  The maximum fee per gas (i.e. [[link-eip-1559]]).
+     */
+    maxFeePerGas: bigint;
+
+    /**
+     *  The maximum priority fee per gas (i.e. [[link-eip-1559]]).
+     */
+    maxPriorityFeePerGas: bigint;
+
+    /**
+     *  The paymaster sponsoring the operation, or ``null`` if the
+     *  account pays.
+     */
+    paymaster: null | string;
+
+    /**
+     *  The gas limit for validating the %%paymaster%% (v0.7 only).
+     */
+    paymasterVerificationGasLimit: bigint;
+
+    /**
+     *  The gas limit for the %%paymaster%% post-operation (v0.7 only).
+     */
+    paymasterPostOpGasLimit: bigint;
+
+    /**
+     *  The data passed to the %%paymaster%%.
+     */
+    paymasterData: string;
+
+    /**
+     *  The signature, which is validated by the account.
+     */
+    signature: string;
+}
+
+/**
+ *  A **UserOperationLike** is any object which can be normalized into a
+ *  [[UserOperation]] using [[userOperationFrom]].
+ *
+ *  The v0.6 ``initCode`` and ``paymasterAndData`` may be used in place
+ *  of the ``factory`` and ``paymaster`` fields.
+ */
+export interface UserOperationLike {
+    sender: string;
+    nonce?: null | BigNumberish;
+
+    factory?: null | string;
+    factoryData?: null | BytesLike;
+    initCode?: null | BytesLike;
+
+    callData?: null | BytesLike;
+
+    callGasLimit?: null | BigNumberish;
+    verificationGasLimit?: null | BigNumberish;
+    preVerificationGas?: null | BigNumberish;
+    maxFeePerGas?: null | BigNumberish;
+    maxPriorityFeePerGas?: null | BigNumberish;
+
+    paymaster?: null | string;
+    paymasterVerificationGasLimit?: null | BigNumberish;
+    paymasterPostOpGasLimit?: null | BigNumberish;
+    paymasterData?: null | BytesLike;
+    paymasterAndData?: null | BytesLike;
+
+    signature?: null | BytesLike;
+}
+
+/**
+ *  A **PackedUserOperation** is the v0.7 on-chain representation of a
+ *  [[UserOperation]], as passed to the EntryPoint.
+ */
+export interface PackedUserOperation {
+    sender: string;
+    nonce: bigint;
+    initCode: string;
+    callData: string;
+
+    /**
+     *  The ``verificationGasLimit`` and ``callGasLimit``, each as
+     *  a ``uint128``.
+     */
+    accountGasLimits: string;
+
+    preVerificationGas: bigint;
+
+    /**
+     *  The ``maxPriorityFeePerGas`` and ``maxFeePerGas``, each as
+     *  a ``uint128``.
+     */
+    gasFees: string;
+
+    paymasterAndData: string;
+    signature: string;
+}
+
+function getValue(value: undefined | null | BigNumberish): bigint {
+    return (value == null) ? BigInt(0): getBigInt(value);
+}
+
+function getData(value: undefined | null | BytesLike): string {
+    return (value == null) ? "0x": hexlify(value);
+}
+
+function toUint128(value: bigint): string {
+    return toBeHex(value, 16);
+}
+
+/**
+ *  Returns a normalized [[UserOperation]] for %%op%%, with any missing
+ *  values zero or empty.
+ */
+export function userOperationFrom(op: UserOperationLike): UserOperation {
+    let factory = (op.factory != null) ? getAddress(op.factory): null;
+    let factoryData = getData(op.factoryData);
+    if (op.initCode != null && dataLength(op.initCode) > 0) {
+        assertArgument(op.factory == null, "cannot specify both initCode and factory", "op", op);
+        assertArgument(dataLength(op.initCode) >= 20, "invalid initCode", "op.initCode", op.initCode);
+        factory = getAddress(dataSlice(op.initCode, 0, 20));
+        factoryData = dataSlice(op.initCode, 20);
+    }
+
+    let paymaster = (op.paymaster != null) ? getAddress(op.paymaster): null;
+    let paymasterData = getData(op.paymasterData);
+    if (op.paymasterAndData != null && dataLength(op.paymasterAndData) > 0) {
+        assertArgument(op.paymaster == null, "cannot specify both paymasterAndData and paymaster", "op", op);
+        assertArgument(dataLength(op.paymasterAndData) >= 20, "invalid paymasterAndData", "op.paymasterAndData", op.paymasterAndData);
+        paymaster = getAddress(dataSlice(op.paymasterAndData, 0, 20));
+        paymasterData = dataSlice(op.paymasterAndData, 20);
+    }
+
+    return {
+        sender: getAddress(op.sender),
+        nonce: getValue(op.nonce),
+        factory, factoryData,
+        callData: getData(op.callData),
+        callGasLimit: getValue(op.callGasLimit),
+        verificationGasLimit: getValue(op.verificationGasLimit),
+        preVerificationGas: getValue(op.preVerificationGas),
+        maxFeePerGas: getValue(op.maxFeePerGas),
+        maxPriorityFeePerGas: getValue(op.maxPriorityFeePerGas),
+        paymaster,
+        paymasterVerificationGasLimit: getValue(op.paymasterVerificationGasLimit),
+        paymasterPostOpGasLimit: getValue(op.paymasterPostOpGasLimit),
+        paymasterData,
+        signature: getData(op.signature)
+    };
+}
+
+/**
+ *  Returns the version of the EntryPoint at %%entryPoint%%; any
+ *  unknown EntryPoint is assumed to be v0.7.
+ */
+export function getEntryPointVersion(entryPoint: string): EntryPointVersion {
+    if (getAddress(entryPoint) === EntryPointV06) { return "0.6"; }
+    return "0.7";
+}
+
+/**
+ *  Returns the ``initCode`` for %%op%%, which is the ``factory``
+ *  followed by the ``factoryData``, or ``"0x"`` if there is no factory.
+ */
+export function getUserOperationInitCode(op: UserOperationLike): string {
+    const { factory, factoryData } = userOperationFrom(op);
+    if (factory == null) { return "0x"; }
+    return concat([ factory, factoryData ]);
+}
+
+/**
+ *  Returns the ``paymasterAndData`` for %%op%% as used by the
+ *  %%version%% EntryPoint (default: ``"0.7"``), or ``"0x"`` if there
+ *  is no paymaster.
+ *
+ *  For v0.7, the paymaster gas limits are included, each as a
+ *  ``uint128``, between the ``paymaster`` and the ``paymasterData``.
+ */
+export function getUserOperationPaymasterAndData(op: UserOperationLike, version?: EntryPointVersion): string {
+    const uop = userOperationFrom(op);
+    if (uop.paymaster == null) { return "0x"; }
+
+    if (version === "0.6") { return concat([ uop.paymaster, uop.paymasterData ]); }
+
+    return concat([
+        uop.paymaster,
+        toUint128(uop.paymasterVerificationGasLimit),
+        toUint128(uop.paymasterPostOpGasLimit),
+        uop.paymasterData
+    ]);
+}
+
+/**
+ *  Returns the v0.7 [[PackedUserOperation]] for %%op%%.
+ */
+export function packUserOperation(op: UserOperationLike): PackedUserOperation {
+    const uop = userOperationFrom(op);
+    return {
+        sender: uop.sender,
+        nonce: uop.nonce,
+        initCode: getUserOperationInitCode(uop),
+        callData: uop.callData,
+        accountGasLimits: concat([ toUint128(uop.verificationGasLimit), toUint128(uop.callGasLimit) ]),
+        preVerificationGas: uop.preVerificationGas,
+        gasFees: concat([ toUint128(uop.maxPriorityFeePerGas), toUint128(uop.maxFeePerGas) ]),
+        paymasterAndData: getUserOperationPaymasterAndData(uop, "0.7"),
+        signature: uop.signature
+    };
+}
+
+/**
+ *  Returns the hash of %%op%%, which the account signs, for the
+ *  %%entryPoint%% on %%chainId%%.
+ *
+ *  The %%version%% of the EntryPoint is inferred from its address,
+ *  unless specified.
+ */
+export function getUserOperationHash(op: UserOperationLike, entryPoint: string, chainId: BigNumberish, version?: EntryPointVersion): string {
+    if (version == null) { version = getEntryPointVersion(entryPoint); }
+
+    const uop = userOperationFrom(op);
+    const coder = AbiCoder.defaultAbiCoder();
+
+    let encoded: string;
+    if (version === "0.6") {
+        encoded = coder.encode([
+            "address", "uint256", "bytes32", "bytes32", "uint256", "uint256",
+            "uint256", "uint256", "uint256", "bytes32"
+        ], [
+            uop.sender, uop.nonce,
+            keccak256(getUserOperationInitCode(uop)),
+            keccak256(uop.callData),
+            uop.callGasLimit, uop.verificationGasLimit, uop.preVerificationGas,
+            uop.maxFeePerGas, uop.maxPriorityFeePerGas,
+            keccak256(getUserOperationPaymasterAndData(uop, "0.6"))
+        ]);
+    } else {
+        const packed = packUserOperation(uop);
+        encoded = coder.encode([
+            "address", "uint256", "bytes32", "bytes32", "bytes32", "uint256",
+            "bytes32", "bytes32"
+        ], [
+            packed.sender, packed.nonce,
+            keccak256(packed.initCode),
+            keccak256(packed.callData),
+            packed.accountGasLimits, packed.preVerificationGas,
+            packed.gasFees,
+            keccak256(packed.paymasterAndData)
+        ]);
+    }
+
+    return keccak256(coder.encode([ "bytes32", "address", "uint256" ], [
+        keccak256(encoded), getAddress(entryPoint), chainId
+    ]));
+}
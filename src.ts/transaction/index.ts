@@ -6,6 +6,9 @@
 
 null;
 
+import type { BigNumberish } from "../utils/index.js";
+import type { Signature, SignatureLike } from "../crypto/index.js";
+
 /**
  *  A single [[AccessList]] entry of storage keys (slots) for an address.
  */
@@ -23,8 +26,30 @@ export type AccessListish = AccessList |
                             Array<[ string, Array<string> ]> |
                             Record<string, Array<string>>;
 
+/**
+ *  An [[link-eip-7702]] authorization, which delegates the code of an
+ *  EOA to the code at %%address%%.
+ */
+export interface Authorization {
+    address: string;
+    nonce: bigint;
+    chainId: bigint;
+    signature: Signature;
+}
+
+/**
+ *  Any ethers-supported [[Authorization]] structure.
+ */
+export type AuthorizationLike = {
+    address: string;
+    nonce: BigNumberish;
+    chainId: BigNumberish;
+    signature: SignatureLike;
+};
+
 
 export { accessListify } from "./accesslist.js";
+export { authorizationify } from "./authorization.js";
 export { computeAddress, recoverAddress } from "./address.js";
 export { Transaction } from "./transaction.js";
 
@@ -10,12 +10,15 @@ import {
 } from "../utils/index.js";
 
 import { accessListify } from "./accesslist.js";
+import { authorizationify } from "./authorization.js";
 import { recoverAddress } from "./address.js";
 
 import type { BigNumberish, BytesLike } from "../utils/index.js";
 import type { SignatureLike } from "../crypto/index.js";
 
-import type { AccessList, AccessListish } from "./index.js";
+import type {
+    AccessList, AccessListish, Authorization, AuthorizationLike
+} from "./index.js";
 
 
 const BN_0 = BigInt(0);
@@ -106,6 +109,11 @@ export interface TransactionLike<A = string> {
      */
     accessList?: null | AccessListish;
 
+    /**
+     *  The authorization list (see [[link-eip-7702]]).
+     */
+    authorizationList?: null | Array<AuthorizationLike>;
+
     /**
      *  The maximum fee per blob gas (see [[link-eip-4844]]).
      */
@@ -185,6 +193,37 @@ function handleAccessList(value: any, param: string): AccessList {
     }
 }
 
+function handleAuthorizationList(value: any, param: string): Array<Authorization> {
+    assertArgument(Array.isArray(value), `invalid ${ param }`, "value", value);
+
+    const result: Array<Authorization> = [ ];
+    for (let i = 0; i < value.length; i++) {
+        const auth = value[i];
+        assertArgument(Array.isArray(auth) && auth.length === 6, `invalid ${ param } tuple`, `value[${ i }]`, auth);
+
+        let yParity: number;
+        try {
+            yParity = handleNumber(auth[3], "yParity");
+            if (yParity !== 0 && yParity !== 1) { throw new Error("bad yParity"); }
+        } catch (error) {
+            assertArgument(false, "invalid yParity", `${ param }[${ i }].yParity`, auth[3]);
+        }
+
+        result.push({
+            chainId: handleUint(auth[0], "chainId"),
+            address: <string>handleAddress(auth[1]),
+            nonce: handleUint(auth[2], "nonce"),
+            signature: Signature.from({
+                yParity,
+                r: zeroPadValue(auth[4], 32),
+                s: zeroPadValue(auth[5], 32)
+            })
+        });
+    }
+
+    return result;
+}
+
 function handleNumber(_value: string, param: string): number {
     if (_value === "0x") { return 0; }
     return getNumber(_value, param);
@@ -208,6 +247,19 @@ function formatAccessList(value: AccessListish): Array<[ string, Array<string> ]
     return accessListify(value).map((set) => [ set.address, set.storageKeys ]);
 }
 
+function formatAuthorizationList(value: Array<Authorization>): Array<Array<string | Uint8Array>> {
+    return value.map((a) => {
+        return [
+            formatNumber(a.chainId, "chainId"),
+            a.address,
+            formatNumber(a.nonce, "nonce"),
+            formatNumber(a.signature.yParity, "yParity"),
+            toBeArray(a.signature.r),
+            toBeArray(a.signature.s)
+        ];
+    });
+}
+
 function formatHashes(value: Array<string>, param: string): Array<string> {
     assertArgument(Array.isArray(value), `invalid ${ param }`, "value", value);
     for (let i = 0; i < value.length; i++) {
@@ -548,6 +600,60 @@ function _serializeEip4844(tx: Transaction, sig: null | Signature, blobs: null |
     return concat([ "0x03", encodeRlp(fields)]);
 }
 
+function _parseEip7702(data: Uint8Array): TransactionLike {
+    const fields: any = decodeRlp(getBytes(data).slice(1));
+
+    assertArgument(Array.isArray(fields) && (fields.length === 10 || fields.length === 13),
+        "invalid field count for transaction type: 4", "data", hexlify(data));
+
+    const tx: TransactionLike = {
+        type:                  4,
+        chainId:               handleUint(fields[0], "chainId"),
+        nonce:                 handleNumber(fields[1], "nonce"),
+        maxPriorityFeePerGas:  handleUint(fields[2], "maxPriorityFeePerGas"),
+        maxFeePerGas:          handleUint(fields[3], "maxFeePerGas"),
+        gasPrice:              null,
+        gasLimit:              handleUint(fields[4], "gasLimit"),
+        to:                    handleAddress(fields[5]),
+        value:                 handleUint(fields[6], "value"),
+        data:                  hexlify(fields[7]),
+        accessList:            handleAccessList(fields[8], "accessList"),
+        authorizationList:     handleAuthorizationList(fields[9], "authorizationList")
+    };
+
+    assertArgument(tx.to != null, "invalid address for transaction type: 4", "data", data);
+
+    // Unsigned EIP-7702 Transaction
+    if (fields.length === 10) { return tx; }
+
+    _parseEipSignature(tx, fields.slice(10));
+
+    return tx;
+}
+
+function _serializeEip7702(tx: Transaction, sig: null | Signature): string {
+    const fields: Array<any> = [
+        formatNumber(tx.chainId, "chainId"),
+        formatNumber(tx.nonce, "nonce"),
+        formatNumber(tx.maxPriorityFeePerGas || 0, "maxPriorityFeePerGas"),
+        formatNumber(tx.maxFeePerGas || 0, "maxFeePerGas"),
+        formatNumber(tx.gasLimit, "gasLimit"),
+        (tx.to || ZeroAddress),
+        formatNumber(tx.value, "value"),
+        tx.data,
+        formatAccessList(tx.accessList || [ ]),
+        formatAuthorizationList(tx.authorizationList || [ ])
+    ];
+
+    if (sig) {
+        fields.push(formatNumber(sig.yParity, "yParity"));
+        fields.push(toBeArray(sig.r));
+        fields.push(toBeArray(sig.s));
+    }
+
+    return concat([ "0x04", encodeRlp(fields)]);
+}
+
 /**
  *  A **Transaction** describes an operation to be executed on
  *  Ethereum by an Externally Owned Account (EOA). It includes
@@ -578,6 +684,7 @@ export class Transaction implements TransactionLike<string> {
     #blobVersionedHashes: null | Array<string>;
     #kzg: null | KzgLibrary;
     #blobs: null | Array<Blob>;
+    #auths: null | Array<Authorization>;
 
     /**
      *  The transaction type.
@@ -603,6 +710,9 @@ export class Transaction implements TransactionLike<string> {
             case 3: case "cancun": case "eip-4844":
                 this.#type = 3;
                 break;
+            case 4: case "pectra": case "eip-7702":
+                this.#type = 4;
+                break;
             default:
                 assertArgument(false, "unsupported transaction type", "type", value);
         }
@@ -617,6 +727,7 @@ export class Transaction implements TransactionLike<string> {
             case 1: return "eip-2930";
             case 2: return "eip-1559";
             case 3: return "eip-4844";
+            case 4: return "eip-7702";
         }
 
         return null;
@@ -628,7 +739,7 @@ export class Transaction implements TransactionLike<string> {
      */
     get to(): null | string {
         const value = this.#to;
-        if (value == null && this.type === 3) { return ZeroAddress; }
+        if (value == null && (this.type === 3 || this.type === 4)) { return ZeroAddress; }
         return value;
     }
     set to(value: null | string) {
@@ -669,7 +780,7 @@ export class Transaction implements TransactionLike<string> {
     get maxPriorityFeePerGas(): null | bigint {
         const value = this.#maxPriorityFeePerGas;
         if (value == null) {
-            if (this.type === 2 || this.type === 3) { return BN_0; }
+            if (this.type === 2 || this.type === 3 || this.type === 4) { return BN_0; }
             return null;
         }
         return value;
@@ -685,7 +796,7 @@ export class Transaction implements TransactionLike<string> {
     get maxFeePerGas(): null | bigint {
         const value = this.#maxFeePerGas;
         if (value == null) {
-            if (this.type === 2 || this.type === 3) { return BN_0; }
+            if (this.type === 2 || this.type === 3 || this.type === 4) { return BN_0; }
             return null;
         }
         return value;
@@ -732,7 +843,7 @@ export class Transaction implements TransactionLike<string> {
     get accessList(): null | AccessList {
         const value = this.#accessList || null;
         if (value == null) {
-            if (this.type === 1 || this.type === 2 || this.type === 3) {
+            if (this.type === 1 || this.type === 2 || this.type === 3 || this.type === 4) {
                 // @TODO: in v7, this should assign the value or become
                 // a live object itself, otherwise mutation is inconsistent
                 return [ ];
@@ -745,6 +856,24 @@ export class Transaction implements TransactionLike<string> {
         this.#accessList = (value == null) ? null: accessListify(value);
     }
 
+    /**
+     *  The [[link-eip-7702]] authorizations (if any).
+     */
+    get authorizationList(): null | Array<Authorization> {
+        const value = this.#auths || null;
+        if (value == null) {
+            if (this.type === 4) {
+                // @TODO: in v7, this should become a live object itself,
+                // otherwise mutation is inconsistent
+                return [ ];
+            }
+        }
+        return value;
+    }
+    set authorizationList(auths: null | Array<AuthorizationLike>) {
+        this.#auths = (auths == null) ? null: auths.map((a) => authorizationify(a));
+    }
+
     /**
      *  The max fee per blob gas for Cancun transactions.
      */
@@ -886,6 +1015,7 @@ export class Transaction implements TransactionLike<string> {
         this.#blobVersionedHashes = null;
         this.#blobs = null;
         this.#kzg = null;
+        this.#auths = null;
     }
 
     /**
@@ -945,6 +1075,8 @@ export class Transaction implements TransactionLike<string> {
                 return _serializeEip1559(this, sig);
             case 3:
                 return _serializeEip4844(this, sig, sidecar ? this.blobs: null);
+            case 4:
+                return _serializeEip7702(this, sig);
         }
 
         assert(false, "unsupported transaction type", "UNSUPPORTED_OPERATION", { operation: ".serialized" });
@@ -977,7 +1109,7 @@ export class Transaction implements TransactionLike<string> {
     inferType(): number {
         const types = this.inferTypes();
 
-        // Prefer London (EIP-1559) over Cancun (BLOb)
+        // Prefer London (EIP-1559) over Cancun (BLOb) and Pectra (EIP-7702)
         if (types.indexOf(2) >= 0) { return 2; }
 
         // Return the highest inferred type
@@ -995,6 +1127,7 @@ export class Transaction implements TransactionLike<string> {
         const hasFee = (this.maxFeePerGas != null || this.maxPriorityFeePerGas != null);
         const hasAccessList = (this.accessList != null);
         const hasBlob = (this.#maxFeePerBlobGas != null || this.#blobVersionedHashes);
+        const hasAuths = (this.#auths != null);
 
         //if (hasGasPrice && hasFee) {
         //    throw new Error("transaction cannot have gasPrice and maxFeePerGas");
@@ -1010,6 +1143,7 @@ export class Transaction implements TransactionLike<string> {
 
         assert(!hasFee || (this.type !== 0 && this.type !== 1), "transaction type cannot have maxFeePerGas or maxPriorityFeePerGas", "BAD_DATA", { value: this });
         assert(this.type !== 0 || !hasAccessList, "legacy transaction cannot have accessList", "BAD_DATA", { value: this })
+        assert(!hasAuths || this.type == null || this.type === 4, "only eip-7702 transactions can have authorizationList", "BAD_DATA", { value: this });
 
         const types: Array<number> = [ ];
 
@@ -1018,7 +1152,9 @@ export class Transaction implements TransactionLike<string> {
             types.push(this.type);
 
         } else {
-            if (hasFee) {
+            if (hasAuths) {
+                types.push(4);
+            } else if (hasFee) {
                 types.push(2);
             } else if (hasGasPrice) {
                 types.push(1);
@@ -1033,6 +1169,7 @@ export class Transaction implements TransactionLike<string> {
                 types.push(1);
                 types.push(2);
                 types.push(3);
+                types.push(4);
             }
         }
 
@@ -1085,6 +1222,17 @@ export class Transaction implements TransactionLike<string> {
         return (this.type === 3);
     }
 
+    /**
+     *  Returns true if this transaction is an [[link-eip-7702]] set-code
+     *  transaction.
+     *
+     *  This provides a Type Guard that the related properties are
+     *  non-null.
+     */
+    isPectra(): this is (Transaction & { type: 4, to: string, accessList: AccessList, maxFeePerGas: bigint, maxPriorityFeePerGas: bigint, authorizationList: Array<Authorization> }) {
+        return (this.type === 4);
+    }
+
     /**
      *  Create a copy of this transaciton.
      */
@@ -1136,6 +1284,7 @@ export class Transaction implements TransactionLike<string> {
                 case 1: return Transaction.from(_parseEip2930(payload));
                 case 2: return Transaction.from(_parseEip1559(payload));
                 case 3: return Transaction.from(_parseEip4844(payload));
+                case 4: return Transaction.from(_parseEip7702(payload));
             }
             assert(false, "unsupported transaction type", "UNSUPPORTED_OPERATION", { operation: "from" });
         }
@@ -1154,6 +1303,7 @@ export class Transaction implements TransactionLike<string> {
         if (tx.chainId != null) { result.chainId = tx.chainId; }
         if (tx.signature != null) { result.signature = Signature.from(tx.signature); }
         if (tx.accessList != null) { result.accessList = tx.accessList; }
+        if (tx.authorizationList != null) { result.authorizationList = tx.authorizationList; }
 
         // This will get overwritten by blobs, if present
         if (tx.blobVersionedHashes != null) { result.blobVersionedHashes = tx.blobVersionedHashes; }
@@ -90,6 +90,8 @@ function stringify(value: any): any {
  *
  *  **``"CANCELLED"``** - see [[CancelledError]]
  *
+ *  **``"QUORUM_MISMATCH"``** - see [[QuorumMismatchError]]
+ *
  *  **Operational Errors**
  *
  *  **``"BUFFER_OVERRUN"``** - see [[BufferOverrunError]]
@@ -131,7 +133,7 @@ export type ErrorCode =
     // Generic Errors
     "UNKNOWN_ERROR" | "NOT_IMPLEMENTED" | "UNSUPPORTED_OPERATION" |
     "NETWORK_ERROR" | "SERVER_ERROR" | "TIMEOUT" | "BAD_DATA" |
-    "CANCELLED" |
+    "CANCELLED" | "QUORUM_MISMATCH" |
 
     // Operational Errors
     "BUFFER_OVERRUN" |  "NUMERIC_FAULT" |
@@ -285,6 +287,28 @@ export interface BadDataError extends EthersError<"BAD_DATA"> {
 export interface CancelledError extends EthersError<"CANCELLED"> {
 }
 
+/**
+ *  This Error indicates that enough backends of a [[FallbackProvider]]
+ *  responded to meet quorum, but they did not agree on the result.
+ */
+export interface QuorumMismatchError extends EthersError<"QUORUM_MISMATCH"> {
+    /**
+     *  The attempted operation (e.g. ``"getBalance"``).
+     */
+    operation: string;
+
+    /**
+     *  The weight of agreeing backends that was required.
+     */
+    quorum: number;
+
+    /**
+     *  Each distinct response (a result or an Error), with the total
+     *  weight and the index of each backend that agreed on it.
+     */
+    responses: Array<{ value: any, weight: number, backends: Array<number> }>;
+}
+
 
 // Operational Errors
 
@@ -562,7 +586,7 @@ export interface ActionRejectedError extends EthersError<"ACTION_REJECTED"> {
     /**
      *  The requested action.
      */
-    action: "requestAccess" | "sendTransaction" | "signMessage" | "signTransaction" | "signTypedData" | "unknown",
+    action: "addChain" | "requestAccess" | "sendTransaction" | "signMessage" | "signTransaction" | "signTypedData" | "switchChain" | "watchAsset" | "unknown",
 
     /**
      *  The reason the action was rejected.
@@ -591,6 +615,7 @@ export type CodedEthersError<T> =
     T extends "TIMEOUT" ? TimeoutError:
     T extends "BAD_DATA" ? BadDataError:
     T extends "CANCELLED" ? CancelledError:
+    T extends "QUORUM_MISMATCH" ? QuorumMismatchError:
 
     T extends "BUFFER_OVERRUN" ? BufferOverrunError:
     T extends "NUMERIC_FAULT" ? NumericFaultError:
@@ -35,6 +35,8 @@ export {
 
 export { resolveProperties, defineProperties} from "./properties.js";
 
+export { RequestScheduler } from "./scheduler.js";
+
 export { decodeRlp } from "./rlp-decode.js";
 export { encodeRlp } from "./rlp-encode.js";
 
@@ -63,7 +65,7 @@ export type {
     ErrorCode,
 
     EthersError, UnknownError, NotImplementedError, UnsupportedOperationError, NetworkError,
-    ServerError, TimeoutError, BadDataError, CancelledError, BufferOverrunError,
+    ServerError, TimeoutError, BadDataError, CancelledError, QuorumMismatchError, BufferOverrunError,
     NumericFaultError, InvalidArgumentError, MissingArgumentError, UnexpectedArgumentError,
     CallExceptionError, InsufficientFundsError, NonceExpiredError, OffchainFaultError,
     ReplacementUnderpricedError, TransactionReplacedError, UnconfiguredNameError,
@@ -88,6 +90,8 @@ export type { BigNumberish, Numeric } from "./maths.js";
 
 export type { RlpStructuredData, RlpStructuredDataish } from "./rlp.js";
 
+export type { RequestScheduleOptions, RequestSchedulerOptions } from "./scheduler.js";
+
 export type {
     Utf8ErrorFunc,
     UnicodeNormalizationForm,
@@ -0,0 +1,350 @@
+/**
+ *  Many backends limit the rate of requests made using an API key,
+ *  either by the number of requests or by a //compute unit// budget,
+ *  where each method has a cost.
+ *
+ *  A **RequestScheduler** enforces these limits on the client, queuing
+ *  any requests in excess by priority, so that multiple providers (or
+ *  other clients) sharing an API key do not get throttled.
+ *
+ *  @_subsection api/utils/fetching:Request Scheduling  [about-request-scheduler]
+ */
+import { assertArgument, makeError } from "./errors.js";
+import { FetchRequest } from "./fetch.js";
+import { toUtf8String } from "./utf8.js";
+
+import type {
+    FetchCancelSignal, FetchGetUrlFunc, GetUrlResponse
+} from "./fetch.js";
+
+
+// How long to pause if throttled without a Retry-After header
+const THROTTLE_DELAY = 1000;
+
+/**
+ *  The options for a [[RequestScheduler]].
+ *
+ *  **``requestsPerSecond``** - the maximum sustained rate of requests;
+ *  each call within a JSON-RPC batch counts as a request
+ *  (default: unlimited)
+ *
+ *  **``requestBurst``** - the number of requests which may be made at
+ *  once, before the rate applies (default: ``requestsPerSecond``)
+ *
+ *  **``computeUnitsPerSecond``** - the maximum sustained rate of
+ *  compute units (default: unlimited)
+ *
+ *  **``computeUnitBurst``** - the number of compute units which may be
+ *  used at once, before the rate applies
+ *  (default: ``computeUnitsPerSecond``)
+ *
+ *  **``costs``** - the compute unit cost of each method (e.g.
+ *  ``{ eth_getLogs: 75 }``)
+ *
+ *  **``defaultCost``** - the compute unit cost of any method not in
+ *  ``costs`` (default: ``1``)
+ *
+ *  **``priorities``** - the priority of each method; higher priority
+ *  requests are made first (default: ``0`` for all methods)
+ */
+export type RequestSchedulerOptions = {
+    requestsPerSecond?: number;
+    requestBurst?: number;
+
+    computeUnitsPerSecond?: number;
+    computeUnitBurst?: number;
+
+    costs?: Record<string, number>;
+    defaultCost?: number;
+
+    priorities?: Record<string, number>;
+};
+
+/**
+ *  The options for an individual request made using a
+ *  [[RequestScheduler]].
+ */
+export type RequestScheduleOptions = {
+    /**
+     *  The compute unit cost (default: ``defaultCost``, or for
+     *  JSON-RPC requests, the cost of the methods called).
+     */
+    cost?: number;
+
+    /**
+     *  The priority; higher priority requests are made first
+     *  (default: ``0``, or for JSON-RPC requests, the priority of the
+     *  methods called).
+     */
+    priority?: number;
+};
+
+// A token bucket, which refills continuously at rate tokens per second
+type Bucket = { rate: number, capacity: number, tokens: number };
+
+type Entry = {
+    requests: number;
+    cost: number;
+    priority: number;
+    resolve: () => void;
+    reject: (error: Error) => void;
+};
+
+function getTime(): number { return (new Date()).getTime(); }
+
+function createBucket(name: string, rate: undefined | number, capacity: undefined | number): null | Bucket {
+    if (rate == null || rate === Infinity) { return null; }
+    assertArgument(rate > 0, `invalid ${ name } rate`, "options", rate);
+
+    if (capacity == null) { capacity = rate; }
+    assertArgument(capacity > 0, `invalid ${ name } burst`, "options", capacity);
+
+    return { rate, capacity, tokens: capacity };
+}
+
+// Returns the ms until the bucket has amount tokens; an amount larger
+// than the capacity may be used once the bucket is full
+function getDelay(bucket: null | Bucket, amount: number): number {
+    if (bucket == null) { return 0; }
+    const target = Math.min(amount, bucket.capacity);
+    if (bucket.tokens >= target) { return 0; }
+    return Math.ceil((target - bucket.tokens) * 1000 / bucket.rate);
+}
+
+// Returns the JSON-RPC methods called by a request, if any
+function getMethods(req: FetchRequest): Array<string> {
+    const body = req.body;
+    if (body == null) { return [ ]; }
+
+    try {
+        const payload = JSON.parse(toUtf8String(body));
+        const payloads = Array.isArray(payload) ? payload: [ payload ];
+        return payloads.filter((p) => (p && typeof(p.method) === "string")).map((p) => p.method);
+    } catch (error) { }
+
+    return [ ];
+}
+
+/**
+ *  A **RequestScheduler** limits the rate of requests using a token
+ *  bucket for both the number of requests and their compute units.
+ *
+ *  A single instance may be shared by any number of providers and
+ *  [[FetchRequest]] objects, in which case the limits apply to all
+ *  their requests combined.
+ *
+ *  Requests which cannot be made immediately are queued, and made in
+ *  order of priority (and within a priority, in the order they were
+ *  scheduled) once the budget allows.
+ *
+ *  @example:
+ *    scheduler = new RequestScheduler({
+ *      requestsPerSecond: 10,
+ *      computeUnitsPerSecond: 500,
+ *      costs: { eth_call: 26, eth_getLogs: 75 },
+ *      priorities: { eth_sendRawTransaction: 1 }
+ *    });
+ *
+ *    providerA = new JsonRpcProvider(url, "mainnet", { scheduler });
+ *    providerB = new JsonRpcProvider(url, "mainnet", { scheduler });
+ */
+export class RequestScheduler {
+    #requests: null | Bucket;
+    #compute: null | Bucket;
+
+    #costs: Record<string, number>;
+    #defaultCost: number;
+    #priorities: Record<string, number>;
+
+    #queue: Array<Entry>;
+    #pausedUntil: number;
+    #lastRefill: number;
+    #timer: null | ReturnType<typeof setTimeout>;
+
+    /**
+     *  Create a new **RequestScheduler** with the limits in %%options%%.
+     */
+    constructor(options?: RequestSchedulerOptions) {
+        if (options == null) { options = { }; }
+
+        this.#requests = createBucket("request", options.requestsPerSecond, options.requestBurst);
+        this.#compute = createBucket("compute unit", options.computeUnitsPerSecond, options.computeUnitBurst);
+
+        this.#costs = Object.assign({ }, options.costs || { });
+        this.#defaultCost = (options.defaultCost != null) ? options.defaultCost: 1;
+        assertArgument(this.#defaultCost >= 0, "invalid default cost", "options.defaultCost", options.defaultCost);
+        this.#priorities = Object.assign({ }, options.priorities || { });
+
+        this.#queue = [ ];
+        this.#pausedUntil = 0;
+        this.#lastRefill = getTime();
+        this.#timer = null;
+    }
+
+    /**
+     *  The number of requests waiting to be made.
+     */
+    get queueDepth(): number {
+        return this.#queue.length;
+    }
+
+    /**
+     *  Returns the compute unit cost of %%method%%.
+     */
+    getCost(method: string): number {
+        const cost = this.#costs[method];
+        return (cost != null) ? cost: this.#defaultCost;
+    }
+
+    /**
+     *  Returns the priority of %%method%%.
+     */
+    getPriority(method: string): number {
+        return this.#priorities[method] || 0;
+    }
+
+    /**
+     *  Resolves once a request may be made within the limits, after
+     *  which the budget has been consumed.
+     */
+    acquire(options?: RequestScheduleOptions): Promise<void> {
+        if (options == null) { options = { }; }
+        const cost = (options.cost != null) ? options.cost: this.#defaultCost;
+        return this.#acquire(1, cost, options.priority || 0);
+    }
+
+    /**
+     *  Calls %%func%% once a request may be made within the limits.
+     */
+    async schedule<T>(func: () => Promise<T>, options?: RequestScheduleOptions): Promise<T> {
+        await this.acquire(options);
+        return await func();
+    }
+
+    /**
+     *  Prevents any requests from being made for %%duration%% ms.
+     *
+     *  This is called automatically if the backend responds that the
+     *  client is being throttled.
+     */
+    pause(duration: number): void {
+        this.#pausedUntil = Math.max(this.#pausedUntil, getTime() + duration);
+        this.#process();
+    }
+
+    /**
+     *  Returns a [[FetchGetUrlFunc]], which makes each request using
+     *  %%getUrlFunc%% (default: the current global getUrl function)
+     *  once it is within the limits.
+     *
+     *  The cost and priority of JSON-RPC requests are determined by the
+     *  methods called, unless overridden in %%options%%.
+     *
+     *  @example:
+     *    req = new FetchRequest(url)
+     *    req.getUrlFunc = scheduler.wrapGetUrlFunc()
+     */
+    wrapGetUrlFunc(getUrlFunc?: FetchGetUrlFunc, options?: RequestScheduleOptions): FetchGetUrlFunc {
+        if (options == null) { options = { }; }
+        const { cost, priority } = options;
+
+        return async (req: FetchRequest, signal?: FetchCancelSignal): Promise<GetUrlResponse> => {
+            // A new request uses the current global getUrl function
+            const getUrl = getUrlFunc || (new FetchRequest(req.url)).getUrlFunc;
+
+            const methods = getMethods(req);
+
+            let requests = 1, _cost = cost, _priority = priority;
+            if (_cost == null) {
+                _cost = this.#defaultCost;
+                if (methods.length) {
+                    requests = methods.length;
+                    _cost = methods.reduce((accum, m) => (accum + this.getCost(m)), 0);
+                }
+            }
+            if (_priority == null) {
+                _priority = methods.length ? Math.max(...methods.map((m) => this.getPriority(m))): 0;
+            }
+
+            await this.#acquire(requests, _cost, _priority, signal);
+
+            const response = await getUrl(req, signal);
+
+            // Throttled; stop all requests until the backend recovers
+            if (response.statusCode === 429) {
+                let delay = THROTTLE_DELAY;
+                const retryAfter = response.headers["retry-after"];
+                if (typeof(retryAfter) === "string" && retryAfter.match(/^[0-9]+$/)) {
+                    delay = parseInt(retryAfter) * 1000;
+                }
+                this.pause(delay);
+            }
+
+            return response;
+        };
+    }
+
+    #acquire(requests: number, cost: number, priority: number, signal?: FetchCancelSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const entry: Entry = { requests, cost, priority, resolve, reject };
+
+            // Insert after all entries of the same or higher priority
+            let index = this.#queue.findIndex((e) => (e.priority < priority));
+            if (index === -1) { index = this.#queue.length; }
+            this.#queue.splice(index, 0, entry);
+
+            if (signal) {
+                signal.addListener(() => {
+                    const index = this.#queue.indexOf(entry);
+                    if (index === -1) { return; }
+                    this.#queue.splice(index, 1);
+                    reject(makeError("request cancelled", "CANCELLED"));
+                    this.#process();
+                });
+            }
+
+            this.#process();
+        });
+    }
+
+    #refill(): void {
+        const now = getTime();
+        const elapsed = now - this.#lastRefill;
+        this.#lastRefill = now;
+
+        for (const bucket of [ this.#requests, this.#compute ]) {
+            if (bucket == null) { continue; }
+            bucket.tokens = Math.min(bucket.capacity, bucket.tokens + bucket.rate * elapsed / 1000);
+        }
+    }
+
+    #process(): void {
+        if (this.#timer) {
+            clearTimeout(this.#timer);
+            this.#timer = null;
+        }
+
+        this.#refill();
+
+        while (this.#queue.length) {
+            const entry = this.#queue[0];
+
+            const delay = Math.max(this.#pausedUntil - getTime(),
+                getDelay(this.#requests, entry.requests),
+                getDelay(this.#compute, entry.cost));
+
+            if (delay > 0) {
+                this.#timer = setTimeout(() => {
+                    this.#timer = null;
+                    this.#process();
+                }, delay);
+                return;
+            }
+
+            this.#queue.shift();
+            if (this.#requests) { this.#requests.tokens -= entry.requests; }
+            if (this.#compute) { this.#compute.tokens -= entry.cost; }
+            entry.resolve();
+        }
+    }
+}
@@ -1,15 +1,19 @@
 import { getAddress, resolveAddress } from "../address/index.js";
-import { hashMessage, TypedDataEncoder } from "../hash/index.js";
+import {
+    hashAuthorization, hashMessage, TypedDataEncoder
+} from "../hash/index.js";
 import { AbstractSigner, copyRequest } from "../providers/index.js";
 import { computeAddress, Transaction } from "../transaction/index.js";
 import {
-    defineProperties, resolveProperties, assert, assertArgument
+    defineProperties, getBigInt, resolveProperties, assert, assertArgument
 } from "../utils/index.js";
 
 import type { SigningKey } from "../crypto/index.js";
-import type { TypedDataDomain, TypedDataField } from "../hash/index.js";
+import type {
+    AuthorizationRequest, TypedDataDomain, TypedDataField
+} from "../hash/index.js";
 import type { Provider, TransactionRequest } from "../providers/index.js";
-import type { TransactionLike } from "../transaction/index.js";
+import type { Authorization, TransactionLike } from "../transaction/index.js";
 
 
 /**
@@ -106,6 +110,31 @@ export class BaseWallet extends AbstractSigner {
         return this.signingKey.sign(hashMessage(message)).serialized;
     }
 
+    /**
+     *  Returns the [[link-eip-7702]] authorization for %%auth%% signed
+     *  with this wallet.
+     *
+     *  The %%auth%% must be fully populated, with a ``string`` address
+     *  and explicit ``nonce`` and ``chainId``.
+     */
+    authorizeSync(auth: AuthorizationRequest): Authorization {
+        assertArgument(typeof(auth.address) === "string",
+          "invalid address for authorizeSync", "auth.address", auth);
+        assertArgument(auth.nonce != null && auth.chainId != null,
+          "authorizeSync requires a populated nonce and chainId", "auth", auth);
+
+        return {
+            address: getAddress(auth.address),
+            nonce: getBigInt(auth.nonce),
+            chainId: getBigInt(auth.chainId),
+            signature: this.signingKey.sign(hashAuthorization(auth))
+        };
+    }
+
+    async authorize(auth: AuthorizationRequest): Promise<Authorization> {
+        return this.authorizeSync(await this.populateAuthorization(auth));
+    }
+
     async signTypedData(domain: TypedDataDomain, types: Record<string, Array<TypedDataField>>, value: Record<string, any>): Promise<string> {
 
         // Populate any ENS names
@@ -0,0 +1,287 @@
+/**
+ *  An **ExternalSigner** delegates signing to a device or service
+ *  holding the private key, such as a hardware wallet, an HSM or a
+ *  remote keystore.
+ *
+ *  @_subsection: api/wallet:External Signers  [about-external-signer]
+ */
+import { getAddress, resolveAddress } from "../address/index.js";
+import { keccak256, Signature } from "../crypto/index.js";
+import {
+    encodeAuthorization, hashMessage, TypedDataEncoder
+} from "../hash/index.js";
+import { AbstractSigner, copyRequest } from "../providers/index.js";
+import { computeAddress, recoverAddress, Transaction } from "../transaction/index.js";
+import {
+    defineProperties, getBigInt, getBytes, hexlify, resolveProperties,
+    toUtf8Bytes, assert, assertArgument
+} from "../utils/index.js";
+
+import type { SignatureLike, SigningKey } from "../crypto/index.js";
+import type {
+    AuthorizationRequest, TypedDataDomain, TypedDataField
+} from "../hash/index.js";
+import type { Provider, TransactionRequest } from "../providers/index.js";
+import type { Authorization, TransactionLike } from "../transaction/index.js";
+import type { BigNumberish } from "../utils/index.js";
+
+
+/**
+ *  A request for an [[ExternalSignerTransport]] to sign a payload.
+ *
+ *  The ``payload`` depends on the ``type``:
+ *
+ *  - ``"transaction"`` - the ``unsignedSerialized`` [[Transaction]]
+ *  - ``"message"`` - the message bytes, which are signed as an
+ *    [[link-eip-191]] personal message
+ *  - ``"typed-data"`` - the [[link-eip-712]] encoded data, which is
+ *    ``0x1901``, the domain separator and the struct hash
+ *  - ``"authorization"`` - the [[link-eip-7702]] encoded authorization
+ *
+ *  The ``digest`` is the hash which must be signed, and is provided for
+ *  transports which cannot compute it. A transport to an untrusted
+ *  host should re-compute it from the ``payload``.
+ */
+export interface ExternalSignerRequest {
+    /**
+     *  The type of payload.
+     */
+    type: "transaction" | "message" | "typed-data" | "authorization";
+
+    /**
+     *  The address which is expected to sign.
+     */
+    address: string;
+
+    /**
+     *  The payload to sign, as a hex string.
+     */
+    payload: string;
+
+    /**
+     *  The hash to sign.
+     */
+    digest: string;
+
+    /**
+     *  For ``"typed-data"``, the [[link-eip-712]] JSON payload (see
+     *  [[TypedDataEncoder-getPayload]]), so the data can be displayed
+     *  for approval.
+     */
+    typedData?: any;
+}
+
+/**
+ *  An **ExternalSignerTransport** carries [[ExternalSignerRequest]]
+ *  to the device or service holding the private key.
+ */
+export interface ExternalSignerTransport {
+    /**
+     *  Resolves to the address of the account the transport signs for.
+     */
+    getAddress(): Promise<string>;
+
+    /**
+     *  Resolves to the signature for %%request%%.
+     *
+     *  If the request is rejected (e.g. by a user on the device), this
+     *  should throw an ``ACTION_REJECTED`` error.
+     */
+    sign(request: ExternalSignerRequest): Promise<SignatureLike>;
+}
+
+/**
+ *  A **LoopbackTransport** is an [[ExternalSignerTransport]] which
+ *  signs using a local [[SigningKey]].
+ *
+ *  This is useful for testing code which uses an [[ExternalSigner]],
+ *  and as a reference for implementing a transport.
+ */
+export class LoopbackTransport implements ExternalSignerTransport {
+    /**
+     *  The address of the %%signingKey%%.
+     */
+    readonly address!: string;
+
+    readonly #signingKey: SigningKey;
+
+    /**
+     *  Create a new **LoopbackTransport** which signs using
+     *  %%signingKey%%.
+     */
+    constructor(signingKey: SigningKey) {
+        this.#signingKey = signingKey;
+        defineProperties<LoopbackTransport>(this, {
+            address: computeAddress(signingKey.publicKey)
+        });
+    }
+
+    async getAddress(): Promise<string> { return this.address; }
+
+    async sign(request: ExternalSignerRequest): Promise<SignatureLike> {
+        assertArgument(getAddress(request.address) === this.address,
+            "request address mismatch", "request.address", request.address);
+
+        // A device computes the digest itself, rather than trusting the host
+        let digest: string;
+        switch (request.type) {
+            case "transaction": {
+                const tx = Transaction.from(request.payload);
+                digest = tx.unsignedHash;
+                break;
+            }
+            case "message":
+                digest = hashMessage(getBytes(request.payload));
+                break;
+            case "typed-data":
+            case "authorization":
+                digest = keccak256(request.payload);
+                break;
+            default:
+                assertArgument(false, "unsupported request type", "request.type", request.type);
+        }
+
+        return this.#signingKey.sign(digest);
+    }
+}
+
+/**
+ *  An **ExternalSigner** is a [[Signer]] which sends each payload to
+ *  sign through an [[ExternalSignerTransport]].
+ *
+ *  Every signature returned by the transport is verified against the
+ *  signer address, so a faulty or compromised transport cannot cause
+ *  an unexpected account to sign.
+ *
+ *  @example:
+ *    transport = new LoopbackTransport(new SigningKey(privateKey))
+ *    signer = await ExternalSigner.from(transport, provider)
+ */
+export class ExternalSigner extends AbstractSigner {
+    /**
+     *  The signer address.
+     */
+    readonly address!: string;
+
+    /**
+     *  The transport used to sign.
+     */
+    readonly transport!: ExternalSignerTransport;
+
+    /**
+     *  Creates a new **ExternalSigner** for %%address%%, which signs
+     *  using %%transport%%, optionally connected to %%provider%%.
+     */
+    constructor(address: string, transport: ExternalSignerTransport, provider?: null | Provider) {
+        super(provider);
+        defineProperties<ExternalSigner>(this, {
+            address: getAddress(address), transport
+        });
+    }
+
+    /**
+     *  Resolves to a new **ExternalSigner** for the account of
+     *  %%transport%%, optionally connected to %%provider%%.
+     */
+    static async from(transport: ExternalSignerTransport, provider?: null | Provider): Promise<ExternalSigner> {
+        return new ExternalSigner(await transport.getAddress(), transport, provider);
+    }
+
+    async getAddress(): Promise<string> { return this.address; }
+
+    connect(provider: null | Provider): ExternalSigner {
+        return new ExternalSigner(this.address, this.transport, provider);
+    }
+
+    async #sign(type: ExternalSignerRequest["type"], payload: string, digest: string, typedData?: any): Promise<Signature> {
+        const request: ExternalSignerRequest = { type, address: this.address, payload, digest };
+        if (typedData != null) { request.typedData = typedData; }
+
+        const result = await this.transport.sign(request);
+
+        let signature: Signature;
+        try {
+            signature = Signature.from(result);
+        } catch (error) {
+            assert(false, "invalid signature from transport", "BAD_DATA", {
+                value: result, info: { request }
+            });
+        }
+
+        const address = recoverAddress(digest, signature);
+        assert(address === this.address, "signature from transport does not match signer address", "BAD_DATA", {
+            value: result, info: { request, address }
+        });
+
+        return signature;
+    }
+
+    async signTransaction(tx: TransactionRequest): Promise<string> {
+        tx = copyRequest(tx);
+
+        // Replace any Addressable or ENS name with an address
+        const { to, from } = await resolveProperties({
+            to: (tx.to ? resolveAddress(tx.to, this.provider): undefined),
+            from: (tx.from ? resolveAddress(tx.from, this.provider): undefined)
+        });
+
+        if (to != null) { tx.to = to; }
+        if (from != null) { tx.from = from; }
+
+        if (tx.from != null) {
+            assertArgument(getAddress(<string>(tx.from)) === this.address,
+                "transaction from address mismatch", "tx.from", tx.from);
+            delete tx.from;
+        }
+
+        // Build the transaction
+        const btx = Transaction.from(<TransactionLike<string>>tx);
+        btx.signature = await this.#sign("transaction", btx.unsignedSerialized, btx.unsignedHash);
+
+        return btx.serialized;
+    }
+
+    async signMessage(message: string | Uint8Array): Promise<string> {
+        const payload = hexlify((typeof(message) === "string") ? toUtf8Bytes(message): message);
+        const signature = await this.#sign("message", payload, hashMessage(message));
+        return signature.serialized;
+    }
+
+    async signTypedData(domain: TypedDataDomain, types: Record<string, Array<TypedDataField>>, value: Record<string, any>): Promise<string> {
+
+        // Populate any ENS names
+        const populated = await TypedDataEncoder.resolveNames(domain, types, value, async (name: string) => {
+            assert(this.provider != null, "cannot resolve ENS names without a provider", "UNSUPPORTED_OPERATION", {
+                operation: "resolveName",
+                info: { name }
+            });
+
+            const address = await this.provider.resolveName(name);
+            assert(address != null, "unconfigured ENS name", "UNCONFIGURED_NAME", {
+                value: name
+            });
+
+            return address;
+        });
+
+        const payload = TypedDataEncoder.encode(populated.domain, types, populated.value);
+        const typedData = TypedDataEncoder.getPayload(populated.domain, types, populated.value);
+
+        const signature = await this.#sign("typed-data", payload, keccak256(payload), typedData);
+        return signature.serialized;
+    }
+
+    async authorize(_auth: AuthorizationRequest): Promise<Authorization> {
+        const auth = await this.populateAuthorization(_auth);
+
+        const payload = encodeAuthorization(auth);
+        const signature = await this.#sign("authorization", payload, keccak256(payload));
+
+        return {
+            address: getAddress(<string>(auth.address)),
+            nonce: getBigInt(<BigNumberish>(auth.nonce)),
+            chainId: getBigInt(<BigNumberish>(auth.chainId)),
+            signature
+        };
+    }
+}
@@ -19,6 +19,8 @@
 
 export { BaseWallet } from "./base-wallet.js";
 
+export { ExternalSigner, LoopbackTransport } from "./external-signer.js";
+
 export {
     defaultPath,
 
@@ -41,6 +43,10 @@ export { Mnemonic } from "./mnemonic.js";
 export { Wallet } from "./wallet.js";
 
 
+export type {
+    ExternalSignerRequest, ExternalSignerTransport
+} from "./external-signer.js";
+
 export type { CrowdsaleAccount } from "./json-crowdsale.js";
 export type {
     KeystoreAccount, EncryptOptions